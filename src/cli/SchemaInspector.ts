@@ -12,7 +12,9 @@ import {
   TableDefinition,
   AppSheetFieldType,
   FieldDefinition,
+  LoggerInterface,
 } from '../types';
+import { ConsoleLogger } from '../utils/logging';
 
 /**
  * Result of locale detection from date values.
@@ -67,7 +69,14 @@ export class SchemaInspector {
   private static readonly LOCALE_DATETIME_PATTERN =
     /^\d{1,4}[./]\d{1,2}[./]\d{1,4}\s+\d{1,2}:\d{2}/;
 
-  constructor(private client: AppSheetClient) {}
+  /**
+   * @param client - Client used to fetch sample rows
+   * @param logger - Optional logger for progress output (default: ConsoleLogger)
+   */
+  constructor(
+    private client: AppSheetClient,
+    private readonly logger: LoggerInterface = new ConsoleLogger()
+  ) {}
 
   /**
    * Inspect a specific table and infer its schema.
@@ -430,7 +439,7 @@ export class SchemaInspector {
     const detectedLocales: string[] = [];
 
     for (const tableName of tableNames) {
-      console.log(`Inspecting table: ${tableName}...`);
+      this.logger.info(`Inspecting table: ${tableName}...`);
       const inspection = await this.inspectTable(tableName);
 
       const tableDef: TableDefinition = {
@@ -448,7 +457,7 @@ export class SchemaInspector {
       tables[this.toSchemaName(tableName)] = tableDef;
 
       if (inspection.warning) {
-        console.warn(`  Warning: ${inspection.warning}`);
+        this.logger.warn(`  Warning: ${inspection.warning}`);
       }
     }
 
@@ -546,7 +555,7 @@ export class SchemaInspector {
 
       return [];
     } catch (error) {
-      console.error('Failed to discover tables:', error);
+      this.logger.error('Failed to discover tables', { error });
       return [];
     }
   }
@@ -555,8 +564,8 @@ export class SchemaInspector {
    * Interactive prompt for table names
    */
   async promptForTables(): Promise<string[]> {
-    console.log('\nAutomatic table discovery is not available.');
-    console.log('Please enter table names manually.\n');
+    this.logger.info('\nAutomatic table discovery is not available.');
+    this.logger.info('Please enter table names manually.\n');
 
     const rl = readline.createInterface({
       input: process.stdin,
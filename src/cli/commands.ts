@@ -7,16 +7,26 @@ import * as yaml from 'yaml';
 import * as fs from 'fs';
 import { AppSheetClient } from '../client';
 import { SchemaInspector } from './SchemaInspector';
-import { SchemaLoader } from '../utils';
-import { SchemaConfig, ConnectionDefinition, TableDefinition } from '../types';
+import { SchemaLoader, ConsoleLogger } from '../utils';
+import { SchemaConfig, ConnectionDefinition, TableDefinition, LoggerInterface } from '../types';
 
 /**
  * Create CLI program with all commands
+ *
+ * @param logger - Optional logger for all output (default: ConsoleLogger,
+ *   at debug level with `--verbose`)
  */
-export function createCLI(): Command {
+export function createCLI(logger?: LoggerInterface): Command {
   const program = new Command();
 
-  program.name('appsheet').description('AppSheet Schema Management CLI').version('0.1.0');
+  program
+    .name('appsheet')
+    .description('AppSheet Schema Management CLI')
+    .version('0.1.0')
+    .option('-v, --verbose', 'Log API requests and other debug output', false);
+
+  const getLogger = (): LoggerInterface =>
+    logger ?? new ConsoleLogger(program.opts().verbose ? 'debug' : 'info');
 
   // Command: init
   program
@@ -39,7 +49,7 @@ export function createCLI(): Command {
         options.format === 'json' ? JSON.stringify(schema, null, 2) : yaml.stringify(schema);
 
       fs.writeFileSync(options.output, output, 'utf-8');
-      console.log(`✓ Schema file created: ${options.output}`);
+      getLogger().info(`✓ Schema file created: ${options.output}`);
     });
 
   // Command: inspect
@@ -55,6 +65,7 @@ export function createCLI(): Command {
     .option('-f, --format <format>', 'Output format (yaml|json)', 'yaml')
     .option('--auto-discover', 'Attempt to automatically discover all tables', false)
     .action(async (options) => {
+      const log = getLogger();
       try {
         // Create a minimal connection definition for inspection
         // (tables are not known yet - we're discovering them)
@@ -67,30 +78,32 @@ export function createCLI(): Command {
         // runAsUserEmail is required in v3.0.0 - use provided or default
         const runAsUserEmail = options.runAsUserEmail || 'cli@appsheet.local';
 
-        const client = new AppSheetClient(connectionDef, runAsUserEmail);
-        const inspector = new SchemaInspector(client);
+        const client = new AppSheetClient(connectionDef, runAsUserEmail, undefined, {
+          logger: log,
+        });
+        const inspector = new SchemaInspector(client, log);
         let tableNames: string[];
 
         // Determine table names
         if (options.tables) {
           tableNames = options.tables.split(',').map((t: string) => t.trim());
         } else {
-          console.log('No tables specified. Attempting auto-discovery...');
+          log.info('No tables specified. Attempting auto-discovery...');
           tableNames = await inspector.discoverTables();
 
           if (tableNames.length === 0) {
             tableNames = await inspector.promptForTables();
           } else {
-            console.log(`✓ Discovered ${tableNames.length} tables: ${tableNames.join(', ')}`);
+            log.info(`✓ Discovered ${tableNames.length} tables: ${tableNames.join(', ')}`);
           }
         }
 
         if (tableNames.length === 0) {
-          console.error('No tables specified. Aborting.');
+          log.error('No tables specified. Aborting.');
           process.exit(1);
         }
 
-        console.log(`\nInspecting ${tableNames.length} tables...`);
+        log.info(`\nInspecting ${tableNames.length} tables...`);
         const connection = await inspector.generateSchema(options.connectionName, tableNames);
 
         const schema: SchemaConfig = {
@@ -103,22 +116,20 @@ export function createCLI(): Command {
           options.format === 'json' ? JSON.stringify(schema, null, 2) : yaml.stringify(schema);
 
         fs.writeFileSync(options.output, output, 'utf-8');
-        console.log(`\n✓ Schema generated: ${options.output}`);
-        console.log('✓ Inspected tables:', tableNames.join(', '));
+        log.info(`\n✓ Schema generated: ${options.output}`);
+        log.info(`✓ Inspected tables: ${tableNames.join(', ')}`);
         if (connection.locale) {
-          console.log(`✓ Locale detected: ${connection.locale}`);
+          log.info(`✓ Locale detected: ${connection.locale}`);
         }
-        console.log('\nPlease review and update:');
-        console.log('  - Key fields may need manual adjustment');
-        console.log('  - Field types are inferred and may need refinement');
-        console.log('  - Add required, enum, and description properties as needed');
+        log.info('\nPlease review and update:');
+        log.info('  - Key fields may need manual adjustment');
+        log.info('  - Field types are inferred and may need refinement');
+        log.info('  - Add required, enum, and description properties as needed');
         if (!connection.locale) {
-          console.log(
-            '  - No locale detected. Consider adding locale manually for date validation.'
-          );
+          log.info('  - No locale detected. Consider adding locale manually for date validation.');
         }
       } catch (error: any) {
-        console.error('Error:', error.message);
+        log.error(`Error: ${error.message}`);
         process.exit(1);
       }
     });
@@ -129,20 +140,21 @@ export function createCLI(): Command {
     .description('Validate schema file')
     .option('-s, --schema <path>', 'Schema file path', 'config/appsheet-schema.yaml')
     .action((options) => {
+      const log = getLogger();
       try {
         const content = fs.readFileSync(options.schema, 'utf-8');
         const schema = yaml.parse(content);
         const validation = SchemaLoader.validate(schema);
 
         if (validation.valid) {
-          console.log('✓ Schema is valid');
+          log.info('✓ Schema is valid');
         } else {
-          console.error('✗ Schema validation failed:');
-          validation.errors.forEach((err) => console.error(`  - ${err}`));
+          log.error('✗ Schema validation failed:');
+          validation.errors.forEach((err) => log.error(`  - ${err}`));
           process.exit(1);
         }
       } catch (error: any) {
-        console.error('Error:', error.message);
+        log.error(`Error: ${error.message}`);
         process.exit(1);
       }
     });
@@ -153,6 +165,7 @@ export function createCLI(): Command {
     .description('Add a table to an existing connection')
     .option('-s, --schema <path>', 'Schema file path', 'config/appsheet-schema.yaml')
     .action(async (connection, tableName, options) => {
+      const log = getLogger();
       try {
         // Load existing schema
         const existingContent = fs.readFileSync(options.schema, 'utf-8');
@@ -166,11 +179,11 @@ export function createCLI(): Command {
         const connDef = schema.connections[connection];
         // runAsUserEmail is required in v3.0.0 - use schema config or default
         const runAsUserEmail = connDef.runAsUserEmail || 'cli@appsheet.local';
-        const client = new AppSheetClient(connDef, runAsUserEmail);
+        const client = new AppSheetClient(connDef, runAsUserEmail, undefined, { logger: log });
 
-        const inspector = new SchemaInspector(client);
+        const inspector = new SchemaInspector(client, log);
 
-        console.log(`Inspecting table "${tableName}"...`);
+        log.info(`Inspecting table "${tableName}"...`);
         const inspection = await inspector.inspectTable(tableName);
 
         // Add to schema
@@ -189,18 +202,18 @@ export function createCLI(): Command {
         schema.connections[connection].tables[schemaName] = tableDef;
 
         if (inspection.warning) {
-          console.warn(`  Warning: ${inspection.warning}`);
+          log.warn(`  Warning: ${inspection.warning}`);
         }
 
         // Write back
         const output = yaml.stringify(schema);
         fs.writeFileSync(options.schema, output, 'utf-8');
-        console.log(`✓ Table "${tableName}" added to connection "${connection}"`);
+        log.info(`✓ Table "${tableName}" added to connection "${connection}"`);
         if (inspection.locale) {
-          console.log(`✓ Locale detected: ${inspection.locale}`);
+          log.info(`✓ Locale detected: ${inspection.locale}`);
         }
       } catch (error: any) {
-        console.error('Error:', error.message);
+        log.error(`Error: ${error.message}`);
         process.exit(1);
       }
     });
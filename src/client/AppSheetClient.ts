@@ -4,7 +4,7 @@
  * @category Client
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
 import {
   AppSheetClientInterface,
   ConnectionDefinition,
@@ -14,10 +14,14 @@ import {
   FindOptions,
   UpdateOptions,
   DeleteOptions,
+  InvokeActionOptions,
+  UpsertOptions,
   AddResponse,
   FindResponse,
   UpdateResponse,
   DeleteResponse,
+  InvokeActionResponse,
+  UpsertResponse,
   ApiResponse,
   AppSheetError,
   AuthenticationError,
@@ -25,9 +29,50 @@ import {
   NotFoundError,
   RateLimitError,
   NetworkError,
+  CancellationError,
+  RequestControlOptions,
   SelectorBuilderInterface,
+  AppSheetClientOptions,
+  RetryPolicyInterface,
+  RetryEvent,
+  RequestLimiterInterface,
+  BatchResult,
+  ChunkResult,
+  PartialBatchError,
+  Middleware,
+  RequestContext,
+  RequestPayload,
+  LoggerInterface,
+  MetricsCollectorInterface,
+  RequestCoalescerInterface,
+  CircuitBreakerInterface,
+  SpanInterface,
+  TracerInterface,
 } from '../types';
-import { SelectorBuilder } from '../utils/SelectorBuilder';
+import { SelectorBuilder, applyOrderAndLimit } from '../utils/SelectorBuilder';
+import { DEFAULT_KEYS_PER_REQUEST, where } from '../utils/QueryBuilder';
+import { ActionValidator, SelectorValidator } from '../utils/validators';
+import { BackoffRetryPolicy } from '../utils/policies';
+import { RequestLimiter } from '../utils/RequestLimiter';
+import { RedactingLogger } from '../utils/logging';
+import { NoOpMetricsCollector } from '../utils/metrics';
+import { RequestCoalescer } from '../utils/RequestCoalescer';
+import { NoOpTracer, SpanAttributeNames, hashSelector, traceOperation } from '../utils/tracing';
+
+/**
+ * Span of a client operation and its retry count across all requests.
+ */
+interface OperationTrace {
+  span: SpanInterface;
+  retries: number;
+}
+
+/**
+ * Merged response of a row operation, with the chunk outcomes if it was chunked.
+ */
+interface RowsResponse<T> extends ApiResponse<T> {
+  chunks?: ChunkResult[];
+}
 
 /**
  * AppSheet API client for performing CRUD operations on AppSheet tables.
@@ -69,7 +114,15 @@ export class AppSheetClient implements AppSheetClientInterface {
   private readonly axios: AxiosInstance;
   private readonly connectionDef: ConnectionDefinition;
   private readonly runAsUserEmail: string;
-  private readonly retryAttempts: number;
+  private readonly retryPolicy: RetryPolicyInterface;
+  private readonly onRetry?: (event: RetryEvent) => void;
+  private readonly limiter?: RequestLimiterInterface;
+  private readonly middleware: Middleware[];
+  private readonly logger: LoggerInterface;
+  private readonly tracer: TracerInterface;
+  private readonly metrics: MetricsCollectorInterface;
+  private readonly coalescer: RequestCoalescerInterface;
+  private readonly circuitBreaker?: CircuitBreakerInterface;
   private readonly selectorBuilder: SelectorBuilderInterface;
 
   /**
@@ -78,6 +131,8 @@ export class AppSheetClient implements AppSheetClientInterface {
    * @param connectionDef - Full connection definition including app credentials and table schemas
    * @param runAsUserEmail - Email of the user to execute all operations as (required)
    * @param selectorBuilder - Optional custom SelectorBuilder for DI/AOP extensibility (defaults to SelectorBuilder)
+   * @param options - Optional runtime options (retry policy, retry callback, request limiter,
+   *   middleware, logger, tracer, metrics collector, request coalescer, circuit breaker)
    *
    * @example
    * ```typescript
@@ -89,16 +144,33 @@ export class AppSheetClient implements AppSheetClientInterface {
    * };
    *
    * const client = new AppSheetClient(connectionDef, 'user@example.com');
+   *
+   * // With custom retry behavior
+   * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+   *   retryPolicy: new BackoffRetryPolicy({ maxAttempts: 5 }),
+   *   onRetry: (event) => logger.warn('Retrying AppSheet request', event),
+   * });
    * ```
    */
   constructor(
     connectionDef: ConnectionDefinition,
     runAsUserEmail: string,
-    selectorBuilder?: SelectorBuilderInterface
+    selectorBuilder?: SelectorBuilderInterface,
+    options?: AppSheetClientOptions
   ) {
     this.connectionDef = connectionDef;
     this.runAsUserEmail = runAsUserEmail;
-    this.retryAttempts = 3; // Default retry attempts
+    this.retryPolicy = options?.retryPolicy ?? new BackoffRetryPolicy(connectionDef.retry);
+    this.onRetry = options?.onRetry;
+    this.limiter =
+      options?.limiter ??
+      (connectionDef.rateLimit ? new RequestLimiter(connectionDef.rateLimit) : undefined);
+    this.middleware = [...(options?.middleware ?? [])];
+    this.logger = RedactingLogger.wrap(options);
+    this.tracer = options?.tracer ?? new NoOpTracer();
+    this.metrics = options?.metrics ?? new NoOpMetricsCollector();
+    this.coalescer = options?.coalescer ?? new RequestCoalescer();
+    this.circuitBreaker = options?.circuitBreaker;
     this.selectorBuilder = selectorBuilder ?? new SelectorBuilder();
 
     // Apply defaults
@@ -116,6 +188,39 @@ export class AppSheetClient implements AppSheetClientInterface {
     });
   }
 
+  /**
+   * Register a middleware around every API call of this client.
+   *
+   * Middlewares run in registration order (after those passed via options) and
+   * see the action, table name, payload, properties and headers before the
+   * request, and the response or error afterwards.
+   *
+   * @param middleware - Middleware function `(ctx, next) => Promise<void>`
+   * @returns This client (for chaining)
+   *
+   * @example
+   * ```typescript
+   * client
+   *   .use(async (ctx, next) => {
+   *     ctx.headers['X-Request-Id'] = randomUUID();
+   *     await next();
+   *   })
+   *   .use(async (ctx, next) => {
+   *     try {
+   *       await next();
+   *       audit.log(ctx.action, ctx.tableName, ctx.response?.Rows?.length);
+   *     } catch (error) {
+   *       audit.fail(ctx.action, ctx.tableName, error);
+   *       throw error;
+   *     }
+   *   });
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   /**
    * Add (Create) one or more rows to a table.
    *
@@ -125,6 +230,7 @@ export class AppSheetClient implements AppSheetClientInterface {
    * @throws {AuthenticationError} If authentication fails
    * @throws {ValidationError} If the data is invalid
    * @throws {NetworkError} If the request fails due to network issues
+   * @throws {PartialBatchError} If some chunks of a chunked batch failed
    *
    * @example
    * ```typescript
@@ -136,28 +242,29 @@ export class AppSheetClient implements AppSheetClientInterface {
    *   ]
    * });
    * console.log('Created users:', result.rows);
+   *
+   * // Large import: 500 rows per request, 2 requests in parallel
+   * await client.add({ tableName: 'Users', rows: manyUsers, batch: { maxRowsPerRequest: 500, concurrency: 2 } });
    * ```
    */
   async add<T = Record<string, any>>(options: AddOptions<T>): Promise<AddResponse<T>> {
-    const url = `/apps/${this.connectionDef.appId}/tables/${options.tableName}/Action`;
+    return this.traced('add', 'Add', options.tableName, options.rows.length, async (trace) => {
+      const response = await this.requestRows<T>('Add', options, trace);
 
-    const payload = {
-      Action: 'Add',
-      Properties: this.mergeProperties(options.properties),
-      Rows: options.rows,
-    };
-
-    const response = await this.request<ApiResponse<T>>(url, payload);
-
-    return {
-      rows: response.Rows || [],
-      warnings: response.Warnings,
-    };
+      return {
+        rows: response.Rows || [],
+        warnings: response.Warnings,
+        ...(response.chunks && { chunks: response.chunks }),
+      };
+    });
   }
 
   /**
    * Find (Read) rows from a table with optional filtering.
    *
+   * Identical Finds (same table, selector and properties) that run concurrently
+   * share one API request and its result, unless `coalesce: false` is passed.
+   *
    * @template T - The type of the rows being retrieved
    * @param options - Options for the find operation
    * @returns Promise resolving to the found rows
@@ -175,17 +282,27 @@ export class AppSheetClient implements AppSheetClientInterface {
    *   tableName: 'Users',
    *   selector: '[Status] = "Active"'
    * });
+   *
+   * // Find the 10 most recent rows
+   * const recent = await client.find({
+   *   tableName: 'Users',
+   *   orderBy: [{ field: 'CreatedAt', direction: 'desc' }],
+   *   limit: 10
+   * });
+   * // Selector: 'Top(OrderBy(Filter(Users, TRUE), [CreatedAt], TRUE), 10)'
    * ```
    */
   async find<T = Record<string, any>>(options: FindOptions): Promise<FindResponse<T>> {
     const url = `/apps/${this.connectionDef.appId}/tables/${options.tableName}/Action`;
 
+    if (options.validateSelector && options.selector) {
+      this.validateSelector(options.tableName, options.selector);
+    }
+
     const properties = this.mergeProperties(options.properties);
-    if (options.selector) {
-      properties.Selector = this.selectorBuilder.ensureFunction(
-        options.selector,
-        options.tableName
-      );
+    const selector = this.buildSelector(options);
+    if (selector) {
+      properties.Selector = selector;
     }
 
     const payload = {
@@ -194,12 +311,32 @@ export class AppSheetClient implements AppSheetClientInterface {
       Rows: [],
     };
 
-    const response = await this.request<ApiResponse<T>>(url, payload);
+    return this.traced('find', 'Find', options.tableName, undefined, async (trace) => {
+      if (selector) {
+        trace.span.setAttribute(SpanAttributeNames.SELECTOR_HASH, hashSelector(selector));
+      }
 
-    return {
-      rows: response.Rows || [],
-      warnings: response.Warnings,
-    };
+      const send = () =>
+        this.request<ApiResponse<T>>(url, payload, options.tableName, trace, options);
+      let response: ApiResponse<T>;
+      if (options.coalesce === false || options.signal || options.timeoutMs !== undefined) {
+        response = await send();
+      } else {
+        const key = JSON.stringify([this.connectionDef.appId, options.tableName, properties]);
+        if (this.coalescer.isInFlight(key)) {
+          trace.span.setAttribute(SpanAttributeNames.COALESCED, true);
+        }
+        response = await this.coalescer.run(key, send);
+      }
+      // Coalesced callers share the response, so each gets its own copy of the rows
+      const rows = (response.Rows || []).map((row) => ({ ...row }));
+      trace.span.setAttribute(SpanAttributeNames.ROW_COUNT, rows.length);
+
+      return {
+        rows,
+        warnings: response.Warnings && [...response.Warnings],
+      };
+    });
   }
 
   /**
@@ -214,6 +351,7 @@ export class AppSheetClient implements AppSheetClientInterface {
    * @throws {ValidationError} If the data is invalid or key field is missing
    * @throws {NotFoundError} If the row to update doesn't exist
    * @throws {NetworkError} If the request fails due to network issues
+   * @throws {PartialBatchError} If some chunks of a chunked batch failed
    *
    * @example
    * ```typescript
@@ -227,34 +365,32 @@ export class AppSheetClient implements AppSheetClientInterface {
    * ```
    */
   async update<T = Record<string, any>>(options: UpdateOptions<T>): Promise<UpdateResponse<T>> {
-    const url = `/apps/${this.connectionDef.appId}/tables/${options.tableName}/Action`;
-
-    const payload = {
-      Action: 'Edit',
-      Properties: this.mergeProperties(options.properties),
-      Rows: options.rows,
-    };
+    return this.traced('update', 'Edit', options.tableName, options.rows.length, async (trace) => {
+      const response = await this.requestRows<T>('Edit', options, trace);
 
-    const response = await this.request<ApiResponse<T>>(url, payload);
-
-    return {
-      rows: response.Rows || [],
-      warnings: response.Warnings,
-    };
+      return {
+        rows: response.Rows || [],
+        warnings: response.Warnings,
+        ...(response.chunks && { chunks: response.chunks }),
+      };
+    });
   }
 
   /**
    * Delete one or more rows from a table.
    *
    * Rows must include the key field (primary key) to identify which row to delete.
+   * The rows returned by the API determine which of the requested rows were
+   * deleted (`deletedKeys`) and which did not exist (`notFoundKeys`).
    *
    * @template T - The type of the rows being deleted
    * @param options - Options for the delete operation
-   * @returns Promise resolving to deletion result with count
+   * @returns Promise resolving to deletion result with deleted and not found rows
    * @throws {AuthenticationError} If authentication fails
    * @throws {ValidationError} If the key field is missing
-   * @throws {NotFoundError} If the row to delete doesn't exist
+   * @throws {NotFoundError} If `strict` is set and a row to delete doesn't exist
    * @throws {NetworkError} If the request fails due to network issues
+   * @throws {PartialBatchError} If some chunks of a chunked batch failed
    *
    * @example
    * ```typescript
@@ -265,24 +401,182 @@ export class AppSheetClient implements AppSheetClientInterface {
    *     { id: '456' }
    *   ]
    * });
+   *
+   * // Fail if a row did not exist
+   * const result = await client.delete({ tableName: 'Users', rows: [{ id: '123' }], strict: true });
    * ```
    */
-  async delete<T = Record<string, any>>(options: DeleteOptions<T>): Promise<DeleteResponse> {
-    const url = `/apps/${this.connectionDef.appId}/tables/${options.tableName}/Action`;
+  async delete<T = Record<string, any>>(options: DeleteOptions<T>): Promise<DeleteResponse<T>> {
+    return this.traced(
+      'delete',
+      'Delete',
+      options.tableName,
+      options.rows.length,
+      async (trace) => {
+        const response = await this.requestRows<T>('Delete', options, trace);
 
-    const payload = {
-      Action: 'Delete',
-      Properties: this.mergeProperties(options.properties),
-      Rows: options.rows,
-    };
+        return this.buildDeleteResponse(options, response);
+      }
+    );
+  }
+
+  /**
+   * Create or update rows, depending on whether their key already exists.
+   *
+   * Existing keys are looked up with `IN([key], LIST(...))` Finds on the table's
+   * key field (`keysPerRequest` keys per request). Rows with an existing key are
+   * sent as one Edit, all other rows as one Add; rows without a key value are
+   * always added. If a key occurs more than once, the first row is added and the
+   * later ones are applied as edits.
+   *
+   * The lookup and the writes are separate requests, so a row added concurrently
+   * by someone else between them makes the Add fail.
+   *
+   * @template T - The type of the rows
+   * @param options - Options for the upsert operation
+   * @returns Promise resolving to the created and updated rows
+   * @throws {ValidationError} If the table is not defined in the connection schema or keysPerRequest is invalid
+   * @throws {AuthenticationError} If authentication fails
+   * @throws {NetworkError} If the request fails due to network issues
+   * @throws {PartialBatchError} If some chunks of a chunked batch failed
+   *
+   * @example
+   * ```typescript
+   * const result = await client.upsert({
+   *   tableName: 'Users',
+   *   rows: [
+   *     { id: '123', name: 'John Updated' },
+   *     { id: '999', name: 'New User' }
+   *   ]
+   * });
+   * console.log(`${result.created.length} created, ${result.updated.length} updated`);
+   * ```
+   */
+  async upsert<T = Record<string, any>>(options: UpsertOptions<T>): Promise<UpsertResponse<T>> {
+    const tableDef = this.findTableDef(options.tableName);
+    if (!tableDef) {
+      throw new ValidationError(
+        `Cannot upsert into table "${options.tableName}": table is not defined in the connection schema`,
+        { tableName: options.tableName }
+      );
+    }
+    const keysPerRequest = options.keysPerRequest ?? DEFAULT_KEYS_PER_REQUEST;
+    if (!Number.isInteger(keysPerRequest) || keysPerRequest < 1) {
+      throw new ValidationError(
+        `keysPerRequest must be a positive integer, got: ${keysPerRequest}`
+      );
+    }
 
-    const response = await this.request<ApiResponse<T>>(url, payload);
+    return this.traced('upsert', 'Upsert', options.tableName, options.rows.length, async () => {
+      const { keyField } = tableDef;
+      const control: RequestControlOptions = {
+        signal: options.signal,
+        timeoutMs: options.timeoutMs,
+      };
+      const keyOf = (row: T) => (row as Record<string, string | number | undefined>)[keyField];
+      const hasKey = (key: unknown) => key !== undefined && key !== null && key !== '';
 
-    return {
-      success: true,
-      deletedCount: options.rows.length,
-      warnings: response.Warnings,
-    };
+      // Request each key once, keeping its original type for the selector
+      const keys = [
+        ...new Map(
+          options.rows
+            .map(keyOf)
+            .filter(hasKey)
+            .map((key) => [String(key), key as string | number])
+        ).values(),
+      ];
+      const known = new Set<string>();
+      for (let offset = 0; offset < keys.length; offset += keysPerRequest) {
+        const result = await this.find<Record<string, unknown>>({
+          tableName: options.tableName,
+          selector: where(keyField)
+            .in(keys.slice(offset, offset + keysPerRequest))
+            .build(tableDef, this.selectorBuilder),
+          properties: options.properties,
+          ...control,
+        });
+        result.rows.forEach((row) => known.add(String(row[keyField])));
+      }
+
+      const toAdd: T[] = [];
+      const toUpdate: T[] = [];
+      for (const row of options.rows) {
+        const key = keyOf(row);
+        if (hasKey(key) && known.has(String(key))) {
+          toUpdate.push(row);
+        } else {
+          toAdd.push(row);
+          if (hasKey(key)) {
+            known.add(String(key));
+          }
+        }
+      }
+
+      const write = {
+        tableName: options.tableName,
+        properties: options.properties,
+        batch: options.batch,
+        ...control,
+      };
+      const added = toAdd.length > 0 ? await this.add<T>({ ...write, rows: toAdd }) : undefined;
+      const updated =
+        toUpdate.length > 0 ? await this.update<T>({ ...write, rows: toUpdate }) : undefined;
+      const warnings = [...(added?.warnings || []), ...(updated?.warnings || [])];
+
+      return {
+        rows: [...(added?.rows || []), ...(updated?.rows || [])],
+        created: added?.rows || [],
+        updated: updated?.rows || [],
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    });
+  }
+
+  /**
+   * Invoke a named action (e.g. "Mark Complete") defined in the AppSheet app.
+   *
+   * Rows must include the key field. The action must be declared in the table's
+   * `actions` if the table is defined in the connection schema. Named actions
+   * are not retried on server errors, because they may not be idempotent.
+   *
+   * @template T - The type of the rows
+   * @param options - Options for the action
+   * @returns Promise resolving to the rows returned by the API
+   * @throws {ValidationError} If the action is not declared for the table or the data is invalid
+   * @throws {AuthenticationError} If authentication fails
+   * @throws {NotFoundError} If the table or action doesn't exist
+   * @throws {NetworkError} If the request fails due to network issues
+   * @throws {PartialBatchError} If some chunks of a chunked batch failed
+   *
+   * @example
+   * ```typescript
+   * await client.invokeAction({
+   *   tableName: 'Tasks',
+   *   action: 'Mark Complete',
+   *   rows: [{ id: '123' }, { id: '456' }]
+   * });
+   * ```
+   */
+  async invokeAction<T = Record<string, any>>(
+    options: InvokeActionOptions<T>
+  ): Promise<InvokeActionResponse<T>> {
+    const tableDef = this.findTableDef(options.tableName);
+    ActionValidator.validate(options.action, tableDef, options.tableName);
+
+    return this.traced(
+      'invokeAction',
+      options.action,
+      options.tableName,
+      options.rows.length,
+      async (trace) => {
+        const response = await this.requestRows<T>(options.action, options, trace);
+
+        return {
+          rows: response.Rows || [],
+          warnings: response.Warnings,
+        };
+      }
+    );
   }
 
   /**
@@ -415,61 +709,444 @@ export class AppSheetClient implements AppSheetClientInterface {
   }
 
   /**
-   * Execute request with retry logic and error handling.
+   * Build the Find selector from filter, sort criteria and limit.
+   *
+   * Returns undefined if none of them is set (API returns all rows).
+   * Sorting or limiting without a filter uses `Filter(table, TRUE)` as base.
+   */
+  private buildSelector(options: FindOptions): string | undefined {
+    const hasOrderOrLimit =
+      (options.orderBy && options.orderBy.length > 0) || options.limit !== undefined;
+    if (!options.selector && !hasOrderOrLimit) {
+      return undefined;
+    }
+
+    const base = options.selector
+      ? this.selectorBuilder.ensureFunction(options.selector, options.tableName)
+      : `Filter(${options.tableName}, TRUE)`;
+
+    return this.selectorBuilder.applyOrderAndLimit
+      ? this.selectorBuilder.applyOrderAndLimit(base, options.orderBy, options.limit)
+      : applyOrderAndLimit(base, options.orderBy, options.limit);
+  }
+
+  /**
+   * Find the definition of an AppSheet table in the connection schema
+   *
+   * @param tableName - The real AppSheet table name (not the schema key name)
+   */
+  private findTableDef(tableName: string): TableDefinition | undefined {
+    return Object.values(this.connectionDef.tables).find((def) => def.tableName === tableName);
+  }
+
+  /**
+   * Validate a selector against the schema of the given AppSheet table.
+   *
+   * @param tableName - The real AppSheet table name (not the schema key name)
+   * @param selector - Selector expression to validate
+   * @throws {ValidationError} If the table has no schema or the selector has problems
+   */
+  private validateSelector(tableName: string, selector: string): void {
+    const tableDef = this.findTableDef(tableName);
+    if (!tableDef) {
+      throw new ValidationError(
+        `Cannot validate selector: table "${tableName}" is not defined in the connection schema`,
+        { tableName, selector }
+      );
+    }
+
+    SelectorValidator.validate(selector, tableDef);
+  }
+
+  /**
+   * Split the requested rows of a Delete into deleted and not found rows,
+   * based on the rows returned by the API.
+   *
+   * Rows are matched by the table's key field, or by all requested fields if
+   * the table is not defined in the connection schema.
+   *
+   * @throws {NotFoundError} If `strict` is set and any row was not found
+   */
+  private buildDeleteResponse<T>(
+    options: DeleteOptions<T>,
+    response: ApiResponse<T>
+  ): DeleteResponse<T> {
+    const keyField = this.findTableDef(options.tableName)?.keyField;
+    const returned = (response.Rows || []) as Record<string, unknown>[];
+    const returnedKeys = new Set(keyField ? returned.map((row) => String(row[keyField])) : []);
+
+    const deletedKeys: T[] = [];
+    const notFoundKeys: T[] = [];
+    for (const row of options.rows) {
+      const requested = row as Record<string, unknown>;
+      const deleted = keyField
+        ? requested[keyField] !== undefined && returnedKeys.has(String(requested[keyField]))
+        : returned.some((candidate) =>
+            Object.keys(requested).every(
+              (field) => String(candidate[field]) === String(requested[field])
+            )
+          );
+      (deleted ? deletedKeys : notFoundKeys).push(row);
+    }
+
+    const result: DeleteResponse<T> = {
+      success: true,
+      deletedCount: deletedKeys.length,
+      deletedKeys,
+      notFoundKeys,
+      warnings: response.Warnings,
+    };
+
+    if (options.strict && notFoundKeys.length > 0) {
+      throw new NotFoundError(
+        `${notFoundKeys.length} of ${options.rows.length} rows to delete not found in table "${options.tableName}"`,
+        { tableName: options.tableName, notFoundKeys, result }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a client operation in a span (`AppSheetClient.<method>`) with appId,
+   * table, action, row count and retry count attributes.
+   */
+  private traced<R>(
+    method: string,
+    action: string,
+    tableName: string,
+    rowCount: number | undefined,
+    fn: (trace: OperationTrace) => Promise<R>
+  ): Promise<R> {
+    return traceOperation(
+      this.tracer,
+      `AppSheetClient.${method}`,
+      {
+        [SpanAttributeNames.APP_ID]: this.connectionDef.appId,
+        [SpanAttributeNames.TABLE]: tableName,
+        [SpanAttributeNames.ACTION]: action,
+        [SpanAttributeNames.ROW_COUNT]: rowCount,
+        [SpanAttributeNames.RETRY_COUNT]: 0,
+      },
+      (span) => fn({ span, retries: 0 })
+    );
+  }
+
+  /**
+   * Send rows for an Add, Edit, Delete or named action, split into chunks if the
+   * batch exceeds `maxRowsPerRequest` (per call or from `ConnectionDefinition.batching`).
+   *
+   * Chunks are sent with bounded parallelism (`concurrency`, default 1) and
+   * merged into one response in chunk order, together with the outcome of
+   * every chunk. If any chunk fails, all chunks
+   * are still attempted and a PartialBatchError with the merged result of the
+   * successful chunks is thrown.
+   */
+  private async requestRows<T>(
+    action: string,
+    options: AddOptions<T> | UpdateOptions<T> | DeleteOptions<T> | InvokeActionOptions<T>,
+    trace?: OperationTrace
+  ): Promise<RowsResponse<T>> {
+    const url = `/apps/${this.connectionDef.appId}/tables/${options.tableName}/Action`;
+    const properties = this.mergeProperties(options.properties);
+    const send = (rows: T[]) =>
+      this.request<ApiResponse<T>>(
+        url,
+        { Action: action, Properties: properties, Rows: rows },
+        options.tableName,
+        trace,
+        options
+      );
+
+    const { maxRowsPerRequest, concurrency = 1 } = {
+      ...this.connectionDef.batching,
+      ...options.batch,
+    };
+    if (
+      maxRowsPerRequest !== undefined &&
+      (!Number.isInteger(maxRowsPerRequest) || maxRowsPerRequest < 1)
+    ) {
+      throw new ValidationError(
+        `maxRowsPerRequest must be a positive integer, got: ${maxRowsPerRequest}`
+      );
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(`concurrency must be a positive integer, got: ${concurrency}`);
+    }
+    if (maxRowsPerRequest === undefined || options.rows.length <= maxRowsPerRequest) {
+      return send(options.rows);
+    }
+
+    const chunks: T[][] = [];
+    for (let offset = 0; offset < options.rows.length; offset += maxRowsPerRequest) {
+      chunks.push(options.rows.slice(offset, offset + maxRowsPerRequest));
+    }
+
+    const responses: Array<ApiResponse<T> | undefined> = new Array(chunks.length);
+    const chunkResults: ChunkResult[] = chunks.map((chunk, index) => ({
+      index,
+      offset: index * maxRowsPerRequest,
+      rowCount: chunk.length,
+      success: false,
+    }));
+
+    let next = 0;
+    const worker = async () => {
+      while (next < chunks.length && !options.signal?.aborted) {
+        const index = next++;
+        try {
+          responses[index] = await send(chunks[index]);
+          chunkResults[index].success = true;
+          chunkResults[index].warnings = responses[index]?.Warnings ?? [];
+        } catch (error) {
+          chunkResults[index].error = error as Error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+
+    const result: BatchResult<T> = {
+      rows: responses.flatMap((response) => response?.Rows ?? []),
+      warnings: responses.flatMap((response) => response?.Warnings ?? []),
+      chunks: chunkResults,
+    };
+
+    // A cancelled batch rejects with the cancellation, not as a partial failure
+    this.throwIfAborted(options.signal, { chunks: chunkResults });
+
+    const failed = chunkResults.filter((chunk) => !chunk.success);
+    if (failed.length > 0) {
+      throw new PartialBatchError(
+        `${action} on table "${options.tableName}" failed for ${failed.length} of ` +
+          `${chunks.length} chunks: ${failed.map((chunk) => chunk.error?.message).join('; ')}`,
+        result
+      );
+    }
+
+    return { Rows: result.rows, Warnings: result.warnings, chunks: chunkResults };
+  }
+
+  /**
+   * Execute a request through the middleware chain.
    *
    * Handles both response formats from AppSheet API:
    * - Standard format: { Rows: [...], Warnings?: [...] }
    * - Direct array format: [...]
    */
-  private async request<T>(url: string, payload: any, attempt = 1): Promise<T> {
-    try {
-      const response = await this.axios.post<T>(url, payload);
+  private async request<T>(
+    url: string,
+    payload: RequestPayload,
+    tableName: string,
+    trace?: OperationTrace,
+    control: RequestControlOptions = {}
+  ): Promise<T> {
+    const start = Date.now();
+    const context: RequestContext = {
+      appId: this.connectionDef.appId,
+      action: payload.Action,
+      tableName,
+      url,
+      payload,
+      properties: payload.Properties,
+      headers: {},
+      signal: control.signal,
+      timeoutMs: control.timeoutMs,
+      deadline: control.timeoutMs !== undefined ? start + control.timeoutMs : undefined,
+      state: {},
+    };
 
-      // AppSheet API can return data in two formats:
-      // 1. Direct array: [...] - transform to standard format
-      // 2. Standard object: { Rows: [...], Warnings?: [...] } - use as-is
-      if (Array.isArray(response.data)) {
-        return { Rows: response.data, Warnings: [] } as T;
+    const logContext = { appId: context.appId, action: context.action, tableName };
+    let retries = 0;
+    const countRetry = () => {
+      retries++;
+      if (trace) {
+        trace.retries++;
+        trace.span.setAttribute(SpanAttributeNames.RETRY_COUNT, trace.retries);
       }
+    };
+    this.logger.debug('AppSheet request started', { ...logContext, rowCount: payload.Rows.length });
 
-      return response.data;
-    } catch (error) {
-      // Handle axios errors
-      if (axios.isAxiosError(error)) {
-        const axiosError = error as AxiosError<any>;
-
-        // Retry on network errors or 5xx server errors
-        if (
-          attempt < this.retryAttempts &&
-          (this.isRetryableError(axiosError) || this.isServerError(axiosError))
-        ) {
-          // Exponential backoff
-          const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
-          await this.sleep(delay);
-          return this.request<T>(url, payload, attempt + 1);
-        }
+    try {
+      await this.dispatch(context, 0, countRetry);
 
-        // Convert to appropriate error type
-        throw this.convertError(axiosError);
+      if (!context.response) {
+        throw new AppSheetError(
+          `Middleware finished ${context.action} on table "${tableName}" without a response`,
+          'MIDDLEWARE_ERROR'
+        );
       }
-
-      // Re-throw unknown errors
+    } catch (error) {
+      const durationMs = Date.now() - start;
+      this.logger.error('AppSheet request failed', {
+        ...logContext,
+        durationMs,
+        error: this.describeError(error),
+      });
+      this.metrics.recordRequest({
+        ...logContext,
+        durationMs,
+        retries,
+        rowsRead: 0,
+        rowsWritten: 0,
+        errorCode: error instanceof AppSheetError ? error.code : 'UNKNOWN_ERROR',
+      });
       throw error;
     }
+
+    const warnings = context.response.Warnings ?? [];
+    if (warnings.length > 0) {
+      this.logger.warn('AppSheet API returned warnings', { ...logContext, warnings });
+    }
+    const durationMs = Date.now() - start;
+    const rowCount = context.response.Rows?.length ?? 0;
+    this.logger.debug('AppSheet request completed', { ...logContext, durationMs, rowCount });
+    this.metrics.recordRequest({
+      ...logContext,
+      durationMs,
+      retries,
+      rowsRead: context.action === 'Find' ? rowCount : 0,
+      rowsWritten: context.action === 'Find' ? 0 : context.payload.Rows.length,
+    });
+
+    return context.response as T;
   }
 
   /**
-   * Check if error is retryable (network error)
+   * Summarize an error for log output.
    */
-  private isRetryableError(error: AxiosError): boolean {
-    return !error.response || error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+  private describeError(error: unknown): Record<string, unknown> {
+    if (error instanceof AppSheetError) {
+      return {
+        name: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      };
+    }
+    return error instanceof Error
+      ? { name: error.name, message: error.message }
+      : { message: String(error) };
   }
 
   /**
-   * Check if error is a server error (5xx)
+   * Run the middleware at the given index, with the HTTP request as the innermost step.
+   * `onRetry` is called before every retry of the HTTP request.
    */
-  private isServerError(error: AxiosError): boolean {
-    return !!error.response && error.response.status >= 500;
+  private async dispatch(
+    context: RequestContext,
+    index: number,
+    onRetry: () => void
+  ): Promise<void> {
+    const middleware = this.middleware[index];
+    if (!middleware) {
+      try {
+        context.response = await this.send(context, onRetry);
+      } catch (error) {
+        context.error = error as Error;
+        throw error;
+      }
+      return;
+    }
+
+    let called = false;
+    await middleware(context, () => {
+      if (called) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      called = true;
+      return this.dispatch(context, index + 1, onRetry);
+    });
+  }
+
+  /**
+   * Send the request with retry logic and error handling.
+   *
+   * Failed attempts are converted to AppSheet errors and passed to the retry
+   * policy, which decides whether and after which delay to try again.
+   * Every attempt passes through the request limiter and the circuit breaker
+   * (if configured); network errors and 5xx responses count as circuit failures.
+   * No retry is started after the deadline of the request (`timeoutMs` of the operation).
+   */
+  private async send(context: RequestContext, countRetry: () => void): Promise<ApiResponse> {
+    for (let attempt = 1; ; attempt++) {
+      this.throwIfAborted(context.signal);
+
+      let acquired = false;
+      try {
+        const post = () => {
+          this.throwIfAborted(context.signal);
+          this.circuitBreaker?.acquire();
+          acquired = true;
+          const config = this.buildRequestConfig(context);
+          return config
+            ? this.axios.post(context.url, context.payload, config)
+            : this.axios.post(context.url, context.payload);
+        };
+        const response = await (this.limiter
+          ? this.limiter.schedule(post, context.signal)
+          : post());
+        this.circuitBreaker?.recordSuccess();
+
+        // AppSheet API can return data in two formats:
+        // 1. Direct array: [...] - transform to standard format
+        // 2. Standard object: { Rows: [...], Warnings?: [...] } - use as-is
+        if (Array.isArray(response.data)) {
+          return { Rows: response.data, Warnings: [] };
+        }
+
+        return response.data;
+      } catch (error) {
+        // Cancelled requests are neither retried nor counted by the circuit breaker
+        if (context.signal?.aborted) {
+          if (acquired) {
+            this.circuitBreaker?.release();
+          }
+          this.throwIfAborted(context.signal);
+        }
+
+        // Re-throw unknown errors (including CircuitOpenError, which is not retried)
+        if (!axios.isAxiosError(error)) {
+          if (acquired) {
+            this.circuitBreaker?.recordFailure();
+          }
+          throw error;
+        }
+
+        // Convert to appropriate error type and ask the policy whether to retry
+        const appSheetError = this.convertError(error as AxiosError<any>);
+        if (appSheetError instanceof NetworkError || (appSheetError.statusCode ?? 0) >= 500) {
+          this.circuitBreaker?.recordFailure();
+        } else {
+          this.circuitBreaker?.recordSuccess();
+        }
+        const retryContext = {
+          action: context.action,
+          tableName: context.tableName,
+          attempt,
+          error: appSheetError,
+        };
+        const delayMs = this.retryPolicy.getRetryDelay(retryContext);
+        if (delayMs === null) {
+          throw appSheetError;
+        }
+        // Don't retry if the timeout of the operation would expire before the next attempt
+        if (context.deadline !== undefined && Date.now() + delayMs >= context.deadline) {
+          throw appSheetError;
+        }
+
+        this.logger.warn('Retrying AppSheet request', {
+          appId: context.appId,
+          action: context.action,
+          tableName: context.tableName,
+          attempt,
+          delayMs,
+          error: this.describeError(appSheetError),
+        });
+        countRetry();
+        this.onRetry?.({ ...retryContext, delayMs });
+        await (context.signal ? this.sleep(delayMs, context.signal) : this.sleep(delayMs));
+      }
+    }
   }
 
   /**
@@ -492,7 +1169,11 @@ export class AppSheetClient implements AppSheetClientInterface {
         return new NotFoundError(message, data);
 
       case 429:
-        return new RateLimitError(message, data);
+        return new RateLimitError(
+          message,
+          data,
+          this.parseRetryAfter(error.response?.headers?.['retry-after'])
+        );
 
       default:
         if (!error.response) {
@@ -502,11 +1183,79 @@ export class AppSheetClient implements AppSheetClientInterface {
     }
   }
 
+  /**
+   * Parse a `Retry-After` header (delay in seconds or HTTP date) to milliseconds.
+   */
+  private parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
   /**
    * Sleep utility for retry delays
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancellationError(signal!));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Throw a CancellationError if the signal is aborted
+   */
+  private throwIfAborted(signal?: AbortSignal, details?: Record<string, unknown>): void {
+    if (signal?.aborted) {
+      throw this.cancellationError(signal, details);
+    }
+  }
+
+  /**
+   * Create the error for a cancelled operation
+   */
+  private cancellationError(
+    signal: AbortSignal,
+    details?: Record<string, unknown>
+  ): CancellationError {
+    return new CancellationError('Operation was cancelled', { reason: signal.reason, ...details });
+  }
+
+  /**
+   * Build the per-request axios config (headers, signal, timeout), or undefined if not needed
+   */
+  private buildRequestConfig(context: RequestContext): AxiosRequestConfig | undefined {
+    const config: AxiosRequestConfig = {};
+    if (Object.keys(context.headers).length > 0) {
+      config.headers = context.headers;
+    }
+    if (context.signal) {
+      config.signal = context.signal;
+    }
+    if (context.timeoutMs !== undefined) {
+      config.timeout = context.timeoutMs;
+    }
+    if (context.deadline !== undefined) {
+      // Retries share the timeout of the operation; axios treats 0 as no timeout
+      const remainingMs = Math.max(1, context.deadline - Date.now());
+      config.timeout = Math.min(config.timeout ?? remainingMs, remainingMs);
+    }
+    return Object.keys(config).length > 0 ? config : undefined;
   }
 
   /**
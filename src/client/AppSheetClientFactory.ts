@@ -11,11 +11,22 @@
 import {
   AppSheetClientFactoryInterface,
   AppSheetClientInterface,
+  CircuitBreakerInterface,
+  CircuitBreakerStatus,
+  AppSheetClientOptions,
   ConnectionDefinition,
+  LoggerInterface,
+  Middleware,
+  RequestCoalescerInterface,
+  RequestLimiterInterface,
   SelectorBuilderInterface,
 } from '../types';
 import { AppSheetClient } from './AppSheetClient';
 import { SelectorBuilder } from '../utils/SelectorBuilder';
+import { RequestLimiter } from '../utils/RequestLimiter';
+import { RequestCoalescer } from '../utils/RequestCoalescer';
+import { CircuitBreaker } from '../utils/CircuitBreaker';
+import { RedactingLogger } from '../utils/logging';
 
 /**
  * Factory for creating real AppSheetClient instances.
@@ -27,6 +38,13 @@ import { SelectorBuilder } from '../utils/SelectorBuilder';
  * for DI/AOP extensibility. If not provided, the default {@link SelectorBuilder}
  * is used. The builder is passed to all created AppSheetClient instances.
  *
+ * Optional {@link AppSheetClientOptions} (e.g. a custom retry policy) are
+ * passed to all created clients as well.
+ *
+ * For connections with `rateLimit` configured, the factory creates one
+ * {@link RequestLimiter} per appId and shares it between all clients it creates
+ * for that app, so concurrent users stay within one request budget.
+ *
  * @category Client
  *
  * @example
@@ -37,6 +55,17 @@ import { SelectorBuilder } from '../utils/SelectorBuilder';
  * // Create factory with custom SelectorBuilder (e.g. for AOP logging)
  * const factory = new AppSheetClientFactory(new LoggedSelectorBuilder());
  *
+ * // Create factory with middleware for all clients (e.g. auditing)
+ * const factory = new AppSheetClientFactory().use(async (ctx, next) => {
+ *   await next();
+ *   audit.log(ctx.action, ctx.tableName);
+ * });
+ *
+ * // Create factory with custom retry policy
+ * const factory = new AppSheetClientFactory(undefined, {
+ *   retryPolicy: new BackoffRetryPolicy({ maxAttempts: 5, jitter: 'equal' }),
+ * });
+ *
  * // Use factory to create clients
  * const connectionDef: ConnectionDefinition = {
  *   appId: 'your-app-id',
@@ -53,27 +82,110 @@ import { SelectorBuilder } from '../utils/SelectorBuilder';
  */
 export class AppSheetClientFactory implements AppSheetClientFactoryInterface {
   private readonly selectorBuilder: SelectorBuilderInterface;
+  private readonly options?: AppSheetClientOptions;
+  private readonly limiters = new Map<string, RequestLimiterInterface>();
+  private readonly circuitBreakers = new Map<string, CircuitBreakerInterface>();
+  private readonly coalescer: RequestCoalescerInterface;
+  private readonly middleware: Middleware[];
+  private readonly logger: LoggerInterface;
 
   /**
    * Creates a new AppSheetClientFactory.
    *
    * @param selectorBuilder - Optional custom SelectorBuilder for DI/AOP extensibility.
    *   If not provided, the default SelectorBuilder is used.
+   * @param options - Optional client options passed to every created client
    */
-  constructor(selectorBuilder?: SelectorBuilderInterface) {
+  constructor(selectorBuilder?: SelectorBuilderInterface, options?: AppSheetClientOptions) {
     this.selectorBuilder = selectorBuilder ?? new SelectorBuilder();
+    this.options = options;
+    this.middleware = [...(options?.middleware ?? [])];
+    this.coalescer = options?.coalescer ?? new RequestCoalescer();
+    this.logger = RedactingLogger.wrap(options);
+  }
+
+  /**
+   * Register a middleware for all clients created afterwards.
+   *
+   * @param middleware - Middleware function `(ctx, next) => Promise<void>`
+   * @returns This factory (for chaining)
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
   }
 
   /**
    * Create a new AppSheetClient instance.
    *
-   * The factory's SelectorBuilder is passed to the created client instance.
+   * The factory's SelectorBuilder, client options and middlewares are passed to the created client instance.
+   * If the connection defines `rateLimit` or `circuitBreaker`, the client uses the
+   * limiter and circuit breaker shared for its appId.
+   * All clients share one request coalescer, so identical concurrent Finds are sent once.
    *
    * @param connectionDef - Full connection definition including app credentials and table schemas
    * @param runAsUserEmail - Email of the user to execute all operations as
    * @returns A new AppSheetClient instance
    */
   create(connectionDef: ConnectionDefinition, runAsUserEmail: string): AppSheetClientInterface {
-    return new AppSheetClient(connectionDef, runAsUserEmail, this.selectorBuilder);
+    return new AppSheetClient(connectionDef, runAsUserEmail, this.selectorBuilder, {
+      ...this.options,
+      limiter: this.options?.limiter ?? this.getLimiter(connectionDef),
+      middleware: this.middleware,
+      coalescer: this.coalescer,
+      circuitBreaker: this.options?.circuitBreaker ?? this.getCircuitBreaker(connectionDef),
+    });
+  }
+
+  /**
+   * Get the status of the circuit breaker shared for a connection's appId.
+   *
+   * @param connectionDef - Connection definition
+   * @returns The status, or undefined if the connection has no circuit breaker
+   */
+  getCircuitBreakerStatus(connectionDef: ConnectionDefinition): CircuitBreakerStatus | undefined {
+    return (this.options?.circuitBreaker ?? this.getCircuitBreaker(connectionDef))?.getStatus();
+  }
+
+  /**
+   * Get the shared limiter for a connection's appId (created on first use).
+   */
+  private getLimiter(connectionDef: ConnectionDefinition): RequestLimiterInterface | undefined {
+    if (!connectionDef.rateLimit) {
+      return undefined;
+    }
+
+    let limiter = this.limiters.get(connectionDef.appId);
+    if (!limiter) {
+      limiter = new RequestLimiter(connectionDef.rateLimit);
+      this.limiters.set(connectionDef.appId, limiter);
+      this.logger.debug('Created shared request limiter', {
+        appId: connectionDef.appId,
+        rateLimit: connectionDef.rateLimit,
+      });
+    }
+    return limiter;
+  }
+
+  /**
+   * Get the shared circuit breaker for a connection's appId (created on first use).
+   */
+  private getCircuitBreaker(
+    connectionDef: ConnectionDefinition
+  ): CircuitBreakerInterface | undefined {
+    if (!connectionDef.circuitBreaker) {
+      return undefined;
+    }
+
+    let circuitBreaker = this.circuitBreakers.get(connectionDef.appId);
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(connectionDef.circuitBreaker);
+      this.circuitBreakers.set(connectionDef.appId, circuitBreaker);
+      this.logger.debug('Created shared circuit breaker', {
+        appId: connectionDef.appId,
+        circuitBreaker: connectionDef.circuitBreaker,
+      });
+    }
+    return circuitBreaker;
   }
 }
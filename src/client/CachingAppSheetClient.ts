@@ -0,0 +1,299 @@
+/**
+ * CachingAppSheetClient - Read-through cache for Find results
+ * @module client
+ * @category Client
+ */
+
+import {
+  AddOptions,
+  AddResponse,
+  AppSheetClientInterface,
+  AppSheetError,
+  CacheStoreInterface,
+  ConnectionDefinition,
+  DeleteOptions,
+  DeleteResponse,
+  FindOptions,
+  FindResponse,
+  InvokeActionOptions,
+  InvokeActionResponse,
+  TableDefinition,
+  UpdateOptions,
+  UpdateResponse,
+  UpsertOptions,
+  UpsertResponse,
+  ValidationError,
+} from '../types';
+import { SelectorValidator } from '../utils/validators';
+
+/**
+ * Invalidation count per table key prefix, per store (shared by all clients
+ * of a store, so a Find can tell whether any of them wrote while it was running)
+ */
+const generations = new WeakMap<CacheStoreInterface, Map<string, number>>();
+
+/**
+ * Client decorator that caches Find results and invalidates them on writes.
+ *
+ * Wraps any {@link AppSheetClientInterface}. Find results are cached per
+ * connection (appId), table, query (selector, sort, limit, properties) and
+ * runAsUserEmail for the TTL configured in the table's `cache.ttlMs`
+ * (or `defaultTtlMs`). Tables without a TTL are not cached.
+ *
+ * Every `add`, `update`, `delete`, `upsert` and `invokeAction` through a caching client removes all
+ * cached results of the table, for all users sharing the store — also if the
+ * write fails, since it may have been partially applied. Writes that bypass
+ * the cache (other processes, the AppSheet app itself) are only picked up
+ * after the TTL.
+ *
+ * Usually created by DynamicTableFactory when `cache` options are configured.
+ *
+ * @category Client
+ *
+ * @example
+ * ```typescript
+ * // Schema: tables.area.cache = { ttlMs: 300000 }
+ * const store = new InMemoryLruCacheStore();
+ * const client = new CachingAppSheetClient(
+ *   new AppSheetClient(connectionDef, 'user@example.com'),
+ *   connectionDef,
+ *   'user@example.com',
+ *   store
+ * );
+ *
+ * await client.findAll('extract_area'); // API request
+ * await client.findAll('extract_area'); // served from cache
+ * ```
+ */
+export class CachingAppSheetClient implements AppSheetClientInterface {
+  /**
+   * Creates a new CachingAppSheetClient.
+   *
+   * @param client - Client that performs the actual requests
+   * @param connectionDef - Connection of the client (appId and table cache settings)
+   * @param runAsUserEmail - User the client runs as (part of the cache key)
+   * @param store - Cache store, may be shared between clients
+   * @param defaultTtlMs - Optional TTL for tables without `cache.ttlMs`
+   */
+  constructor(
+    private readonly client: AppSheetClientInterface,
+    private readonly connectionDef: ConnectionDefinition,
+    private readonly runAsUserEmail: string,
+    private readonly store: CacheStoreInterface,
+    private readonly defaultTtlMs?: number
+  ) {}
+
+  async find<T extends Record<string, any> = Record<string, any>>(
+    options: FindOptions
+  ): Promise<FindResponse<T>> {
+    const ttlMs = this.getTtl(options.tableName);
+    if (ttlMs === undefined) {
+      return this.client.find<T>(options);
+    }
+
+    if (options.validateSelector && options.selector) {
+      this.validateSelector(options.tableName, options.selector);
+    }
+
+    const key = this.cacheKey(options);
+    const cached = await this.store.get<FindResponse<T>>(key);
+    if (cached) {
+      return this.copy(cached);
+    }
+
+    // Don't cache the result if the table was written while the Find was running
+    const generation = this.generation(options.tableName);
+    const response = await this.client.find<T>(options);
+    if (this.generation(options.tableName) === generation) {
+      await this.store.set(key, this.copy(response), ttlMs);
+    }
+    return response;
+  }
+
+  async add<T extends Record<string, any> = Record<string, any>>(
+    options: AddOptions<T>
+  ): Promise<AddResponse<T>> {
+    return this.invalidateAfter(options.tableName, () => this.client.add<T>(options));
+  }
+
+  async update<T extends Record<string, any> = Record<string, any>>(
+    options: UpdateOptions<T>
+  ): Promise<UpdateResponse<T>> {
+    return this.invalidateAfter(options.tableName, () => this.client.update<T>(options));
+  }
+
+  async delete<T extends Record<string, any> = Record<string, any>>(
+    options: DeleteOptions<T>
+  ): Promise<DeleteResponse<T>> {
+    return this.invalidateAfter(options.tableName, () => this.client.delete<T>(options));
+  }
+
+  async upsert<T extends Record<string, any> = Record<string, any>>(
+    options: UpsertOptions<T>
+  ): Promise<UpsertResponse<T>> {
+    if (!this.client.upsert) {
+      throw this.unsupported('upsert');
+    }
+    const write = this.client.upsert<T>(options);
+    return this.invalidateAfter(options.tableName, () => write);
+  }
+
+  async invokeAction<T extends Record<string, any> = Record<string, any>>(
+    options: InvokeActionOptions<T>
+  ): Promise<InvokeActionResponse<T>> {
+    if (!this.client.invokeAction) {
+      throw this.unsupported('invokeAction');
+    }
+    const write = this.client.invokeAction<T>(options);
+    return this.invalidateAfter(options.tableName, () => write);
+  }
+
+  async findAll<T extends Record<string, any> = Record<string, any>>(
+    tableName: string
+  ): Promise<T[]> {
+    const response = await this.find<T>({ tableName });
+    return response.rows;
+  }
+
+  async findOne<T extends Record<string, any> = Record<string, any>>(
+    tableName: string,
+    selector: string
+  ): Promise<T | null> {
+    const response = await this.find<T>({ tableName, selector });
+    return response.rows[0] || null;
+  }
+
+  async addOne<T extends Record<string, any> = Record<string, any>>(
+    tableName: string,
+    row: T
+  ): Promise<T> {
+    const response = await this.add<T>({ tableName, rows: [row] });
+    return response.rows[0];
+  }
+
+  async updateOne<T extends Record<string, any> = Record<string, any>>(
+    tableName: string,
+    row: T
+  ): Promise<T> {
+    const response = await this.update<T>({ tableName, rows: [row] });
+    return response.rows[0];
+  }
+
+  async deleteOne<T extends Record<string, any> = Record<string, any>>(
+    tableName: string,
+    row: T
+  ): Promise<boolean> {
+    await this.delete<T>({ tableName, rows: [row] });
+    return true;
+  }
+
+  getTable(tableName: string): TableDefinition {
+    return this.client.getTable(tableName);
+  }
+
+  /**
+   * Remove all cached Find results of a table (for all users sharing the store).
+   *
+   * @param tableName - AppSheet table name
+   */
+  async invalidate(tableName: string): Promise<void> {
+    const prefix = this.tablePrefix(tableName);
+    let tables = generations.get(this.store);
+    if (!tables) {
+      tables = new Map();
+      generations.set(this.store, tables);
+    }
+    tables.set(prefix, (tables.get(prefix) ?? 0) + 1);
+    await this.store.deletePrefix(prefix);
+  }
+
+  /**
+   * Number of invalidations of a table so far
+   */
+  private generation(tableName: string): number {
+    return generations.get(this.store)?.get(this.tablePrefix(tableName)) ?? 0;
+  }
+
+  /**
+   * Run a write and invalidate the table afterwards (also if the write failed)
+   */
+  private async invalidateAfter<R>(tableName: string, write: () => Promise<R>): Promise<R> {
+    try {
+      return await write();
+    } finally {
+      await this.invalidate(tableName);
+    }
+  }
+
+  /**
+   * Error for an optional operation the wrapped client does not implement
+   */
+  private unsupported(operation: string): AppSheetError {
+    return new AppSheetError(
+      `The wrapped client does not support ${operation}()`,
+      'UNSUPPORTED_OPERATION'
+    );
+  }
+
+  /**
+   * Resolve the TTL of an AppSheet table from the schema
+   */
+  private getTtl(tableName: string): number | undefined {
+    return this.findTableDef(tableName)?.cache?.ttlMs ?? this.defaultTtlMs;
+  }
+
+  /**
+   * Find the definition of an AppSheet table in the connection schema
+   */
+  private findTableDef(tableName: string): TableDefinition | undefined {
+    return Object.values(this.connectionDef.tables).find((def) => def.tableName === tableName);
+  }
+
+  /**
+   * Validate a selector against the table schema (also for cached results)
+   *
+   * @throws {ValidationError} If the table has no schema or the selector has problems
+   */
+  private validateSelector(tableName: string, selector: string): void {
+    const tableDef = this.findTableDef(tableName);
+    if (!tableDef) {
+      throw new ValidationError(
+        `Cannot validate selector: table "${tableName}" is not defined in the connection schema`,
+        { tableName, selector }
+      );
+    }
+
+    SelectorValidator.validate(selector, tableDef);
+  }
+
+  /**
+   * Common key prefix of all cached results of a table
+   */
+  private tablePrefix(tableName: string): string {
+    return `appsheet:${encodeURIComponent(this.connectionDef.appId)}:${encodeURIComponent(tableName)}:`;
+  }
+
+  /**
+   * Cache key of a Find request
+   */
+  private cacheKey(options: FindOptions): string {
+    const query = JSON.stringify([
+      this.runAsUserEmail,
+      options.selector ?? null,
+      options.orderBy ?? null,
+      options.limit ?? null,
+      options.properties ?? null,
+    ]);
+    return this.tablePrefix(options.tableName) + query;
+  }
+
+  /**
+   * Copy a response so callers cannot modify cached rows
+   */
+  private copy<T>(response: FindResponse<T>): FindResponse<T> {
+    return {
+      ...response,
+      rows: response.rows.map((row) => ({ ...row })),
+    };
+  }
+}
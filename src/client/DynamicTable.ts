@@ -5,13 +5,92 @@
  */
 
 import {
+  AddResponse,
   AppSheetClientInterface,
+  AppSheetError,
+  BulkRowResult,
+  BulkWriteOptions,
+  BulkWriteResult,
+  DynamicTableOptions,
+  FindPageResult,
+  FindByKeysOptions,
+  NotFoundError,
+  PartialBatchError,
+  ReadConversionPolicyInterface,
+  RequestControlOptions,
+  RowValidationIssue,
+  SortOrder,
+  SpanInterface,
   TableDefinition,
+  TableDeleteOptions,
+  TableFindOptions,
+  TableFindPageOptions,
+  TableIterateOptions,
+  TableUpsertOptions,
+  TableValidateOptions,
   UnknownFieldPolicyInterface,
+  TracerInterface,
+  UpdateResponse,
+  UpsertResponse,
+  ValidationError,
+  ValidationReport,
   WriteConversionPolicyInterface,
 } from '../types';
-import { AppSheetTypeValidator } from '../utils/validators';
-import { StripUnknownFieldPolicy, NoOpWriteConversionPolicy } from '../utils/policies';
+import { ActionValidator, AppSheetTypeValidator, SelectorValidator } from '../utils/validators';
+import {
+  StripUnknownFieldPolicy,
+  NoOpWriteConversionPolicy,
+  NoOpReadConversionPolicy,
+  LocaleReadConversionPolicy,
+} from '../utils/policies';
+import {
+  DEFAULT_KEYS_PER_REQUEST,
+  QueryCondition,
+  QueryValue,
+  VIRTUAL_COLUMNS,
+  and,
+  or,
+  where,
+} from '../utils/QueryBuilder';
+import { ExpressionParser, ExpressionPrinter } from '../utils/expression';
+import { NoOpTracer, SpanAttributeNames, hashSelector, traceOperation } from '../utils/tracing';
+
+/** Default number of rows per request of iterate() */
+const DEFAULT_PAGE_SIZE = 500;
+
+/** Default number of rows per page of findPage() */
+const DEFAULT_FIND_PAGE_SIZE = 50;
+
+/** Selectors that are complete table expressions rather than boolean filters */
+const SELECTOR_FUNCTION = /^(Filter|Select|OrderBy|Top)\(/;
+
+/** Field types whose values are compared as numbers when paging */
+const NUMERIC_TYPES = new Set(['Number', 'Decimal', 'Percent', 'Price', 'ChangeCounter']);
+
+/** Field types whose values are compared as dates when paging */
+const DATE_TYPES = new Set(['Date', 'DateTime', 'ChangeTimestamp']);
+
+/** Parses locale dates of sort values to ISO */
+const SORT_DATE_PARSER = new LocaleReadConversionPolicy();
+
+/** A Date sort value in a cursor (JSON of a Date) */
+const CURSOR_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Content of a findPage() cursor: the sort criteria and the sort values of
+ * the last row of the previous page
+ */
+interface PageCursor {
+  sort: string;
+  values: (QueryValue | null)[];
+}
+
+/**
+ * Describe sort criteria for comparing the sort order of a cursor
+ */
+function describeSort(sort: SortOrder[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction ?? 'asc'}`).join(',');
+}
 
 /**
  * Table client with schema-based operations and runtime validation.
@@ -42,6 +121,8 @@ import { StripUnknownFieldPolicy, NoOpWriteConversionPolicy } from '../utils/pol
 export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
   private readonly unknownFieldPolicy: UnknownFieldPolicyInterface;
   private readonly writeConversionPolicy: WriteConversionPolicyInterface;
+  private readonly readConversionPolicy: ReadConversionPolicyInterface;
+  private readonly tracer: TracerInterface;
 
   /**
    * Creates a new DynamicTable instance.
@@ -50,15 +131,19 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * @param definition - Table schema definition
    * @param unknownFieldPolicy - Optional policy for handling unknown fields (default: StripUnknownFieldPolicy)
    * @param writeConversionPolicy - Optional policy for converting field values before write (default: NoOpWriteConversionPolicy)
+   * @param options - Optional tracer for operation spans and read conversion policy (default: NoOpReadConversionPolicy)
    */
   constructor(
     private client: AppSheetClientInterface,
     private definition: TableDefinition,
     unknownFieldPolicy?: UnknownFieldPolicyInterface,
-    writeConversionPolicy?: WriteConversionPolicyInterface
+    writeConversionPolicy?: WriteConversionPolicyInterface,
+    options?: DynamicTableOptions
   ) {
     this.unknownFieldPolicy = unknownFieldPolicy ?? new StripUnknownFieldPolicy();
     this.writeConversionPolicy = writeConversionPolicy ?? new NoOpWriteConversionPolicy();
+    this.readConversionPolicy = options?.readConversionPolicy ?? new NoOpReadConversionPolicy();
+    this.tracer = options?.tracer ?? new NoOpTracer();
   }
 
   /**
@@ -67,6 +152,7 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * Retrieves all rows from the table without filtering.
    * Uses the schema-configured table name automatically.
    *
+   * @param options - Optional AbortSignal and per-request timeout
    * @returns Promise resolving to array of all rows
    *
    * @example
@@ -76,11 +162,15 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * console.log(`Found ${allRecords.length} records`);
    * ```
    */
-  async findAll(): Promise<T[]> {
-    const result = await this.client.find<T>({
-      tableName: this.definition.tableName,
+  async findAll(options?: RequestControlOptions): Promise<T[]> {
+    return this.traced('findAll', 'Find', undefined, async (span) => {
+      const result = await this.client.find<T>({
+        tableName: this.definition.tableName,
+        ...this.controlOptions(options),
+      });
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, result.rows.length);
+      return this.convertFound(result.rows);
     });
-    return result.rows;
   }
 
   /**
@@ -90,7 +180,10 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * Returns null if no rows match the selector.
    *
    * @param selector - AppSheet selector expression (e.g., "[Email] = 'user@example.com'")
+   *   or a query built with {@link where}
+   * @param options - Optional AbortSignal and per-request timeout
    * @returns Promise resolving to the first matching row or null
+   * @throws {ValidationError} If a query references fields not defined in the schema
    *
    * @example
    * ```typescript
@@ -98,14 +191,112 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * if (user) {
    *   console.log('Found user:', user.name);
    * }
+   *
+   * // Or with the query builder
+   * const admin = await table.findOne(where('role').eq('Admin'));
+   * ```
+   */
+  async findOne(
+    selector: string | QueryCondition,
+    options?: RequestControlOptions
+  ): Promise<T | null> {
+    return this.traced('findOne', 'Find', undefined, async (span) => {
+      const resolved = this.resolveSelector(selector);
+      this.setSelectorHash(span, resolved);
+
+      const result = await this.client.find<T>({
+        tableName: this.definition.tableName,
+        selector: resolved,
+        ...this.controlOptions(options),
+      });
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, result.rows.length);
+      return this.convertFound(result.rows.slice(0, 1))[0] || null;
+    });
+  }
+
+  /**
+   * Find a single row by its key.
+   *
+   * Builds an escaped `Filter()` selector on the table's key field.
+   *
+   * @param key - Value of the key field
+   * @param options - Optional AbortSignal and per-request timeout
+   * @returns Promise resolving to the row or null if no row has this key
+   *
+   * @example
+   * ```typescript
+   * const service = await table.findByKey('a1b2c3');
+   * // Selector: 'Filter(service_portfolio, [service_portfolio_id] = "a1b2c3")'
+   * ```
+   */
+  async findByKey(key: string | number, options?: RequestControlOptions): Promise<T | null> {
+    return this.traced('findByKey', 'Find', undefined, async (span) => {
+      const selector = this.resolveSelector(where(this.definition.keyField).eq(key));
+      this.setSelectorHash(span, selector);
+
+      const result = await this.client.find<T>({
+        tableName: this.definition.tableName,
+        selector,
+        ...this.controlOptions(options),
+      });
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, result.rows.length);
+      return this.convertFound(result.rows.slice(0, 1))[0] || null;
+    });
+  }
+
+  /**
+   * Find rows by their keys.
+   *
+   * Builds escaped `IN([key], LIST(...))` selectors on the table's key field.
+   * Long key lists are split into several requests of `keysPerRequest` keys,
+   * sent one after another. Duplicate keys are requested once.
+   *
+   * @param keys - Values of the key field
+   * @param options - Optional keys per request, AbortSignal and per-request timeout
+   * @returns Promise resolving to one entry per key, in input order (null for missing keys)
+   * @throws {ValidationError} If keysPerRequest is not a positive integer
+   *
+   * @example
+   * ```typescript
+   * const [first, second] = await table.findByKeys(['a1', 'b2']);
+   * if (!second) {
+   *   console.log('b2 does not exist');
+   * }
    * ```
    */
-  async findOne(selector: string): Promise<T | null> {
-    const result = await this.client.find<T>({
-      tableName: this.definition.tableName,
-      selector,
+  async findByKeys(
+    keys: Array<string | number>,
+    options?: FindByKeysOptions
+  ): Promise<(T | null)[]> {
+    const keysPerRequest = options?.keysPerRequest ?? DEFAULT_KEYS_PER_REQUEST;
+    if (!Number.isInteger(keysPerRequest) || keysPerRequest < 1) {
+      throw new ValidationError(
+        `keysPerRequest must be a positive integer, got: ${keysPerRequest}`
+      );
+    }
+
+    return this.traced('findByKeys', 'Find', undefined, async (span) => {
+      const keyField = this.definition.keyField;
+      const uniqueKeys = [...new Map(keys.map((key) => [String(key), key])).values()];
+      const found = new Map<string, T>();
+
+      for (let offset = 0; offset < uniqueKeys.length; offset += keysPerRequest) {
+        const selector = this.resolveSelector(
+          where(keyField).in(uniqueKeys.slice(offset, offset + keysPerRequest))
+        );
+        const result = await this.client.find<T>({
+          tableName: this.definition.tableName,
+          selector,
+          ...this.controlOptions(options),
+        });
+        for (const row of this.convertFound(result.rows)) {
+          found.set(String(row[keyField]), row);
+        }
+      }
+
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, found.size);
+      return keys.map((key) => found.get(String(key)) ?? null);
     });
-    return result.rows[0] || null;
   }
 
   /**
@@ -114,8 +305,14 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * Retrieves rows from the table, optionally filtered by a selector expression.
    * If no selector is provided, returns all rows (equivalent to findAll).
    *
-   * @param selector - Optional AppSheet selector expression for filtering
+   * The selector can be a raw expression string or a query built with {@link where}.
+   * Queries are checked against the table schema and rendered to a `Filter()` expression.
+   *
+   * @param selector - Optional AppSheet selector expression or query for filtering
+   * @param options - Optional sort criteria, row limit, selector validation, AbortSignal and timeout
    * @returns Promise resolving to array of matching rows
+   * @throws {ValidationError} If a query or sort criterion references fields not defined in the schema,
+   *   or if `validateSelector` is set and the selector does not match the schema
    *
    * @example
    * ```typescript
@@ -125,16 +322,138 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * // Find users created this month
    * const recent = await table.find('[CreatedDate] >= "2025-10-01"');
    *
+   * // Find with the query builder
+   * const overdue = await table.find(where('status').eq('Active').and(where('due').lt(today())));
+   *
+   * // Find the 10 most recent entries
+   * const latest = await table.find(undefined, {
+   *   orderBy: [{ field: 'date', direction: 'desc' }],
+   *   limit: 10,
+   * });
+   *
+   * // Check field names and literal types against the schema before sending
+   * const adults = await table.find('[age] >= 18', { validateSelector: true });
+   *
    * // Find all (no filter)
    * const all = await table.find();
    * ```
    */
-  async find(selector?: string): Promise<T[]> {
-    const result = await this.client.find<T>({
-      tableName: this.definition.tableName,
-      selector,
+  async find(selector?: string | QueryCondition, options?: TableFindOptions): Promise<T[]> {
+    return this.traced('find', 'Find', undefined, async (span) => {
+      this.assertSortFields(options);
+
+      const resolved = this.resolveSelector(selector);
+      this.setSelectorHash(span, resolved);
+      if (options?.validateSelector && resolved) {
+        SelectorValidator.validate(resolved, this.definition);
+      }
+
+      const result = await this.client.find<T>({
+        tableName: this.definition.tableName,
+        selector: resolved,
+        orderBy: options?.orderBy,
+        limit: options?.limit,
+        ...this.controlOptions(options),
+      });
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, result.rows.length);
+      return this.convertFound(result.rows);
+    });
+  }
+
+  /**
+   * Iterate over all matching rows, one page at a time.
+   *
+   * Pages are key-ordered `Top()` windows: each request asks for the next
+   * `pageSize` rows whose key is greater than the last key of the previous
+   * page. The next page is only requested when the consumer asks for more
+   * rows than the current page holds, so at most one page is kept in memory.
+   * Rows changed while iterating may be missed, but no row is returned twice.
+   *
+   * @param options - Optional filter, page size, AbortSignal and per-request timeout
+   * @returns Async iterable over the matching rows, ordered by key
+   * @throws {ValidationError} If pageSize is not a positive integer or the selector is not a filter
+   *
+   * @example
+   * ```typescript
+   * for await (const worklog of table.iterate({ selector: where('status').eq('Open') })) {
+   *   await exportRow(worklog);
+   * }
+   * ```
+   */
+  iterate(options?: TableIterateOptions): AsyncIterable<T> {
+    const pageSize = options?.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ValidationError(`pageSize must be a positive integer, got: ${pageSize}`);
+    }
+
+    return this.iteratePages(this.filterExpression(options?.selector), pageSize, options);
+  }
+
+  /**
+   * Find one page of rows, for page-by-page browsing.
+   *
+   * Pages are selected with `OrderBy()`/`Top()` and comparisons on the sort
+   * fields (keyset pagination), so no rows are skipped or repeated when rows
+   * are inserted or deleted between requests. The key field is always the last
+   * sort criterion, making the order unique.
+   *
+   * The returned `nextCursor` encodes the sort values of the page's last row;
+   * pass it with the same selector and order to get the next page.
+   *
+   * @param options - Optional filter, sort order, page size, cursor, AbortSignal and per-request timeout
+   * @returns Promise resolving to the rows of the page and the cursor of the next page
+   * @throws {ValidationError} If pageSize, a sort field or the cursor is invalid, or the selector is not a filter
+   *
+   * @example
+   * ```typescript
+   * const first = await table.findPage({ orderBy: [{ field: 'date', direction: 'desc' }], pageSize: 25 });
+   * if (first.hasMore) {
+   *   const second = await table.findPage({
+   *     orderBy: [{ field: 'date', direction: 'desc' }],
+   *     pageSize: 25,
+   *     cursor: first.nextCursor,
+   *   });
+   * }
+   * ```
+   */
+  async findPage(options?: TableFindPageOptions): Promise<FindPageResult<T>> {
+    const pageSize = options?.pageSize ?? DEFAULT_FIND_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new ValidationError(`pageSize must be a positive integer, got: ${pageSize}`);
+    }
+    this.assertSortFields(options);
+    const sort = this.pageSort(options?.orderBy);
+    const filter = this.filterExpression(options?.selector);
+    const seek = options?.cursor
+      ? this.seekCondition(sort, this.decodeCursor(options.cursor, sort))
+      : undefined;
+
+    return this.traced('findPage', 'Find', undefined, async (span) => {
+      if (options?.cursor && !seek) {
+        return { rows: [], hasMore: false };
+      }
+
+      const selector = this.filterSelector(filter, seek);
+      this.setSelectorHash(span, selector);
+
+      // One extra row tells whether another page follows
+      const result = await this.client.find<T>({
+        tableName: this.definition.tableName,
+        selector,
+        orderBy: sort,
+        limit: pageSize + 1,
+        ...this.controlOptions(options),
+      });
+      const rows = result.rows.slice(0, pageSize);
+      const hasMore = result.rows.length > pageSize;
+      span.setAttribute(SpanAttributeNames.ROW_COUNT, rows.length);
+
+      return {
+        rows: this.convertFound(rows),
+        nextCursor: hasMore ? this.encodeCursor(sort, rows[rows.length - 1]) : undefined,
+        hasMore,
+      };
     });
-    return result.rows;
   }
 
   /**
@@ -144,6 +463,7 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * Validates field types, required fields, and enum values before sending to API.
    *
    * @param rows - Array of row objects to add (partial rows allowed, server may generate fields)
+   * @param options - Optional AbortSignal and per-request timeout
    * @returns Promise resolving to array of created rows with server-generated fields
    * @throws {ValidationError} If validation fails (type mismatch, missing required fields, invalid enum values)
    *
@@ -166,32 +486,102 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * console.log('Created records:', created);
    * ```
    */
-  async add(rows: Partial<T>[]): Promise<T[]> {
-    // Apply unknown field policy before validation
-    const knownFields = Object.keys(this.definition.fields);
-    const processedRows = this.unknownFieldPolicy.apply<T>(
-      this.definition.tableName,
-      rows,
-      knownFields
-    );
+  async add(rows: Partial<T>[], options?: RequestControlOptions): Promise<T[]> {
+    return this.traced('add', 'Add', rows.length, async () => {
+      // Apply unknown field policy before validation
+      const knownFields = Object.keys(this.definition.fields);
+      const processedRows = this.unknownFieldPolicy.apply<T>(
+        this.definition.tableName,
+        rows,
+        knownFields
+      );
 
-    // Validate rows
-    this.validateRows(processedRows);
+      // Validate rows
+      this.validateRows(processedRows);
 
-    // Apply write conversion (e.g., ISO dates → locale format)
-    const convertedRows = this.writeConversionPolicy.apply<T>(
-      this.definition.tableName,
-      processedRows,
-      this.definition.fields,
-      this.definition.locale
-    );
+      // Apply write conversion (e.g., ISO dates → locale format)
+      const convertedRows = this.writeConversionPolicy.apply<T>(
+        this.definition.tableName,
+        processedRows,
+        this.definition.fields,
+        this.definition.locale
+      );
 
-    const result = await this.client.add<T>({
-      tableName: this.definition.tableName,
-      rows: convertedRows as T[],
-      properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+      const result = await this.client.add<T>({
+        tableName: this.definition.tableName,
+        rows: convertedRows as T[],
+        properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+        ...this.controlOptions(options),
+      });
+      return result.rows;
     });
-    return result.rows;
+  }
+
+  /**
+   * Add rows and report the outcome of every row.
+   *
+   * Like `add()`, but returns a result per input row (created row, validation
+   * error, request error and warnings). With `continueOnValidationError`, only
+   * the valid rows are sent and the invalid ones are returned in `rejected`.
+   * Rows of failed chunks are returned in `failed` instead of throwing a
+   * PartialBatchError.
+   *
+   * @param rows - Array of row objects to add
+   * @param options - Optional continue mode, AbortSignal and per-request timeout
+   * @returns Promise resolving to the result of every row
+   * @throws {ValidationError} If rows are invalid and `continueOnValidationError` is not set
+   *   (listing the problems of all rows in `details.issues`)
+   *
+   * @example
+   * ```typescript
+   * const result = await table.addBulk(importRows, { continueOnValidationError: true });
+   *
+   * console.log(`Created ${result.rows.length} rows`);
+   * for (const { index, error } of result.rejected) {
+   *   console.warn(`Row ${index} skipped: ${error?.message}`);
+   * }
+   * ```
+   */
+  async addBulk(rows: Partial<T>[], options?: BulkWriteOptions): Promise<BulkWriteResult<T>> {
+    return this.traced('addBulk', 'Add', rows.length, () =>
+      this.writeBulk(rows, true, options, (validRows) =>
+        this.client.add<T>({
+          tableName: this.definition.tableName,
+          rows: validRows,
+          properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+          ...this.controlOptions(options),
+        })
+      )
+    );
+  }
+
+  /**
+   * Update rows and report the outcome of every row.
+   *
+   * Like `update()`, but returns a result per input row. See `addBulk()`.
+   *
+   * @param rows - Array of partial row objects to update (must include key field)
+   * @param options - Optional continue mode, AbortSignal and per-request timeout
+   * @returns Promise resolving to the result of every row
+   * @throws {ValidationError} If rows are invalid and `continueOnValidationError` is not set
+   *
+   * @example
+   * ```typescript
+   * const result = await table.updateBulk(changes, { continueOnValidationError: true });
+   * const retry = result.failed.map((r) => r.input);
+   * ```
+   */
+  async updateBulk(rows: Partial<T>[], options?: BulkWriteOptions): Promise<BulkWriteResult<T>> {
+    return this.traced('updateBulk', 'Edit', rows.length, () =>
+      this.writeBulk(rows, false, options, (validRows) =>
+        this.client.update<T>({
+          tableName: this.definition.tableName,
+          rows: validRows,
+          properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+          ...this.controlOptions(options),
+        })
+      )
+    );
   }
 
   /**
@@ -201,6 +591,7 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * to identify which row to update. Only validates provided fields (partial updates allowed).
    *
    * @param rows - Array of partial row objects to update (must include key field)
+   * @param options - Optional AbortSignal and per-request timeout
    * @returns Promise resolving to array of updated rows
    * @throws {ValidationError} If validation fails (type mismatch, invalid enum values)
    *
@@ -218,32 +609,133 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * ]);
    * ```
    */
-  async update(rows: Partial<T>[]): Promise<T[]> {
-    // Apply unknown field policy before validation
-    const knownFields = Object.keys(this.definition.fields);
-    const processedRows = this.unknownFieldPolicy.apply<T>(
-      this.definition.tableName,
-      rows,
-      knownFields
-    );
+  async update(rows: Partial<T>[], options?: RequestControlOptions): Promise<T[]> {
+    return this.traced('update', 'Edit', rows.length, async () => {
+      // Apply unknown field policy before validation
+      const knownFields = Object.keys(this.definition.fields);
+      const processedRows = this.unknownFieldPolicy.apply<T>(
+        this.definition.tableName,
+        rows,
+        knownFields
+      );
 
-    // Validate rows
-    this.validateRows(processedRows, false);
+      // Validate rows
+      this.validateRows(processedRows, false);
 
-    // Apply write conversion (e.g., ISO dates → locale format)
-    const convertedRows = this.writeConversionPolicy.apply<T>(
-      this.definition.tableName,
-      processedRows,
-      this.definition.fields,
-      this.definition.locale
-    );
+      // Apply write conversion (e.g., ISO dates → locale format)
+      const convertedRows = this.writeConversionPolicy.apply<T>(
+        this.definition.tableName,
+        processedRows,
+        this.definition.fields,
+        this.definition.locale
+      );
 
-    const result = await this.client.update<T>({
-      tableName: this.definition.tableName,
-      rows: convertedRows as T[],
-      properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+      const result = await this.client.update<T>({
+        tableName: this.definition.tableName,
+        rows: convertedRows as T[],
+        properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+        ...this.controlOptions(options),
+      });
+      return result.rows;
+    });
+  }
+
+  /**
+   * Create or update rows, depending on whether their key already exists.
+   *
+   * Existing keys are looked up with one batched Find (see `findByKeys()`).
+   * Rows with an existing key are validated as partial updates and sent as one
+   * Edit; all other rows are validated with required fields and sent as one Add.
+   * Rows without a key value are always added; if a key occurs more than once,
+   * the first row is added and the later ones are applied as edits.
+   *
+   * @param rows - Array of row objects to create or update
+   * @param options - Optional keys per lookup request, AbortSignal and per-request timeout
+   * @returns Promise resolving to the created and updated rows
+   * @throws {ValidationError} If validation fails (field values are checked before the key
+   * lookup, required fields of new rows after it; nothing is sent if any row is invalid)
+   *
+   * @example
+   * ```typescript
+   * const { created, updated } = await table.upsert([
+   *   { id: '1', hours: 7 },                                  // exists: updated
+   *   { id: '99', date: '2025-01-01', hours: 4, status: 'Open' } // new: created
+   * ]);
+   * ```
+   */
+  async upsert(rows: Partial<T>[], options?: TableUpsertOptions): Promise<UpsertResponse<T>> {
+    return this.traced('upsert', 'Upsert', rows.length, async () => {
+      const { tableName, keyField, fields, locale } = this.definition;
+      const processedRows = this.unknownFieldPolicy.apply<T>(tableName, rows, Object.keys(fields));
+
+      const hasKey = (key: unknown): key is string | number =>
+        key !== undefined && key !== null && key !== '';
+
+      // Check all rows before looking up keys; rows without a key are always added
+      AppSheetTypeValidator.assertNoIssues(
+        processedRows.flatMap((row, rowIndex) =>
+          AppSheetTypeValidator.collectIssues(
+            [row],
+            this.definition,
+            !hasKey(row[keyField]),
+            rowIndex
+          )
+        ),
+        this.definition
+      );
+
+      const keys = processedRows.map((row): unknown => row[keyField]).filter(hasKey);
+      const existing = new Set<string>();
+      if (keys.length > 0) {
+        const found = await this.findByKeys(keys, options);
+        keys.forEach((key, i) => {
+          if (found[i]) {
+            existing.add(String(key));
+          }
+        });
+      }
+
+      // Split into rows to add and rows to edit; new keyed rows need their required fields
+      const toAdd: Partial<T>[] = [];
+      const toUpdate: Partial<T>[] = [];
+      const issues = processedRows.flatMap((row, rowIndex) => {
+        const key = row[keyField];
+        if (!hasKey(key)) {
+          toAdd.push(row);
+          return [];
+        }
+        if (existing.has(String(key))) {
+          toUpdate.push(row);
+          return [];
+        }
+        toAdd.push(row);
+        existing.add(String(key));
+        return AppSheetTypeValidator.collectIssues([row], this.definition, true, rowIndex);
+      });
+      AppSheetTypeValidator.assertNoIssues(issues, this.definition);
+
+      const write = {
+        tableName,
+        properties: locale ? { Locale: locale } : undefined,
+        ...this.controlOptions(options),
+      };
+      const convert = (group: Partial<T>[]) =>
+        this.writeConversionPolicy.apply<T>(tableName, group, fields, locale) as T[];
+      const added =
+        toAdd.length > 0 ? await this.client.add<T>({ ...write, rows: convert(toAdd) }) : undefined;
+      const updated =
+        toUpdate.length > 0
+          ? await this.client.update<T>({ ...write, rows: convert(toUpdate) })
+          : undefined;
+      const warnings = [...(added?.warnings || []), ...(updated?.warnings || [])];
+
+      return {
+        rows: [...(added?.rows || []), ...(updated?.rows || [])],
+        created: added?.rows || [],
+        updated: updated?.rows || [],
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
     });
-    return result.rows;
   }
 
   /**
@@ -253,7 +745,9 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * in the row objects.
    *
    * @param keys - Array of row objects containing at least the key field
+   * @param options - Optional strict mode, AbortSignal and per-request timeout
    * @returns Promise resolving to true if deletion succeeded
+   * @throws {NotFoundError} If `strict` is set and a key did not exist
    *
    * @example
    * ```typescript
@@ -267,22 +761,131 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
    * await table.delete([
    *   { id: '3', date: '2025-10-29', hours: 8, description: 'Old' }
    * ]);
+   *
+   * // Fail if a key did not exist
+   * await table.delete([{ id: '4' }], { strict: true });
    * ```
    */
-  async delete(keys: Partial<T>[]): Promise<boolean> {
-    // Apply unknown field policy to delete keys too
-    const knownFields = Object.keys(this.definition.fields);
-    const processedKeys = this.unknownFieldPolicy.apply<T>(
-      this.definition.tableName,
-      keys,
-      knownFields
-    );
+  async delete(keys: Partial<T>[], options?: TableDeleteOptions): Promise<boolean> {
+    return this.traced('delete', 'Delete', keys.length, async () => {
+      // Apply unknown field policy to delete keys too
+      const knownFields = Object.keys(this.definition.fields);
+      const processedKeys = this.unknownFieldPolicy.apply<T>(
+        this.definition.tableName,
+        keys,
+        knownFields
+      );
 
-    await this.client.delete({
-      tableName: this.definition.tableName,
-      rows: processedKeys,
+      const { tableName } = this.definition;
+      const result = await this.client.delete({
+        tableName,
+        rows: processedKeys,
+        ...(options?.strict ? { strict: true } : {}),
+        ...this.controlOptions(options),
+      });
+
+      // Clients without strict support don't throw; fall back to the reported counts
+      const notFoundCount =
+        result.notFoundKeys?.length ?? Math.max(0, processedKeys.length - result.deletedCount);
+      if (options?.strict && notFoundCount > 0) {
+        throw new NotFoundError(
+          `${notFoundCount} of ${processedKeys.length} rows to delete not found in table "${tableName}"`,
+          { tableName, notFoundKeys: result.notFoundKeys, result }
+        );
+      }
+      return true;
     });
-    return true;
+  }
+
+  /**
+   * Invoke a named action (e.g. "Mark Complete") on rows of the table.
+   *
+   * The action must be declared in the table's `actions`. Rows must include the
+   * key field; other fields are validated like in `update()`.
+   *
+   * @param action - Name of the action as defined in the AppSheet app
+   * @param rows - Array of row objects containing at least the key field
+   * @param options - Optional AbortSignal and per-request timeout
+   * @returns Promise resolving to the rows returned by the API
+   * @throws {ValidationError} If the action is not declared for the table or validation fails
+   * @throws {AppSheetError} With code `UNSUPPORTED_OPERATION` if the client has no `invokeAction()`
+   *
+   * @example
+   * ```typescript
+   * // tables.tasks.actions = ['Mark Complete']
+   * await table.invokeAction('Mark Complete', [{ id: '1' }, { id: '2' }]);
+   * ```
+   */
+  async invokeAction(
+    action: string,
+    rows: Partial<T>[],
+    options?: RequestControlOptions
+  ): Promise<T[]> {
+    return this.traced('invokeAction', action, rows.length, async () => {
+      ActionValidator.validate(action, this.definition, this.definition.tableName);
+
+      // invokeAction() is optional on AppSheetClientInterface
+      const { client } = this;
+      if (!client.invokeAction) {
+        throw new AppSheetError(
+          'The client does not support invokeAction()',
+          'UNSUPPORTED_OPERATION',
+          undefined,
+          { tableName: this.definition.tableName, action }
+        );
+      }
+
+      const knownFields = Object.keys(this.definition.fields);
+      const processedRows = this.unknownFieldPolicy.apply<T>(
+        this.definition.tableName,
+        rows,
+        knownFields
+      );
+
+      this.validateRows(processedRows, false);
+
+      const convertedRows = this.writeConversionPolicy.apply<T>(
+        this.definition.tableName,
+        processedRows,
+        this.definition.fields,
+        this.definition.locale
+      );
+
+      const result = await client.invokeAction<T>({
+        tableName: this.definition.tableName,
+        action,
+        rows: convertedRows as T[],
+        properties: this.definition.locale ? { Locale: this.definition.locale } : undefined,
+        ...this.controlOptions(options),
+      });
+      return result.rows;
+    });
+  }
+
+  /**
+   * Validate rows against the schema without sending them.
+   *
+   * Checks field types, formats, required fields and enum values of all rows
+   * and returns every problem, like the ValidationError thrown by `add()` and
+   * `update()` lists them in `details.issues`.
+   *
+   * @param rows - Rows to validate
+   * @param options - Set `partial` to validate like `update()` (no required field check)
+   * @returns Report with all problems, ordered by row and field
+   *
+   * @example
+   * ```typescript
+   * const report = table.validate(importRows);
+   * if (!report.valid) {
+   *   for (const issue of report.issues) {
+   *     console.log(`Row ${issue.rowIndex}, ${issue.field} (${issue.rule}): ${issue.message}`);
+   *   }
+   * }
+   * ```
+   */
+  validate(rows: Partial<T>[], options?: TableValidateOptions): ValidationReport {
+    const issues = AppSheetTypeValidator.collectIssues(rows, this.definition, !options?.partial);
+    return { valid: issues.length === 0, issues };
   }
 
   /**
@@ -347,45 +950,477 @@ export class DynamicTable<T extends Record<string, any> = Record<string, any>> {
   }
 
   /**
-   * Validate rows based on schema using AppSheetTypeValidator
+   * Run a table operation in a span (`DynamicTable.<method>`)
+   */
+  private traced<R>(
+    method: string,
+    action: string,
+    rowCount: number | undefined,
+    fn: (span: SpanInterface) => Promise<R>
+  ): Promise<R> {
+    return traceOperation(
+      this.tracer,
+      `DynamicTable.${method}`,
+      {
+        [SpanAttributeNames.TABLE]: this.definition.tableName,
+        [SpanAttributeNames.ACTION]: action,
+        [SpanAttributeNames.ROW_COUNT]: rowCount,
+      },
+      fn
+    );
+  }
+
+  /**
+   * Pick the cancellation and timeout options that are passed to the client
+   */
+  private controlOptions(options?: RequestControlOptions): RequestControlOptions {
+    const control: RequestControlOptions = {};
+    if (options?.signal) {
+      control.signal = options.signal;
+    }
+    if (options?.timeoutMs !== undefined) {
+      control.timeoutMs = options.timeoutMs;
+    }
+    return control;
+  }
+
+  /**
+   * Request key-ordered pages until a page is not full, yielding their rows
+   */
+  private async *iteratePages(
+    filter: string | undefined,
+    pageSize: number,
+    options?: RequestControlOptions
+  ): AsyncGenerator<T> {
+    const { tableName, keyField } = this.definition;
+    let lastKey: QueryValue | undefined;
+
+    for (;;) {
+      const after = lastKey !== undefined ? where(keyField).gt(lastKey) : undefined;
+
+      const rows = await this.traced('iterate', 'Find', undefined, async (span) => {
+        const selector = this.filterSelector(filter, after);
+        this.setSelectorHash(span, selector);
+
+        const result = await this.client.find<T>({
+          tableName,
+          selector,
+          orderBy: [{ field: keyField }],
+          limit: pageSize,
+          ...this.controlOptions(options),
+        });
+        span.setAttribute(SpanAttributeNames.ROW_COUNT, result.rows.length);
+        return result.rows;
+      });
+
+      const nextKey = rows.length === pageSize ? this.pageKey(rows[rows.length - 1]) : undefined;
+      yield* this.convertFound(rows);
+
+      if (nextKey === undefined) {
+        return;
+      }
+      lastKey = nextKey;
+    }
+  }
+
+  /**
+   * Key of the last row of a page
+   */
+  private pageKey(row: T): QueryValue {
+    const { tableName, keyField } = this.definition;
+    const key = this.sortValue(row, keyField);
+    if (key === null) {
+      throw new ValidationError(
+        `Cannot continue iterating table "${tableName}": row without key field "${keyField}"`,
+        { tableName, keyField }
+      );
+    }
+    return key;
+  }
+
+  /**
+   * Value of a row's field for comparisons with the following rows: null if
+   * blank, a number for numeric fields, a Date for date fields (rendered as
+   * `DATE()`/`DATETIME()`, so locale dates are not compared as text)
+   */
+  private sortValue(row: T, field: string): QueryValue | null {
+    const value = row[field];
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    const type = this.definition.fields[field]?.type;
+    if (NUMERIC_TYPES.has(type) && typeof value === 'string' && value.trim() !== '') {
+      const numeric = Number(value);
+      if (Number.isFinite(numeric)) {
+        return numeric;
+      }
+    }
+    if (DATE_TYPES.has(type) && typeof value === 'string') {
+      return this.parseSortDate(field, value) ?? value;
+    }
+    return value;
+  }
+
+  /**
+   * Parse a date or datetime value in the table's locale. Values without a
+   * time zone are read as UTC, matching the UTC components of `DATETIME()`.
+   */
+  private parseSortDate(field: string, value: string): Date | undefined {
+    const { tableName, fields, locale } = this.definition;
+    const [parsed] = SORT_DATE_PARSER.apply(
+      tableName,
+      [{ [field]: value }],
+      { [field]: fields[field] },
+      locale
+    );
+    const iso: unknown = parsed[field];
+    if (typeof iso !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(iso)) {
+      return undefined;
+    }
+
+    let text = iso;
+    if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+      text = `${iso}T00:00:00Z`;
+    } else if (/T\d{2}:\d{2}(:\d{2})?$/.test(iso)) {
+      text = `${iso}Z`;
+    }
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? undefined : new Date(time);
+  }
+
+  /**
+   * Sort criteria of findPage(): the requested order, then the key field as tiebreaker
+   */
+  private pageSort(orderBy: SortOrder[] = []): SortOrder[] {
+    const { keyField } = this.definition;
+    const sort = orderBy.map(({ field, direction }) => ({ field, direction: direction ?? 'asc' }));
+    return sort.some((criterion) => criterion.field === keyField)
+      ? sort
+      : [...sort, { field: keyField, direction: 'asc' }];
+  }
+
+  /**
+   * Condition matching the rows that follow the given sort values in the
+   * given order (blanks sort first), or undefined if no row can follow
+   */
+  private seekCondition(
+    sort: SortOrder[],
+    values: (QueryValue | null)[]
+  ): QueryCondition | undefined {
+    const alternatives: QueryCondition[] = [];
+
+    sort.forEach(({ field, direction }, i) => {
+      const value = values[i];
+      let after: QueryCondition | undefined;
+      if (direction === 'desc') {
+        after = value === null ? undefined : or(where(field).lt(value), where(field).isBlank());
+      } else {
+        after = value === null ? where(field).isNotBlank() : where(field).gt(value);
+      }
+      if (!after) {
+        return;
+      }
+
+      const equal = sort.slice(0, i).map((previous, j) => {
+        const previousValue = values[j];
+        return previousValue === null
+          ? where(previous.field).isBlank()
+          : where(previous.field).eq(previousValue);
+      });
+      alternatives.push(and(...equal, after));
+    });
+
+    return alternatives.length > 0 ? or(...alternatives) : undefined;
+  }
+
+  /**
+   * Encode the sort values of a page's last row as an opaque cursor
+   */
+  private encodeCursor(sort: SortOrder[], row: T): string {
+    const cursor: PageCursor = {
+      sort: describeSort(sort),
+      values: sort.map(({ field }) => this.sortValue(row, field)),
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor created by encodeCursor() for the same sort criteria
+   *
+   * @throws {ValidationError} If the cursor is malformed or was created for another sort order
+   */
+  private decodeCursor(cursor: string, sort: SortOrder[]): (QueryValue | null)[] {
+    const tableName = this.definition.tableName;
+    let decoded: Partial<PageCursor> | undefined;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      decoded = undefined;
+    }
+
+    const valid =
+      typeof decoded?.sort === 'string' &&
+      Array.isArray(decoded.values) &&
+      decoded.values.every(
+        (value) => value === null || ['string', 'number', 'boolean'].includes(typeof value)
+      );
+    if (!decoded?.values || !valid) {
+      throw new ValidationError(`Invalid page cursor for table "${tableName}"`, { tableName });
+    }
+    if (decoded.sort !== describeSort(sort) || decoded.values.length !== sort.length) {
+      throw new ValidationError(
+        `Page cursor for table "${tableName}" was created for a different sort order`,
+        { tableName }
+      );
+    }
+    // Date sort values were serialized as ISO timestamps
+    return decoded.values.map((value, i) =>
+      DATE_TYPES.has(this.definition.fields[sort[i].field]?.type) &&
+      typeof value === 'string' &&
+      CURSOR_DATE.test(value)
+        ? new Date(value)
+        : value
+    );
+  }
+
+  /**
+   * Combine boolean expressions and queries into one `Filter()` selector
+   * (undefined if there is nothing to filter)
+   */
+  private filterSelector(
+    ...conditions: Array<string | QueryCondition | undefined>
+  ): string | undefined {
+    const expressions = conditions
+      .map((condition) =>
+        condition instanceof QueryCondition ? condition.toExpression(this.definition) : condition
+      )
+      .filter((expression): expression is string => !!expression);
+
+    if (expressions.length === 0) {
+      return undefined;
+    }
+    const expression = expressions.length === 1 ? expressions[0] : `AND(${expressions.join(', ')})`;
+    return `Filter(${this.definition.tableName}, ${expression})`;
+  }
+
+  /**
+   * Get the boolean expression of a filter, so it can be combined with other conditions
+   */
+  private filterExpression(selector?: string | QueryCondition): string | undefined {
+    if (selector instanceof QueryCondition) {
+      return selector.toExpression(this.definition);
+    }
+    const trimmed = selector?.trim();
+    if (!trimmed || !SELECTOR_FUNCTION.test(trimmed)) {
+      return trimmed || undefined;
+    }
+
+    const node = ExpressionParser.parse(trimmed);
+    if (node.type === 'Call' && node.name === 'Filter' && node.args.length === 2) {
+      return ExpressionPrinter.print(node.args[1]);
+    }
+    throw new ValidationError(
+      `Selector must be a boolean expression or a Filter() selector, got: ${trimmed}`,
+      { tableName: this.definition.tableName }
+    );
+  }
+
+  /**
+   * Apply the read conversion policy to found rows
+   */
+  private convertFound(rows: T[]): T[] {
+    const { tableName, fields, locale } = this.definition;
+    return this.readConversionPolicy.apply<T>(tableName, rows, fields, locale);
+  }
+
+  /**
+   * Attach the hashed selector to a span (the selector itself may contain personal data)
+   */
+  private setSelectorHash(span: SpanInterface, selector?: string): void {
+    if (selector) {
+      span.setAttribute(SpanAttributeNames.SELECTOR_HASH, hashSelector(selector));
+    }
+  }
+
+  /**
+   * Render a query to a selector string; strings are passed through unchanged
+   */
+  private resolveSelector(selector?: string | QueryCondition): string | undefined {
+    if (selector instanceof QueryCondition) {
+      return selector.build(this.definition);
+    }
+    return selector;
+  }
+
+  /**
+   * Ensure all sort fields are defined in the schema (or are virtual columns)
+   */
+  private assertSortFields(options?: TableFindOptions): void {
+    const unknownFields = (options?.orderBy ?? [])
+      .map((sort) => sort.field)
+      .filter((field) => !(field in this.definition.fields) && !VIRTUAL_COLUMNS.includes(field));
+
+    if (unknownFields.length > 0) {
+      throw new ValidationError(
+        `Unknown sort field(s) for table "${this.definition.tableName}": ${unknownFields.join(', ')}`,
+        { tableName: this.definition.tableName, unknownFields }
+      );
+    }
+  }
+
+  /**
+   * Validate rows based on schema using AppSheetTypeValidator.
+   * Collects all problems before throwing.
    */
   private validateRows(rows: Partial<T>[], checkRequired = true): void {
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-
-      for (const [fieldName, fieldDef] of Object.entries(this.definition.fields)) {
-        const fieldType = fieldDef.type;
-        const isRequired = fieldDef.required === true;
-        const value = (row as any)[fieldName];
-
-        // Check required fields (only for add operations)
-        if (checkRequired && isRequired) {
-          AppSheetTypeValidator.validateRequired(
-            fieldName,
-            this.definition.tableName,
-            value,
-            row,
-            i
-          );
+    AppSheetTypeValidator.validateRows(rows, this.definition, checkRequired);
+  }
+
+  /**
+   * Validate, convert and send the rows of a bulk write, and correlate every
+   * input row with its outcome.
+   *
+   * Invalid rows are rejected before sending if `continueOnValidationError`
+   * is set; otherwise one ValidationError lists the problems of all rows. Rows of failed chunks
+   * (PartialBatchError) are reported as failed; other errors are thrown.
+   */
+  private async writeBulk(
+    rows: Partial<T>[],
+    checkRequired: boolean,
+    options: BulkWriteOptions | undefined,
+    send: (rows: T[]) => Promise<AddResponse<T> | UpdateResponse<T>>
+  ): Promise<BulkWriteResult<T>> {
+    const { tableName, fields, locale } = this.definition;
+    const knownFields = Object.keys(fields);
+    const results: BulkRowResult<T>[] = rows.map((input, index) => ({
+      index,
+      input,
+      status: 'success',
+      warnings: [],
+    }));
+
+    // Validate each row on its own, so one invalid row doesn't reject the others
+    const validIndexes: number[] = [];
+    const validRows: Partial<T>[] = [];
+    const issues: RowValidationIssue[] = [];
+    rows.forEach((row, index) => {
+      let processed: Partial<T>;
+      try {
+        [processed] = this.unknownFieldPolicy.apply<T>(tableName, [row], knownFields);
+      } catch (error) {
+        // The unknown field policy may reject a row by throwing
+        if (!options?.continueOnValidationError || !(error instanceof ValidationError)) {
+          throw error;
         }
+        results[index].status = 'invalid';
+        results[index].error = error;
+        return;
+      }
+
+      const rowIssues = AppSheetTypeValidator.collectIssues(
+        [processed],
+        this.definition,
+        checkRequired,
+        index
+      );
+      if (rowIssues.length === 0) {
+        validIndexes.push(index);
+        validRows.push(processed);
+        return;
+      }
+      issues.push(...rowIssues);
+      if (options?.continueOnValidationError) {
+        results[index].status = 'invalid';
+        results[index].error = AppSheetTypeValidator.createValidationError(
+          rowIssues,
+          this.definition
+        );
+      }
+    });
+    if (!options?.continueOnValidationError) {
+      AppSheetTypeValidator.assertNoIssues(issues, this.definition);
+    }
+
+    let response: AddResponse<T> | UpdateResponse<T> = { rows: [], warnings: [] };
+    if (validRows.length > 0) {
+      const convertedRows = this.writeConversionPolicy.apply<T>(
+        tableName,
+        validRows,
+        fields,
+        locale
+      ) as T[];
+      try {
+        response = await send(convertedRows);
+      } catch (error) {
+        if (!(error instanceof PartialBatchError)) {
+          throw error;
+        }
+        response = (error as PartialBatchError<T>).result;
+      }
+      this.assignBulkOutcomes(results, validIndexes, convertedRows, response);
+    }
+
+    return {
+      rows: results.flatMap((result) => (result.row ? [result.row] : [])),
+      results,
+      rejected: results.filter((result) => result.status === 'invalid'),
+      failed: results.filter((result) => result.status === 'failed'),
+      warnings: response.warnings ?? [],
+    };
+  }
+
+  /**
+   * Assign the returned rows, warnings and chunk errors to the results of the sent rows.
+   *
+   * Returned rows are assigned by position if every successful chunk returned
+   * one row per sent row, otherwise by key field.
+   */
+  private assignBulkOutcomes(
+    results: BulkRowResult<T>[],
+    sentIndexes: number[],
+    sentRows: T[],
+    response: AddResponse<T> | UpdateResponse<T>
+  ): void {
+    const chunks = response.chunks ?? [
+      {
+        index: 0,
+        offset: 0,
+        rowCount: sentRows.length,
+        success: true,
+        warnings: response.warnings ?? [],
+      },
+    ];
+    const successfulRowCount = chunks
+      .filter((chunk) => chunk.success)
+      .reduce((sum, chunk) => sum + chunk.rowCount, 0);
+    const byPosition = response.rows.length === successfulRowCount;
+    const keyField = this.definition.keyField;
+    const rowsByKey = new Map<string, T>();
+    if (!byPosition) {
+      for (const row of response.rows) {
+        const key = row[keyField];
+        if (key !== undefined && !rowsByKey.has(String(key))) {
+          rowsByKey.set(String(key), row);
+        }
+      }
+    }
 
-        // Skip validation if value is not provided
-        if (value === undefined || value === null) {
+    let position = 0;
+    for (const chunk of chunks) {
+      for (let i = chunk.offset; i < chunk.offset + chunk.rowCount; i++) {
+        const result = results[sentIndexes[i]];
+        if (!chunk.success) {
+          result.status = 'failed';
+          result.error = chunk.error;
           continue;
         }
 
-        // Type validation using AppSheetTypeValidator (with locale for date/datetime)
-        AppSheetTypeValidator.validate(fieldName, fieldType, value, i, this.definition.locale);
-
-        // Enum/EnumList validation
-        if (fieldDef.allowedValues) {
-          AppSheetTypeValidator.validateEnum(
-            fieldName,
-            fieldType,
-            fieldDef.allowedValues,
-            value,
-            i
-          );
+        const key = sentRows[i][keyField];
+        result.warnings = chunk.warnings ?? [];
+        if (byPosition) {
+          result.row = response.rows[position++];
+        } else if (key !== undefined) {
+          result.row = rowsByKey.get(String(key));
         }
       }
     }
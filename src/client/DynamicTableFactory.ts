@@ -11,12 +11,21 @@
 import {
   DynamicTableFactoryInterface,
   AppSheetClientFactoryInterface,
+  AppSheetClientInterface,
+  CacheOptions,
+  CacheStoreInterface,
+  LoggerInterface,
+  DynamicTableFactoryOptions,
+  DynamicTableOptions,
   SchemaConfig,
   UnknownFieldPolicyInterface,
   WriteConversionPolicyInterface,
 } from '../types';
 import { StripUnknownFieldPolicy, NoOpWriteConversionPolicy } from '../utils/policies';
+import { RedactingLogger } from '../utils/logging';
+import { InMemoryLruCacheStore } from '../utils/cache';
 import { DynamicTable } from './DynamicTable';
+import { CachingAppSheetClient } from './CachingAppSheetClient';
 
 /**
  * Factory for creating DynamicTable instances.
@@ -41,6 +50,11 @@ import { DynamicTable } from './DynamicTable';
  * // Create factory with locale write conversion
  * const localeFactory = new DynamicTableFactory(clientFactory, schema, undefined, new LocaleWriteConversionPolicy());
  *
+ * // Create factory that returns ISO dates and native types on read
+ * const readFactory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+ *   readConversionPolicy: new LocaleReadConversionPolicy(),
+ * });
+ *
  * // Create table instances
  * const usersTable = tableFactory.create<User>('worklog', 'users', 'user@example.com');
  * const users = await usersTable.findAll();
@@ -54,6 +68,10 @@ import { DynamicTable } from './DynamicTable';
 export class DynamicTableFactory implements DynamicTableFactoryInterface {
   private readonly unknownFieldPolicy: UnknownFieldPolicyInterface;
   private readonly writeConversionPolicy: WriteConversionPolicyInterface;
+  private readonly logger: LoggerInterface;
+  private readonly tableOptions: DynamicTableOptions;
+  private readonly cache?: CacheOptions;
+  private readonly cacheStore?: CacheStoreInterface;
 
   /**
    * Creates a new DynamicTableFactory.
@@ -62,15 +80,26 @@ export class DynamicTableFactory implements DynamicTableFactoryInterface {
    * @param schema - Schema configuration with connection definitions
    * @param unknownFieldPolicy - Optional policy for handling unknown fields in DynamicTable (default: StripUnknownFieldPolicy)
    * @param writeConversionPolicy - Optional policy for converting field values before write (default: NoOpWriteConversionPolicy)
+   * @param options - Optional logger, fields to redact from log output, tracer, read conversion policy and Find cache
    */
   constructor(
     private readonly clientFactory: AppSheetClientFactoryInterface,
     private readonly schema: SchemaConfig,
     unknownFieldPolicy?: UnknownFieldPolicyInterface,
-    writeConversionPolicy?: WriteConversionPolicyInterface
+    writeConversionPolicy?: WriteConversionPolicyInterface,
+    options?: DynamicTableFactoryOptions
   ) {
     this.unknownFieldPolicy = unknownFieldPolicy ?? new StripUnknownFieldPolicy();
     this.writeConversionPolicy = writeConversionPolicy ?? new NoOpWriteConversionPolicy();
+    this.logger = RedactingLogger.wrap(options);
+    this.tableOptions = {
+      tracer: options?.tracer,
+      readConversionPolicy: options?.readConversionPolicy,
+    };
+    this.cache = options?.cache;
+    this.cacheStore = options?.cache
+      ? (options.cache.store ?? new InMemoryLruCacheStore())
+      : undefined;
   }
 
   /**
@@ -98,13 +127,23 @@ export class DynamicTableFactory implements DynamicTableFactoryInterface {
     const connectionDef = this.schema.connections[connectionName];
     if (!connectionDef) {
       const available = Object.keys(this.schema.connections).join(', ') || 'none';
+      this.logger.error('Connection not found', { connectionName, available });
       throw new Error(
         `Connection "${connectionName}" not found. Available connections: ${available}`
       );
     }
 
-    // Create client using factory
-    const client = this.clientFactory.create(connectionDef, runAsUserEmail);
+    // Create client using factory (wrapped in the Find cache if configured)
+    let client: AppSheetClientInterface = this.clientFactory.create(connectionDef, runAsUserEmail);
+    if (this.cacheStore) {
+      client = new CachingAppSheetClient(
+        client,
+        connectionDef,
+        runAsUserEmail,
+        this.cacheStore,
+        this.cache?.defaultTtlMs
+      );
+    }
 
     // Get table definition (will throw if not found)
     const tableDef = client.getTable(tableName);
@@ -114,12 +153,19 @@ export class DynamicTableFactory implements DynamicTableFactoryInterface {
     const resolvedTableDef =
       effectiveLocale !== tableDef.locale ? { ...tableDef, locale: effectiveLocale } : tableDef;
 
+    this.logger.debug('Created DynamicTable', {
+      connectionName,
+      tableName,
+      appSheetTableName: resolvedTableDef.tableName,
+    });
+
     // Create and return DynamicTable with injected policies
     return new DynamicTable<T>(
       client,
       resolvedTableDef,
       this.unknownFieldPolicy,
-      this.writeConversionPolicy
+      this.writeConversionPolicy,
+      this.tableOptions
     );
   }
 }
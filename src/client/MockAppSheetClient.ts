@@ -17,14 +17,23 @@ import {
   FindOptions,
   UpdateOptions,
   DeleteOptions,
+  InvokeActionOptions,
+  UpsertOptions,
   AddResponse,
   FindResponse,
   UpdateResponse,
   DeleteResponse,
+  InvokeActionResponse,
+  UpsertResponse,
   ValidationError,
   NotFoundError,
   MockDataProvider,
+  MockActionHandler,
 } from '../types';
+import { applyOrderAndLimit } from '../utils/SelectorBuilder';
+import { DEFAULT_KEYS_PER_REQUEST } from '../utils/QueryBuilder';
+import { ExpressionEvaluator } from '../utils/expression';
+import { ActionValidator, SelectorValidator } from '../utils/validators';
 import { MockDatabase } from './__mocks__/MockDatabase';
 import { createDefaultMockData } from './__mocks__/mockData';
 
@@ -68,6 +77,8 @@ export class MockAppSheetClient implements AppSheetClientInterface {
   private readonly connectionDef: ConnectionDefinition;
   private readonly runAsUserEmail: string;
   private readonly database: MockDatabase;
+  private readonly evaluator = new ExpressionEvaluator();
+  private readonly actionHandlers = new Map<string, MockActionHandler<any>>();
 
   /**
    * Creates a new Mock AppSheet client instance.
@@ -155,6 +166,29 @@ export class MockAppSheetClient implements AppSheetClientInterface {
     this.database.clearTable(tableName);
   }
 
+  /**
+   * Register the behavior of a named action for `invokeAction()`.
+   *
+   * The handler's returned changes are applied to the stored row. Actions
+   * without a handler leave the row unchanged.
+   *
+   * @param tableName - The real AppSheet table name
+   * @param action - Name of the action
+   * @param handler - Simulated action
+   *
+   * @example
+   * ```typescript
+   * client.registerAction('extract_task', 'Mark Complete', () => ({ status: 'Done' }));
+   * ```
+   */
+  registerAction<T extends Record<string, any> = Record<string, any>>(
+    tableName: string,
+    action: string,
+    handler: MockActionHandler<T>
+  ): void {
+    this.actionHandlers.set(JSON.stringify([tableName, action]), handler);
+  }
+
   /**
    * Add (Create) one or more rows to a table.
    */
@@ -168,7 +202,7 @@ export class MockAppSheetClient implements AppSheetClientInterface {
       const keyField = this.getKeyField(options.tableName);
       const rowWithId = {
         ...row,
-        [keyField]: (row as any)[keyField] || uuidv4(),
+        [keyField]: row[keyField] || uuidv4(),
         created_at: new Date().toISOString(),
         created_by: options.properties?.RunAsUserEmail || this.runAsUserEmail,
       } as T;
@@ -185,15 +219,26 @@ export class MockAppSheetClient implements AppSheetClientInterface {
 
   /**
    * Find (Read) rows from a table with optional filtering.
+   *
+   * Selectors are evaluated locally with the {@link ExpressionEvaluator}
+   * (Filter/Select/OrderBy/Top, AND/OR/NOT, comparisons, IN, CONTAINS, ISBLANK, dates).
+   *
+   * @throws {ExpressionSyntaxError} If the selector cannot be parsed
+   * @throws {UnsupportedExpressionError} If the selector uses constructs the mock cannot evaluate
    */
   async find<T extends Record<string, any> = Record<string, any>>(
     options: FindOptions
   ): Promise<FindResponse<T>> {
+    if (options.validateSelector && options.selector) {
+      this.validateSelector(options.tableName, options.selector);
+    }
+
     let rows = this.database.findAll<T>(options.tableName);
 
-    // Apply selector filter if provided
-    if (options.selector) {
-      rows = this.applySelector(rows, options.selector);
+    // Evaluate selector, sort criteria and limit like the AppSheet API would
+    const selector = this.buildSelector(options);
+    if (selector) {
+      rows = this.evaluator.select(rows, selector);
     }
 
     return {
@@ -212,7 +257,7 @@ export class MockAppSheetClient implements AppSheetClientInterface {
     const keyField = this.getKeyField(options.tableName);
 
     for (const row of options.rows) {
-      const keyValue = (row as any)[keyField];
+      const keyValue = row[keyField];
       if (!keyValue) {
         throw new ValidationError(`Row is missing key field "${keyField}"`, {
           field: keyField,
@@ -244,15 +289,19 @@ export class MockAppSheetClient implements AppSheetClientInterface {
 
   /**
    * Delete one or more rows from a table.
+   *
+   * Reports deleted and not found rows like the real client; `strict`
+   * throws a NotFoundError if any row did not exist.
    */
   async delete<T extends Record<string, any> = Record<string, any>>(
     options: DeleteOptions<T>
-  ): Promise<DeleteResponse> {
+  ): Promise<DeleteResponse<T>> {
     const keyField = this.getKeyField(options.tableName);
-    let deletedCount = 0;
+    const deletedKeys: T[] = [];
+    const notFoundKeys: T[] = [];
 
     for (const row of options.rows) {
-      const keyValue = (row as any)[keyField];
+      const keyValue = row[keyField];
       if (!keyValue) {
         throw new ValidationError(`Row is missing key field "${keyField}"`, {
           field: keyField,
@@ -261,14 +310,124 @@ export class MockAppSheetClient implements AppSheetClientInterface {
       }
 
       const deleted = this.database.delete(options.tableName, keyValue);
-      if (deleted) {
-        deletedCount++;
+      (deleted ? deletedKeys : notFoundKeys).push(row);
+    }
+
+    const result: DeleteResponse<T> = {
+      success: true,
+      deletedCount: deletedKeys.length,
+      deletedKeys,
+      notFoundKeys,
+      warnings: [],
+    };
+
+    if (options.strict && notFoundKeys.length > 0) {
+      throw new NotFoundError(
+        `${notFoundKeys.length} of ${options.rows.length} rows to delete not found in table "${options.tableName}"`,
+        { tableName: options.tableName, notFoundKeys, result }
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Create or update rows, depending on whether their key already exists.
+   *
+   * Splits the rows like the real client (existing keys are edited, all other
+   * rows added, repeated keys edited after the first Add) and stores them via
+   * `add()` and `update()`.
+   */
+  async upsert<T extends Record<string, any> = Record<string, any>>(
+    options: UpsertOptions<T>
+  ): Promise<UpsertResponse<T>> {
+    const tableDef = this.findTableDef(options.tableName);
+    if (!tableDef) {
+      throw new ValidationError(
+        `Cannot upsert into table "${options.tableName}": table is not defined in the connection schema`,
+        { tableName: options.tableName }
+      );
+    }
+    const keysPerRequest = options.keysPerRequest ?? DEFAULT_KEYS_PER_REQUEST;
+    if (!Number.isInteger(keysPerRequest) || keysPerRequest < 1) {
+      throw new ValidationError(
+        `keysPerRequest must be a positive integer, got: ${keysPerRequest}`
+      );
+    }
+
+    const keyField = tableDef.keyField;
+    const toAdd: T[] = [];
+    const toUpdate: T[] = [];
+    const added = new Set<string>();
+
+    for (const row of options.rows) {
+      const keyValue = row[keyField];
+      const hasKey = keyValue !== undefined && keyValue !== null && keyValue !== '';
+      if (
+        hasKey &&
+        (added.has(String(keyValue)) || this.database.findOne(options.tableName, keyValue))
+      ) {
+        toUpdate.push(row);
+      } else {
+        toAdd.push(row);
+        if (hasKey) {
+          added.add(String(keyValue));
+        }
       }
     }
 
+    const created = toAdd.length > 0 ? (await this.add<T>({ ...options, rows: toAdd })).rows : [];
+    const updated =
+      toUpdate.length > 0 ? (await this.update<T>({ ...options, rows: toUpdate })).rows : [];
+
     return {
-      success: true,
-      deletedCount,
+      rows: [...created, ...updated],
+      created,
+      updated,
+      warnings: [],
+    };
+  }
+
+  /**
+   * Invoke a named action on one or more rows.
+   *
+   * Validates the action like the real client, then applies the handler
+   * registered via `registerAction()` to each row.
+   */
+  async invokeAction<T extends Record<string, any> = Record<string, any>>(
+    options: InvokeActionOptions<T>
+  ): Promise<InvokeActionResponse<T>> {
+    const tableDef = this.findTableDef(options.tableName);
+    ActionValidator.validate(options.action, tableDef, options.tableName);
+
+    const handler = this.actionHandlers.get(JSON.stringify([options.tableName, options.action]));
+    const keyField = this.getKeyField(options.tableName);
+    const rows: T[] = [];
+
+    for (const row of options.rows) {
+      const keyValue = row[keyField];
+      if (!keyValue) {
+        throw new ValidationError(`Row is missing key field "${keyField}"`, {
+          field: keyField,
+          tableName: options.tableName,
+        });
+      }
+
+      const existing = this.database.findOne<T>(options.tableName, keyValue);
+      if (!existing) {
+        throw new NotFoundError(
+          `Row with key "${keyValue}" not found in table "${options.tableName}"`,
+          { key: keyValue, tableName: options.tableName }
+        );
+      }
+
+      const changes = handler?.(existing, row);
+      const updated = changes && this.database.update<T>(options.tableName, keyValue, changes);
+      rows.push(updated || existing);
+    }
+
+    return {
+      rows,
       warnings: [],
     };
   }
@@ -395,39 +554,50 @@ export class MockAppSheetClient implements AppSheetClientInterface {
   }
 
   /**
-   * Apply AppSheet selector filter to rows.
+   * Find the definition of an AppSheet table in the connection schema
    *
-   * Supports simple selectors like:
-   * - `[field] = "value"` - Exact match
-   * - `[field] = 'value'` - Exact match (single quotes)
-   * - `[field] IN ("value1", "value2")` - Array match
+   * @param tableName - The real AppSheet table name (not the schema key name)
+   */
+  private findTableDef(tableName: string): TableDefinition | undefined {
+    return Object.values(this.connectionDef.tables).find((def) => def.tableName === tableName);
+  }
+
+  /**
+   * Validate a selector against the schema of the given AppSheet table,
+   * like the real client does for `validateSelector: true`.
    *
-   * @param rows - Rows to filter
-   * @param selector - AppSheet selector expression
-   * @returns Filtered rows
+   * @param tableName - The real AppSheet table name (not the schema key name)
+   * @param selector - Selector expression to validate
+   * @throws {ValidationError} If the table has no schema or the selector has problems
    */
-  private applySelector<T>(rows: T[], selector: string): T[] {
-    // Parse simple selector: [field] = "value"
-    const exactMatchRegex = /\[(\w+)\]\s*=\s*["']([^"']+)["']/;
-    const exactMatch = selector.match(exactMatchRegex);
-
-    if (exactMatch) {
-      const [, field, value] = exactMatch;
-      return rows.filter((row) => (row as any)[field] === value);
+  private validateSelector(tableName: string, selector: string): void {
+    const tableDef = this.findTableDef(tableName);
+    if (!tableDef) {
+      throw new ValidationError(
+        `Cannot validate selector: table "${tableName}" is not defined in the connection schema`,
+        { tableName, selector }
+      );
     }
 
-    // Parse IN selector: [field] IN ("value1", "value2")
-    const inMatchRegex = /\[(\w+)\]\s+IN\s+\(([^)]+)\)/i;
-    const inMatch = selector.match(inMatchRegex);
-
-    if (inMatch) {
-      const [, field, valuesStr] = inMatch;
-      const values = valuesStr.split(',').map((v) => v.trim().replace(/["']/g, ''));
+    SelectorValidator.validate(selector, tableDef);
+  }
 
-      return rows.filter((row) => values.includes((row as any)[field]));
+  /**
+   * Build the selector to evaluate for a find request.
+   *
+   * Composes sort criteria and limit like the real client does
+   * (`Top(OrderBy(selector, ...), n)`), so both are validated the same way.
+   *
+   * @param options - Find options
+   * @returns Selector expression, or undefined if all rows are requested
+   */
+  private buildSelector(options: FindOptions): string | undefined {
+    const hasOrderOrLimit =
+      (options.orderBy && options.orderBy.length > 0) || options.limit !== undefined;
+    if (!hasOrderOrLimit) {
+      return options.selector;
     }
 
-    // If selector is not recognized, return all rows (no filter)
-    return rows;
+    return applyOrderAndLimit(options.selector ?? 'TRUE', options.orderBy, options.limit);
   }
 }
@@ -5,6 +5,7 @@
 export * from './AppSheetClient';
 export * from './MockAppSheetClient';
 export * from './DynamicTable';
+export * from './CachingAppSheetClient';
 
 // Factory implementations (v3.0.0)
 export * from './AppSheetClientFactory';
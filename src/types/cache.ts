@@ -0,0 +1,97 @@
+/**
+ * Cache types for the read-through Find cache
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Storage backend for cached Find results.
+ *
+ * Methods are async so shared stores (e.g. Redis) can be plugged in.
+ * Keys of one table share a common prefix, which `deletePrefix()` uses to
+ * invalidate the table after writes.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const redisStore: CacheStoreInterface = {
+ *   get: async (key) => JSON.parse((await redis.get(key)) ?? 'null') ?? undefined,
+ *   set: async (key, value, ttlMs) => {
+ *     await redis.set(key, JSON.stringify(value), 'PX', ttlMs);
+ *   },
+ *   delete: async (key) => {
+ *     await redis.del(key);
+ *   },
+ *   deletePrefix: async (prefix) => {
+ *     const keys = await redis.keys(`${prefix}*`);
+ *     if (keys.length > 0) await redis.del(...keys);
+ *   },
+ * };
+ * ```
+ */
+export interface CacheStoreInterface {
+  /**
+   * Get a cached value.
+   *
+   * @param key - Cache key
+   * @returns The value, or undefined if missing or expired
+   */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+
+  /**
+   * Store a value.
+   *
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttlMs - Time to live in milliseconds
+   */
+  set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void>;
+
+  /**
+   * Remove a single value.
+   *
+   * @param key - Cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove all values whose key starts with the prefix.
+   *
+   * @param prefix - Key prefix
+   */
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+/**
+ * Cache configuration for a single table (`TableDefinition.cache`).
+ *
+ * @category Types
+ */
+export interface TableCacheOptions {
+  /** Time to live of cached Find results in milliseconds */
+  ttlMs: number;
+}
+
+/**
+ * Configuration of the read-through Find cache.
+ *
+ * Only tables with `cache.ttlMs` in the schema are cached, unless
+ * `defaultTtlMs` is set.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const tableFactory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+ *   cache: { store: new InMemoryLruCacheStore({ maxEntries: 500 }) },
+ * });
+ * ```
+ */
+export interface CacheOptions {
+  /** Storage backend (default: InMemoryLruCacheStore with 1000 entries) */
+  store?: CacheStoreInterface;
+
+  /** TTL for tables without `cache.ttlMs` in the schema (default: those tables are not cached) */
+  defaultTtlMs?: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Circuit breaker types for failing fast while the AppSheet API is degraded
+ * @module types
+ * @category Types
+ */
+
+/**
+ * State of a circuit breaker.
+ *
+ * - `closed`: requests are sent; outcomes are recorded
+ * - `open`: requests fail fast with CircuitOpenError
+ * - `half-open`: a limited number of probe requests are sent to test recovery
+ *
+ * @category Types
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Configuration of the circuit breaker of a connection.
+ *
+ * Can be set per connection via `ConnectionDefinition.circuitBreaker`.
+ * All AppSheetClient instances created by the same AppSheetClientFactory
+ * for an appId share one circuit breaker.
+ *
+ * Network errors and 5xx responses count as failures; other responses
+ * (including 4xx errors) count as successes.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker: CircuitBreakerOptions = {
+ *   failureRateThreshold: 0.5,
+ *   minimumRequests: 10,
+ *   windowMs: 60000,
+ *   openDurationMs: 30000,
+ * };
+ * ```
+ */
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) within the window that opens the circuit (default: 0.5) */
+  failureRateThreshold?: number;
+
+  /** Minimum number of requests within the window before the rate is evaluated (default: 10) */
+  minimumRequests?: number;
+
+  /** Length of the rolling window in milliseconds (default: 60000) */
+  windowMs?: number;
+
+  /** Time the circuit stays open before it half-opens (default: 30000) */
+  openDurationMs?: number;
+
+  /** Probe requests allowed while half-open; all must succeed to close the circuit (default: 1) */
+  halfOpenMaxRequests?: number;
+}
+
+/**
+ * Current status of a circuit breaker, e.g. for health endpoints.
+ *
+ * @category Types
+ */
+export interface CircuitBreakerStatus {
+  /** Current state */
+  state: CircuitState;
+
+  /** Requests recorded within the window */
+  requests: number;
+
+  /** Failed requests recorded within the window */
+  failures: number;
+
+  /** Failure rate within the window (0 if no requests) */
+  failureRate: number;
+
+  /** Time the circuit opened (ms since epoch, only while open or half-open) */
+  openedAt?: number;
+
+  /** Time the circuit half-opens (ms since epoch, only while open) */
+  halfOpenAt?: number;
+}
+
+/**
+ * Interface for circuit breakers around AppSheet API requests.
+ *
+ * The client calls `acquire()` before every HTTP request (including retries)
+ * and reports its outcome with exactly one `recordSuccess()` or `recordFailure()`,
+ * or calls `release()` if the request was cancelled before the API answered.
+ *
+ * @category Types
+ */
+export interface CircuitBreakerInterface {
+  /**
+   * Ask for permission to send a request.
+   *
+   * @throws {CircuitOpenError} If the circuit is open or no probe request is available
+   */
+  acquire(): void;
+
+  /** Record a request that reached the API */
+  recordSuccess(): void;
+
+  /** Record a failed request (network error or 5xx response) */
+  recordFailure(): void;
+
+  /** Release a cancelled request without recording an outcome (frees its half-open probe slot) */
+  release(): void;
+
+  /** Get the current status */
+  getStatus(): CircuitBreakerStatus;
+}
@@ -9,12 +9,16 @@ import {
   FindOptions,
   UpdateOptions,
   DeleteOptions,
+  UpsertOptions,
+  InvokeActionOptions,
 } from './operations';
 import {
   AddResponse,
   FindResponse,
   UpdateResponse,
   DeleteResponse,
+  UpsertResponse,
+  InvokeActionResponse,
 } from './responses';
 import { TableDefinition } from './schema';
 
@@ -75,11 +79,46 @@ export interface AppSheetClientInterface {
   /**
    * Delete one or more rows from a table.
    *
+   * Reports which of the requested rows were deleted and which did not exist.
+   * With `strict: true`, missing rows cause a NotFoundError.
+   *
    * @template T - The type of the rows being deleted
    * @param options - Options for the delete operation
    * @returns Promise resolving to deletion result
    */
-  delete<T extends Record<string, any> = Record<string, any>>(options: DeleteOptions<T>): Promise<DeleteResponse>;
+  delete<T extends Record<string, any> = Record<string, any>>(options: DeleteOptions<T>): Promise<DeleteResponse<T>>;
+
+  /**
+   * Create or update rows, depending on whether their key already exists.
+   *
+   * Existing keys are looked up with batched Finds; the rows are then sent as
+   * one Add and one Edit operation.
+   *
+   * Optional, so that existing client implementations stay compatible;
+   * `CachingAppSheetClient.upsert()` throws an AppSheetError with code
+   * `UNSUPPORTED_OPERATION` if the wrapped client has no upsert.
+   * `DynamicTable.upsert()` does not need it and works with every client.
+   *
+   * @template T - The type of the rows
+   * @param options - Options for the upsert operation
+   * @returns Promise resolving to the created and updated rows
+   */
+  upsert?<T extends Record<string, any> = Record<string, any>>(options: UpsertOptions<T>): Promise<UpsertResponse<T>>;
+
+  /**
+   * Invoke a named action defined in the AppSheet app (e.g. "Mark Complete").
+   *
+   * The action must be declared in the table's `actions` if the table is in the schema.
+   *
+   * Optional, so that existing client implementations stay compatible;
+   * `DynamicTable.invokeAction()` throws an AppSheetError with code
+   * `UNSUPPORTED_OPERATION` for clients without it.
+   *
+   * @template T - The type of the rows
+   * @param options - Options for the action (table, action name, rows)
+   * @returns Promise resolving to the rows returned by the API
+   */
+  invokeAction?<T extends Record<string, any> = Record<string, any>>(options: InvokeActionOptions<T>): Promise<InvokeActionResponse<T>>;
 
   /**
    * Convenience method to find all rows in a table.
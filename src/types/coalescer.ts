@@ -0,0 +1,33 @@
+/**
+ * Request coalescing types for deduplicating concurrent Find requests
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Interface for sharing in-flight requests between identical calls.
+ *
+ * AppSheetClient passes every Find request through `run()` with a key built
+ * from appId, table and request properties (selector, user, locale, ...).
+ * While a request for a key is in flight, further calls with the same key
+ * receive its result instead of sending another request.
+ *
+ * @category Types
+ */
+export interface RequestCoalescerInterface {
+  /**
+   * Run a task, or join the in-flight task with the same key.
+   *
+   * @param key - Identity of the request
+   * @param task - Function that sends the request
+   * @returns The result of the (shared) task
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T>;
+
+  /**
+   * Check whether a task with the key is in flight.
+   *
+   * @param key - Identity of the request
+   */
+  isInFlight(key: string): boolean;
+}
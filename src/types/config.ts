@@ -4,6 +4,15 @@
  * @category Types
  */
 
+import { RetryEvent, RetryPolicyInterface } from './policies';
+import { RequestLimiterInterface } from './limiter';
+import { Middleware } from './middleware';
+import { LoggingOptions } from './logger';
+import { TracerInterface } from './tracing';
+import { MetricsCollectorInterface } from './metrics';
+import { RequestCoalescerInterface } from './coalescer';
+import { CircuitBreakerInterface } from './circuitBreaker';
+
 /**
  * AppSheet client configuration.
  *
@@ -67,3 +76,58 @@ export interface RequestProperties {
   /** Selector/filter expression (for Find operations) */
   Selector?: string;
 }
+
+/**
+ * Optional runtime options for AppSheetClient and AppSheetClientFactory.
+ *
+ * Complements the ConnectionDefinition with behavior that cannot be
+ * expressed in a schema file (policy objects, callbacks, loggers).
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const options: AppSheetClientOptions = {
+ *   retryPolicy: new BackoffRetryPolicy({ maxAttempts: 5 }),
+ *   onRetry: (event) => console.warn(`Retry ${event.attempt} for ${event.action}`, event.error),
+ * };
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, options);
+ * ```
+ */
+export interface AppSheetClientOptions extends LoggingOptions {
+  /**
+   * Retry policy for failed requests.
+   * Default: BackoffRetryPolicy configured from `ConnectionDefinition.retry`.
+   */
+  retryPolicy?: RetryPolicyInterface;
+
+  /** Called before each retry with the failed attempt and the delay until the next one */
+  onRetry?: (event: RetryEvent) => void;
+
+  /**
+   * Limiter every request is passed through.
+   * Default: none, or the factory's shared limiter if `ConnectionDefinition.rateLimit` is set.
+   */
+  limiter?: RequestLimiterInterface;
+
+  /** Middlewares wrapped around every API call, outermost first (see AppSheetClient.use()) */
+  middleware?: Middleware[];
+
+  /** Tracer for one span per operation (default: no tracing) */
+  tracer?: TracerInterface;
+
+  /** Metrics collector that receives one record per API request (default: none) */
+  metrics?: MetricsCollectorInterface;
+
+  /**
+   * Coalescer that lets identical concurrent Find requests share one API call.
+   * Default: one per client, or the factory's shared coalescer.
+   */
+  coalescer?: RequestCoalescerInterface;
+
+  /**
+   * Circuit breaker every request is passed through.
+   * Default: none, or the factory's shared breaker if `ConnectionDefinition.circuitBreaker` is set.
+   */
+  circuitBreaker?: CircuitBreakerInterface;
+}
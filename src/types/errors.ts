@@ -2,6 +2,8 @@
  * Error types for AppSheet operations
  */
 
+import { BatchResult } from './responses';
+
 /**
  * Base error class for AppSheet operations
  */
@@ -55,7 +57,16 @@ export class NotFoundError extends AppSheetError {
  * Rate limit exceeded error
  */
 export class RateLimitError extends AppSheetError {
-  constructor(message: string, details?: any) {
+  /**
+   * @param message - Error message
+   * @param details - Optional response details
+   * @param retryAfterMs - Wait time requested by the `Retry-After` response header
+   */
+  constructor(
+    message: string,
+    details?: any,
+    public readonly retryAfterMs?: number
+  ) {
     super(message, 'RATE_LIMIT', 429, details);
     this.name = 'RateLimitError';
     Object.setPrototypeOf(this, RateLimitError.prototype);
@@ -72,3 +83,88 @@ export class NetworkError extends AppSheetError {
     Object.setPrototypeOf(this, NetworkError.prototype);
   }
 }
+
+/**
+ * Syntax error in an AppSheet expression
+ */
+export class ExpressionSyntaxError extends AppSheetError {
+  constructor(
+    message: string,
+    public readonly position: number,
+    details?: any
+  ) {
+    super(message, 'EXPRESSION_SYNTAX_ERROR', undefined, details);
+    this.name = 'ExpressionSyntaxError';
+    Object.setPrototypeOf(this, ExpressionSyntaxError.prototype);
+  }
+}
+
+/**
+ * Expression uses a construct that cannot be evaluated locally
+ */
+export class UnsupportedExpressionError extends AppSheetError {
+  constructor(message: string, details?: any) {
+    super(message, 'UNSUPPORTED_EXPRESSION', undefined, details);
+    this.name = 'UnsupportedExpressionError';
+    Object.setPrototypeOf(this, UnsupportedExpressionError.prototype);
+  }
+}
+
+/**
+ * Request waited longer than the configured queue timeout of the request limiter
+ */
+export class QueueTimeoutError extends AppSheetError {
+  constructor(message: string, details?: any) {
+    super(message, 'QUEUE_TIMEOUT', undefined, details);
+    this.name = 'QueueTimeoutError';
+    Object.setPrototypeOf(this, QueueTimeoutError.prototype);
+  }
+}
+
+/**
+ * One or more chunks of a chunked Add, Edit or Delete operation failed.
+ * `result` holds the rows of the successful chunks and the outcome of every chunk.
+ */
+export class PartialBatchError<T = Record<string, any>> extends AppSheetError {
+  constructor(
+    message: string,
+    public readonly result: BatchResult<T>
+  ) {
+    super(message, 'PARTIAL_BATCH_FAILURE', undefined, {
+      failedChunks: result.chunks.filter((chunk) => !chunk.success),
+    });
+    this.name = 'PartialBatchError';
+    Object.setPrototypeOf(this, PartialBatchError.prototype);
+  }
+}
+
+/**
+ * Circuit breaker of the connection is open; the request was not sent
+ */
+export class CircuitOpenError extends AppSheetError {
+  /**
+   * @param message - Error message
+   * @param details - Optional circuit breaker status
+   * @param retryAfterMs - Time until the circuit half-opens and probes the API again
+   */
+  constructor(
+    message: string,
+    details?: any,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message, 'CIRCUIT_OPEN', undefined, details);
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
+/**
+ * Operation was cancelled via its AbortSignal
+ */
+export class CancellationError extends AppSheetError {
+  constructor(message: string, details?: any) {
+    super(message, 'CANCELLED', undefined, details);
+    this.name = 'CancellationError';
+    Object.setPrototypeOf(this, CancellationError.prototype);
+  }
+}
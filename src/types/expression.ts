@@ -0,0 +1,263 @@
+/**
+ * AST types for AppSheet selector expressions
+ *
+ * Typed representation of AppSheet expressions as produced by the
+ * ExpressionParser and rendered back by the ExpressionPrinter.
+ *
+ * @see https://support.google.com/appsheet/answer/10105770
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Kinds of tokens produced by the expression tokenizer.
+ *
+ * @category Types
+ */
+export type ExpressionTokenType =
+  | 'Field'
+  | 'String'
+  | 'Number'
+  | 'Identifier'
+  | 'Operator'
+  | 'LeftParen'
+  | 'RightParen'
+  | 'LeftBrace'
+  | 'RightBrace'
+  | 'Comma'
+  | 'End';
+
+/**
+ * A single token of an AppSheet expression.
+ *
+ * @category Types
+ */
+export interface ExpressionToken {
+  /** Token kind */
+  type: ExpressionTokenType;
+
+  /** Token value (field name without brackets, unescaped string content, operator, ...) */
+  value: string;
+
+  /** Zero-based character offset of the token in the source expression */
+  position: number;
+}
+
+/**
+ * Comparison operators. `!=` is normalized to `<>` by the parser.
+ *
+ * @category Types
+ */
+export type ComparisonOperator = '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+/**
+ * Arithmetic operators (e.g. `TODAY() - 7`).
+ *
+ * @category Types
+ */
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+/**
+ * Literal value: string, number, boolean, or date/datetime.
+ *
+ * Date and datetime literals are produced for `DATE("YYYY-MM-DD")` and
+ * `DATETIME("...")` calls with a constant string argument.
+ *
+ * @category Types
+ */
+export interface LiteralNode {
+  type: 'Literal';
+  valueType: 'string' | 'number' | 'boolean' | 'date' | 'datetime';
+  value: string | number | boolean;
+}
+
+/**
+ * Column reference: `[Field]` or `Table[Field]`.
+ *
+ * @category Types
+ */
+export interface FieldNode {
+  type: 'Field';
+  name: string;
+  /** Table name for table-qualified column lists (e.g. `People[_ComputedKey]`) */
+  table?: string;
+}
+
+/**
+ * Bare identifier, typically a table name (e.g. `People` in `Filter(People, ...)`).
+ *
+ * @category Types
+ */
+export interface IdentifierNode {
+  type: 'Identifier';
+  name: string;
+}
+
+/**
+ * List of values: `LIST(a, b)`, `{a, b}` or the parenthesized list of infix `IN`.
+ *
+ * @category Types
+ */
+export interface ListNode {
+  type: 'List';
+  items: ExpressionNode[];
+}
+
+/**
+ * Function call, e.g. `Filter(...)`, `CONTAINS(...)`, `TODAY()`.
+ *
+ * The function name is kept as written; AppSheet function names are case-insensitive.
+ *
+ * @category Types
+ */
+export interface CallNode {
+  type: 'Call';
+  name: string;
+  args: ExpressionNode[];
+}
+
+/**
+ * Binary comparison: `left operator right`.
+ *
+ * @category Types
+ */
+export interface ComparisonNode {
+  type: 'Comparison';
+  operator: ComparisonOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Logical combination, from infix (`a AND b`) or function form (`AND(a, b)`).
+ *
+ * @category Types
+ */
+export interface LogicalNode {
+  type: 'Logical';
+  operator: 'AND' | 'OR';
+  operands: ExpressionNode[];
+}
+
+/**
+ * Negation, from `NOT(a)` or `NOT a`.
+ *
+ * @category Types
+ */
+export interface NotNode {
+  type: 'Not';
+  operand: ExpressionNode;
+}
+
+/**
+ * Membership test, from `IN(value, list)` or infix `value IN (a, b)`.
+ *
+ * @category Types
+ */
+export interface InNode {
+  type: 'In';
+  value: ExpressionNode;
+  list: ExpressionNode;
+}
+
+/**
+ * Arithmetic expression: `left operator right`.
+ *
+ * @category Types
+ */
+export interface ArithmeticNode {
+  type: 'Arithmetic';
+  operator: ArithmeticOperator;
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+/**
+ * Any node of a parsed AppSheet expression.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const ast = ExpressionParser.parse('Filter(People, [Age] >= 21)');
+ * // {
+ * //   type: 'Call',
+ * //   name: 'Filter',
+ * //   args: [
+ * //     { type: 'Identifier', name: 'People' },
+ * //     {
+ * //       type: 'Comparison',
+ * //       operator: '>=',
+ * //       left: { type: 'Field', name: 'Age' },
+ * //       right: { type: 'Literal', valueType: 'number', value: 21 }
+ * //     }
+ * //   ]
+ * // }
+ * ```
+ */
+export type ExpressionNode =
+  | LiteralNode
+  | FieldNode
+  | IdentifierNode
+  | ListNode
+  | CallNode
+  | ComparisonNode
+  | LogicalNode
+  | NotNode
+  | InNode
+  | ArithmeticNode;
+
+/**
+ * Options for the ExpressionEvaluator.
+ *
+ * @category Types
+ */
+export interface ExpressionEvaluatorOptions {
+  /**
+   * Clock used for `TODAY()` and `NOW()`.
+   * Defaults to the current system time.
+   */
+  now?: () => Date;
+}
+
+/**
+ * Value produced by evaluating an expression against a row.
+ *
+ * Blank values (`undefined`, `null`, `""`) are represented as `null`,
+ * dates as `Date` objects and lists as arrays.
+ *
+ * @category Types
+ */
+export type ExpressionValue = string | number | boolean | Date | null | ExpressionValue[];
+
+/**
+ * Kind of problem found by schema-aware selector validation.
+ *
+ * - `unknownField`: `[Field]` is not defined in the table schema
+ * - `typeMismatch`: literal does not match the field's AppSheet type
+ * - `invalidEnumValue`: literal is not in the field's `allowedValues`
+ *
+ * @category Types
+ */
+export type SelectorIssueType = 'unknownField' | 'typeMismatch' | 'invalidEnumValue';
+
+/**
+ * A single problem found by schema-aware selector validation.
+ *
+ * Listed in `ValidationError.details.issues`.
+ *
+ * @category Types
+ */
+export interface SelectorIssue {
+  /** Kind of problem */
+  type: SelectorIssueType;
+
+  /** Field name the problem refers to */
+  field: string;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Offending literal value (for type and enum problems) */
+  value?: string | number | boolean;
+}
@@ -12,6 +12,11 @@
 
 import { AppSheetClientInterface } from './client';
 import { ConnectionDefinition } from './schema';
+import { LoggingOptions } from './logger';
+import { TracerInterface } from './tracing';
+import { ReadConversionPolicyInterface } from './policies';
+import { CacheOptions } from './cache';
+import { CircuitBreakerStatus } from './circuitBreaker';
 import { DynamicTable } from '../client/DynamicTable';
 
 /**
@@ -45,6 +50,14 @@ export interface AppSheetClientFactoryInterface {
    * @returns A new AppSheetClientInterface instance
    */
   create(connectionDef: ConnectionDefinition, runAsUserEmail: string): AppSheetClientInterface;
+
+  /**
+   * Get the status of the circuit breaker used for a connection (optional).
+   *
+   * @param connectionDef - Connection definition
+   * @returns The status, or undefined if the connection has no circuit breaker
+   */
+  getCircuitBreakerStatus?(connectionDef: ConnectionDefinition): CircuitBreakerStatus | undefined;
 }
 
 /**
@@ -82,3 +95,37 @@ export interface DynamicTableFactoryInterface {
     runAsUserEmail: string
   ): DynamicTable<T>;
 }
+
+/**
+ * Runtime options for DynamicTable.
+ *
+ * @category Types
+ */
+export interface DynamicTableOptions {
+  /** Tracer for one span per table operation (default: no tracing) */
+  tracer?: TracerInterface;
+
+  /** Policy for converting field values of found rows (default: NoOpReadConversionPolicy) */
+  readConversionPolicy?: ReadConversionPolicyInterface;
+}
+
+/**
+ * Runtime options for DynamicTableFactory and SchemaManager.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const tracer = new InMemoryTracer();
+ * const db = new SchemaManager(new AppSheetClientFactory(undefined, { tracer }), schema, undefined, {
+ *   tracer,
+ * });
+ * ```
+ */
+export interface DynamicTableFactoryOptions extends LoggingOptions, DynamicTableOptions {
+  /**
+   * Enable the read-through Find cache for tables with `cache.ttlMs` in the schema.
+   * Created tables use a {@link CachingAppSheetClient} with a store shared by the factory.
+   */
+  cache?: CacheOptions;
+}
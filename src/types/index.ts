@@ -31,3 +31,33 @@ export * from './selector';
 
 // Policy interfaces
 export * from './policies';
+
+// Expression AST types
+export * from './expression';
+
+// Request limiter types
+export * from './limiter';
+
+// Middleware types
+export * from './middleware';
+
+// Logger types
+export * from './logger';
+
+// Tracing types
+export * from './tracing';
+
+// Metrics types
+export * from './metrics';
+
+// Cache types
+export * from './cache';
+
+// Request coalescing types
+export * from './coalescer';
+
+// Circuit breaker types
+export * from './circuitBreaker';
+
+// Row validation types
+export * from './validation';
@@ -0,0 +1,65 @@
+/**
+ * Request limiter types for client-side rate and concurrency limiting
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Configuration for client-side request limiting of a connection.
+ *
+ * Can be set per connection via `ConnectionDefinition.rateLimit`.
+ * All AppSheetClient instances created by the same AppSheetClientFactory
+ * for an appId share one limiter.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const rateLimit: RequestLimiterOptions = {
+ *   requestsPerSecond: 5,
+ *   burst: 10,
+ *   maxConcurrent: 4,
+ *   queueTimeoutMs: 30000,
+ * };
+ * ```
+ */
+export interface RequestLimiterOptions {
+  /** Sustained request rate (token bucket refill rate). Default: unlimited */
+  requestsPerSecond?: number;
+
+  /**
+   * Token bucket size, i.e. requests that may start at once (default: requestsPerSecond, min 1).
+   * Ignored without `requestsPerSecond`.
+   */
+  burst?: number;
+
+  /** Maximum number of requests in flight at the same time. Default: unlimited */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum time in milliseconds a request may wait in the queue.
+   * Waiting requests fail with QueueTimeoutError afterwards. Default: wait indefinitely
+   */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Interface for limiting requests sent to the AppSheet API.
+ *
+ * The client passes every HTTP request (including retries) through
+ * `schedule()`. Implementations decide when the request may start.
+ *
+ * @category Types
+ */
+export interface RequestLimiterInterface {
+  /**
+   * Run a task as soon as the limits allow it.
+   *
+   * @param task - Function that sends the request
+   * @param signal - Optional AbortSignal of the request; a task cancelled while
+   *   waiting must not start and should reject with CancellationError
+   * @returns The result of the task
+   * @throws {QueueTimeoutError} If the task waited longer than the queue timeout
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
@@ -0,0 +1,69 @@
+/**
+ * Logger types for structured logging
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Log levels in increasing severity.
+ *
+ * @category Types
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log message.
+ *
+ * @category Types
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Interface for structured loggers.
+ *
+ * Uses the `(message, context)` signature of winston and console-like
+ * loggers, so these can be passed directly. Use `PinoLoggerAdapter` for pino,
+ * whose methods take the context object first.
+ *
+ * All loggers passed to the library are wrapped so that the
+ * `ApplicationAccessKey` and configured row fields are redacted from the context.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * import winston from 'winston';
+ *
+ * const logger: LoggerInterface = winston.createLogger({ level: 'debug' });
+ * const factory = new AppSheetClientFactory(undefined, { logger });
+ * ```
+ */
+export interface LoggerInterface {
+  /** Detailed diagnostic messages (request start/end, payloads) */
+  debug(message: string, context?: LogContext): void;
+
+  /** Informational messages */
+  info(message: string, context?: LogContext): void;
+
+  /** Recoverable problems (retries, API warnings) */
+  warn(message: string, context?: LogContext): void;
+
+  /** Failed operations */
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Logging configuration shared by the client, factories and SchemaManager.
+ *
+ * @category Types
+ */
+export interface LoggingOptions {
+  /** Logger to write to (default: no logging) */
+  logger?: LoggerInterface;
+
+  /**
+   * Row field names whose values are replaced with `[REDACTED]` in log context
+   * (matched case-insensitively at any depth). `ApplicationAccessKey` is always redacted.
+   */
+  redactFields?: string[];
+}
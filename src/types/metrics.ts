@@ -0,0 +1,126 @@
+/**
+ * Metrics types for request counters and latency histograms
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Metrics of a single AppSheet API request (including its retries).
+ *
+ * @category Types
+ */
+export interface RequestMetric {
+  /** AppSheet app ID of the connection */
+  appId: string;
+
+  /** AppSheet table name */
+  tableName: string;
+
+  /** AppSheet API action ('Add', 'Find', 'Edit', 'Delete') */
+  action: string;
+
+  /** Duration of the request including retries and delays in milliseconds */
+  durationMs: number;
+
+  /** Number of retries before the request succeeded or failed */
+  retries: number;
+
+  /** Rows returned by a successful Find */
+  rowsRead: number;
+
+  /** Rows sent by a successful Add, Edit or Delete */
+  rowsWritten: number;
+
+  /** `AppSheetError.code` of a failed request ('UNKNOWN_ERROR' for other errors) */
+  errorCode?: string;
+}
+
+/**
+ * Sink for request metrics.
+ *
+ * Configured via `AppSheetClientOptions.metrics` (usually on the
+ * AppSheetClientFactory, so all clients report to the same collector).
+ * `recordRequest()` is called synchronously after every API request and
+ * should not throw.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const metrics = new InMemoryMetricsCollector();
+ * const factory = new AppSheetClientFactory(undefined, { metrics });
+ *
+ * // Expose for Prometheus
+ * app.get('/metrics', (_req, res) => {
+ *   res.type('text/plain').send(new PrometheusFormatter().format(metrics.snapshot()));
+ * });
+ * ```
+ */
+export interface MetricsCollectorInterface {
+  /**
+   * Record a finished API request.
+   *
+   * @param metric - Request metrics
+   */
+  recordRequest(metric: RequestMetric): void;
+}
+
+/**
+ * Cumulative latency histogram.
+ *
+ * @category Types
+ */
+export interface HistogramSnapshot {
+  /** Cumulative counts per upper bound in milliseconds (ascending, without +Inf) */
+  buckets: Array<{ le: number; count: number }>;
+
+  /** Sum of all observed durations in milliseconds */
+  sum: number;
+
+  /** Number of observations */
+  count: number;
+}
+
+/**
+ * Aggregated metrics for one connection, table and action.
+ *
+ * @category Types
+ */
+export interface TableMetricsSnapshot {
+  /** AppSheet app ID of the connection */
+  appId: string;
+
+  /** AppSheet table name */
+  tableName: string;
+
+  /** AppSheet API action */
+  action: string;
+
+  /** Number of requests (successful and failed) */
+  requests: number;
+
+  /** Number of failed requests by error code */
+  errors: Record<string, number>;
+
+  /** Total number of retries */
+  retries: number;
+
+  /** Total rows read */
+  rowsRead: number;
+
+  /** Total rows written */
+  rowsWritten: number;
+
+  /** Request latency histogram */
+  latency: HistogramSnapshot;
+}
+
+/**
+ * Point-in-time copy of all collected metrics.
+ *
+ * @category Types
+ */
+export interface MetricsSnapshot {
+  /** Metrics per connection, table and action */
+  tables: TableMetricsSnapshot[];
+}
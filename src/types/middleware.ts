@@ -0,0 +1,103 @@
+/**
+ * Middleware types for the AppSheetClient request pipeline
+ * @module types
+ * @category Types
+ */
+
+import { RequestProperties } from './config';
+import { ApiResponse } from './responses';
+
+/**
+ * Request payload sent to the AppSheet API.
+ *
+ * @category Types
+ */
+export interface RequestPayload {
+  /** AppSheet API action ('Add', 'Find', 'Edit', 'Delete' or a named action) */
+  Action: string;
+
+  /** Request properties (Locale, Location, Timezone, RunAsUserEmail, Selector, ...) */
+  Properties: RequestProperties;
+
+  /** Rows sent with the request (empty for Find) */
+  Rows: any[];
+}
+
+/**
+ * Context of a single AppSheet API call, passed through the middleware chain.
+ *
+ * Before `next()`: action, tableName, payload and headers can be inspected or
+ * modified. After `next()` resolves, `response` holds the API response; if
+ * `next()` rejects, `error` holds the error.
+ *
+ * @category Types
+ */
+export interface RequestContext {
+  /** AppSheet app ID of the connection */
+  readonly appId: string;
+
+  /** AppSheet API action ('Add', 'Find', 'Edit', 'Delete' or a named action) */
+  readonly action: string;
+
+  /** AppSheet table name */
+  readonly tableName: string;
+
+  /** Request URL relative to the API base URL */
+  url: string;
+
+  /** Request payload (modifications are sent to the API) */
+  payload: RequestPayload;
+
+  /** Request properties (same object as `payload.Properties`) */
+  properties: RequestProperties;
+
+  /** Additional HTTP headers for this request */
+  headers: Record<string, string>;
+
+  /** Signal that cancels the request (from the operation options) */
+  readonly signal?: AbortSignal;
+
+  /** Timeout per HTTP attempt in milliseconds (default: `ConnectionDefinition.timeout`) */
+  timeoutMs?: number;
+
+  /**
+   * Time (as `Date.now()`) by which the request must be done, including retries.
+   * Set from the `timeoutMs` of the operation options; caps the timeout of every
+   * attempt, and no retry is started after it.
+   */
+  readonly deadline?: number;
+
+  /** API response (set after the request succeeded, or by a middleware to short-circuit) */
+  response?: ApiResponse;
+
+  /** Error of the failed request (after retries) */
+  error?: Error;
+
+  /** Free-form per-request state shared between middlewares */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Middleware around every AppSheet API call.
+ *
+ * Call `next()` to continue with the next middleware (and finally the HTTP
+ * request including retries). Not calling `next()` skips the request; the
+ * middleware must then set `ctx.response`.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const timing: Middleware = async (ctx, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     await next();
+ *   } finally {
+ *     console.log(`${ctx.action} ${ctx.tableName}: ${Date.now() - start}ms`);
+ *   }
+ * };
+ *
+ * client.use(timing);
+ * ```
+ */
+export type Middleware = (ctx: RequestContext, next: () => Promise<void>) => Promise<void>;
@@ -140,3 +140,21 @@ export interface MockDataProvider {
    */
   getTables(): Map<string, TableData>;
 }
+
+/**
+ * Simulated app-defined action for MockAppSheetClient.
+ *
+ * Receives the stored row and the row passed to `invokeAction()`, and returns
+ * the field changes the action makes (or nothing if it changes no fields).
+ *
+ * @category Mock
+ *
+ * @example
+ * ```typescript
+ * mockClient.registerAction('tasks', 'Mark Complete', () => ({ status: 'Done' }));
+ * ```
+ */
+export type MockActionHandler<T = Record<string, any>> = (
+  row: T,
+  input: Partial<T>
+) => Partial<T> | void;
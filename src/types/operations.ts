@@ -3,11 +3,40 @@
  */
 
 import { RequestProperties } from './config';
+import type { QueryCondition } from '../utils/QueryBuilder';
+
+/**
+ * Chunking configuration for Add, Edit and Delete operations.
+ *
+ * Batches with more than `maxRowsPerRequest` rows are split into chunks that
+ * are sent as separate requests and merged into one response.
+ */
+export interface BatchOptions {
+  /** Maximum number of rows per API request (default: no limit, one request) */
+  maxRowsPerRequest?: number;
+
+  /** Number of chunks sent in parallel (default: 1, sequential) */
+  concurrency?: number;
+}
+
+/**
+ * Cancellation and timeout options, available on every operation.
+ *
+ * A cancelled operation stops immediately — also while waiting between
+ * retries — and rejects with a CancellationError.
+ */
+export interface RequestControlOptions {
+  /** Signal to cancel the operation */
+  signal?: AbortSignal;
+
+  /** Timeout per API request in ms, including retries (overrides `ConnectionDefinition.timeout`) */
+  timeoutMs?: number;
+}
 
 /**
  * Options for Add (Create) operation
  */
-export interface AddOptions<T = Record<string, any>> {
+export interface AddOptions<T = Record<string, any>> extends RequestControlOptions {
   /** Name of the table to add rows to */
   tableName: string;
 
@@ -16,26 +45,113 @@ export interface AddOptions<T = Record<string, any>> {
 
   /** Optional request properties */
   properties?: RequestProperties;
+
+  /** Optional chunking, overrides `ConnectionDefinition.batching` */
+  batch?: BatchOptions;
+}
+
+/**
+ * Sort direction for ordered Find operations
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Sort criterion for Find operations
+ */
+export interface SortOrder {
+  /** Field name to sort by (without brackets) */
+  field: string;
+
+  /** Sort direction (default: 'asc') */
+  direction?: SortDirection;
 }
 
 /**
  * Options for Find (Read) operation
  */
-export interface FindOptions {
+export interface FindOptions extends RequestControlOptions {
   /** Name of the table to query */
   tableName: string;
 
   /** Optional selector/filter expression (e.g., "_RowNumber > 10") */
   selector?: string;
 
+  /**
+   * Optional sort criteria, applied in order.
+   * Rendered as `OrderBy(selector, [field], is-descending, ...)`.
+   */
+  orderBy?: SortOrder[];
+
+  /**
+   * Optional maximum number of rows to return (positive integer).
+   * Rendered as `Top(selector, limit)` around the (ordered) selector.
+   */
+  limit?: number;
+
+  /**
+   * Validate the selector against the table schema before sending the request.
+   * Unknown fields and literals that do not match the field type are reported
+   * as a ValidationError (default: false).
+   */
+  validateSelector?: boolean;
+
+  /**
+   * Share the result of an identical Find (same table, selector, properties and
+   * user) that is already in flight instead of sending another request (default: true).
+   * Finds with a `signal` or `timeoutMs` are never coalesced.
+   */
+  coalesce?: boolean;
+
   /** Optional request properties */
   properties?: RequestProperties;
 }
 
+/**
+ * Options for DynamicTable.find()
+ */
+export interface TableFindOptions extends RequestControlOptions {
+  /** Optional sort criteria, applied in order */
+  orderBy?: SortOrder[];
+
+  /** Optional maximum number of rows to return */
+  limit?: number;
+
+  /** Validate the selector against the table schema before sending (default: false) */
+  validateSelector?: boolean;
+}
+
+/**
+ * Options for DynamicTable.iterate()
+ */
+export interface TableIterateOptions extends RequestControlOptions {
+  /** Optional filter: boolean expression, `Filter()` selector or query built with `where()` */
+  selector?: string | QueryCondition;
+
+  /** Number of rows per request (default: 500) */
+  pageSize?: number;
+}
+
+/**
+ * Options for DynamicTable.findPage()
+ */
+export interface TableFindPageOptions extends RequestControlOptions {
+  /** Optional filter: boolean expression, `Filter()` selector or query built with `where()` */
+  selector?: string | QueryCondition;
+
+  /** Optional sort criteria; the key field is added as the last criterion */
+  orderBy?: SortOrder[];
+
+  /** Number of rows per page (default: 50) */
+  pageSize?: number;
+
+  /** `nextCursor` of the previous page (omit for the first page) */
+  cursor?: string;
+}
+
 /**
  * Options for Update (Edit) operation
  */
-export interface UpdateOptions<T = Record<string, any>> {
+export interface UpdateOptions<T = Record<string, any>> extends RequestControlOptions {
   /** Name of the table to update */
   tableName: string;
 
@@ -44,12 +160,15 @@ export interface UpdateOptions<T = Record<string, any>> {
 
   /** Optional request properties */
   properties?: RequestProperties;
+
+  /** Optional chunking, overrides `ConnectionDefinition.batching` */
+  batch?: BatchOptions;
 }
 
 /**
  * Options for Delete operation
  */
-export interface DeleteOptions<T = Record<string, any>> {
+export interface DeleteOptions<T = Record<string, any>> extends RequestControlOptions {
   /** Name of the table to delete from */
   tableName: string;
 
@@ -58,4 +177,96 @@ export interface DeleteOptions<T = Record<string, any>> {
 
   /** Optional request properties */
   properties?: RequestProperties;
+
+  /** Optional chunking, overrides `ConnectionDefinition.batching` */
+  batch?: BatchOptions;
+
+  /**
+   * Throw a NotFoundError if any of the rows did not exist (default: false).
+   * Rows that existed are deleted anyway.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Options for DynamicTable.findByKeys()
+ */
+export interface FindByKeysOptions extends RequestControlOptions {
+  /** Maximum number of keys per Find request (default: 100) */
+  keysPerRequest?: number;
+}
+
+/**
+ * Options for DynamicTable.validate()
+ */
+export interface TableValidateOptions {
+  /** Validate partial rows like update() does, without checking required fields (default: false) */
+  partial?: boolean;
+}
+
+/**
+ * Options for DynamicTable.addBulk() and updateBulk()
+ */
+export interface BulkWriteOptions extends RequestControlOptions {
+  /**
+   * Send only the valid rows and report the invalid ones in the result,
+   * instead of rejecting the whole batch with a ValidationError (default: false)
+   */
+  continueOnValidationError?: boolean;
+}
+
+/**
+ * Options for DynamicTable.delete()
+ */
+export interface TableDeleteOptions extends RequestControlOptions {
+  /** Throw a NotFoundError if any of the keys did not exist (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Options for DynamicTable.upsert()
+ */
+export interface TableUpsertOptions extends RequestControlOptions {
+  /** Maximum number of keys per Find request of the key lookup (default: 100) */
+  keysPerRequest?: number;
+}
+
+/**
+ * Options for Upsert (Add or Edit) operation
+ */
+export interface UpsertOptions<T = Record<string, any>> extends RequestControlOptions {
+  /** Name of the table to write to */
+  tableName: string;
+
+  /** Rows to create or update (rows without key value are always created) */
+  rows: T[];
+
+  /** Optional request properties */
+  properties?: RequestProperties;
+
+  /** Optional chunking of the Add and Edit requests, overrides `ConnectionDefinition.batching` */
+  batch?: BatchOptions;
+
+  /** Maximum number of keys per Find request of the key lookup (default: 100) */
+  keysPerRequest?: number;
+}
+
+/**
+ * Options for invoking a named AppSheet action (e.g. "Mark Complete")
+ */
+export interface InvokeActionOptions<T = Record<string, any>> extends RequestControlOptions {
+  /** Name of the table the action is defined on */
+  tableName: string;
+
+  /** Name of the app-defined action, must be declared in the table's `actions` */
+  action: string;
+
+  /** Rows to run the action on (must include key field) */
+  rows: T[];
+
+  /** Optional request properties */
+  properties?: RequestProperties;
+
+  /** Optional chunking, overrides `ConnectionDefinition.batching` */
+  batch?: BatchOptions;
 }
@@ -1,17 +1,23 @@
 /**
- * Policy interfaces for DynamicTable behavior customization
+ * Policy interfaces for DynamicTable and AppSheetClient behavior customization
  *
  * Defines injectable policies for:
  * - Unknown field handling (strip, ignore, error)
  * - Write value conversion (no-op, locale date formatting)
+ * - Read value conversion (no-op, ISO dates and native types)
+ * - Request retries (backoff, jitter, retryable errors)
  *
- * Both follow the Strategy Pattern, injectable via DynamicTable/DynamicTableFactory constructor.
+ * All follow the Strategy Pattern. Table policies are injectable via the
+ * DynamicTable/DynamicTableFactory constructor (the read conversion policy
+ * via their options), the retry policy via
+ * AppSheetClient options or `ConnectionDefinition.retry`.
  *
  * @module types
  * @category Types
  */
 
 import { FieldDefinition } from './schema';
+import { AppSheetError } from './errors';
 
 /**
  * Interface for handling fields in row objects that are not defined in the table schema.
@@ -107,3 +113,207 @@ export interface WriteConversionPolicyInterface {
     locale?: string
   ): Partial<T>[];
 }
+
+/**
+ * Interface for converting field values of rows returned by the AppSheet API.
+ *
+ * Implementations can convert the raw AppSheet strings (locale dates, numbers
+ * as text, "Y"/"N" booleans, comma-separated lists) to ISO dates and native
+ * JavaScript types. The policy is applied to the rows of all DynamicTable
+ * `find*()` methods.
+ *
+ * Counterpart to WriteConversionPolicyInterface — injectable via the
+ * `readConversionPolicy` option of DynamicTable/DynamicTableFactory.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * // Use built-in policies
+ * import { NoOpReadConversionPolicy, LocaleReadConversionPolicy } from '@techdivision/appsheet';
+ *
+ * // Or create a custom policy
+ * class CustomReadConversionPolicy implements ReadConversionPolicyInterface {
+ *   apply<T extends Record<string, any>>(
+ *     tableName: string,
+ *     rows: T[],
+ *     fields: Record<string, FieldDefinition>,
+ *     locale?: string
+ *   ): T[] {
+ *     // Custom conversion logic here
+ *     return rows;
+ *   }
+ * }
+ * ```
+ */
+export interface ReadConversionPolicyInterface {
+  /**
+   * Convert field values in rows returned by the AppSheet API.
+   *
+   * @param tableName - The AppSheet table name (for context)
+   * @param rows - The rows returned by the API
+   * @param fields - Field definitions from the table schema (includes field types)
+   * @param locale - Optional BCP 47 locale tag the values are formatted in
+   * @returns Converted rows (may have transformed field values)
+   */
+  apply<T extends Record<string, any>>(
+    tableName: string,
+    rows: T[],
+    fields: Record<string, FieldDefinition>,
+    locale?: string
+  ): T[];
+}
+
+/**
+ * Context passed to a retry policy after a failed request attempt.
+ *
+ * @category Types
+ */
+export interface RetryContext {
+  /** AppSheet API action of the request ('Add', 'Find', 'Edit', 'Delete' or a named action) */
+  action: string;
+
+  /** AppSheet table name of the request */
+  tableName: string;
+
+  /** Number of the attempt that failed (1 = first attempt) */
+  attempt: number;
+
+  /** The error of the failed attempt */
+  error: AppSheetError;
+}
+
+/**
+ * Event emitted before a failed request is retried.
+ *
+ * @category Types
+ */
+export interface RetryEvent extends RetryContext {
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Matches errors that should be retried.
+ *
+ * - Error class: matches instances (e.g. `RateLimitError`, `NetworkError`)
+ * - string: matches `AppSheetError.code` (e.g. `'NETWORK_ERROR'`)
+ * - number: matches `AppSheetError.statusCode` (e.g. `503`)
+ *
+ * @category Types
+ */
+export type RetryableErrorMatcher =
+  | (abstract new (...args: any[]) => AppSheetError)
+  | string
+  | number;
+
+/**
+ * Backoff strategy for retry delays.
+ *
+ * - `exponential`: baseDelayMs * 2^(attempt - 1)
+ * - `linear`: baseDelayMs * attempt
+ * - `constant`: baseDelayMs
+ *
+ * @category Types
+ */
+export type BackoffStrategy = 'exponential' | 'linear' | 'constant';
+
+/**
+ * Jitter applied to retry delays to spread out concurrent retries.
+ *
+ * - `none`: use the computed delay
+ * - `full`: random delay between 0 and the computed delay
+ * - `equal`: half the computed delay plus a random share of the other half
+ *
+ * @category Types
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal';
+
+/**
+ * Configuration for the default retry policy (BackoffRetryPolicy).
+ *
+ * Can be set per connection via `ConnectionDefinition.retry`.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const retry: RetryPolicyOptions = {
+ *   maxAttempts: 5,
+ *   backoff: 'exponential',
+ *   baseDelayMs: 500,
+ *   maxDelayMs: 8000,
+ *   jitter: 'full',
+ * };
+ * ```
+ */
+export interface RetryPolicyOptions {
+  /** Maximum number of attempts including the first one (default: 3, 1 disables retries) */
+  maxAttempts?: number;
+
+  /** Backoff strategy (default: 'exponential') */
+  backoff?: BackoffStrategy;
+
+  /** Base delay in milliseconds (default: 1000) */
+  baseDelayMs?: number;
+
+  /** Upper bound for computed delays in milliseconds (default: 10000) */
+  maxDelayMs?: number;
+
+  /** Jitter strategy (default: 'full') */
+  jitter?: JitterStrategy;
+
+  /**
+   * Errors retried for idempotent actions (Find, Edit, Delete).
+   * Default: NetworkError, RateLimitError and HTTP 500, 502, 503, 504.
+   */
+  retryableErrors?: RetryableErrorMatcher[];
+
+  /**
+   * Errors retried for non-idempotent actions (Add and named actions), where a retry
+   * could create duplicates or run an action twice.
+   * Default: RateLimitError only (the request was rejected, not processed).
+   */
+  nonIdempotentRetryableErrors?: RetryableErrorMatcher[];
+
+  /** Wait for the `Retry-After` header of rate-limit responses instead of the backoff (default: true) */
+  respectRetryAfter?: boolean;
+
+  /** Give up if `Retry-After` asks to wait longer than this, in milliseconds (default: 60000) */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Interface for deciding whether and when a failed AppSheet request is retried.
+ *
+ * Called by AppSheetClient after each failed attempt. Implementations return the
+ * delay before the next attempt, or null to give up and throw the error.
+ *
+ * Analog to the table policies — injectable via AppSheetClient/AppSheetClientFactory options.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * // Use the built-in policy with custom settings
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+ *   retryPolicy: new BackoffRetryPolicy({ maxAttempts: 5, jitter: 'equal' }),
+ * });
+ *
+ * // Or create a custom policy
+ * class NeverRetryPolicy implements RetryPolicyInterface {
+ *   getRetryDelay(): number | null {
+ *     return null;
+ *   }
+ * }
+ * ```
+ */
+export interface RetryPolicyInterface {
+  /**
+   * Decide whether to retry a failed request attempt.
+   *
+   * @param context - Action, table, attempt number and error of the failed attempt
+   * @returns Delay in milliseconds before the next attempt, or null to stop retrying
+   */
+  getRetryDelay(context: RetryContext): number | null;
+}
@@ -2,6 +2,8 @@
  * Response types for AppSheet API operations
  */
 
+import { AppSheetError } from './errors';
+
 /**
  * Response from Add operation
  */
@@ -11,6 +13,9 @@ export interface AddResponse<T = Record<string, any>> {
 
   /** Optional warnings from the API */
   warnings?: string[];
+
+  /** Outcome of every chunk (only if the rows were split into chunks) */
+  chunks?: ChunkResult[];
 }
 
 /**
@@ -33,22 +38,170 @@ export interface UpdateResponse<T = Record<string, any>> {
 
   /** Optional warnings from the API */
   warnings?: string[];
+
+  /** Outcome of every chunk (only if the rows were split into chunks) */
+  chunks?: ChunkResult[];
+}
+
+/**
+ * Response from Upsert operation
+ */
+export interface UpsertResponse<T = Record<string, any>> {
+  /** Created rows followed by updated rows */
+  rows: T[];
+
+  /** Rows created by the Add request */
+  created: T[];
+
+  /** Rows updated by the Edit request */
+  updated: T[];
+
+  /** Optional warnings from the API */
+  warnings?: string[];
+}
+
+/**
+ * One page of rows returned by DynamicTable.findPage()
+ */
+export interface FindPageResult<T = Record<string, any>> {
+  /** Rows of this page */
+  rows: T[];
+
+  /** Opaque cursor for the next page (undefined on the last page) */
+  nextCursor?: string;
+
+  /** Whether more rows follow this page */
+  hasMore: boolean;
+}
+
+/**
+ * Response from invoking a named action
+ */
+export interface InvokeActionResponse<T = Record<string, any>> {
+  /** Rows returned by the API after the action ran */
+  rows: T[];
+
+  /** Optional warnings from the API */
+  warnings?: string[];
 }
 
 /**
  * Response from Delete operation
  */
-export interface DeleteResponse {
+export interface DeleteResponse<T = Record<string, any>> {
   /** Whether the operation was successful */
   success: boolean;
 
   /** Number of rows deleted */
   deletedCount: number;
 
+  /**
+   * Requested rows that were deleted (as passed in `rows`).
+   * Optional for compatibility with clients that do not report it.
+   */
+  deletedKeys?: T[];
+
+  /**
+   * Requested rows that did not exist (as passed in `rows`).
+   * Optional for compatibility with clients that do not report it.
+   */
+  notFoundKeys?: T[];
+
   /** Optional warnings from the API */
   warnings?: string[];
 }
 
+/**
+ * Outcome of a single chunk of a chunked Add, Edit or Delete operation
+ */
+export interface ChunkResult {
+  /** Position of the chunk (0-based) */
+  index: number;
+
+  /** Index of the chunk's first row in the original `rows` array */
+  offset: number;
+
+  /** Number of rows in the chunk */
+  rowCount: number;
+
+  /** Whether the chunk's request succeeded */
+  success: boolean;
+
+  /** Warnings returned for the chunk (only if success is true) */
+  warnings?: string[];
+
+  /** Error of the failed request (only if success is false) */
+  error?: AppSheetError | Error;
+}
+
+/**
+ * Merged result of a chunked Add, Edit or Delete operation.
+ *
+ * Attached to PartialBatchError when at least one chunk failed.
+ */
+export interface BatchResult<T = Record<string, any>> {
+  /** Rows returned by all successful chunks, in chunk order */
+  rows: T[];
+
+  /** Warnings of all successful chunks */
+  warnings: string[];
+
+  /** Outcome of every chunk, in chunk order */
+  chunks: ChunkResult[];
+}
+
+/**
+ * Outcome of a single input row of a bulk write.
+ *
+ * - `success`: the row was sent and the request succeeded
+ * - `invalid`: the row failed validation and was not sent
+ * - `failed`: the request (or chunk) containing the row failed
+ */
+export type BulkRowStatus = 'success' | 'invalid' | 'failed';
+
+/**
+ * Result of a single input row of `DynamicTable.addBulk()` / `updateBulk()`
+ */
+export interface BulkRowResult<T = Record<string, any>> {
+  /** Index of the row in the input array */
+  index: number;
+
+  /** Row as passed by the caller */
+  input: Partial<T>;
+
+  /** Outcome of the row */
+  status: BulkRowStatus;
+
+  /** Created or updated row returned by the API (only if status is 'success') */
+  row?: T;
+
+  /** Validation error ('invalid') or request error ('failed') */
+  error?: AppSheetError | Error;
+
+  /** Warnings returned by the request that contained the row */
+  warnings: string[];
+}
+
+/**
+ * Result of a bulk write, correlating every input row with its outcome
+ */
+export interface BulkWriteResult<T = Record<string, any>> {
+  /** Rows returned by the API, in input order */
+  rows: T[];
+
+  /** One result per input row, in input order */
+  results: BulkRowResult<T>[];
+
+  /** Results of rows rejected by validation (not sent) */
+  rejected: BulkRowResult<T>[];
+
+  /** Results of rows whose request failed */
+  failed: BulkRowResult<T>[];
+
+  /** Warnings of all successful requests */
+  warnings: string[];
+}
+
 /**
  * Generic API response structure
  */
@@ -4,6 +4,12 @@
  * @category Types
  */
 
+import { RetryPolicyOptions } from './policies';
+import { RequestLimiterOptions } from './limiter';
+import { BatchOptions } from './operations';
+import { TableCacheOptions } from './cache';
+import { CircuitBreakerOptions } from './circuitBreaker';
+
 /**
  * AppSheet-specific field data types.
  *
@@ -150,6 +156,22 @@ export interface TableDefinition {
    */
   locale?: string;
 
+  /**
+   * Optional caching of Find results for this table.
+   * Only used if the DynamicTableFactory is configured with `cache` options.
+   *
+   * @example { ttlMs: 300000 } // cache for 5 minutes
+   */
+  cache?: TableCacheOptions;
+
+  /**
+   * Names of the app-defined actions that may be invoked on this table via
+   * `invokeAction()`. Actions not listed here are rejected before sending.
+   *
+   * @example ['Mark Complete', 'Send Reminder']
+   */
+  actions?: string[];
+
   /** Field definitions (name -> FieldDefinition object only) */
   fields: Record<string, FieldDefinition>;
 }
@@ -185,6 +207,30 @@ export interface ConnectionDefinition {
    */
   locale?: string;
 
+  /**
+   * Optional retry configuration for requests on this connection.
+   * Ignored if a retry policy is passed to the client or factory.
+   */
+  retry?: RetryPolicyOptions;
+
+  /**
+   * Optional client-side rate and concurrency limits for this connection.
+   * Shared by all clients the AppSheetClientFactory creates for the same appId.
+   */
+  rateLimit?: RequestLimiterOptions;
+
+  /**
+   * Optional chunking of large Add, Edit and Delete batches for this connection.
+   * Can be overridden per call via the `batch` option.
+   */
+  batching?: BatchOptions;
+
+  /**
+   * Optional circuit breaker for this connection.
+   * Shared by all clients the AppSheetClientFactory creates for the same appId.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+
   /** Table definitions for this connection */
   tables: Record<string, TableDefinition>;
 }
@@ -9,6 +9,8 @@
  * @category Types
  */
 
+import { SortOrder } from './operations';
+
 /**
  * Interface for building and processing AppSheet selector expressions.
  *
@@ -74,6 +76,25 @@ export interface SelectorBuilderInterface {
    */
   buildFilter(tableName: string, fieldName: string, value: string): string;
 
+  /**
+   * Wrap a function selector in `OrderBy()` and/or `Top()`.
+   *
+   * Sort criteria are rendered as `OrderBy(selector, [field], is-descending, ...)`,
+   * and a limit wraps the (ordered) selector as `Top(..., limit)`.
+   * Without sort criteria and limit, the selector is returned unchanged.
+   *
+   * Optional: the clients fall back to the default rendering
+   * (`applyOrderAndLimit()` from `utils/SelectorBuilder`) if a custom builder
+   * does not implement it.
+   *
+   * @param selector - Selector already wrapped in a function (e.g. `Filter(...)`)
+   * @param orderBy - Optional sort criteria, applied in order
+   * @param limit - Optional maximum number of rows (positive integer)
+   * @returns Selector expression with ordering and limit applied
+   * @throws {ValidationError} If the limit is not a positive integer or a sort field is invalid
+   */
+  applyOrderAndLimit?(selector: string, orderBy?: SortOrder[], limit?: number): string;
+
   /**
    * Validate that a table or field name contains only safe characters.
    *
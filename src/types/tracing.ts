@@ -0,0 +1,94 @@
+/**
+ * Tracing types for OpenTelemetry-style operation spans
+ * @module types
+ * @category Types
+ */
+
+/**
+ * Value of a span attribute.
+ *
+ * @category Types
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Attributes attached to a span. Undefined values are ignored.
+ *
+ * @category Types
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Final status of a span.
+ *
+ * @category Types
+ */
+export type SpanStatus = 'unset' | 'ok' | 'error';
+
+/**
+ * A single traced operation.
+ *
+ * Mirrors the subset of the OpenTelemetry `Span` API used by the library.
+ *
+ * @category Types
+ */
+export interface SpanInterface {
+  /** Set or overwrite an attribute */
+  setAttribute(key: string, value: SpanAttributeValue): void;
+
+  /** Record an exception thrown by the operation */
+  recordException(error: Error): void;
+
+  /** Set the final status of the span */
+  setStatus(status: SpanStatus, message?: string): void;
+
+  /** Finish the span */
+  end(): void;
+}
+
+/**
+ * Minimal tracer interface.
+ *
+ * `startActiveSpan()` runs the callback with a new span that is active for
+ * the duration of the callback, so spans started inside it (e.g. the client
+ * span of a DynamicTable operation) become its children. The callback is
+ * responsible for ending the span.
+ *
+ * An OpenTelemetry tracer can be adapted with a few lines:
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const otel = trace.getTracer('appsheet');
+ * const tracer: TracerInterface = {
+ *   startActiveSpan: (name, attributes, fn) =>
+ *     otel.startActiveSpan(name, { attributes }, (span) =>
+ *       fn({
+ *         setAttribute: (key, value) => span.setAttribute(key, value),
+ *         recordException: (error) => span.recordException(error),
+ *         setStatus: (status, message) =>
+ *           span.setStatus({ code: status === 'error' ? 2 : status === 'ok' ? 1 : 0, message }),
+ *         end: () => span.end(),
+ *       })
+ *     ),
+ * };
+ * ```
+ */
+export interface TracerInterface {
+  /**
+   * Start a span and make it active while the callback runs.
+   *
+   * @param name - Span name (e.g. 'AppSheetClient.find')
+   * @param attributes - Initial span attributes
+   * @param fn - Operation to trace; receives the span
+   * @returns The result of the callback
+   */
+  startActiveSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T>;
+}
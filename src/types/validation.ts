@@ -0,0 +1,68 @@
+/**
+ * Row validation types
+ * @module types
+ * @category Types
+ */
+
+import { AppSheetFieldType } from './schema';
+
+/**
+ * Rule a field value violated.
+ *
+ * - `required`: a required field is missing
+ * - `type`: the value has the wrong JavaScript type for the field type
+ * - `format`: the value does not match the field's format (email, URL, phone, date)
+ * - `range`: the value is out of range (Percent)
+ * - `enum`: the value is not in the field's `allowedValues`
+ *
+ * @category Types
+ */
+export type RowValidationRule = 'required' | 'type' | 'format' | 'range' | 'enum';
+
+/**
+ * A single problem found by row validation.
+ *
+ * Listed in `ValidationError.details.issues` and in {@link ValidationReport}.
+ *
+ * @category Types
+ */
+export interface RowValidationIssue {
+  /** Index of the row in the validated array */
+  rowIndex: number;
+
+  /** Field name */
+  field: string;
+
+  /** AppSheet type of the field */
+  type: AppSheetFieldType;
+
+  /** Offending value (undefined for missing required fields) */
+  value: unknown;
+
+  /** Violated rule */
+  rule: RowValidationRule;
+
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of validating rows without sending them.
+ *
+ * @category Types
+ *
+ * @example
+ * ```typescript
+ * const report = table.validate(rows);
+ * if (!report.valid) {
+ *   report.issues.forEach((issue) => console.log(issue.message));
+ * }
+ * ```
+ */
+export interface ValidationReport {
+  /** Whether all rows are valid */
+  valid: boolean;
+
+  /** All problems, ordered by row and field */
+  issues: RowValidationIssue[];
+}
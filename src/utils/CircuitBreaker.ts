@@ -0,0 +1,197 @@
+/**
+ * CircuitBreaker - Fail fast while the AppSheet API is degraded
+ * @module utils
+ * @category Utilities
+ */
+
+import {
+  CircuitBreakerInterface,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitOpenError,
+  CircuitState,
+} from '../types';
+
+/** Outcome of a request within the rolling window */
+interface Outcome {
+  time: number;
+  failed: boolean;
+}
+
+/**
+ * Failure-rate based circuit breaker.
+ *
+ * Records the outcome of every request within a rolling time window. Once at
+ * least `minimumRequests` were recorded and the failure rate reaches
+ * `failureRateThreshold`, the circuit opens and requests fail fast with a
+ * {@link CircuitOpenError}. After `openDurationMs` it half-opens and lets up to
+ * `halfOpenMaxRequests` probe requests through: if they all succeed the circuit
+ * closes, a single failure opens it again.
+ *
+ * AppSheetClientFactory creates one circuit breaker per appId for connections
+ * with `circuitBreaker` configured, so all clients of an app share its state.
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const circuitBreaker = new CircuitBreaker({ failureRateThreshold: 0.5, openDurationMs: 10000 });
+ *
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+ *   circuitBreaker,
+ * });
+ *
+ * console.log(circuitBreaker.getStatus().state); // 'closed'
+ * ```
+ */
+export class CircuitBreaker implements CircuitBreakerInterface {
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxRequests: number;
+
+  private state: CircuitState = 'closed';
+  private outcomes: Outcome[] = [];
+  private openedAt?: number;
+  private probesStarted = 0;
+  private probesSucceeded = 0;
+
+  /**
+   * @param options - Failure rate threshold, window and open duration (all optional)
+   * @param now - Clock in milliseconds (default: Date.now, replaceable for tests)
+   */
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumRequests = Math.max(1, options.minimumRequests ?? 10);
+    this.windowMs = options.windowMs ?? 60000;
+    this.openDurationMs = options.openDurationMs ?? 30000;
+    this.halfOpenMaxRequests = Math.max(1, options.halfOpenMaxRequests ?? 1);
+  }
+
+  acquire(): void {
+    this.updateState();
+
+    if (this.state === 'open') {
+      const retryAfterMs = this.openedAt! + this.openDurationMs - this.now();
+      throw new CircuitOpenError(
+        `Circuit breaker is open, failing fast (retry in ${Math.ceil(retryAfterMs / 1000)}s)`,
+        this.getStatus(),
+        retryAfterMs
+      );
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probesStarted >= this.halfOpenMaxRequests) {
+        throw new CircuitOpenError(
+          'Circuit breaker is half-open and all probe requests are in flight, failing fast',
+          this.getStatus(),
+          0
+        );
+      }
+      this.probesStarted++;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state === 'half-open') {
+      this.probesSucceeded++;
+      if (this.probesSucceeded >= this.halfOpenMaxRequests) {
+        this.state = 'closed';
+        this.openedAt = undefined;
+        this.outcomes = [];
+      }
+      return;
+    }
+    this.record(false);
+  }
+
+  recordFailure(): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+    this.record(true);
+
+    const { requests, failureRate } = this.getWindowStats();
+    if (
+      this.state === 'closed' &&
+      requests >= this.minimumRequests &&
+      failureRate >= this.failureRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  release(): void {
+    if (this.state === 'half-open' && this.probesStarted > this.probesSucceeded) {
+      this.probesStarted--;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    this.updateState();
+    const { requests, failures, failureRate } = this.getWindowStats();
+    return {
+      state: this.state,
+      requests,
+      failures,
+      failureRate,
+      openedAt: this.openedAt,
+      halfOpenAt: this.state === 'open' ? this.openedAt! + this.openDurationMs : undefined,
+    };
+  }
+
+  /**
+   * Half-open the circuit once the open duration has passed
+   */
+  private updateState(): void {
+    if (this.state === 'open' && this.now() >= this.openedAt! + this.openDurationMs) {
+      this.state = 'half-open';
+      this.probesStarted = 0;
+      this.probesSucceeded = 0;
+    }
+  }
+
+  /**
+   * Open the circuit
+   */
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = this.now();
+    this.outcomes = [];
+  }
+
+  /**
+   * Record an outcome in the rolling window
+   */
+  private record(failed: boolean): void {
+    this.prune();
+    this.outcomes.push({ time: this.now(), failed });
+  }
+
+  /**
+   * Drop outcomes outside the window (outcomes are ordered by time)
+   */
+  private prune(): void {
+    const windowStart = this.now() - this.windowMs;
+    const firstInWindow = this.outcomes.findIndex((outcome) => outcome.time > windowStart);
+    if (firstInWindow !== 0) {
+      this.outcomes.splice(0, firstInWindow === -1 ? this.outcomes.length : firstInWindow);
+    }
+  }
+
+  /**
+   * Drop outcomes outside the window and summarize the rest
+   */
+  private getWindowStats(): { requests: number; failures: number; failureRate: number } {
+    this.prune();
+
+    const requests = this.outcomes.length;
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+    return { requests, failures, failureRate: requests > 0 ? failures / requests : 0 };
+  }
+}
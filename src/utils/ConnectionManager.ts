@@ -9,7 +9,13 @@
  * @category Connection Management
  */
 
-import { AppSheetClientFactoryInterface, AppSheetClientInterface, SchemaConfig } from '../types';
+import {
+  AppSheetClientFactoryInterface,
+  AppSheetClientInterface,
+  CircuitBreakerStatus,
+  ConnectionDefinition,
+  SchemaConfig,
+} from '../types';
 
 /**
  * Manages AppSheet client instances using factory injection.
@@ -79,15 +85,46 @@ export class ConnectionManager {
    * ```
    */
   get(connectionName: string, runAsUserEmail: string): AppSheetClientInterface {
-    const connectionDef = this.schema.connections[connectionName];
-    if (!connectionDef) {
-      const available = Object.keys(this.schema.connections).join(', ') || 'none';
-      throw new Error(
-        `Connection "${connectionName}" not found. Available connections: ${available}`
-      );
-    }
+    return this.clientFactory.create(this.getConnectionDefinition(connectionName), runAsUserEmail);
+  }
+
+  /**
+   * Get the circuit breaker status of a connection.
+   *
+   * Returns undefined if the connection has no circuit breaker configured or
+   * the client factory does not support circuit breakers.
+   *
+   * @param connectionName - Name of the connection in the schema
+   * @returns The circuit breaker status or undefined
+   * @throws {Error} If the connection doesn't exist in the schema
+   *
+   * @example
+   * ```typescript
+   * // Health endpoint
+   * app.get('/health', (_req, res) => {
+   *   const status = manager.getCircuitBreakerStatus('worklog');
+   *   res.status(status?.state === 'open' ? 503 : 200).json({ worklog: status });
+   * });
+   * ```
+   */
+  getCircuitBreakerStatus(connectionName: string): CircuitBreakerStatus | undefined {
+    return this.clientFactory.getCircuitBreakerStatus?.(
+      this.getConnectionDefinition(connectionName)
+    );
+  }
 
-    return this.clientFactory.create(connectionDef, runAsUserEmail);
+  /**
+   * Get the circuit breaker status of all connections.
+   *
+   * @returns Status per connection name (undefined for connections without circuit breaker)
+   */
+  getCircuitBreakerStatuses(): Record<string, CircuitBreakerStatus | undefined> {
+    return Object.fromEntries(
+      this.list().map((connectionName) => [
+        connectionName,
+        this.getCircuitBreakerStatus(connectionName),
+      ])
+    );
   }
 
   /**
@@ -124,4 +161,18 @@ export class ConnectionManager {
   has(connectionName: string): boolean {
     return connectionName in this.schema.connections;
   }
+
+  /**
+   * Look up a connection definition by name
+   */
+  private getConnectionDefinition(connectionName: string): ConnectionDefinition {
+    const connectionDef = this.schema.connections[connectionName];
+    if (!connectionDef) {
+      const available = Object.keys(this.schema.connections).join(', ') || 'none';
+      throw new Error(
+        `Connection "${connectionName}" not found. Available connections: ${available}`
+      );
+    }
+    return connectionDef;
+  }
 }
@@ -0,0 +1,433 @@
+/**
+ * Fluent AppSheet Query Builder
+ *
+ * Builds compound AppSheet filter expressions from a chainable API instead of
+ * hand-written strings. Values are escaped via {@link SelectorBuilder}, field
+ * references are checked against the table schema, and the result is a complete
+ * `Filter(table, expression)` selector ready for `AppSheetClient.find()`.
+ *
+ * The package root exports `where` and the classes directly; the combinators
+ * and date functions are exported under the `query` namespace
+ * (`query.and`, `query.or`, `query.not`, `query.today`, `query.now`).
+ *
+ * @see https://support.google.com/appsheet/answer/10105770
+ * @module utils
+ * @category Utilities
+ */
+
+import { SelectorBuilderInterface, TableDefinition, ValidationError } from '../types';
+import { SelectorBuilder } from './SelectorBuilder';
+
+/**
+ * Virtual columns that AppSheet provides for every table.
+ * They are always accepted as field references, even if not in the schema.
+ *
+ * @category Utilities
+ */
+export const VIRTUAL_COLUMNS = ['_RowNumber', '_ComputedKey'];
+
+/**
+ * Default number of keys per `IN([key], LIST(...))` Find request of key
+ * lookups (`keysPerRequest` of `findByKeys()` and `upsert()`).
+ *
+ * @category Utilities
+ */
+export const DEFAULT_KEYS_PER_REQUEST = 100;
+
+/**
+ * Values that can be compared against a field in a query condition.
+ *
+ * @category Utilities
+ */
+export type QueryValue = string | number | boolean | Date | QueryFunction;
+
+/**
+ * Context used when rendering a condition to an expression string.
+ */
+interface RenderContext {
+  definition?: TableDefinition;
+  selectorBuilder: SelectorBuilderInterface;
+}
+
+/**
+ * An AppSheet function call used as a comparison value (e.g. `TODAY()`).
+ *
+ * Created via {@link today} and {@link now}. Supports simple day arithmetic
+ * for relative date comparisons.
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * where('due').lt(today());            // [due] < TODAY()
+ * where('created').gte(today().minus(7)); // [created] >= TODAY() - 7
+ * ```
+ */
+export class QueryFunction {
+  constructor(private readonly expression: string) {}
+
+  /**
+   * Add a number of days (or units) to the function result.
+   *
+   * @param amount - Amount to add
+   * @returns New function expression
+   */
+  plus(amount: number): QueryFunction {
+    return new QueryFunction(`${this.expression} + ${renderNumber(amount)}`);
+  }
+
+  /**
+   * Subtract a number of days (or units) from the function result.
+   *
+   * @param amount - Amount to subtract
+   * @returns New function expression
+   */
+  minus(amount: number): QueryFunction {
+    return new QueryFunction(`${this.expression} - ${renderNumber(amount)}`);
+  }
+
+  /**
+   * Render the function as an AppSheet expression.
+   */
+  toString(): string {
+    return this.expression;
+  }
+}
+
+/**
+ * A boolean query condition that can be combined with other conditions.
+ *
+ * Conditions are rendered lazily so that values can be formatted according to
+ * the field types of the table definition (e.g. `Date` vs. `DateTime`).
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const query = where('status').eq('Active').and(where('due').lt(today()));
+ *
+ * query.toExpression();
+ * // => 'AND([status] = "Active", [due] < TODAY())'
+ *
+ * query.build(tableDef);
+ * // => 'Filter(extract_task, AND([status] = "Active", [due] < TODAY()))'
+ * ```
+ */
+export class QueryCondition {
+  constructor(
+    private readonly render: (context: RenderContext) => string,
+    private readonly fields: string[]
+  ) {}
+
+  /**
+   * Combine this condition with others using AND.
+   *
+   * @param conditions - Conditions that must also match
+   * @returns New combined condition
+   */
+  and(...conditions: QueryCondition[]): QueryCondition {
+    return and(this, ...conditions);
+  }
+
+  /**
+   * Combine this condition with others using OR.
+   *
+   * @param conditions - Alternative conditions
+   * @returns New combined condition
+   */
+  or(...conditions: QueryCondition[]): QueryCondition {
+    return or(this, ...conditions);
+  }
+
+  /**
+   * Negate this condition.
+   *
+   * @returns New negated condition
+   */
+  not(): QueryCondition {
+    return not(this);
+  }
+
+  /**
+   * Get all field names referenced by this condition.
+   *
+   * @returns Unique field names in order of first use
+   */
+  getFields(): string[] {
+    return [...new Set(this.fields)];
+  }
+
+  /**
+   * Render the condition as a raw AppSheet boolean expression.
+   *
+   * If a table definition is given, all field references are checked against
+   * its fields and date values are formatted according to the field types.
+   *
+   * @param definition - Optional table definition for field checks and formatting
+   * @param selectorBuilder - Optional SelectorBuilder used for value escaping
+   * @returns The boolean expression (without `Filter()` wrapper)
+   * @throws {ValidationError} If the condition references unknown fields
+   */
+  toExpression(definition?: TableDefinition, selectorBuilder?: SelectorBuilderInterface): string {
+    if (definition) {
+      this.assertKnownFields(definition);
+    }
+
+    return this.render({
+      definition,
+      selectorBuilder: selectorBuilder ?? new SelectorBuilder(),
+    });
+  }
+
+  /**
+   * Build the complete `Filter(table, expression)` selector for a table.
+   *
+   * @param definition - Table definition providing table name and fields
+   * @param selectorBuilder - Optional SelectorBuilder for escaping and wrapping
+   * @returns Complete selector expression
+   * @throws {ValidationError} If the condition references unknown fields
+   *
+   * @example
+   * ```typescript
+   * const selector = where('status').in(['Active', 'Pending']).build(tableDef);
+   * // => 'Filter(extract_task, IN([status], LIST("Active", "Pending")))'
+   * ```
+   */
+  build(definition: TableDefinition, selectorBuilder?: SelectorBuilderInterface): string {
+    const builder = selectorBuilder ?? new SelectorBuilder();
+    const expression = this.toExpression(definition, builder);
+    return builder.ensureFunction(expression, definition.tableName);
+  }
+
+  /**
+   * Throw a ValidationError listing all fields not defined in the table schema.
+   */
+  private assertKnownFields(definition: TableDefinition): void {
+    const unknownFields = this.getFields().filter(
+      (field) => !(field in definition.fields) && !VIRTUAL_COLUMNS.includes(field)
+    );
+
+    if (unknownFields.length > 0) {
+      const available = Object.keys(definition.fields).join(', ') || 'none';
+      throw new ValidationError(
+        `Unknown field(s) in query for table "${definition.tableName}": ${unknownFields.join(', ')}. ` +
+          `Available fields: ${available}`,
+        { tableName: definition.tableName, unknownFields }
+      );
+    }
+  }
+}
+
+/**
+ * A field reference that produces conditions via comparison methods.
+ *
+ * Created via {@link where}. The type parameter restricts field names
+ * to the keys of the row type.
+ *
+ * @template T - Row type of the table
+ * @category Utilities
+ */
+export class QueryField<T extends Record<string, any> = Record<string, any>> {
+  constructor(private readonly field: keyof T & string) {
+    if (!field || /[[\]]/.test(field)) {
+      throw new ValidationError(`Invalid field name for query: "${field}"`, { field });
+    }
+  }
+
+  /** `[field] = value` */
+  eq(value: QueryValue): QueryCondition {
+    return this.compare('=', value);
+  }
+
+  /** `[field] <> value` */
+  ne(value: QueryValue): QueryCondition {
+    return this.compare('<>', value);
+  }
+
+  /** `[field] < value` */
+  lt(value: QueryValue): QueryCondition {
+    return this.compare('<', value);
+  }
+
+  /** `[field] <= value` */
+  lte(value: QueryValue): QueryCondition {
+    return this.compare('<=', value);
+  }
+
+  /** `[field] > value` */
+  gt(value: QueryValue): QueryCondition {
+    return this.compare('>', value);
+  }
+
+  /** `[field] >= value` */
+  gte(value: QueryValue): QueryCondition {
+    return this.compare('>=', value);
+  }
+
+  /**
+   * `IN([field], LIST(values...))` - field matches one of the values.
+   *
+   * An empty list renders `IN([field], LIST())`, which matches no rows.
+   */
+  in(values: QueryValue[]): QueryCondition {
+    return new QueryCondition(
+      (ctx) => `IN(${this.ref()}, LIST(${values.map((v) => this.renderValue(v, ctx)).join(', ')}))`,
+      [this.field]
+    );
+  }
+
+  /** `CONTAINS([field], "text")` - field contains the given text */
+  contains(text: string): QueryCondition {
+    return new QueryCondition(
+      (ctx) => `CONTAINS(${this.ref()}, ${this.renderValue(text, ctx)})`,
+      [this.field]
+    );
+  }
+
+  /** `ISBLANK([field])` - field is empty */
+  isBlank(): QueryCondition {
+    return new QueryCondition(() => `ISBLANK(${this.ref()})`, [this.field]);
+  }
+
+  /** `ISNOTBLANK([field])` - field is not empty */
+  isNotBlank(): QueryCondition {
+    return new QueryCondition(() => `ISNOTBLANK(${this.ref()})`, [this.field]);
+  }
+
+  private compare(operator: string, value: QueryValue): QueryCondition {
+    return new QueryCondition(
+      (ctx) => `${this.ref()} ${operator} ${this.renderValue(value, ctx)}`,
+      [this.field]
+    );
+  }
+
+  private ref(): string {
+    return `[${this.field}]`;
+  }
+
+  /**
+   * Render a value as an AppSheet literal.
+   *
+   * Date objects are rendered as `DATE("YYYY-MM-DD")` for Date fields and as
+   * `DATETIME("YYYY-MM-DD HH:mm:ss")` otherwise, using UTC components.
+   */
+  private renderValue(value: QueryValue, ctx: RenderContext): string {
+    if (value instanceof QueryFunction) {
+      return value.toString();
+    }
+    if (value instanceof Date) {
+      const fieldType = ctx.definition?.fields[this.field]?.type;
+      const iso = value.toISOString();
+      return fieldType === 'Date'
+        ? `DATE("${iso.substring(0, 10)}")`
+        : `DATETIME("${iso.substring(0, 10)} ${iso.substring(11, 19)}")`;
+    }
+    if (typeof value === 'number') {
+      return renderNumber(value);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'TRUE' : 'FALSE';
+    }
+    if (typeof value === 'string') {
+      return `"${ctx.selectorBuilder.escapeValue(value)}"`;
+    }
+    throw new TypeError(`Unsupported query value for field "${this.field}": ${String(value)}`);
+  }
+}
+
+/**
+ * Render a finite number as an AppSheet literal.
+ */
+function renderNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new TypeError(`Query values must be finite numbers, got: ${value}`);
+  }
+  return String(value);
+}
+
+/**
+ * Combine conditions with a logical function (AND/OR).
+ * A single condition is returned unchanged.
+ */
+function combine(fn: 'AND' | 'OR', conditions: QueryCondition[]): QueryCondition {
+  if (conditions.length === 0) {
+    throw new ValidationError(`${fn}() requires at least one condition`);
+  }
+  if (conditions.length === 1) {
+    return conditions[0];
+  }
+  return new QueryCondition(
+    (ctx) =>
+      `${fn}(${conditions.map((c) => c.toExpression(ctx.definition, ctx.selectorBuilder)).join(', ')})`,
+    conditions.flatMap((c) => c.getFields())
+  );
+}
+
+/**
+ * Start a condition on a field.
+ *
+ * @template T - Row type of the table (restricts field names)
+ * @param field - Field name (without brackets)
+ * @returns Field reference with comparison methods
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const query = where<Task>('status').eq('Active').and(where<Task>('due').lt(today()));
+ * const rows = await table.find(query);
+ * ```
+ */
+export function where<T extends Record<string, any> = Record<string, any>>(
+  field: keyof T & string
+): QueryField<T> {
+  return new QueryField<T>(field);
+}
+
+/**
+ * Combine conditions so that all of them must match: `AND(a, b, ...)`.
+ *
+ * @category Utilities
+ */
+export function and(...conditions: QueryCondition[]): QueryCondition {
+  return combine('AND', conditions);
+}
+
+/**
+ * Combine conditions so that at least one must match: `OR(a, b, ...)`.
+ *
+ * @category Utilities
+ */
+export function or(...conditions: QueryCondition[]): QueryCondition {
+  return combine('OR', conditions);
+}
+
+/**
+ * Negate a condition: `NOT(a)`.
+ *
+ * @category Utilities
+ */
+export function not(condition: QueryCondition): QueryCondition {
+  return new QueryCondition(
+    (ctx) => `NOT(${condition.toExpression(ctx.definition, ctx.selectorBuilder)})`,
+    condition.getFields()
+  );
+}
+
+/**
+ * The current date: `TODAY()`.
+ *
+ * @category Utilities
+ */
+export function today(): QueryFunction {
+  return new QueryFunction('TODAY()');
+}
+
+/**
+ * The current date and time: `NOW()`.
+ *
+ * @category Utilities
+ */
+export function now(): QueryFunction {
+  return new QueryFunction('NOW()');
+}
@@ -0,0 +1,57 @@
+/**
+ * RequestCoalescer - Share in-flight requests between identical calls
+ * @module utils
+ * @category Utilities
+ */
+
+import { RequestCoalescerInterface } from '../types';
+
+/**
+ * Deduplicates concurrent identical requests.
+ *
+ * The first call for a key runs the task; calls with the same key that arrive
+ * before it settles receive the same promise (result or error). The key is
+ * released as soon as the task settles, so results are never reused for
+ * later calls — use the Find cache for that.
+ *
+ * AppSheetClientFactory shares one coalescer between all clients it creates,
+ * so identical Finds of different client instances are coalesced as well.
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const coalescer = new RequestCoalescer();
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { coalescer });
+ *
+ * // One HTTP request, both calls get the same rows
+ * const [a, b] = await Promise.all([client.findAll('extract_user'), client.findAll('extract_user')]);
+ * ```
+ */
+export class RequestCoalescer implements RequestCoalescerInterface {
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Number of distinct requests currently in flight.
+   */
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+
+    const promise = task().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  isInFlight(key: string): boolean {
+    return this.inFlight.has(key);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * RequestLimiter - Client-side rate and concurrency limiting
+ * @module utils
+ * @category Utilities
+ */
+
+import {
+  CancellationError,
+  QueueTimeoutError,
+  RequestLimiterInterface,
+  RequestLimiterOptions,
+  ValidationError,
+} from '../types';
+
+/** A request waiting in the queue */
+interface Waiter {
+  start: () => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Throw a ValidationError if an option is set but not a positive finite number
+ */
+function assertPositive(name: string, value: number | undefined, integer = false): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new ValidationError(
+      `${name} must be a positive ${integer ? 'integer' : 'number'}, got: ${value}`,
+      { [name]: value }
+    );
+  }
+}
+
+/**
+ * Token-bucket rate limiter combined with a max-in-flight concurrency limit.
+ *
+ * Requests are started in FIFO order once a token is available and fewer
+ * than `maxConcurrent` requests are in flight. Tokens refill continuously at
+ * `requestsPerSecond` up to `burst`. Requests that wait longer than
+ * `queueTimeoutMs` are rejected with a {@link QueueTimeoutError}.
+ *
+ * AppSheetClientFactory creates one limiter per appId for connections with
+ * `rateLimit` configured, so all clients of an app share the same budget.
+ *
+ * @category Utilities
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RequestLimiter({ requestsPerSecond: 5, maxConcurrent: 2 });
+ *
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { limiter });
+ *
+ * // Or run any async task through the limiter
+ * const result = await limiter.schedule(() => fetchSomething());
+ * ```
+ */
+export class RequestLimiter implements RequestLimiterInterface {
+  private readonly requestsPerSecond: number;
+  private readonly burst: number;
+  private readonly maxConcurrent: number;
+  private readonly queueTimeoutMs?: number;
+
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private refillTimer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * @param options - Rate, burst, concurrency and queue timeout (all optional, default unlimited)
+   * @throws {ValidationError} If an option is not a positive finite number
+   */
+  constructor(options: RequestLimiterOptions = {}) {
+    assertPositive('requestsPerSecond', options.requestsPerSecond);
+    assertPositive('burst', options.burst);
+    assertPositive('maxConcurrent', options.maxConcurrent, true);
+    assertPositive('queueTimeoutMs', options.queueTimeoutMs);
+
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity;
+    // Without a rate there is nothing to refill the bucket, so the burst does not apply
+    this.burst =
+      options.requestsPerSecond === undefined
+        ? Infinity
+        : Math.max(1, options.burst ?? this.requestsPerSecond);
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    this.queueTimeoutMs = options.queueTimeoutMs;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Run a task as soon as a token and a concurrency slot are available.
+   *
+   * @param task - Function that sends the request
+   * @param signal - Optional AbortSignal; aborting removes the waiting task from the queue
+   * @returns The result of the task
+   * @throws {QueueTimeoutError} If the task waited longer than `queueTimeoutMs`
+   * @throws {CancellationError} If the signal was aborted before the task started
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Number of requests currently in flight.
+   */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Number of requests waiting in the queue.
+   */
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.cancellationError(signal));
+        return;
+      }
+
+      const onAbort = () => {
+        this.remove(waiter);
+        reject(this.cancellationError(signal!));
+      };
+      const waiter: Waiter = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+
+      if (this.queueTimeoutMs !== undefined) {
+        const queueTimeoutMs = this.queueTimeoutMs;
+        waiter.timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          this.remove(waiter);
+          reject(
+            new QueueTimeoutError(`Request waited more than ${queueTimeoutMs}ms in the queue`, {
+              queueTimeoutMs,
+            })
+          );
+        }, queueTimeoutMs);
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Remove a waiter that gave up (timeout or cancellation) from the queue
+   */
+  private remove(waiter: Waiter): void {
+    clearTimeout(waiter.timer);
+    const index = this.queue.indexOf(waiter);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private cancellationError(signal: AbortSignal): CancellationError {
+    return new CancellationError('Request was cancelled while waiting in the queue', {
+      reason: signal.reason,
+    });
+  }
+
+  /**
+   * Start queued requests while limits allow, and schedule a wake-up when
+   * the queue is blocked only by the rate limit.
+   */
+  private drain(): void {
+    this.refill();
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent && this.tokens >= 1) {
+      const waiter = this.queue.shift()!;
+      clearTimeout(waiter.timer);
+      this.tokens -= 1;
+      this.active++;
+      waiter.start();
+    }
+
+    if (
+      this.queue.length > 0 &&
+      this.active < this.maxConcurrent &&
+      this.tokens < 1 &&
+      !this.refillTimer
+    ) {
+      const waitMs = Math.ceil(((1 - this.tokens) * 1000) / this.requestsPerSecond);
+      this.refillTimer = setTimeout(() => {
+        this.refillTimer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+
+  private refill(): void {
+    if (this.requestsPerSecond === Infinity) {
+      return;
+    }
+
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.requestsPerSecond);
+  }
+}
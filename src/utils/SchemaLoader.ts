@@ -196,6 +196,25 @@ export class SchemaLoader {
         if (!table.fields || typeof table.fields !== 'object') {
           errors.push(`Connection "${connName}", table "${tableName}": missing or invalid fields`);
         }
+        if (
+          table.cache !== undefined &&
+          !(typeof table.cache?.ttlMs === 'number' && table.cache.ttlMs > 0)
+        ) {
+          errors.push(
+            `Connection "${connName}", table "${tableName}": cache.ttlMs must be a positive number`
+          );
+        }
+        if (
+          table.actions !== undefined &&
+          !(
+            Array.isArray(table.actions) &&
+            table.actions.every((action) => typeof action === 'string' && action.trim() !== '')
+          )
+        ) {
+          errors.push(
+            `Connection "${connName}", table "${tableName}": actions must be a list of action names`
+          );
+        }
       }
     }
 
@@ -14,9 +14,12 @@ import {
   ValidationError,
   AppSheetClientFactoryInterface,
   DynamicTableFactoryInterface,
+  LoggerInterface,
+  DynamicTableFactoryOptions,
 } from '../types';
 import { SchemaLoader } from './SchemaLoader';
 import { DynamicTable, DynamicTableFactory } from '../client';
+import { RedactingLogger } from './logging';
 
 /**
  * Manages schema-based table access using factory injection.
@@ -46,6 +49,7 @@ import { DynamicTable, DynamicTableFactory } from '../client';
  */
 export class SchemaManager {
   private readonly tableFactory: DynamicTableFactoryInterface;
+  private readonly logger: LoggerInterface;
 
   /**
    * Creates a new SchemaManager.
@@ -55,6 +59,8 @@ export class SchemaManager {
    * @param tableFactory - Optional pre-configured DynamicTableFactory.
    *   When provided, this factory is used instead of creating a new one internally.
    *   Use this to inject factories with custom policies (e.g., WriteConversionPolicy).
+   * @param options - Optional logger, fields to redact from log output, tracer, read conversion policy and Find cache
+   *   (also passed to the default DynamicTableFactory)
    * @throws {ValidationError} If the schema is invalid
    *
    * @example
@@ -72,11 +78,15 @@ export class SchemaManager {
   constructor(
     clientFactory: AppSheetClientFactoryInterface,
     private readonly schema: SchemaConfig,
-    tableFactory?: DynamicTableFactoryInterface
+    tableFactory?: DynamicTableFactoryInterface,
+    options?: DynamicTableFactoryOptions
   ) {
+    this.logger = RedactingLogger.wrap(options);
+
     // Validate schema
     const validation = SchemaLoader.validate(schema);
     if (!validation.valid) {
+      this.logger.error('Invalid schema', { errors: validation.errors });
       throw new ValidationError(
         `Invalid schema: ${validation.errors.join(', ')}`,
         validation.errors
@@ -84,7 +94,16 @@ export class SchemaManager {
     }
 
     // Use injected factory or create default
-    this.tableFactory = tableFactory ?? new DynamicTableFactory(clientFactory, schema);
+    this.tableFactory =
+      tableFactory ?? new DynamicTableFactory(clientFactory, schema, undefined, undefined, options);
+
+    this.logger.info('Schema loaded', {
+      connections: Object.keys(schema.connections),
+      tableCount: Object.values(schema.connections).reduce(
+        (count, connection) => count + Object.keys(connection.tables).length,
+        0
+      ),
+    });
   }
 
   /**
@@ -17,7 +17,7 @@
  * @category Utilities
  */
 
-import { SelectorBuilderInterface } from '../types';
+import { SelectorBuilderInterface, SortOrder, ValidationError } from '../types';
 
 /**
  * Recognized AppSheet selector functions.
@@ -29,6 +29,46 @@ import { SelectorBuilderInterface } from '../types';
  */
 const SELECTOR_FUNCTIONS = ['Filter(', 'Select(', 'OrderBy(', 'Top('];
 
+/**
+ * Wrap a function selector in `OrderBy()` and/or `Top()`.
+ *
+ * Default rendering behind `SelectorBuilder.applyOrderAndLimit()`, also used
+ * by the clients for custom builders that do not implement that method.
+ *
+ * @param selector - Selector already wrapped in a function (e.g. `Filter(...)`)
+ * @param orderBy - Optional sort criteria, applied in order
+ * @param limit - Optional maximum number of rows (positive integer)
+ * @returns Selector expression with ordering and limit applied
+ * @throws {ValidationError} If the limit is not a positive integer or a sort field is invalid
+ */
+export function applyOrderAndLimit(
+  selector: string,
+  orderBy?: SortOrder[],
+  limit?: number
+): string {
+  let result = selector;
+
+  if (orderBy && orderBy.length > 0) {
+    const keys = orderBy.map((sort) => {
+      if (!sort.field || /[[\]]/.test(sort.field)) {
+        throw new ValidationError(`Invalid sort field: "${sort.field}"`, { orderBy });
+      }
+      const descending = sort.direction === 'desc' ? 'TRUE' : 'FALSE';
+      return `[${sort.field}], ${descending}`;
+    });
+    result = `OrderBy(${result}, ${keys.join(', ')})`;
+  }
+
+  if (limit !== undefined) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError(`Limit must be a positive integer, got: ${limit}`, { limit });
+    }
+    result = `Top(${result}, ${limit})`;
+  }
+
+  return result;
+}
+
 /**
  * Default implementation of the SelectorBuilder.
  *
@@ -166,6 +206,37 @@ export class SelectorBuilder implements SelectorBuilderInterface {
     return `Filter(${tableName}, ${fieldName} = "${escapedValue}")`;
   }
 
+  /**
+   * Wrap a function selector in `OrderBy()` and/or `Top()`.
+   *
+   * Sort criteria are rendered as `OrderBy(selector, [field], is-descending, ...)`,
+   * and a limit wraps the (ordered) selector as `Top(..., limit)`.
+   * Without sort criteria and limit, the selector is returned unchanged.
+   *
+   * @param selector - Selector already wrapped in a function (e.g. `Filter(...)`)
+   * @param orderBy - Optional sort criteria, applied in order
+   * @param limit - Optional maximum number of rows (positive integer)
+   * @returns Selector expression with ordering and limit applied
+   * @throws {ValidationError} If the limit is not a positive integer or a sort field is invalid
+   *
+   * @example
+   * ```typescript
+   * const builder = new SelectorBuilder();
+   *
+   * builder.applyOrderAndLimit('Filter(People, [Age] >= 21)', [{ field: 'LastName' }], 10);
+   * // => 'Top(OrderBy(Filter(People, [Age] >= 21), [LastName], FALSE), 10)'
+   *
+   * builder.applyOrderAndLimit('Filter(People, TRUE)', [
+   *   { field: 'Age', direction: 'desc' },
+   *   { field: 'LastName' },
+   * ]);
+   * // => 'OrderBy(Filter(People, TRUE), [Age], TRUE, [LastName], FALSE)'
+   * ```
+   */
+  applyOrderAndLimit(selector: string, orderBy?: SortOrder[], limit?: number): string {
+    return applyOrderAndLimit(selector, orderBy, limit);
+  }
+
   /**
    * Validate that a table or field name contains only safe characters.
    *
@@ -0,0 +1,106 @@
+/**
+ * InMemoryLruCacheStore - In-memory cache store with LRU eviction (Default)
+ *
+ * @module utils/cache
+ * @category Cache
+ */
+
+import { CacheStoreInterface } from '../../types/cache';
+
+/** A stored value with its expiry time */
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Options for InMemoryLruCacheStore.
+ *
+ * @category Cache
+ */
+export interface InMemoryLruCacheStoreOptions {
+  /** Maximum number of entries; the least recently used entry is evicted first (default: 1000) */
+  maxEntries?: number;
+
+  /** Clock in milliseconds (default: Date.now, replaceable for tests) */
+  now?: () => number;
+}
+
+/**
+ * Cache store that keeps entries in process memory.
+ *
+ * This is the **default store** of the Find cache. Entries expire after their
+ * TTL; when `maxEntries` is reached, the least recently used entry is evicted.
+ * The store is local to the process — use a shared store (e.g. Redis) if
+ * several processes write to the same tables.
+ *
+ * @category Cache
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryLruCacheStore({ maxEntries: 500 });
+ * const tableFactory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+ *   cache: { store },
+ * });
+ * ```
+ */
+export class InMemoryLruCacheStore implements CacheStoreInterface {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  /**
+   * Creates a new InMemoryLruCacheStore.
+   *
+   * @param options - Optional size limit and clock
+   */
+  constructor(options: InMemoryLruCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Number of stored entries (including expired entries not yet removed).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the end of the map (most recently used)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
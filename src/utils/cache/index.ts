@@ -0,0 +1,10 @@
+/**
+ * Cache stores for the read-through Find cache
+ *
+ * Stores: InMemoryLruCacheStore
+ *
+ * @module utils/cache
+ * @category Cache
+ */
+
+export * from './InMemoryLruCacheStore';
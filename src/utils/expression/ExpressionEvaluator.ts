@@ -0,0 +1,595 @@
+/**
+ * Local evaluator for AppSheet selector expressions
+ * @module utils/expression
+ * @category Expressions
+ */
+
+import {
+  CallNode,
+  ComparisonOperator,
+  ExpressionEvaluatorOptions,
+  ExpressionNode,
+  ExpressionValue,
+  UnsupportedExpressionError,
+} from '../../types';
+import { ExpressionParser } from './ExpressionParser';
+import { ExpressionPrinter } from './ExpressionPrinter';
+
+/** Milliseconds per day, used for date arithmetic (`TODAY() - 7`) */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Selector functions that are only valid at the top level of a selector */
+const SELECTOR_FUNCTIONS = ['FILTER', 'SELECT', 'ORDERBY', 'TOP'];
+
+/** Text values accepted as Yes/No */
+const TRUE_VALUES = ['true', 'yes', 'y'];
+const FALSE_VALUES = ['false', 'no', 'n'];
+
+/**
+ * Evaluates AppSheet selector expressions against in-memory rows.
+ *
+ * Used by `MockAppSheetClient` to filter, sort and limit rows the way the
+ * AppSheet API would. Supported constructs:
+ * - Selector functions: `Filter()`, `Select()`, `OrderBy()`, `Top()` and bare conditions
+ * - `AND`, `OR`, `NOT` (infix and function form)
+ * - Comparisons `=`, `<>`, `<`, `>`, `<=`, `>=` on text, numbers, Yes/No and dates
+ * - `IN()` with `LIST()`, `{...}` or a comma-separated EnumList value
+ * - Functions: `CONTAINS`, `STARTSWITH`, `ENDSWITH`, `ISBLANK`, `ISNOTBLANK`,
+ *   `LOWER`, `UPPER`, `LEN`, `TODAY`, `NOW`, `DATE`, `DATETIME`
+ * - Arithmetic on numbers and day offsets on dates (`TODAY() - 7`)
+ *
+ * Semantics follow AppSheet: text comparisons are case-insensitive, numeric
+ * strings compare as numbers, and blank values equal only other blanks.
+ * Dates without a time zone are interpreted as UTC.
+ *
+ * Anything else throws an {@link UnsupportedExpressionError} instead of
+ * silently matching all rows.
+ *
+ * @category Expressions
+ *
+ * @example
+ * ```typescript
+ * const evaluator = new ExpressionEvaluator();
+ *
+ * evaluator.select(rows, 'Top(OrderBy(Filter(People, [Age] >= 21), [Name], FALSE), 10)');
+ * evaluator.test('CONTAINS([Title], "urgent")', row); // => true / false
+ * ```
+ */
+export class ExpressionEvaluator {
+  private readonly now: () => Date;
+
+  /**
+   * @param options - Optional evaluator options (e.g. a fixed clock for tests)
+   */
+  constructor(options: ExpressionEvaluatorOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Apply a selector to rows: filter, sort and limit.
+   *
+   * @param rows - Rows to select from
+   * @param selector - Selector expression or parsed AST
+   * @returns Matching rows (original objects, in result order)
+   * @throws {ExpressionSyntaxError} If the selector cannot be parsed
+   * @throws {UnsupportedExpressionError} If the selector uses unsupported constructs
+   */
+  select<T extends Record<string, any>>(rows: T[], selector: string | ExpressionNode): T[] {
+    const node = typeof selector === 'string' ? ExpressionParser.parse(selector) : selector;
+
+    if (node.type === 'Call') {
+      switch (node.name.toUpperCase()) {
+        case 'FILTER':
+          this.assertArity(node, 2);
+          if (node.args[0].type !== 'Identifier') {
+            throw this.unsupported('Filter() expects a table name as first argument', node);
+          }
+          return this.filter(rows, node.args[1]);
+
+        case 'SELECT':
+          this.assertArity(node, 2, 3);
+          if (node.args[0].type !== 'Field' || !node.args[0].table) {
+            throw this.unsupported('Select() expects a column list like Table[Key]', node);
+          }
+          return this.filter(rows, node.args[1]);
+
+        case 'ORDERBY':
+          return this.orderBy(this.select(rows, this.firstArg(node)), node);
+
+        case 'TOP': {
+          this.assertArity(node, 2);
+          const count = this.evaluate(node.args[1], {});
+          if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+            throw this.unsupported('Top() expects a non-negative integer count', node);
+          }
+          return this.select(rows, node.args[0]).slice(0, count);
+        }
+      }
+    }
+
+    return this.filter(rows, node);
+  }
+
+  /**
+   * Evaluate a Yes/No condition for a single row.
+   *
+   * @param condition - Boolean expression or parsed AST
+   * @param row - Row providing `[Field]` values
+   * @returns Whether the row matches
+   * @throws {UnsupportedExpressionError} If the condition uses unsupported constructs
+   *   or does not produce a Yes/No value
+   */
+  test(condition: string | ExpressionNode, row: Record<string, any>): boolean {
+    const node = typeof condition === 'string' ? ExpressionParser.parse(condition) : condition;
+    return this.toBoolean(this.evaluate(node, row), node);
+  }
+
+  /**
+   * Evaluate an expression for a single row.
+   *
+   * @param node - Parsed expression
+   * @param row - Row providing `[Field]` values
+   * @returns Evaluated value
+   * @throws {UnsupportedExpressionError} If the expression uses unsupported constructs
+   */
+  evaluate(node: ExpressionNode, row: Record<string, any>): ExpressionValue {
+    switch (node.type) {
+      case 'Literal':
+        if (node.valueType === 'date' || node.valueType === 'datetime') {
+          return (
+            this.toDate(node.value as string) ?? this.fail(`Invalid date "${node.value}"`, node)
+          );
+        }
+        return this.normalize(node.value);
+
+      case 'Field':
+        if (node.table) {
+          throw this.unsupported(
+            `Column list ${node.table}[${node.name}] is only supported as first argument of Select()`,
+            node
+          );
+        }
+        return this.normalize(row[node.name]);
+
+      case 'Identifier':
+        throw this.unsupported(
+          `Table reference "${node.name}" is only supported as first argument of Filter()`,
+          node
+        );
+
+      case 'List':
+        return node.items.map((item) => this.evaluate(item, row));
+
+      case 'Logical':
+        return node.operator === 'AND'
+          ? node.operands.every((operand) => this.test(operand, row))
+          : node.operands.some((operand) => this.test(operand, row));
+
+      case 'Not':
+        return !this.test(node.operand, row);
+
+      case 'In': {
+        const value = this.evaluate(node.value, row);
+        return this.toList(this.evaluate(node.list, row), node).some((item) =>
+          this.compare('=', value, item)
+        );
+      }
+
+      case 'Comparison':
+        return this.compare(
+          node.operator,
+          this.evaluate(node.left, row),
+          this.evaluate(node.right, row)
+        );
+
+      case 'Arithmetic':
+        return this.arithmetic(
+          node.operator,
+          this.evaluate(node.left, row),
+          this.evaluate(node.right, row),
+          node
+        );
+
+      case 'Call':
+        return this.call(node, row);
+    }
+  }
+
+  // ── Selector functions ─────────────────────────────────────────────
+
+  private filter<T extends Record<string, any>>(rows: T[], condition: ExpressionNode): T[] {
+    return rows.filter((row) => this.test(condition, row));
+  }
+
+  /**
+   * Sort rows by `OrderBy(rows, key1, [desc1], key2, [desc2], ...)`.
+   * The descending flag is optional and defaults to FALSE. Sorting is stable.
+   */
+  private orderBy<T extends Record<string, any>>(rows: T[], node: CallNode): T[] {
+    const keys: { key: ExpressionNode; descending: boolean }[] = [];
+
+    for (let i = 1; i < node.args.length; i++) {
+      const key = node.args[i];
+      const next = node.args[i + 1];
+      const hasFlag = next?.type === 'Literal' && next.valueType === 'boolean';
+      keys.push({ key, descending: hasFlag ? (next.value as boolean) : false });
+      if (hasFlag) {
+        i++;
+      }
+    }
+
+    if (keys.length === 0) {
+      throw this.unsupported('OrderBy() requires at least one sort key', node);
+    }
+
+    return [...rows].sort((a, b) => {
+      for (const { key, descending } of keys) {
+        const cmp = this.compareForSort(this.evaluate(key, a), this.evaluate(key, b));
+        if (cmp !== 0) {
+          return descending ? -cmp : cmp;
+        }
+      }
+      return 0;
+    });
+  }
+
+  // ── Functions ──────────────────────────────────────────────────────
+
+  private call(node: CallNode, row: Record<string, any>): ExpressionValue {
+    const name = node.name.toUpperCase();
+    const arg = (index: number) => this.evaluate(node.args[index], row);
+
+    if (SELECTOR_FUNCTIONS.includes(name)) {
+      throw this.unsupported(
+        `${node.name}() is only supported at the top level of a selector`,
+        node
+      );
+    }
+
+    switch (name) {
+      case 'CONTAINS':
+      case 'STARTSWITH':
+      case 'ENDSWITH': {
+        this.assertArity(node, 2);
+        const text = this.toText(arg(0)).toLowerCase();
+        const search = this.toText(arg(1)).toLowerCase();
+        if (name === 'CONTAINS') return text.includes(search);
+        return name === 'STARTSWITH' ? text.startsWith(search) : text.endsWith(search);
+      }
+
+      case 'ISBLANK':
+      case 'ISNOTBLANK': {
+        this.assertArity(node, 1);
+        const value = arg(0);
+        const blank = value === null || (Array.isArray(value) && value.length === 0);
+        return name === 'ISBLANK' ? blank : !blank;
+      }
+
+      case 'LOWER':
+      case 'UPPER': {
+        this.assertArity(node, 1);
+        const text = this.toText(arg(0));
+        return name === 'LOWER' ? text.toLowerCase() : text.toUpperCase();
+      }
+
+      case 'LEN':
+        this.assertArity(node, 1);
+        return this.toText(arg(0)).length;
+
+      case 'TODAY':
+        this.assertArity(node, 0);
+        return this.startOfDay(this.now());
+
+      case 'NOW':
+        this.assertArity(node, 0);
+        return this.now();
+
+      case 'DATE':
+      case 'DATETIME': {
+        this.assertArity(node, 1);
+        const value = arg(0);
+        if (value === null) return null;
+        const date = this.toDate(value) ?? this.fail(`Cannot convert "${value}" to a date`, node);
+        return name === 'DATE' ? this.startOfDay(date) : date;
+      }
+
+      default:
+        throw this.unsupported(
+          `Function ${node.name}() is not supported by the local evaluator`,
+          node
+        );
+    }
+  }
+
+  // ── Comparison and arithmetic ──────────────────────────────────────
+
+  private compare(
+    operator: ComparisonOperator,
+    left: ExpressionValue,
+    right: ExpressionValue
+  ): boolean {
+    if (left === null || right === null) {
+      const bothBlank = left === right;
+      if (operator === '=') return bothBlank;
+      if (operator === '<>') return !bothBlank;
+      return false;
+    }
+
+    const pair = this.toComparablePair(left, right);
+    if (!pair) {
+      return operator === '<>';
+    }
+
+    const [a, b] = pair;
+    switch (operator) {
+      case '=':
+        return a === b;
+      case '<>':
+        return a !== b;
+      case '<':
+        return a < b;
+      case '>':
+        return a > b;
+      case '<=':
+        return a <= b;
+      case '>=':
+        return a >= b;
+    }
+  }
+
+  /**
+   * Compare values for sorting: blanks first, then by the comparison rules,
+   * falling back to text for values of incompatible types. Two date strings
+   * (e.g. values of a Date column) are sorted as dates.
+   */
+  private compareForSort(left: ExpressionValue, right: ExpressionValue): number {
+    if (left === null || right === null) {
+      return left === right ? 0 : left === null ? -1 : 1;
+    }
+    if (typeof left === 'string' && typeof right === 'string') {
+      const leftDate = this.toDate(left);
+      const rightDate = this.toDate(right);
+      if (leftDate && rightDate) {
+        return leftDate.getTime() - rightDate.getTime();
+      }
+    }
+    const [a, b] = this.toComparablePair(left, right) ?? [
+      this.toText(left).toLowerCase(),
+      this.toText(right).toLowerCase(),
+    ];
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * Coerce two non-blank values to a common comparable type.
+   *
+   * Dates win over numbers, numbers over Yes/No, Yes/No over text.
+   * Returns undefined if the values cannot be compared (e.g. a date and "n/a").
+   */
+  private toComparablePair(
+    left: ExpressionValue,
+    right: ExpressionValue
+  ): [number, number] | [string, string] | undefined {
+    if (Array.isArray(left) || Array.isArray(right)) {
+      throw new UnsupportedExpressionError('Lists cannot be compared; use IN() instead', {
+        left,
+        right,
+      });
+    }
+
+    if (left instanceof Date || right instanceof Date) {
+      const a = this.toDate(left);
+      const b = this.toDate(right);
+      return a && b ? [a.getTime(), b.getTime()] : undefined;
+    }
+
+    if (typeof left === 'number' || typeof right === 'number') {
+      const a = this.toNumber(left);
+      const b = this.toNumber(right);
+      return a !== undefined && b !== undefined ? [a, b] : undefined;
+    }
+
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      const a = this.toOptionalBoolean(left);
+      const b = this.toOptionalBoolean(right);
+      return a !== undefined && b !== undefined ? [Number(a), Number(b)] : undefined;
+    }
+
+    return [String(left).toLowerCase(), String(right).toLowerCase()];
+  }
+
+  private arithmetic(
+    operator: string,
+    left: ExpressionValue,
+    right: ExpressionValue,
+    node: ExpressionNode
+  ): ExpressionValue {
+    if (left instanceof Date || right instanceof Date) {
+      const leftDate = this.toDate(left);
+      const rightDate = this.toDate(right);
+
+      // Date - Date => difference in days
+      if (leftDate && rightDate && operator === '-') {
+        return (leftDate.getTime() - rightDate.getTime()) / DAY_MS;
+      }
+      // Date +/- days
+      const date = left instanceof Date ? left : (right as Date);
+      const days = this.toNumber(left instanceof Date ? right : left) ?? 0;
+      if (operator === '+' || (operator === '-' && left instanceof Date)) {
+        const sign = operator === '+' ? 1 : -1;
+        return new Date(date.getTime() + sign * days * DAY_MS);
+      }
+      throw this.unsupported(`Operator "${operator}" is not supported for dates`, node);
+    }
+
+    const a = left === null ? 0 : this.toNumber(left);
+    const b = right === null ? 0 : this.toNumber(right);
+    if (a === undefined || b === undefined) {
+      throw this.unsupported(`Operator "${operator}" requires numbers or dates`, node);
+    }
+
+    switch (operator) {
+      case '+':
+        return a + b;
+      case '-':
+        return a - b;
+      case '*':
+        return a * b;
+      default:
+        if (b === 0) {
+          throw this.unsupported('Division by zero', node);
+        }
+        return a / b;
+    }
+  }
+
+  // ── Conversions ────────────────────────────────────────────────────
+
+  /**
+   * Normalize a raw row value: blanks become null, Date objects are kept.
+   */
+  private normalize(value: unknown): ExpressionValue {
+    if (value === undefined || value === null || value === '') {
+      return null;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.normalize(item));
+    }
+    if (
+      value instanceof Date ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return value;
+    }
+    return String(value);
+  }
+
+  private toBoolean(value: ExpressionValue, node: ExpressionNode): boolean {
+    if (value === null) {
+      return false;
+    }
+    const result = this.toOptionalBoolean(value);
+    if (result === undefined) {
+      throw this.unsupported(`Expected a Yes/No value but got ${JSON.stringify(value)}`, node);
+    }
+    return result;
+  }
+
+  private toOptionalBoolean(value: ExpressionValue): boolean | undefined {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      const lower = value.trim().toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return true;
+      if (FALSE_VALUES.includes(lower)) return false;
+    }
+    return undefined;
+  }
+
+  private toNumber(value: ExpressionValue): number | undefined {
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '') {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    return undefined;
+  }
+
+  private toText(value: ExpressionValue): string {
+    if (value === null) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toText(item)).join(' , ');
+    }
+    return String(value);
+  }
+
+  /**
+   * Convert a value to a list for IN(). Text is treated as an EnumList (`"a , b"`).
+   */
+  private toList(value: ExpressionValue, node: ExpressionNode): ExpressionValue[] {
+    if (value === null) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return value.split(',').map((item) => this.normalize(item.trim()));
+    }
+    throw this.unsupported('IN() expects a list as second argument', node);
+  }
+
+  /**
+   * Convert a value to a Date. Supports Date objects, `YYYY-MM-DD`,
+   * `YYYY-MM-DD HH:mm[:ss]` (UTC), `MM/DD/YYYY [HH:mm[:ss]]` (UTC)
+   * and ISO 8601 timestamps with time zone.
+   */
+  private toDate(value: ExpressionValue): Date | undefined {
+    if (value instanceof Date) {
+      return value;
+    }
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const text = value.trim();
+    const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(text);
+    const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(text);
+
+    let time: number;
+    if (iso) {
+      const [, y, mo, d, h, mi, s] = iso;
+      time = Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0));
+    } else if (us) {
+      const [, mo, d, y, h, mi, s] = us;
+      time = Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0));
+    } else if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+      time = Date.parse(text);
+    } else {
+      return undefined;
+    }
+
+    return Number.isNaN(time) ? undefined : new Date(time);
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  // ── Errors ─────────────────────────────────────────────────────────
+
+  private firstArg(node: CallNode): ExpressionNode {
+    if (node.args.length === 0) {
+      throw this.unsupported(`${node.name}() requires arguments`, node);
+    }
+    return node.args[0];
+  }
+
+  private assertArity(node: CallNode, min: number, max = min): void {
+    if (node.args.length < min || node.args.length > max) {
+      const expected = min === max ? `${min}` : `${min}-${max}`;
+      throw this.unsupported(
+        `${node.name}() expects ${expected} argument(s), got ${node.args.length}`,
+        node
+      );
+    }
+  }
+
+  private fail(message: string, node: ExpressionNode): never {
+    throw this.unsupported(message, node);
+  }
+
+  private unsupported(message: string, node: ExpressionNode): UnsupportedExpressionError {
+    return new UnsupportedExpressionError(message, { expression: ExpressionPrinter.print(node) });
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Parser for AppSheet selector expressions
+ * @module utils/expression
+ * @category Expressions
+ */
+
+import {
+  ArithmeticOperator,
+  ComparisonOperator,
+  ExpressionNode,
+  ExpressionSyntaxError,
+  ExpressionToken,
+} from '../../types';
+import { ExpressionTokenizer } from './ExpressionTokenizer';
+
+/** Comparison operators as written in expressions */
+const COMPARISON_OPERATORS = ['=', '<>', '!=', '<', '>', '<=', '>='];
+
+/** ISO 8601 date literal inside DATE("...") */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses AppSheet selector expressions into a typed AST.
+ *
+ * Supported syntax:
+ * - Selector functions: `Filter()`, `Select()`, `OrderBy()`, `Top()` (as calls)
+ * - Column references: `[Field]`, `Table[Field]`
+ * - Logical operators in infix and function form: `a AND b`, `AND(a, b)`, `OR`, `NOT`
+ * - Comparisons: `=`, `<>`, `!=` (normalized to `<>`), `<`, `>`, `<=`, `>=`
+ * - Membership: `IN(value, LIST(...))`, `IN(value, {...})`, `value IN (a, b)`
+ * - Literals: strings, numbers, `TRUE`/`FALSE`, `DATE("YYYY-MM-DD")`, `DATETIME("...")`
+ * - Arithmetic: `+`, `-`, `*`, `/` (e.g. `TODAY() - 7`)
+ * - Any other function call, e.g. `CONTAINS()`, `ISBLANK()`, `TODAY()`
+ *
+ * Operator precedence (lowest to highest): OR, AND, NOT, comparison/IN,
+ * additive, multiplicative, unary minus.
+ *
+ * @category Expressions
+ *
+ * @example
+ * ```typescript
+ * const ast = ExpressionParser.parse('[Status] = "Active" AND [Age] >= 21');
+ * // {
+ * //   type: 'Logical',
+ * //   operator: 'AND',
+ * //   operands: [
+ * //     { type: 'Comparison', operator: '=', left: { type: 'Field', name: 'Status' }, ... },
+ * //     { type: 'Comparison', operator: '>=', left: { type: 'Field', name: 'Age' }, ... }
+ * //   ]
+ * // }
+ * ```
+ */
+export class ExpressionParser {
+  private pos = 0;
+
+  private constructor(
+    private readonly expression: string,
+    private readonly tokens: ExpressionToken[]
+  ) {}
+
+  /**
+   * Parse an expression into an AST.
+   *
+   * @param expression - AppSheet expression source
+   * @returns Root node of the expression
+   * @throws {ExpressionSyntaxError} If the expression is not valid
+   */
+  static parse(expression: string): ExpressionNode {
+    const parser = new ExpressionParser(expression, ExpressionTokenizer.tokenize(expression));
+    const node = parser.parseOr();
+    parser.expect('End');
+    return node;
+  }
+
+  // ── Grammar rules ──────────────────────────────────────────────────
+
+  private parseOr(): ExpressionNode {
+    const operands = [this.parseAnd()];
+    while (this.matchKeyword('OR')) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'Logical', operator: 'OR', operands };
+  }
+
+  private parseAnd(): ExpressionNode {
+    const operands = [this.parseNot()];
+    while (this.matchKeyword('AND')) {
+      operands.push(this.parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'Logical', operator: 'AND', operands };
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.isKeyword('NOT') && this.peek(1).type !== 'LeftParen') {
+      this.advance();
+      return { type: 'Not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'Operator' && COMPARISON_OPERATORS.includes(token.value)) {
+      this.advance();
+      const operator = (token.value === '!=' ? '<>' : token.value) as ComparisonOperator;
+      return { type: 'Comparison', operator, left, right: this.parseAdditive() };
+    }
+
+    // Infix membership: [Field] IN ("a", "b")
+    if (this.isKeyword('IN') && this.peek(1).type !== 'LeftParen') {
+      throw this.error(`Expected "(" after IN`, this.peek(1));
+    }
+    if (this.isKeyword('IN')) {
+      this.advance();
+      this.expect('LeftParen');
+      const items = this.parseArguments('RightParen');
+      return { type: 'In', value: left, list: { type: 'List', items } };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.advance().value as ArithmeticOperator;
+      left = { type: 'Arithmetic', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/')) {
+      const operator = this.advance().value as ArithmeticOperator;
+      left = { type: 'Arithmetic', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('-')) {
+      this.advance();
+      const operand = this.parseUnary();
+      if (operand.type === 'Literal' && operand.valueType === 'number') {
+        return { ...operand, value: -(operand.value as number) };
+      }
+      return {
+        type: 'Arithmetic',
+        operator: '-',
+        left: { type: 'Literal', valueType: 'number', value: 0 },
+        right: operand,
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'Field':
+        this.advance();
+        return { type: 'Field', name: token.value };
+
+      case 'String':
+        this.advance();
+        return { type: 'Literal', valueType: 'string', value: token.value };
+
+      case 'Number':
+        this.advance();
+        return { type: 'Literal', valueType: 'number', value: Number(token.value) };
+
+      case 'LeftParen': {
+        this.advance();
+        const inner = this.parseOr();
+        this.expect('RightParen');
+        return inner;
+      }
+
+      case 'LeftBrace':
+        this.advance();
+        return { type: 'List', items: this.parseArguments('RightBrace') };
+
+      case 'Identifier':
+        return this.parseIdentifier();
+
+      default:
+        throw this.error(
+          token.type === 'End'
+            ? 'Unexpected end of expression'
+            : `Unexpected token "${token.value}" at position ${token.position}`,
+          token
+        );
+    }
+  }
+
+  /**
+   * Parse an identifier: keyword literal, function call, table column list or table name.
+   */
+  private parseIdentifier(): ExpressionNode {
+    const token = this.advance();
+    const upper = token.value.toUpperCase();
+
+    if (upper === 'TRUE' || upper === 'FALSE') {
+      return { type: 'Literal', valueType: 'boolean', value: upper === 'TRUE' };
+    }
+
+    // Table column list: People[_ComputedKey]
+    if (
+      this.peek().type === 'Field' &&
+      this.peek().position === token.position + token.value.length
+    ) {
+      return { type: 'Field', name: this.advance().value, table: token.value };
+    }
+
+    if (this.peek().type !== 'LeftParen') {
+      return { type: 'Identifier', name: token.value };
+    }
+
+    this.advance();
+    const args = this.parseArguments('RightParen');
+    return this.toCallNode(token, args);
+  }
+
+  /**
+   * Map function-form keywords and literals to dedicated nodes.
+   */
+  private toCallNode(token: ExpressionToken, args: ExpressionNode[]): ExpressionNode {
+    const upper = token.value.toUpperCase();
+
+    switch (upper) {
+      case 'AND':
+      case 'OR':
+        if (args.length === 0) {
+          throw this.error(`${upper}() requires at least one argument`, token);
+        }
+        return { type: 'Logical', operator: upper, operands: args };
+
+      case 'NOT':
+        this.assertArity(token, args, 1);
+        return { type: 'Not', operand: args[0] };
+
+      case 'IN':
+        this.assertArity(token, args, 2);
+        return { type: 'In', value: args[0], list: args[1] };
+
+      case 'LIST':
+        return { type: 'List', items: args };
+
+      case 'DATE':
+      case 'DATETIME': {
+        const arg = args[0];
+        const isConstant =
+          args.length === 1 && arg.type === 'Literal' && arg.valueType === 'string';
+        if (isConstant && (upper === 'DATETIME' || ISO_DATE.test(arg.value as string))) {
+          return {
+            type: 'Literal',
+            valueType: upper === 'DATE' ? 'date' : 'datetime',
+            value: arg.value,
+          };
+        }
+        return { type: 'Call', name: token.value, args };
+      }
+
+      default:
+        return { type: 'Call', name: token.value, args };
+    }
+  }
+
+  /**
+   * Parse a comma-separated argument list up to (and including) the closing token.
+   */
+  private parseArguments(closing: 'RightParen' | 'RightBrace'): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.peek().type === closing) {
+      this.advance();
+      return args;
+    }
+
+    args.push(this.parseOr());
+    while (this.peek().type === 'Comma') {
+      this.advance();
+      args.push(this.parseOr());
+    }
+    this.expect(closing);
+    return args;
+  }
+
+  // ── Token helpers ──────────────────────────────────────────────────
+
+  private peek(offset = 0): ExpressionToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): ExpressionToken {
+    const token = this.peek();
+    if (token.type !== 'End') {
+      this.pos++;
+    }
+    return token;
+  }
+
+  private expect(type: ExpressionToken['type']): ExpressionToken {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'End' ? 'end of expression' : `"${token.value}"`;
+      throw this.error(`Expected ${type} but found ${found} at position ${token.position}`, token);
+    }
+    return this.advance();
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'Identifier' && token.value.toUpperCase() === keyword;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (this.isKeyword(keyword)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private isOperator(operator: string): boolean {
+    const token = this.peek();
+    return token.type === 'Operator' && token.value === operator;
+  }
+
+  private assertArity(token: ExpressionToken, args: ExpressionNode[], expected: number): void {
+    if (args.length !== expected) {
+      throw this.error(
+        `${token.value.toUpperCase()}() expects ${expected} argument(s), got ${args.length}`,
+        token
+      );
+    }
+  }
+
+  private error(message: string, token: ExpressionToken): ExpressionSyntaxError {
+    return new ExpressionSyntaxError(message, token.position, { expression: this.expression });
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Printer for AppSheet expression ASTs
+ * @module utils/expression
+ * @category Expressions
+ */
+
+import { ExpressionNode, LiteralNode } from '../../types';
+
+/** Binding strength of infix nodes; higher binds tighter */
+const PRECEDENCE: Record<string, number> = {
+  Comparison: 1,
+  '+': 2,
+  '-': 2,
+  '*': 3,
+  '/': 3,
+};
+
+/**
+ * Renders an expression AST back to an AppSheet expression string.
+ *
+ * Output is canonical rather than source-preserving:
+ * - Logical operators use function form: `AND(a, b)`, `OR(a, b)`, `NOT(a)`
+ * - Membership uses `IN(value, LIST(...))`
+ * - Strings are double-quoted with `"` and `\` escaped
+ * - Infix operands are parenthesized only where precedence requires it
+ *
+ * Parsing the printed output yields the same AST.
+ *
+ * @category Expressions
+ *
+ * @example
+ * ```typescript
+ * const ast = ExpressionParser.parse("[Status] = 'Active' and [Name] IN ('A', 'B')");
+ * ExpressionPrinter.print(ast);
+ * // => 'AND([Status] = "Active", IN([Name], LIST("A", "B")))'
+ * ```
+ */
+export class ExpressionPrinter {
+  /**
+   * Print an AST node as an AppSheet expression.
+   *
+   * @param node - Root node to print
+   * @returns Expression string
+   */
+  static print(node: ExpressionNode): string {
+    switch (node.type) {
+      case 'Literal':
+        return this.printLiteral(node);
+
+      case 'Field':
+        return `${node.table ?? ''}[${node.name}]`;
+
+      case 'Identifier':
+        return node.name;
+
+      case 'List':
+        return `LIST(${this.printAll(node.items)})`;
+
+      case 'Call':
+        return `${node.name}(${this.printAll(node.args)})`;
+
+      case 'Logical':
+        return `${node.operator}(${this.printAll(node.operands)})`;
+
+      case 'Not':
+        return `NOT(${this.print(node.operand)})`;
+
+      case 'In':
+        return `IN(${this.print(node.value)}, ${this.print(node.list)})`;
+
+      case 'Comparison':
+        return (
+          `${this.printOperand(node.left, PRECEDENCE.Comparison, false)} ${node.operator} ` +
+          this.printOperand(node.right, PRECEDENCE.Comparison, true)
+        );
+
+      case 'Arithmetic': {
+        const precedence = PRECEDENCE[node.operator];
+        return (
+          `${this.printOperand(node.left, precedence, false)} ${node.operator} ` +
+          this.printOperand(node.right, precedence, true)
+        );
+      }
+    }
+  }
+
+  private static printAll(nodes: ExpressionNode[]): string {
+    return nodes.map((node) => this.print(node)).join(', ');
+  }
+
+  /**
+   * Print an operand of an infix node, adding parentheses if it binds weaker than
+   * the parent. Arithmetic is left-associative, so equal precedence needs parentheses
+   * on the right only; comparisons do not chain and always need them.
+   */
+  private static printOperand(node: ExpressionNode, parent: number, isRight: boolean): string {
+    const printed = this.print(node);
+    const own =
+      node.type === 'Comparison'
+        ? PRECEDENCE.Comparison
+        : node.type === 'Arithmetic'
+          ? PRECEDENCE[node.operator]
+          : undefined;
+
+    const needsParens =
+      own !== undefined &&
+      (own < parent || (own === parent && (isRight || own === PRECEDENCE.Comparison)));
+
+    return needsParens ? `(${printed})` : printed;
+  }
+
+  private static printLiteral(node: LiteralNode): string {
+    switch (node.valueType) {
+      case 'string':
+        return this.quote(node.value as string);
+      case 'number':
+        return String(node.value);
+      case 'boolean':
+        return node.value ? 'TRUE' : 'FALSE';
+      case 'date':
+        return `DATE(${this.quote(node.value as string)})`;
+      case 'datetime':
+        return `DATETIME(${this.quote(node.value as string)})`;
+    }
+  }
+
+  private static quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+}
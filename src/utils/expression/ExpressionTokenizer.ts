@@ -0,0 +1,170 @@
+/**
+ * Tokenizer for AppSheet selector expressions
+ * @module utils/expression
+ * @category Expressions
+ */
+
+import { ExpressionSyntaxError, ExpressionToken } from '../../types';
+
+/** Multi-character operators, checked before single-character ones */
+const MULTI_CHAR_OPERATORS = ['<>', '!=', '<=', '>='];
+
+/** Single-character operators */
+const SINGLE_CHAR_OPERATORS = ['=', '<', '>', '+', '-', '*', '/'];
+
+/** Single-character punctuation and its token type */
+const PUNCTUATION: Record<string, ExpressionToken['type']> = {
+  '(': 'LeftParen',
+  ')': 'RightParen',
+  '{': 'LeftBrace',
+  '}': 'RightBrace',
+  ',': 'Comma',
+};
+
+/**
+ * Splits AppSheet expressions into tokens.
+ *
+ * Recognizes:
+ * - Column references in brackets: `[Field Name]`
+ * - Strings in double or single quotes, with `\"` and `\\` escapes
+ *   (the escaping used by {@link SelectorBuilder.escapeValue})
+ * - Numbers: `42`, `3.14`
+ * - Identifiers and keywords: `Filter`, `AND`, `TRUE`, `People`
+ * - Operators: `=`, `<>`, `!=`, `<`, `>`, `<=`, `>=`, `+`, `-`, `*`, `/`
+ * - Punctuation: `(`, `)`, `{`, `}`, `,`
+ *
+ * @category Expressions
+ *
+ * @example
+ * ```typescript
+ * ExpressionTokenizer.tokenize('[Age] >= 21');
+ * // [
+ * //   { type: 'Field', value: 'Age', position: 0 },
+ * //   { type: 'Operator', value: '>=', position: 6 },
+ * //   { type: 'Number', value: '21', position: 9 },
+ * //   { type: 'End', value: '', position: 11 }
+ * // ]
+ * ```
+ */
+export class ExpressionTokenizer {
+  /**
+   * Tokenize an expression.
+   *
+   * @param expression - AppSheet expression source
+   * @returns Tokens, always terminated by an `End` token
+   * @throws {ExpressionSyntaxError} On unterminated strings/brackets or unexpected characters
+   */
+  static tokenize(expression: string): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    let pos = 0;
+
+    while (pos < expression.length) {
+      const char = expression[pos];
+
+      // Whitespace
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      // Column reference: [Field Name]
+      if (char === '[') {
+        const end = expression.indexOf(']', pos + 1);
+        if (end === -1) {
+          throw new ExpressionSyntaxError(`Unterminated column reference at position ${pos}`, pos, {
+            expression,
+          });
+        }
+        tokens.push({ type: 'Field', value: expression.substring(pos + 1, end), position: pos });
+        pos = end + 1;
+        continue;
+      }
+
+      // String literal: "..." or '...'
+      if (char === '"' || char === "'") {
+        const { value, end } = this.readString(expression, pos, char);
+        tokens.push({ type: 'String', value, position: pos });
+        pos = end;
+        continue;
+      }
+
+      // Number literal
+      if (/\d/.test(char) || (char === '.' && /\d/.test(expression[pos + 1] ?? ''))) {
+        const match = /^\d*\.?\d+|^\d+/.exec(expression.substring(pos));
+        const value = match![0];
+        tokens.push({ type: 'Number', value, position: pos });
+        pos += value.length;
+        continue;
+      }
+
+      // Identifier or keyword
+      if (/[A-Za-z_]/.test(char)) {
+        const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.substring(pos));
+        const value = match![0];
+        tokens.push({ type: 'Identifier', value, position: pos });
+        pos += value.length;
+        continue;
+      }
+
+      // Operators
+      const twoChars = expression.substring(pos, pos + 2);
+      if (MULTI_CHAR_OPERATORS.includes(twoChars)) {
+        tokens.push({ type: 'Operator', value: twoChars, position: pos });
+        pos += 2;
+        continue;
+      }
+      if (SINGLE_CHAR_OPERATORS.includes(char)) {
+        tokens.push({ type: 'Operator', value: char, position: pos });
+        pos++;
+        continue;
+      }
+
+      // Punctuation
+      if (PUNCTUATION[char]) {
+        tokens.push({ type: PUNCTUATION[char], value: char, position: pos });
+        pos++;
+        continue;
+      }
+
+      throw new ExpressionSyntaxError(`Unexpected character "${char}" at position ${pos}`, pos, {
+        expression,
+      });
+    }
+
+    tokens.push({ type: 'End', value: '', position: expression.length });
+    return tokens;
+  }
+
+  /**
+   * Read a quoted string starting at `start` and resolve `\"`, `\'` and `\\` escapes.
+   */
+  private static readString(
+    expression: string,
+    start: number,
+    quote: string
+  ): { value: string; end: number } {
+    let value = '';
+    let pos = start + 1;
+
+    while (pos < expression.length) {
+      const char = expression[pos];
+
+      if (char === '\\' && pos + 1 < expression.length) {
+        value += expression[pos + 1];
+        pos += 2;
+        continue;
+      }
+
+      if (char === quote) {
+        return { value, end: pos + 1 };
+      }
+
+      value += char;
+      pos++;
+    }
+
+    throw new ExpressionSyntaxError(`Unterminated string at position ${start}`, start, {
+      expression,
+    });
+  }
+}
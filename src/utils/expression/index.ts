@@ -0,0 +1,10 @@
+/**
+ * AppSheet expression parsing and printing
+ * @module utils/expression
+ * @category Expressions
+ */
+
+export * from './ExpressionTokenizer';
+export * from './ExpressionParser';
+export * from './ExpressionPrinter';
+export * from './ExpressionEvaluator';
@@ -7,4 +7,23 @@ export * from './SchemaLoader';
 export * from './SchemaManager';
 export * from './validators';
 export * from './SelectorBuilder';
+export {
+  VIRTUAL_COLUMNS,
+  DEFAULT_KEYS_PER_REQUEST,
+  QueryFunction,
+  QueryCondition,
+  QueryField,
+  where,
+} from './QueryBuilder';
+export type { QueryValue } from './QueryBuilder';
+// and, or, not, today and now only via the namespace, to keep these generic names out of the root
+export * as query from './QueryBuilder';
+export * from './RequestLimiter';
+export * from './RequestCoalescer';
+export * from './CircuitBreaker';
 export * from './policies';
+export * from './expression';
+export * from './logging';
+export * from './tracing';
+export * from './metrics';
+export * from './cache';
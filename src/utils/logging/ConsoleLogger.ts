@@ -0,0 +1,60 @@
+/**
+ * ConsoleLogger - Write log messages to the console
+ *
+ * @module utils/logging
+ * @category Logging
+ */
+
+import { LogContext, LoggerInterface, LogLevel } from '../../types/logger';
+
+/** Numeric severity per level, used to filter messages below the minimum level */
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Logger that writes messages at or above a minimum level to the console.
+ *
+ * Used by the CLI. The context (if any) is passed as second console argument.
+ *
+ * @category Logging
+ *
+ * @example
+ * ```typescript
+ * const logger = new ConsoleLogger('debug');
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { logger });
+ * ```
+ */
+export class ConsoleLogger implements LoggerInterface {
+  /**
+   * @param level - Minimum level to write (default: 'info')
+   */
+  constructor(private readonly level: LogLevel = 'info') {}
+
+  debug(message: string, context?: LogContext): void {
+    this.write('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.write('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.write('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.write('error', message, context);
+  }
+
+  private write(level: LogLevel, message: string, context?: LogContext): void {
+    if (LEVELS[level] < LEVELS[this.level]) {
+      return;
+    }
+
+    const method = level === 'info' ? console.log : console[level];
+    if (context && Object.keys(context).length > 0) {
+      method(message, context);
+    } else {
+      method(message);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * NoOpLogger - Discard all log messages (Default)
+ *
+ * @module utils/logging
+ * @category Logging
+ */
+
+import { LoggerInterface } from '../../types/logger';
+
+/**
+ * Logger that discards all messages.
+ *
+ * This is the **default logger** used by AppSheetClient, the factories and
+ * SchemaManager when no logger is configured.
+ *
+ * @category Logging
+ */
+export class NoOpLogger implements LoggerInterface {
+  debug(): void {}
+
+  info(): void {}
+
+  warn(): void {}
+
+  error(): void {}
+}
@@ -0,0 +1,63 @@
+/**
+ * PinoLoggerAdapter - Use a pino logger as LoggerInterface
+ *
+ * @module utils/logging
+ * @category Logging
+ */
+
+import { LogContext, LoggerInterface } from '../../types/logger';
+
+/**
+ * Log method with pino's `(context, message)` signature.
+ *
+ * @category Logging
+ */
+export type PinoLogMethod = (context: object, message?: string) => void;
+
+/**
+ * Minimal shape of a pino logger.
+ *
+ * @category Logging
+ */
+export interface PinoLike {
+  debug: PinoLogMethod;
+  info: PinoLogMethod;
+  warn: PinoLogMethod;
+  error: PinoLogMethod;
+}
+
+/**
+ * Adapts pino's `(context, message)` signature to LoggerInterface.
+ *
+ * @category Logging
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const logger = new PinoLoggerAdapter(pino({ level: 'debug' }));
+ * const factory = new AppSheetClientFactory(undefined, { logger });
+ * ```
+ */
+export class PinoLoggerAdapter implements LoggerInterface {
+  /**
+   * @param pino - pino logger (or child logger)
+   */
+  constructor(private readonly pino: PinoLike) {}
+
+  debug(message: string, context: LogContext = {}): void {
+    this.pino.debug(context, message);
+  }
+
+  info(message: string, context: LogContext = {}): void {
+    this.pino.info(context, message);
+  }
+
+  warn(message: string, context: LogContext = {}): void {
+    this.pino.warn(context, message);
+  }
+
+  error(message: string, context: LogContext = {}): void {
+    this.pino.error(context, message);
+  }
+}
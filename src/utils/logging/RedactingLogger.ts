@@ -0,0 +1,127 @@
+/**
+ * RedactingLogger - Remove secrets and sensitive row fields from log context
+ *
+ * @module utils/logging
+ * @category Logging
+ */
+
+import { LogContext, LoggerInterface, LoggingOptions } from '../../types/logger';
+import { NoOpLogger } from './NoOpLogger';
+
+/** Replacement for redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Keys that are always redacted (compared case-insensitively) */
+const ALWAYS_REDACTED = ['applicationaccesskey'];
+
+/**
+ * Logger decorator that redacts sensitive values before passing messages on.
+ *
+ * Values of the `ApplicationAccessKey` header and of the configured field
+ * names are replaced with `[REDACTED]` at any depth of the context (including
+ * rows inside payloads). Keys are matched case-insensitively. The original
+ * context objects are not modified.
+ *
+ * AppSheetClient, the factories and SchemaManager wrap every configured
+ * logger with this decorator.
+ *
+ * @category Logging
+ *
+ * @example
+ * ```typescript
+ * const logger = new RedactingLogger(new ConsoleLogger('debug'), ['email', 'salary']);
+ *
+ * logger.debug('Request', { headers: { ApplicationAccessKey: 'secret' }, rows: [{ email: 'a@b.c' }] });
+ * // Request { headers: { ApplicationAccessKey: '[REDACTED]' }, rows: [{ email: '[REDACTED]' }] }
+ * ```
+ */
+export class RedactingLogger implements LoggerInterface {
+  private readonly redactedKeys: Set<string>;
+
+  /**
+   * @param logger - Logger to write the redacted messages to
+   * @param redactFields - Additional field names to redact
+   */
+  constructor(
+    private readonly logger: LoggerInterface,
+    redactFields: string[] = []
+  ) {
+    this.redactedKeys = new Set([
+      ...ALWAYS_REDACTED,
+      ...redactFields.map((field) => field.toLowerCase()),
+    ]);
+  }
+
+  /**
+   * Wrap the configured logger with redaction, or return a NoOpLogger if none is configured.
+   *
+   * @param options - Logger and additional fields to redact
+   * @returns Logger to use for all log messages
+   */
+  static wrap(options?: LoggingOptions): LoggerInterface {
+    if (!options?.logger) {
+      return new NoOpLogger();
+    }
+    if (options.logger instanceof RedactingLogger && !options.redactFields) {
+      return options.logger;
+    }
+    return new RedactingLogger(options.logger, options.redactFields);
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.logger.debug(message, this.redactContext(context));
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.logger.info(message, this.redactContext(context));
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.logger.warn(message, this.redactContext(context));
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.logger.error(message, this.redactContext(context));
+  }
+
+  /**
+   * Return a redacted copy of a value.
+   *
+   * @param value - Any value (objects and arrays are copied recursively)
+   * @returns The value with sensitive entries replaced by `[REDACTED]`
+   */
+  redact<T>(value: T): T {
+    return this.redactValue(value, new WeakSet()) as T;
+  }
+
+  private redactContext(context?: LogContext): LogContext | undefined {
+    return context === undefined ? undefined : this.redact(context);
+  }
+
+  private redactValue(value: unknown, seen: WeakSet<object>): unknown {
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, seen));
+    }
+
+    // Errors are kept as-is so loggers can render stack traces
+    if (value instanceof Error) {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = this.redactedKeys.has(key.toLowerCase())
+        ? REDACTED
+        : this.redactValue(entry, seen);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Logger implementations
+ *
+ * Loggers: NoOpLogger, ConsoleLogger
+ * Decorators and adapters: RedactingLogger, PinoLoggerAdapter
+ *
+ * @module utils/logging
+ * @category Logging
+ */
+
+export * from './NoOpLogger';
+export * from './ConsoleLogger';
+export * from './RedactingLogger';
+export * from './PinoLoggerAdapter';
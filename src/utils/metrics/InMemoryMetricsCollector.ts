@@ -0,0 +1,122 @@
+/**
+ * InMemoryMetricsCollector - Aggregate request metrics in memory
+ *
+ * @module utils/metrics
+ * @category Metrics
+ */
+
+import {
+  MetricsCollectorInterface,
+  MetricsSnapshot,
+  RequestMetric,
+  TableMetricsSnapshot,
+} from '../../types/metrics';
+
+/**
+ * Default latency bucket upper bounds in milliseconds.
+ *
+ * @category Metrics
+ */
+export const DEFAULT_LATENCY_BUCKETS = [25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Options for InMemoryMetricsCollector.
+ *
+ * @category Metrics
+ */
+export interface InMemoryMetricsCollectorOptions {
+  /** Latency bucket upper bounds in milliseconds (default: DEFAULT_LATENCY_BUCKETS) */
+  latencyBuckets?: number[];
+}
+
+/**
+ * Metrics collector that aggregates counters and latency histograms in memory.
+ *
+ * Metrics are kept per connection (appId), table and action. Use `snapshot()`
+ * to read them, e.g. for a metrics endpoint with {@link PrometheusFormatter}.
+ *
+ * @category Metrics
+ *
+ * @example
+ * ```typescript
+ * const metrics = new InMemoryMetricsCollector();
+ * const factory = new AppSheetClientFactory(undefined, { metrics });
+ *
+ * // ... run requests ...
+ *
+ * for (const table of metrics.snapshot().tables) {
+ *   console.log(table.tableName, table.action, table.latency.sum / table.latency.count);
+ * }
+ * ```
+ */
+export class InMemoryMetricsCollector implements MetricsCollectorInterface {
+  private readonly bounds: number[];
+  private readonly series = new Map<string, TableMetricsSnapshot>();
+
+  /**
+   * Creates a new InMemoryMetricsCollector.
+   *
+   * @param options - Optional latency bucket configuration
+   */
+  constructor(options: InMemoryMetricsCollectorOptions = {}) {
+    this.bounds = [...(options.latencyBuckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  recordRequest(metric: RequestMetric): void {
+    const key = JSON.stringify([metric.appId, metric.tableName, metric.action]);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = {
+        appId: metric.appId,
+        tableName: metric.tableName,
+        action: metric.action,
+        requests: 0,
+        errors: {},
+        retries: 0,
+        rowsRead: 0,
+        rowsWritten: 0,
+        latency: { buckets: this.bounds.map((le) => ({ le, count: 0 })), sum: 0, count: 0 },
+      };
+      this.series.set(key, entry);
+    }
+
+    entry.requests++;
+    entry.retries += metric.retries;
+    entry.rowsRead += metric.rowsRead;
+    entry.rowsWritten += metric.rowsWritten;
+    if (metric.errorCode) {
+      entry.errors[metric.errorCode] = (entry.errors[metric.errorCode] ?? 0) + 1;
+    }
+
+    entry.latency.sum += metric.durationMs;
+    entry.latency.count++;
+    for (const bucket of entry.latency.buckets) {
+      if (metric.durationMs <= bucket.le) {
+        bucket.count++;
+      }
+    }
+  }
+
+  /**
+   * Get a copy of all collected metrics.
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      tables: [...this.series.values()].map((entry) => ({
+        ...entry,
+        errors: { ...entry.errors },
+        latency: {
+          ...entry.latency,
+          buckets: entry.latency.buckets.map((bucket) => ({ ...bucket })),
+        },
+      })),
+    };
+  }
+
+  /**
+   * Remove all collected metrics.
+   */
+  reset(): void {
+    this.series.clear();
+  }
+}
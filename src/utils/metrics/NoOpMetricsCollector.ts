@@ -0,0 +1,22 @@
+/**
+ * NoOpMetricsCollector - Discard all metrics (Default)
+ *
+ * @module utils/metrics
+ * @category Metrics
+ */
+
+import { MetricsCollectorInterface, RequestMetric } from '../../types/metrics';
+
+/**
+ * Metrics collector that discards all records.
+ *
+ * This is the **default collector** used by AppSheetClient when no
+ * metrics collector is configured.
+ *
+ * @category Metrics
+ */
+export class NoOpMetricsCollector implements MetricsCollectorInterface {
+  recordRequest(_metric: RequestMetric): void {
+    // Intentionally empty
+  }
+}
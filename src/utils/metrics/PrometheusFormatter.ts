@@ -0,0 +1,123 @@
+/**
+ * PrometheusFormatter - Render metrics snapshots in the Prometheus text format
+ *
+ * @module utils/metrics
+ * @category Metrics
+ */
+
+import { MetricsSnapshot, TableMetricsSnapshot } from '../../types/metrics';
+
+/**
+ * Formats a {@link MetricsSnapshot} in the Prometheus text exposition format (0.0.4).
+ *
+ * Exposed metrics (with `app_id`, `table` and `action` labels):
+ * - `<prefix>_requests_total` (counter)
+ * - `<prefix>_errors_total` (counter, additional `code` label)
+ * - `<prefix>_retries_total` (counter)
+ * - `<prefix>_rows_read_total` / `<prefix>_rows_written_total` (counters)
+ * - `<prefix>_request_duration_ms` (histogram)
+ *
+ * @category Metrics
+ *
+ * @example
+ * ```typescript
+ * const formatter = new PrometheusFormatter();
+ * res.type('text/plain; version=0.0.4').send(formatter.format(metrics.snapshot()));
+ * ```
+ */
+export class PrometheusFormatter {
+  /**
+   * Creates a new PrometheusFormatter.
+   *
+   * @param prefix - Metric name prefix (default: 'appsheet')
+   */
+  constructor(private readonly prefix = 'appsheet') {}
+
+  /**
+   * Render a snapshot.
+   *
+   * @param snapshot - Metrics snapshot
+   * @returns Prometheus text exposition, terminated by a newline
+   */
+  format(snapshot: MetricsSnapshot): string {
+    const lines: string[] = [];
+    const counter = (
+      name: string,
+      help: string,
+      value: (table: TableMetricsSnapshot) => number
+    ): void => {
+      this.header(lines, name, help, 'counter');
+      for (const table of snapshot.tables) {
+        lines.push(`${this.prefix}_${name}${this.labels(table)} ${value(table)}`);
+      }
+    };
+
+    counter('requests_total', 'Total AppSheet API requests', (table) => table.requests);
+
+    this.header(lines, 'errors_total', 'Failed AppSheet API requests by error code', 'counter');
+    for (const table of snapshot.tables) {
+      for (const [code, count] of Object.entries(table.errors)) {
+        lines.push(`${this.prefix}_errors_total${this.labels(table, { code })} ${count}`);
+      }
+    }
+
+    counter('retries_total', 'Retries of AppSheet API requests', (table) => table.retries);
+    counter('rows_read_total', 'Rows returned by Find requests', (table) => table.rowsRead);
+    counter(
+      'rows_written_total',
+      'Rows sent by Add, Edit and Delete requests',
+      (table) => table.rowsWritten
+    );
+
+    const histogram = `${this.prefix}_request_duration_ms`;
+    this.header(
+      lines,
+      'request_duration_ms',
+      'AppSheet API request duration in milliseconds',
+      'histogram'
+    );
+    for (const table of snapshot.tables) {
+      for (const bucket of table.latency.buckets) {
+        lines.push(
+          `${histogram}_bucket${this.labels(table, { le: String(bucket.le) })} ${bucket.count}`
+        );
+      }
+      lines.push(`${histogram}_bucket${this.labels(table, { le: '+Inf' })} ${table.latency.count}`);
+      lines.push(`${histogram}_sum${this.labels(table)} ${table.latency.sum}`);
+      lines.push(`${histogram}_count${this.labels(table)} ${table.latency.count}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Add HELP and TYPE lines for a metric
+   */
+  private header(lines: string[], name: string, help: string, type: string): void {
+    lines.push(`# HELP ${this.prefix}_${name} ${help}`);
+    lines.push(`# TYPE ${this.prefix}_${name} ${type}`);
+  }
+
+  /**
+   * Render the label set of a table series with optional extra labels
+   */
+  private labels(table: TableMetricsSnapshot, extra: Record<string, string> = {}): string {
+    const labels: Record<string, string> = {
+      app_id: table.appId,
+      table: table.tableName,
+      action: table.action,
+      ...extra,
+    };
+    const rendered = Object.entries(labels).map(
+      ([name, value]) => `${name}="${this.escape(value)}"`
+    );
+    return `{${rendered.join(',')}}`;
+  }
+
+  /**
+   * Escape a label value (backslash, double quote and newline)
+   */
+  private escape(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Metrics collectors and formatters
+ *
+ * Collectors: NoOpMetricsCollector, InMemoryMetricsCollector
+ * Formatters: PrometheusFormatter
+ *
+ * @module utils/metrics
+ * @category Metrics
+ */
+
+export * from './NoOpMetricsCollector';
+export * from './InMemoryMetricsCollector';
+export * from './PrometheusFormatter';
@@ -0,0 +1,160 @@
+/**
+ * BackoffRetryPolicy - Retry failed requests with backoff and jitter (Default)
+ *
+ * Retries transient errors with exponential, linear or constant backoff,
+ * honors `Retry-After` on rate-limit responses, and only retries
+ * non-idempotent Add and named-action requests when the server rejected
+ * them unprocessed.
+ *
+ * @module utils/policies
+ * @category Policies
+ */
+
+import {
+  RetryContext,
+  RetryPolicyInterface,
+  RetryPolicyOptions,
+  RetryableErrorMatcher,
+} from '../../types/policies';
+import { AppSheetError, NetworkError, RateLimitError } from '../../types/errors';
+
+/**
+ * AppSheet actions that are safe to repeat. All others (Add and named actions)
+ * must not be repeated blindly (may create duplicates or run side effects twice).
+ */
+const IDEMPOTENT_ACTIONS = ['Find', 'Edit', 'Delete'];
+
+/** Errors retried for idempotent actions by default */
+const DEFAULT_RETRYABLE_ERRORS: RetryableErrorMatcher[] = [
+  NetworkError,
+  RateLimitError,
+  500,
+  502,
+  503,
+  504,
+];
+
+/** Errors retried for non-idempotent actions by default */
+const DEFAULT_NON_IDEMPOTENT_RETRYABLE_ERRORS: RetryableErrorMatcher[] = [RateLimitError];
+
+/**
+ * Retry policy with configurable backoff, jitter and retryable errors.
+ *
+ * This is the **default policy** used by AppSheetClient. Without options it
+ * makes up to 3 attempts with exponential backoff (1s, 2s, ... capped at 10s)
+ * and full jitter.
+ *
+ * - Idempotent actions (Find, Edit, Delete) retry network errors, rate limits
+ *   and HTTP 500/502/503/504
+ * - Add and named actions retry rate limits only, since a timed-out or failed
+ *   Add may already have created rows and an action may already have run
+ * - Rate-limit errors wait for `Retry-After` if the server sent it
+ *
+ * @category Policies
+ *
+ * @example
+ * ```typescript
+ * import { BackoffRetryPolicy, AppSheetClient } from '@techdivision/appsheet';
+ *
+ * const policy = new BackoffRetryPolicy({
+ *   maxAttempts: 5,
+ *   backoff: 'exponential',
+ *   baseDelayMs: 500,
+ *   jitter: 'equal',
+ * });
+ *
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+ *   retryPolicy: policy,
+ * });
+ * ```
+ */
+export class BackoffRetryPolicy implements RetryPolicyInterface {
+  private readonly options: Required<RetryPolicyOptions>;
+
+  /**
+   * @param options - Optional retry configuration (see {@link RetryPolicyOptions} for defaults)
+   * @param random - Random number source in [0, 1) for jitter (default: Math.random)
+   */
+  constructor(
+    options: RetryPolicyOptions = {},
+    private readonly random: () => number = Math.random
+  ) {
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 3,
+      backoff: options.backoff ?? 'exponential',
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 10000,
+      jitter: options.jitter ?? 'full',
+      retryableErrors: options.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS,
+      nonIdempotentRetryableErrors:
+        options.nonIdempotentRetryableErrors ?? DEFAULT_NON_IDEMPOTENT_RETRYABLE_ERRORS,
+      respectRetryAfter: options.respectRetryAfter ?? true,
+      maxRetryAfterMs: options.maxRetryAfterMs ?? 60000,
+    };
+  }
+
+  /**
+   * Returns the delay before the next attempt, or null if the error is not
+   * retryable for the action or the maximum number of attempts is reached.
+   *
+   * @param context - Action, table, attempt number and error of the failed attempt
+   * @returns Delay in milliseconds, or null to stop retrying
+   */
+  getRetryDelay(context: RetryContext): number | null {
+    if (context.attempt >= this.options.maxAttempts || !this.isRetryable(context)) {
+      return null;
+    }
+
+    const { error } = context;
+    if (
+      this.options.respectRetryAfter &&
+      error instanceof RateLimitError &&
+      error.retryAfterMs !== undefined
+    ) {
+      return error.retryAfterMs <= this.options.maxRetryAfterMs ? error.retryAfterMs : null;
+    }
+
+    return this.applyJitter(this.computeBackoff(context.attempt));
+  }
+
+  private isRetryable({ action, error }: RetryContext): boolean {
+    const matchers = IDEMPOTENT_ACTIONS.includes(action)
+      ? this.options.retryableErrors
+      : this.options.nonIdempotentRetryableErrors;
+
+    return matchers.some((matcher) => this.matches(matcher, error));
+  }
+
+  private matches(matcher: RetryableErrorMatcher, error: AppSheetError): boolean {
+    if (typeof matcher === 'string') {
+      return error.code === matcher;
+    }
+    if (typeof matcher === 'number') {
+      return error.statusCode === matcher;
+    }
+    return error instanceof matcher;
+  }
+
+  private computeBackoff(attempt: number): number {
+    const { backoff, baseDelayMs, maxDelayMs } = this.options;
+    const delay =
+      backoff === 'exponential'
+        ? baseDelayMs * Math.pow(2, attempt - 1)
+        : backoff === 'linear'
+          ? baseDelayMs * attempt
+          : baseDelayMs;
+
+    return Math.min(delay, maxDelayMs);
+  }
+
+  private applyJitter(delay: number): number {
+    switch (this.options.jitter) {
+      case 'full':
+        return Math.floor(this.random() * delay);
+      case 'equal':
+        return Math.floor(delay / 2 + this.random() * (delay / 2));
+      default:
+        return delay;
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * LocaleReadConversionPolicy - Convert AppSheet output to ISO dates and native types
+ *
+ * Converts the raw strings returned by the AppSheet API back to the values
+ * used on write: locale dates to ISO 8601 (using `getLocaleDateFormat()`),
+ * numbers to JS numbers, Yes/No values to booleans and lists to arrays.
+ * Values that cannot be parsed pass through unchanged.
+ *
+ * @module utils/policies
+ * @category Policies
+ */
+
+import { FieldDefinition } from '../../types/schema';
+import { ReadConversionPolicyInterface } from '../../types/policies';
+import { getLocaleDateFormat, DateFormatInfo } from '../validators';
+
+/** Locale of the AppSheet API output if no locale is configured */
+const DEFAULT_LOCALE = 'en-US';
+
+/** AppSheet field types that contain date values */
+const DATE_TYPES = new Set(['Date', 'DateTime', 'ChangeTimestamp']);
+/** AppSheet field types that contain numbers */
+const NUMBER_TYPES = new Set(['Number', 'Decimal', 'Price', 'Percent', 'ChangeCounter']);
+/** AppSheet field types that contain comma-separated lists */
+const LIST_TYPES = new Set(['EnumList', 'RefList']);
+
+/** Yes/No values as returned by AppSheet (compared case-insensitively) */
+const TRUE_VALUES = new Set(['y', 'yes', 'true', '1']);
+const FALSE_VALUES = new Set(['n', 'no', 'false', '0']);
+
+/** ISO 8601 date pattern: YYYY-MM-DD */
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+/** ISO 8601 datetime pattern: YYYY-MM-DDT... */
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T/;
+/** Locale datetime: date part, then time (HH:mm or HH:mm:ss) at the end */
+const LOCALE_DATETIME = /^(.+?)[\s,]+(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+/** Cache: decimal separator per locale */
+const decimalSeparatorCache = new Map<string, string>();
+
+/**
+ * Policy that converts the raw values of found rows to ISO dates and native
+ * JavaScript types, based on the field types of the table schema.
+ *
+ * - Date: locale date → `YYYY-MM-DD`
+ * - DateTime, ChangeTimestamp: locale datetime → `YYYY-MM-DDTHH:mm:ss` (no timezone)
+ * - Number, Decimal, Price, Percent, ChangeCounter: text → number (`"50%"` → 0.5)
+ * - YesNo: `"Y"`/`"N"`, `"Yes"`/`"No"`, `"TRUE"`/`"FALSE"` → boolean
+ * - EnumList, RefList: `"A , B"` → `['A', 'B']`, empty string → `[]`
+ *
+ * Values that are already converted or cannot be parsed are passed through
+ * unchanged. This includes empty strings, except for list fields, which
+ * become empty arrays. Without a locale, dates and numbers are parsed in the
+ * API's default format (en-US).
+ *
+ * Counterpart to LocaleWriteConversionPolicy: ISO dates read with this policy
+ * are converted back to locale format on write.
+ *
+ * @category Policies
+ *
+ * @example
+ * ```typescript
+ * import { LocaleReadConversionPolicy, DynamicTableFactory } from '@techdivision/appsheet';
+ *
+ * const factory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+ *   readConversionPolicy: new LocaleReadConversionPolicy(),
+ * });
+ *
+ * const table = factory.create('default', 'worklogs', 'user@example.com');
+ * const [worklog] = await table.findAll();
+ * // AppSheet returns: { date: "11.03.2026", hours: "7,5", billable: "Y" } (locale de-DE)
+ * // → { date: '2026-03-11', hours: 7.5, billable: true }
+ * ```
+ */
+export class LocaleReadConversionPolicy implements ReadConversionPolicyInterface {
+  /**
+   * Converts the values of all schema fields in all rows.
+   *
+   * @param tableName - The AppSheet table name (unused, available for subclasses)
+   * @param rows - The rows returned by the API
+   * @param fields - Field definitions from the table schema
+   * @param locale - Optional BCP 47 locale tag the values are formatted in
+   * @returns New row objects with converted values (unchanged rows are returned as is)
+   */
+  apply<T extends Record<string, any>>(
+    _tableName: string,
+    rows: T[],
+    fields: Record<string, FieldDefinition>,
+    locale?: string
+  ): T[] {
+    const fmt = getLocaleDateFormat(locale ?? DEFAULT_LOCALE);
+    const decimalSeparator = this.getDecimalSeparator(locale ?? DEFAULT_LOCALE);
+
+    return rows.map((row) => {
+      const converted: Record<string, unknown> = { ...row };
+      let changed = false;
+
+      for (const [fieldName, fieldDef] of Object.entries(fields)) {
+        const value = converted[fieldName];
+        if (typeof value !== 'string') continue;
+
+        const newValue = this.convertValue(value, fieldDef.type, fmt, decimalSeparator);
+        if (newValue !== value) {
+          converted[fieldName] = newValue;
+          changed = true;
+        }
+      }
+
+      return (changed ? converted : row) as T;
+    });
+  }
+
+  /**
+   * Converts a single value based on its field type.
+   * Returns the original value if it cannot be converted.
+   */
+  private convertValue(
+    value: string,
+    fieldType: string,
+    fmt: DateFormatInfo,
+    decimalSeparator: string
+  ): unknown {
+    if (DATE_TYPES.has(fieldType)) {
+      return fieldType === 'Date'
+        ? this.localeDateToIso(value, fmt)
+        : this.localeDateTimeToIso(value, fmt);
+    }
+
+    if (NUMBER_TYPES.has(fieldType)) {
+      return this.parseNumber(value, decimalSeparator) ?? value;
+    }
+
+    if (fieldType === 'YesNo') {
+      const normalized = value.trim().toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return true;
+      if (FALSE_VALUES.has(normalized)) return false;
+      return value;
+    }
+
+    if (LIST_TYPES.has(fieldType)) {
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '');
+    }
+
+    return value;
+  }
+
+  /**
+   * Converts a locale date to ISO format (YYYY-MM-DD).
+   *
+   * @example
+   * localeDateToIso("11.03.2026", deDE) → "2026-03-11"
+   * localeDateToIso("03/11/2026", enUS) → "2026-03-11"
+   */
+  private localeDateToIso(value: string, fmt: DateFormatInfo): string {
+    if (ISO_DATE.test(value)) return value;
+
+    const parts = value.split(/\D+/).filter((part) => part !== '');
+    if (parts.length !== fmt.partOrder.length) return value;
+
+    const mapped: Record<string, string> = {};
+    fmt.partOrder.forEach((part, i) => {
+      mapped[part] = parts[i];
+    });
+    const month = Number(mapped.month);
+    const day = Number(mapped.day);
+    if (mapped.year.length !== 4 || month < 1 || month > 12 || day < 1 || day > 31) {
+      return value;
+    }
+
+    return `${mapped.year}-${mapped.month.padStart(2, '0')}-${mapped.day.padStart(2, '0')}`;
+  }
+
+  /**
+   * Converts a locale datetime to ISO format (YYYY-MM-DDTHH:mm:ss).
+   *
+   * @example
+   * localeDateTimeToIso("11.03.2026 21:51:24", deDE) → "2026-03-11T21:51:24"
+   * localeDateTimeToIso("03/11/2026 9:05", enUS)     → "2026-03-11T09:05:00"
+   */
+  private localeDateTimeToIso(value: string, fmt: DateFormatInfo): string {
+    if (ISO_DATETIME.test(value)) return value;
+
+    const match = LOCALE_DATETIME.exec(value.trim());
+    if (!match) return value;
+
+    const [, datePart, hours, minutes, seconds = '00'] = match;
+    const isoDate = this.localeDateToIso(datePart, fmt);
+    if (isoDate === datePart) return value;
+
+    return `${isoDate}T${hours.padStart(2, '0')}:${minutes}:${seconds}`;
+  }
+
+  /**
+   * Parses a number, ignoring currency symbols, spaces and group separators.
+   * Percent values with a `%` sign are divided by 100.
+   *
+   * @example
+   * parseNumber("1.234,5", ",") → 1234.5
+   * parseNumber("$1,234.50", ".") → 1234.5
+   * parseNumber("50%", ".") → 0.5
+   */
+  private parseNumber(value: string, decimalSeparator: string): number | undefined {
+    let text = value.replace(/[^\d.,+-]/g, '');
+    if (decimalSeparator === ',') {
+      // Without a decimal comma, a dot is the decimal point of the raw API value
+      if (text.includes(',')) {
+        text = text.replace(/\./g, '').replace(',', '.');
+      }
+    } else {
+      text = text.replace(/,/g, '');
+    }
+    if (text === '') return undefined;
+
+    const number = Number(text);
+    if (!Number.isFinite(number)) return undefined;
+
+    return value.includes('%') ? number / 100 : number;
+  }
+
+  /**
+   * Determines the decimal separator of a locale via `Intl.NumberFormat`.
+   */
+  private getDecimalSeparator(locale: string): string {
+    const cached = decimalSeparatorCache.get(locale);
+    if (cached) return cached;
+
+    const separator =
+      new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')
+        ?.value ?? '.';
+    decimalSeparatorCache.set(locale, separator);
+    return separator;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * NoOpReadConversionPolicy - Return found rows without conversion (Default)
+ *
+ * Does not modify any field values. This is the default policy,
+ * maintaining backward compatibility with existing behavior.
+ *
+ * @module utils/policies
+ * @category Policies
+ */
+
+import { FieldDefinition } from '../../types/schema';
+import { ReadConversionPolicyInterface } from '../../types/policies';
+
+/**
+ * Policy that returns found rows without any value conversion.
+ *
+ * This is the **default policy** used by DynamicTable and DynamicTableFactory.
+ * Rows keep the raw values returned by the AppSheet API.
+ *
+ * @category Policies
+ *
+ * @example
+ * ```typescript
+ * import { NoOpReadConversionPolicy } from '@techdivision/appsheet';
+ *
+ * const policy = new NoOpReadConversionPolicy();
+ * const result = policy.apply('worklogs', [
+ *   { date: '03/12/2026', hours: '8' }
+ * ], { date: { type: 'Date' }, hours: { type: 'Number' } }, 'en-US');
+ * // result: [{ date: '03/12/2026', hours: '8' }]  — unchanged
+ * ```
+ */
+export class NoOpReadConversionPolicy implements ReadConversionPolicyInterface {
+  /**
+   * Returns rows unchanged — no value conversion is performed.
+   *
+   * @param tableName - The AppSheet table name (unused)
+   * @param rows - The rows returned by the API
+   * @param fields - Field definitions from the table schema (unused)
+   * @param locale - Optional BCP 47 locale tag (unused)
+   * @returns The original rows without modification
+   */
+  apply<T extends Record<string, any>>(
+    _tableName: string,
+    rows: T[],
+    _fields: Record<string, FieldDefinition>,
+    _locale?: string
+  ): T[] {
+    return rows;
+  }
+}
@@ -3,6 +3,8 @@
  *
  * Unknown field policies: IgnoreUnknownFieldPolicy, StripUnknownFieldPolicy, ErrorUnknownFieldPolicy
  * Write conversion policies: NoOpWriteConversionPolicy, LocaleWriteConversionPolicy
+ * Read conversion policies: NoOpReadConversionPolicy, LocaleReadConversionPolicy
+ * Retry policies: BackoffRetryPolicy
  *
  * @module utils/policies
  * @category Policies
@@ -13,3 +15,6 @@ export * from './StripUnknownFieldPolicy';
 export * from './ErrorUnknownFieldPolicy';
 export * from './NoOpWriteConversionPolicy';
 export * from './LocaleWriteConversionPolicy';
+export * from './NoOpReadConversionPolicy';
+export * from './LocaleReadConversionPolicy';
+export * from './BackoffRetryPolicy';
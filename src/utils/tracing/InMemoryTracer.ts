@@ -0,0 +1,137 @@
+/**
+ * InMemoryTracer - Record spans in memory for tests and debugging
+ *
+ * @module utils/tracing
+ * @category Tracing
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanInterface,
+  SpanStatus,
+  TracerInterface,
+} from '../../types/tracing';
+
+/**
+ * A span recorded by the InMemoryTracer.
+ *
+ * @category Tracing
+ */
+export interface RecordedSpan {
+  /** Unique span ID */
+  spanId: string;
+
+  /** ID of the span that was active when this span started */
+  parentSpanId?: string;
+
+  /** Span name */
+  name: string;
+
+  /** Attributes (undefined initial values are omitted) */
+  attributes: Record<string, SpanAttributeValue>;
+
+  /** Final status */
+  status: SpanStatus;
+
+  /** Status message (usually the error message) */
+  statusMessage?: string;
+
+  /** Recorded exceptions */
+  exceptions: Error[];
+
+  /** Start time (ms since epoch) */
+  startTime: number;
+
+  /** End time (ms since epoch, undefined while the span is running) */
+  endTime?: number;
+}
+
+/**
+ * Tracer that keeps all spans in memory.
+ *
+ * Tracks the active span with AsyncLocalStorage so nested operations
+ * (e.g. a DynamicTable span around the AppSheetClient span) are linked via
+ * `parentSpanId`. Intended for tests and local debugging — no exporter or
+ * collector is needed.
+ *
+ * @category Tracing
+ *
+ * @example
+ * ```typescript
+ * const tracer = new InMemoryTracer();
+ * const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+ *
+ * await client.findAll('extract_user');
+ *
+ * const [span] = tracer.getFinishedSpans();
+ * console.log(span.name, span.attributes['appsheet.row_count']);
+ * ```
+ */
+export class InMemoryTracer implements TracerInterface {
+  private readonly spans: RecordedSpan[] = [];
+  private readonly active = new AsyncLocalStorage<RecordedSpan>();
+  private nextId = 1;
+
+  startActiveSpan<T>(
+    name: string,
+    attributes: SpanAttributes,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T> {
+    const record: RecordedSpan = {
+      spanId: String(this.nextId++),
+      parentSpanId: this.active.getStore()?.spanId,
+      name,
+      attributes: {},
+      status: 'unset',
+      exceptions: [],
+      startTime: Date.now(),
+    };
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) {
+        record.attributes[key] = value;
+      }
+    }
+    this.spans.push(record);
+
+    const span: SpanInterface = {
+      setAttribute: (key, value) => {
+        record.attributes[key] = value;
+      },
+      recordException: (error) => {
+        record.exceptions.push(error);
+      },
+      setStatus: (status, message) => {
+        record.status = status;
+        record.statusMessage = message;
+      },
+      end: () => {
+        record.endTime ??= Date.now();
+      },
+    };
+
+    return this.active.run(record, () => fn(span));
+  }
+
+  /**
+   * Get all spans that have ended, in start order.
+   */
+  getFinishedSpans(): RecordedSpan[] {
+    return this.spans.filter((span) => span.endTime !== undefined);
+  }
+
+  /**
+   * Get all spans including those still running, in start order.
+   */
+  getSpans(): RecordedSpan[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Remove all recorded spans.
+   */
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * NoOpTracer - Run operations without recording spans (Default)
+ *
+ * @module utils/tracing
+ * @category Tracing
+ */
+
+import { SpanInterface, TracerInterface } from '../../types/tracing';
+
+/** Span that ignores all calls */
+const NOOP_SPAN: SpanInterface = {
+  setAttribute: () => undefined,
+  recordException: () => undefined,
+  setStatus: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Tracer that runs operations without recording anything.
+ *
+ * This is the **default tracer** used by AppSheetClient and DynamicTable
+ * when no tracer is configured.
+ *
+ * @category Tracing
+ */
+export class NoOpTracer implements TracerInterface {
+  startActiveSpan<T>(
+    _name: string,
+    _attributes: unknown,
+    fn: (span: SpanInterface) => Promise<T>
+  ): Promise<T> {
+    return fn(NOOP_SPAN);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Tracer implementations and span helpers
+ *
+ * Tracers: NoOpTracer, InMemoryTracer
+ * Helpers: traceOperation, hashSelector, SpanAttributeNames
+ *
+ * @module utils/tracing
+ * @category Tracing
+ */
+
+export * from './NoOpTracer';
+export * from './InMemoryTracer';
+export * from './traceOperation';
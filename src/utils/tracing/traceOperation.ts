@@ -0,0 +1,75 @@
+/**
+ * Shared span handling for traced AppSheet operations
+ *
+ * @module utils/tracing
+ * @category Tracing
+ */
+
+import { createHash } from 'crypto';
+import { AppSheetError } from '../../types/errors';
+import { SpanAttributes, SpanInterface, TracerInterface } from '../../types/tracing';
+
+/**
+ * Span attribute names used by AppSheetClient and DynamicTable.
+ *
+ * @category Tracing
+ */
+export const SpanAttributeNames = {
+  APP_ID: 'appsheet.app_id',
+  TABLE: 'appsheet.table',
+  ACTION: 'appsheet.action',
+  ROW_COUNT: 'appsheet.row_count',
+  SELECTOR_HASH: 'appsheet.selector_hash',
+  RETRY_COUNT: 'appsheet.retry_count',
+  ERROR_CODE: 'appsheet.error_code',
+  COALESCED: 'appsheet.coalesced',
+} as const;
+
+/**
+ * Hash a selector for span attributes, so filter values do not end up in traces.
+ *
+ * @param selector - AppSheet selector expression
+ * @returns First 16 hex characters of the SHA-256 hash
+ */
+export function hashSelector(selector: string): string {
+  return createHash('sha256').update(selector).digest('hex').slice(0, 16);
+}
+
+/**
+ * Run an operation in a span and record its outcome.
+ *
+ * On success the span status is 'ok'. On failure the exception is recorded,
+ * the status is 'error' and `appsheet.error_code` is set for AppSheetErrors.
+ * The span is always ended.
+ *
+ * @param tracer - Tracer to start the span with
+ * @param name - Span name
+ * @param attributes - Initial span attributes
+ * @param fn - Operation to run
+ * @returns The result of the operation
+ */
+export function traceOperation<T>(
+  tracer: TracerInterface,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: SpanInterface) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, attributes, async (span) => {
+    try {
+      const result = await fn(span);
+      span.setStatus('ok');
+      return result;
+    } catch (error) {
+      if (error instanceof AppSheetError) {
+        span.setAttribute(SpanAttributeNames.ERROR_CODE, error.code);
+      }
+      if (error instanceof Error) {
+        span.recordException(error);
+      }
+      span.setStatus('error', error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
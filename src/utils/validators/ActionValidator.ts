@@ -0,0 +1,61 @@
+/**
+ * Validation of named AppSheet actions against the table schema
+ * @module utils
+ * @category Validation
+ */
+
+import { TableDefinition, ValidationError } from '../../types';
+
+/** Built-in API actions that have their own client methods */
+const BUILT_IN_ACTIONS = ['Add', 'Find', 'Edit', 'Delete'];
+
+/**
+ * Validates named actions before they are invoked.
+ *
+ * Checks:
+ * - The action name is not empty
+ * - The action is not a built-in action (use add/find/update/delete instead)
+ * - The action is declared in `TableDefinition.actions` (if the table is in the schema)
+ *
+ * @category Validation
+ *
+ * @example
+ * ```typescript
+ * // tables.tasks.actions = ['Mark Complete']
+ * ActionValidator.validate('Mark Complete', tableDef, 'task'); // ok
+ * ActionValidator.validate('Archive', tableDef, 'task'); // throws ValidationError
+ * ```
+ */
+export class ActionValidator {
+  /**
+   * Validate a named action.
+   *
+   * @param action - Name of the action
+   * @param tableDef - Table definition, or undefined if the table is not in the schema
+   *   (then only the name is checked)
+   * @param tableName - AppSheet table name (for error messages)
+   * @throws {ValidationError} If the action is empty, built-in or not declared for the table
+   */
+  static validate(action: string, tableDef: TableDefinition | undefined, tableName: string): void {
+    if (!action || action.trim() === '') {
+      throw new ValidationError(`Action name must not be empty (table "${tableName}")`, {
+        tableName,
+      });
+    }
+
+    if (BUILT_IN_ACTIONS.includes(action)) {
+      throw new ValidationError(
+        `"${action}" is a built-in action, use the corresponding client method instead`,
+        { tableName, action }
+      );
+    }
+
+    if (tableDef && !(tableDef.actions ?? []).includes(action)) {
+      const declared = (tableDef.actions ?? []).join(', ') || 'none';
+      throw new ValidationError(
+        `Action "${action}" is not declared for table "${tableName}". Declared actions: ${declared}`,
+        { tableName, action, declaredActions: tableDef.actions ?? [] }
+      );
+    }
+  }
+}
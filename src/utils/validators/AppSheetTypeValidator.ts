@@ -4,7 +4,13 @@
  * @category Validation
  */
 
-import { AppSheetFieldType, ValidationError } from '../../types';
+import {
+  AppSheetFieldType,
+  RowValidationIssue,
+  RowValidationRule,
+  TableDefinition,
+  ValidationError,
+} from '../../types';
 import { BaseTypeValidator } from './BaseTypeValidator';
 import { FormatValidator } from './FormatValidator';
 
@@ -17,6 +23,138 @@ import { FormatValidator } from './FormatValidator';
  * @category Validation
  */
 export class AppSheetTypeValidator {
+  /**
+   * Validate rows against a table schema and throw if any problems are found.
+   *
+   * All rows and fields are checked, so the error lists every problem at once.
+   * With a single problem, the message is the problem's message.
+   *
+   * @param rows - Rows to validate
+   * @param definition - Table definition to validate against
+   * @param checkRequired - Check required fields (false for partial updates)
+   * @throws {ValidationError} Listing all problems in `details.issues`
+   *
+   * @example
+   * ```typescript
+   * AppSheetTypeValidator.validateRows(rows, tableDef);
+   * // throws ValidationError:
+   * // 2 validation errors in table "extract_user": Row 0: Field "email" must be ...; Row 3: ...
+   * ```
+   */
+  static validateRows(
+    rows: Record<string, any>[],
+    definition: TableDefinition,
+    checkRequired = true
+  ): void {
+    this.assertNoIssues(this.collectIssues(rows, definition, checkRequired), definition);
+  }
+
+  /**
+   * Throw a ValidationError listing the given problems, if there are any.
+   *
+   * Used to report problems collected with different `checkRequired` settings
+   * (e.g. the Add and Edit rows of an upsert) in one error.
+   *
+   * @param issues - Problems from `collectIssues()`
+   * @param definition - Table definition the rows were validated against
+   * @throws {ValidationError} Listing all problems in `details.issues`
+   */
+  static assertNoIssues(issues: RowValidationIssue[], definition: TableDefinition): void {
+    if (issues.length > 0) {
+      throw this.createValidationError(issues, definition);
+    }
+  }
+
+  /**
+   * Create a ValidationError listing the given problems, without throwing it.
+   *
+   * @param issues - Problems from `collectIssues()` (at least one)
+   * @param definition - Table definition the rows were validated against
+   * @returns Error with the single message, or a summary of all messages, and `details.issues`
+   */
+  static createValidationError(
+    issues: RowValidationIssue[],
+    definition: TableDefinition
+  ): ValidationError {
+    if (issues.length === 1) {
+      return new ValidationError(issues[0].message, { tableName: definition.tableName, issues });
+    }
+    return new ValidationError(
+      `${issues.length} validation errors in table "${definition.tableName}": ` +
+        issues.map((issue) => issue.message).join('; '),
+      { tableName: definition.tableName, issues }
+    );
+  }
+
+  /**
+   * Collect all problems of rows without throwing.
+   *
+   * Reports at most one type/format problem per field, plus enum problems.
+   *
+   * @param rows - Rows to validate
+   * @param definition - Table definition to validate against
+   * @param checkRequired - Check required fields (false for partial updates)
+   * @param rowOffset - Added to the row index (for rows validated one at a time)
+   * @returns Problems ordered by row and field
+   */
+  static collectIssues(
+    rows: Record<string, any>[],
+    definition: TableDefinition,
+    checkRequired = true,
+    rowOffset = 0
+  ): RowValidationIssue[] {
+    const issues: RowValidationIssue[] = [];
+
+    rows.forEach((row, i) => {
+      const rowIndex = i + rowOffset;
+
+      for (const [field, fieldDef] of Object.entries(definition.fields)) {
+        const value = row[field];
+        const check = (rule: RowValidationRule, validate: () => void) => {
+          try {
+            validate();
+          } catch (error) {
+            if (!(error instanceof ValidationError)) {
+              throw error;
+            }
+            issues.push({
+              rowIndex,
+              field,
+              type: fieldDef.type,
+              value,
+              rule: error.details?.rule ?? rule,
+              message: error.message,
+            });
+          }
+        };
+
+        if (checkRequired && fieldDef.required === true) {
+          check('required', () =>
+            this.validateRequired(field, definition.tableName, value, row, rowIndex)
+          );
+        }
+
+        // Skip validation if value is not provided
+        if (value === undefined || value === null) {
+          continue;
+        }
+
+        check('type', () =>
+          this.validate(field, fieldDef.type, value, rowIndex, definition.locale)
+        );
+
+        const allowedValues = fieldDef.allowedValues;
+        if (allowedValues) {
+          check('enum', () =>
+            this.validateEnum(field, fieldDef.type, allowedValues, value, rowIndex)
+          );
+        }
+      }
+    });
+
+    return issues;
+  }
+
   /**
    * Validate a field value against its AppSheet field type.
    *
@@ -138,14 +276,14 @@ export class AppSheetTypeValidator {
       if (!Array.isArray(value)) {
         throw new ValidationError(
           `Row ${rowIndex}: Field "${fieldName}" must be an array for EnumList type`,
-          { fieldName, value }
+          { fieldName, value, rule: 'type' }
         );
       }
       const invalidValues = value.filter((v) => !allowedValues.includes(v));
       if (invalidValues.length > 0) {
         throw new ValidationError(
           `Row ${rowIndex}: Field "${fieldName}" contains invalid values: ${invalidValues.join(', ')}. Allowed: ${allowedValues.join(', ')}`,
-          { fieldName, allowedValues, invalidValues }
+          { fieldName, allowedValues, invalidValues, rule: 'enum' }
         );
       }
     } else {
@@ -153,7 +291,7 @@ export class AppSheetTypeValidator {
       if (!allowedValues.includes(value)) {
         throw new ValidationError(
           `Row ${rowIndex}: Field "${fieldName}" must be one of: ${allowedValues.join(', ')}. Got: ${value}`,
-          { fieldName, allowedValues, value }
+          { fieldName, allowedValues, value, rule: 'enum' }
         );
       }
     }
@@ -172,7 +310,7 @@ export class AppSheetTypeValidator {
     if (value === undefined || value === null) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" is required in table "${tableName}"`,
-        { row, fieldName }
+        { row, fieldName, rule: 'required' }
       );
     }
   }
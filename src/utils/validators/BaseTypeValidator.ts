@@ -27,7 +27,7 @@ export class BaseTypeValidator {
     if (actualType !== 'string') {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a string (${fieldType}), got ${actualType}`,
-        { fieldName, expectedType: fieldType, actualType, value }
+        { fieldName, expectedType: fieldType, actualType, value, rule: 'type' }
       );
     }
   }
@@ -45,7 +45,7 @@ export class BaseTypeValidator {
     if (actualType !== 'number') {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a number (${fieldType}), got ${actualType}`,
-        { fieldName, expectedType: fieldType, actualType, value }
+        { fieldName, expectedType: fieldType, actualType, value, rule: 'type' }
       );
     }
   }
@@ -58,7 +58,7 @@ export class BaseTypeValidator {
     if (actualType !== 'boolean' && value !== 'Yes' && value !== 'No') {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a boolean or "Yes"/"No" string, got ${actualType}`,
-        { fieldName, expectedType: 'boolean', actualType, value }
+        { fieldName, expectedType: 'boolean', actualType, value, rule: 'type' }
       );
     }
   }
@@ -76,7 +76,7 @@ export class BaseTypeValidator {
       const actualType = typeof value;
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be an array (${fieldType}), got ${actualType}`,
-        { fieldName, expectedType: fieldType, actualType, value }
+        { fieldName, expectedType: fieldType, actualType, value, rule: 'type' }
       );
     }
   }
@@ -93,7 +93,7 @@ export class BaseTypeValidator {
     }
     throw new ValidationError(
       `Row ${rowIndex}: Field "${fieldName}" must be a date string or Date object`,
-      { fieldName, value }
+      { fieldName, value, rule: 'type' }
     );
   }
 }
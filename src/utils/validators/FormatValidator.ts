@@ -154,7 +154,7 @@ export class FormatValidator {
     if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid email address, got: ${value}`,
-        { fieldName, value }
+        { fieldName, value, rule: 'format' }
       );
     }
   }
@@ -168,7 +168,7 @@ export class FormatValidator {
     } catch {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid URL, got: ${value}`,
-        { fieldName, value }
+        { fieldName, value, rule: 'format' }
       );
     }
   }
@@ -181,7 +181,7 @@ export class FormatValidator {
     if (!/^[\d\s+\-()]+$/.test(value)) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid phone number, got: ${value}`,
-        { fieldName, value }
+        { fieldName, value, rule: 'format' }
       );
     }
   }
@@ -220,7 +220,7 @@ export class FormatValidator {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid date ` +
           `(expected: ${fmt.exampleDate} or YYYY-MM-DD), got: "${value}"`,
-        { fieldName, value, locale }
+        { fieldName, value, locale, rule: 'format' }
       );
     }
 
@@ -228,7 +228,7 @@ export class FormatValidator {
     if (!isPlausibleDateString(value)) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid date string, got: "${value}"`,
-        { fieldName, value }
+        { fieldName, value, rule: 'format' }
       );
     }
   }
@@ -275,7 +275,7 @@ export class FormatValidator {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid datetime ` +
           `(expected: ${fmt.exampleDateTime} or ISO 8601), got: "${value}"`,
-        { fieldName, value, locale }
+        { fieldName, value, locale, rule: 'format' }
       );
     }
 
@@ -283,7 +283,7 @@ export class FormatValidator {
     if (!isPlausibleDateTimeString(value)) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a valid datetime string, got: "${value}"`,
-        { fieldName, value }
+        { fieldName, value, rule: 'format' }
       );
     }
   }
@@ -295,7 +295,7 @@ export class FormatValidator {
     if (value < 0 || value > 1) {
       throw new ValidationError(
         `Row ${rowIndex}: Field "${fieldName}" must be a percentage between 0.00 and 1.00, got: ${value}`,
-        { fieldName, value }
+        { fieldName, value, rule: 'range' }
       );
     }
   }
@@ -0,0 +1,283 @@
+/**
+ * Schema-aware selector validation
+ * @module utils
+ * @category Validation
+ */
+
+import {
+  AppSheetFieldType,
+  ExpressionNode,
+  FieldDefinition,
+  LiteralNode,
+  SelectorIssue,
+  TableDefinition,
+  ValidationError,
+} from '../../types';
+import { ExpressionParser } from '../expression/ExpressionParser';
+import { VIRTUAL_COLUMNS } from '../QueryBuilder';
+
+/** Field types grouped by the literal kind they can be compared with */
+const NUMERIC_TYPES: AppSheetFieldType[] = [
+  'Number',
+  'Decimal',
+  'Percent',
+  'Price',
+  'ChangeCounter',
+];
+const DATE_TYPES: AppSheetFieldType[] = ['Date', 'DateTime', 'ChangeTimestamp'];
+const TEXT_TYPES: AppSheetFieldType[] = [
+  'Text',
+  'Name',
+  'Email',
+  'URL',
+  'Phone',
+  'Address',
+  'Enum',
+  'Color',
+  'Time',
+  'Duration',
+  'Image',
+  'File',
+  'Drawing',
+  'Signature',
+  'ChangeLocation',
+  'Show',
+];
+
+/** Text values that AppSheet accepts as Yes/No */
+const YES_NO_TEXT = ['true', 'false', 'yes', 'no', 'y', 'n'];
+
+/**
+ * Validates AppSheet selectors against a table schema before they are sent.
+ *
+ * Checks:
+ * - Every `[Field]` reference exists in `TableDefinition.fields` (virtual columns
+ *   like `_RowNumber` are always accepted)
+ * - Literals compared with a field (`=`, `<>`, `<`, `>`, `<=`, `>=`, `IN`) match the
+ *   field's AppSheet type: numbers for numeric fields, `TRUE`/`FALSE` for YesNo,
+ *   dates or text for date fields, text for text-like fields
+ * - Literals compared with an Enum field are in its `allowedValues`
+ *   (unless `appSheetConfig.allowOtherValues` is set)
+ *
+ * Ref, RefList and EnumList fields are only checked for existence.
+ *
+ * @category Validation
+ *
+ * @example
+ * ```typescript
+ * SelectorValidator.validate('Filter(extract_user, [age] > "21")', tableDef);
+ * // throws ValidationError:
+ * // Invalid selector for table "extract_user": Field "age" (Number) compared with text "21"
+ * ```
+ */
+export class SelectorValidator {
+  /**
+   * Validate a selector and throw if any problems are found.
+   *
+   * @param selector - AppSheet selector expression
+   * @param definition - Table definition to validate against
+   * @throws {ValidationError} Listing all problems in `details.issues`
+   * @throws {ExpressionSyntaxError} If the selector cannot be parsed
+   */
+  static validate(selector: string, definition: TableDefinition): void {
+    const issues = this.collectIssues(selector, definition);
+
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `Invalid selector for table "${definition.tableName}": ` +
+          issues.map((issue) => issue.message).join('; '),
+        { tableName: definition.tableName, selector, issues }
+      );
+    }
+  }
+
+  /**
+   * Collect all problems of a selector without throwing.
+   *
+   * @param selector - AppSheet selector expression or parsed AST
+   * @param definition - Table definition to validate against
+   * @returns Problems in order of appearance (unknown fields reported once)
+   * @throws {ExpressionSyntaxError} If the selector cannot be parsed
+   */
+  static collectIssues(
+    selector: string | ExpressionNode,
+    definition: TableDefinition
+  ): SelectorIssue[] {
+    const node = typeof selector === 'string' ? ExpressionParser.parse(selector) : selector;
+    const issues: SelectorIssue[] = [];
+    this.visit(node, definition, issues);
+    return issues;
+  }
+
+  private static visit(
+    node: ExpressionNode,
+    definition: TableDefinition,
+    issues: SelectorIssue[]
+  ): void {
+    switch (node.type) {
+      case 'Field':
+        // Column lists of other tables (e.g. in Select()) are not checked
+        if (!node.table || node.table === definition.tableName) {
+          this.checkField(node.name, definition, issues);
+        }
+        return;
+
+      case 'Comparison':
+        this.checkComparison(node.left, node.right, definition, issues);
+        this.checkComparison(node.right, node.left, definition, issues);
+        this.visit(node.left, definition, issues);
+        this.visit(node.right, definition, issues);
+        return;
+
+      case 'In':
+        if (node.list.type === 'List') {
+          for (const item of node.list.items) {
+            this.checkComparison(node.value, item, definition, issues);
+          }
+        }
+        this.visit(node.value, definition, issues);
+        this.visit(node.list, definition, issues);
+        return;
+
+      case 'Logical':
+        node.operands.forEach((operand) => this.visit(operand, definition, issues));
+        return;
+
+      case 'Not':
+        this.visit(node.operand, definition, issues);
+        return;
+
+      case 'List':
+        node.items.forEach((item) => this.visit(item, definition, issues));
+        return;
+
+      case 'Call':
+        node.args.forEach((arg) => this.visit(arg, definition, issues));
+        return;
+
+      case 'Arithmetic':
+        this.visit(node.left, definition, issues);
+        this.visit(node.right, definition, issues);
+        return;
+
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Report a field reference that is not part of the schema (once per field).
+   */
+  private static checkField(
+    field: string,
+    definition: TableDefinition,
+    issues: SelectorIssue[]
+  ): void {
+    if (field in definition.fields || VIRTUAL_COLUMNS.includes(field)) {
+      return;
+    }
+    if (issues.some((issue) => issue.type === 'unknownField' && issue.field === field)) {
+      return;
+    }
+
+    const available = Object.keys(definition.fields).join(', ') || 'none';
+    issues.push({
+      type: 'unknownField',
+      field,
+      message: `Unknown field "${field}" (available fields: ${available})`,
+    });
+  }
+
+  /**
+   * Check a literal compared with a field of this table.
+   */
+  private static checkComparison(
+    fieldNode: ExpressionNode,
+    valueNode: ExpressionNode,
+    definition: TableDefinition,
+    issues: SelectorIssue[]
+  ): void {
+    if (fieldNode.type !== 'Field' || fieldNode.table || valueNode.type !== 'Literal') {
+      return;
+    }
+
+    const fieldDef = definition.fields[fieldNode.name];
+    if (!fieldDef) {
+      return;
+    }
+
+    const field = fieldNode.name;
+    if (!this.isCompatible(fieldDef.type, valueNode)) {
+      issues.push({
+        type: 'typeMismatch',
+        field,
+        value: valueNode.value,
+        message: `Field "${field}" (${fieldDef.type}) compared with ${this.describe(valueNode)}`,
+      });
+      return;
+    }
+
+    if (this.isInvalidEnumValue(fieldDef, valueNode)) {
+      issues.push({
+        type: 'invalidEnumValue',
+        field,
+        value: valueNode.value,
+        message:
+          `Value "${valueNode.value}" is not allowed for field "${field}" ` +
+          `(allowed: ${fieldDef.allowedValues!.join(', ')})`,
+      });
+    }
+  }
+
+  private static isCompatible(fieldType: AppSheetFieldType, literal: LiteralNode): boolean {
+    // Blank checks like [Age] = "" are valid for every type
+    if (literal.valueType === 'string' && literal.value === '') {
+      return true;
+    }
+    if (NUMERIC_TYPES.includes(fieldType)) {
+      return literal.valueType === 'number';
+    }
+    if (fieldType === 'YesNo') {
+      return (
+        literal.valueType === 'boolean' ||
+        (literal.valueType === 'string' &&
+          YES_NO_TEXT.includes((literal.value as string).toLowerCase()))
+      );
+    }
+    if (DATE_TYPES.includes(fieldType)) {
+      return ['date', 'datetime', 'string'].includes(literal.valueType);
+    }
+    if (TEXT_TYPES.includes(fieldType)) {
+      return literal.valueType === 'string';
+    }
+    return true;
+  }
+
+  private static isInvalidEnumValue(fieldDef: FieldDefinition, literal: LiteralNode): boolean {
+    if (
+      fieldDef.type !== 'Enum' ||
+      !fieldDef.allowedValues ||
+      fieldDef.appSheetConfig?.allowOtherValues ||
+      literal.valueType !== 'string' ||
+      literal.value === ''
+    ) {
+      return false;
+    }
+    const value = (literal.value as string).toLowerCase();
+    return !fieldDef.allowedValues.some((allowed) => allowed.toLowerCase() === value);
+  }
+
+  private static describe(literal: LiteralNode): string {
+    switch (literal.valueType) {
+      case 'string':
+        return `text "${literal.value}"`;
+      case 'boolean':
+        return literal.value ? 'TRUE' : 'FALSE';
+      case 'date':
+      case 'datetime':
+        return `${literal.valueType} "${literal.value}"`;
+      default:
+        return `${literal.valueType} ${literal.value}`;
+    }
+  }
+}
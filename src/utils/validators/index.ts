@@ -8,3 +8,5 @@ export { BaseTypeValidator } from './BaseTypeValidator';
 export { FormatValidator, getLocaleDateFormat } from './FormatValidator';
 export type { DateFormatInfo } from './FormatValidator';
 export { AppSheetTypeValidator } from './AppSheetTypeValidator';
+export { SelectorValidator } from './SelectorValidator';
+export { ActionValidator } from './ActionValidator';
@@ -0,0 +1,185 @@
+/**
+ * Test Suite: AppSheetClient named actions
+ *
+ * Tests for:
+ * - invokeAction() sends the action name as API action
+ * - Actions not declared in the table schema are rejected before sending
+ * - Built-in actions are rejected
+ * - Named actions are not retried on server errors
+ * - Chunking and cache invalidation for named actions
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { CachingAppSheetClient } from '../../src/client/CachingAppSheetClient';
+import { InMemoryLruCacheStore } from '../../src/utils/cache';
+import { ConnectionDefinition, ValidationError } from '../../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient named actions', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    retry: { maxAttempts: 3 },
+    tables: {
+      tasks: {
+        tableName: 'extract_task',
+        keyField: 'id',
+        fields: { id: { type: 'Text', required: true } },
+        actions: ['Mark Complete'],
+        cache: { ttlMs: 60000 },
+      },
+    },
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (e: any) => e?.isAxiosError === true
+    );
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { Rows: [{ id: '1', status: 'Done' }], Warnings: [] },
+    });
+    jest.spyOn(AppSheetClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Test: The action name is sent as API action
+   */
+  it('should send the named action with the rows', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const result = await client.invokeAction({
+      tableName: 'extract_task',
+      action: 'Mark Complete',
+      rows: [{ id: '1' }],
+    });
+
+    expect(result).toEqual({ rows: [{ id: '1', status: 'Done' }], warnings: [] });
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      '/apps/test-app-id/tables/extract_task/Action',
+      {
+        Action: 'Mark Complete',
+        Properties: { RunAsUserEmail: 'user@example.com' },
+        Rows: [{ id: '1' }],
+      }
+    );
+  });
+
+  /**
+   * Test: Undeclared actions are rejected before sending
+   */
+  it('should reject actions not declared for the table', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await expect(
+      client.invokeAction({ tableName: 'extract_task', action: 'Archive', rows: [{ id: '1' }] })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      client.invokeAction({ tableName: 'extract_task', action: 'Archive', rows: [{ id: '1' }] })
+    ).rejects.toThrow('Declared actions: Mark Complete');
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test: Built-in actions have their own methods
+   */
+  it('should reject built-in and empty action names', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await expect(
+      client.invokeAction({ tableName: 'extract_task', action: 'Delete', rows: [{ id: '1' }] })
+    ).rejects.toThrow('built-in action');
+    await expect(
+      client.invokeAction({ tableName: 'extract_task', action: ' ', rows: [{ id: '1' }] })
+    ).rejects.toThrow('must not be empty');
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test: Tables outside the schema are not checked
+   */
+  it('should allow actions on tables not defined in the schema', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await client.invokeAction({ tableName: 'other', action: 'Archive', rows: [{ id: '1' }] });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Named actions may not be idempotent
+   */
+  it('should not retry named actions on server errors', async () => {
+    mockAxiosInstance.post.mockRejectedValue({
+      isAxiosError: true,
+      message: 'Service unavailable',
+      response: { status: 503, data: {}, headers: {} },
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await expect(
+      client.invokeAction({
+        tableName: 'extract_task',
+        action: 'Mark Complete',
+        rows: [{ id: '1' }],
+      })
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Large batches are chunked like other row operations
+   */
+  it('should split large batches into chunks', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await client.invokeAction({
+      tableName: 'extract_task',
+      action: 'Mark Complete',
+      rows: [{ id: '1' }, { id: '2' }, { id: '3' }],
+      batch: { maxRowsPerRequest: 2 },
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    expect(mockAxiosInstance.post.mock.calls[1][1]).toMatchObject({
+      Action: 'Mark Complete',
+      Rows: [{ id: '3' }],
+    });
+  });
+
+  /**
+   * Test: Actions invalidate cached Finds of the table
+   */
+  it('should invalidate cached finds through CachingAppSheetClient', async () => {
+    const client = new CachingAppSheetClient(
+      new AppSheetClient(connectionDef, 'user@example.com'),
+      connectionDef,
+      'user@example.com',
+      new InMemoryLruCacheStore()
+    );
+
+    await client.find({ tableName: 'extract_task' });
+    await client.invokeAction({
+      tableName: 'extract_task',
+      action: 'Mark Complete',
+      rows: [{ id: '1' }],
+    });
+    await client.find({ tableName: 'extract_task' });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Test Suite: AppSheetClient cancellation and per-call timeouts
+ *
+ * Tests for:
+ * - AbortSignal and timeoutMs passed to the HTTP request
+ * - timeoutMs limits the request including its retries
+ * - Already aborted signals reject without a request
+ * - Cancellation during a request, while waiting for a retry or in the limiter queue
+ * - Cancelled chunked batches
+ * - DynamicTable passes signal and timeout to the client
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { RequestLimiter } from '../../src/utils/RequestLimiter';
+import {
+  AppSheetClientInterface,
+  CancellationError,
+  ConnectionDefinition,
+  RetryPolicyInterface,
+} from '../../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient cancellation', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    tables: {},
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  const serverError = {
+    isAxiosError: true,
+    message: 'Service unavailable',
+    response: { status: 503, data: {}, headers: {} },
+  };
+
+  /** Retry policy that always waits one minute */
+  const slowRetries: RetryPolicyInterface = {
+    getRetryDelay: (ctx) => (ctx.attempt < 3 ? 60000 : null),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (e: any) => e?.isAxiosError === true
+    );
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [], Warnings: [] } });
+  });
+
+  /**
+   * Test: Signal and timeout are passed to axios
+   */
+  it('should pass the signal and timeout to the HTTP request', async () => {
+    const controller = new AbortController();
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await client.find({ tableName: 'extract_user', signal: controller.signal, timeoutMs: 500 });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      '/apps/test-app-id/tables/extract_user/Action',
+      expect.any(Object),
+      { signal: controller.signal, timeout: 500 }
+    );
+  });
+
+  /**
+   * Test: Retries share the timeout of the operation
+   */
+  it('should cap the timeout of each retry to the time left and stop retrying after it', async () => {
+    const timeouts: number[] = [];
+    mockAxiosInstance.post.mockImplementation(async (_url, _payload, config) => {
+      timeouts.push(config.timeout);
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      throw serverError;
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      retryPolicy: { getRetryDelay: () => 10 },
+    });
+
+    const start = Date.now();
+    const error = await client.find({ tableName: 'extract_user', timeoutMs: 100 }).catch((e) => e);
+
+    expect(error.statusCode).toBe(503);
+    expect(Date.now() - start).toBeLessThan(200);
+    expect(timeouts.length).toBeGreaterThan(1);
+    expect(timeouts.length).toBeLessThanOrEqual(3);
+    expect(timeouts[0]).toBeLessThanOrEqual(100);
+    for (let i = 1; i < timeouts.length; i++) {
+      expect(timeouts[i]).toBeLessThan(timeouts[i - 1]);
+    }
+  });
+
+  /**
+   * Test: Aborted signals reject before sending
+   */
+  it('should reject with CancellationError without sending if already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await expect(
+      client.add({ tableName: 'extract_user', rows: [{ id: '1' }], signal: controller.signal })
+    ).rejects.toThrow(CancellationError);
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test: A request aborted in flight is not retried
+   */
+  it('should not retry a request that was aborted in flight', async () => {
+    const controller = new AbortController();
+    mockAxiosInstance.post.mockImplementation(async () => {
+      controller.abort();
+      throw { isAxiosError: true, message: 'canceled', code: 'ERR_CANCELED' };
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      retryPolicy: slowRetries,
+    });
+
+    const error = await client
+      .find({ tableName: 'extract_user', signal: controller.signal })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CancellationError);
+    expect(error.code).toBe('CANCELLED');
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Cancellation interrupts the wait between retries
+   */
+  it('should stop waiting for a retry as soon as the signal is aborted', async () => {
+    mockAxiosInstance.post.mockRejectedValue(serverError);
+    const controller = new AbortController();
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      retryPolicy: slowRetries,
+    });
+
+    const pending = client.find({ tableName: 'extract_user', signal: controller.signal });
+    setTimeout(() => controller.abort(new Error('shutdown')), 10);
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(CancellationError);
+    expect(error.details.reason).toEqual(new Error('shutdown'));
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Cancelled batches report completed chunks
+   */
+  it('should stop sending chunks of a cancelled batch', async () => {
+    const controller = new AbortController();
+    mockAxiosInstance.post.mockImplementation(async () => {
+      controller.abort();
+      return { data: { Rows: [], Warnings: [] } };
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const error = await client
+      .delete({
+        tableName: 'extract_user',
+        rows: [{ id: '1' }, { id: '2' }, { id: '3' }],
+        batch: { maxRowsPerRequest: 1 },
+        signal: controller.signal,
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(CancellationError);
+    expect(error.details.chunks.map((chunk: any) => chunk.success)).toEqual([true, false, false]);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: A request cancelled in the limiter queue is never sent
+   */
+  it('should not send a request cancelled while waiting in the limiter queue', async () => {
+    let finishFirst!: () => void;
+    mockAxiosInstance.post.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          finishFirst = () => resolve({ data: { Rows: [], Warnings: [] } });
+        })
+    );
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      limiter: new RequestLimiter({ maxConcurrent: 1 }),
+    });
+    const controller = new AbortController();
+
+    const first = client.findAll('extract_user');
+    const second = client.find({ tableName: 'extract_user', signal: controller.signal });
+    controller.abort();
+
+    await expect(second).rejects.toThrow(CancellationError);
+    finishFirst();
+    await first;
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: DynamicTable forwards signal and timeout
+   */
+  it('should forward signal and timeout from DynamicTable methods', async () => {
+    const client = {
+      find: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+      add: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+      update: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+      delete: jest.fn().mockResolvedValue({
+        success: true,
+        deletedCount: 1,
+        deletedKeys: [],
+        notFoundKeys: [],
+        warnings: [],
+      }),
+    } as unknown as jest.Mocked<AppSheetClientInterface>;
+    const table = new DynamicTable(client, {
+      tableName: 'extract_user',
+      keyField: 'id',
+      fields: { id: { type: 'Text', required: true } },
+    });
+    const { signal } = new AbortController();
+    const control = { signal, timeoutMs: 1000 };
+
+    await table.findAll(control);
+    await table.findOne('[id] = "1"', control);
+    await table.find(undefined, { limit: 1, ...control });
+    await table.add([{ id: '1' }], control);
+    await table.update([{ id: '1' }], control);
+    await table.delete([{ id: '1' }], control);
+
+    for (const method of [client.find, client.add, client.update, client.delete]) {
+      for (const [options] of method.mock.calls) {
+        expect(options).toMatchObject(control);
+      }
+    }
+    expect(client.find).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Test Suite: AppSheetClient circuit breaker
+ *
+ * Tests for:
+ * - Network errors and 5xx responses open the circuit
+ * - Client errors (4xx) do not count as failures
+ * - Open circuit fails fast without HTTP requests or retries
+ * - Cancelled half-open probes release their slot without closing the circuit
+ * - Circuit breaker shared per appId by AppSheetClientFactory
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
+import { CancellationError, CircuitOpenError, ConnectionDefinition } from '../../src/types';
+import { CircuitBreaker } from '../../src/utils/CircuitBreaker';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient circuit breaker', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    retry: { maxAttempts: 3 },
+    tables: {},
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  const serverError = {
+    isAxiosError: true,
+    message: 'Service unavailable',
+    response: { status: 503, data: {}, headers: {} },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (e: any) => e?.isAxiosError === true
+    );
+    jest.spyOn(AppSheetClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Test: Failed attempts open the circuit and stop the retries
+   */
+  it('should open after server errors and fail fast without further requests', async () => {
+    mockAxiosInstance.post.mockRejectedValue(serverError);
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 2 });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      circuitBreaker,
+    });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow(CircuitOpenError);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    expect(circuitBreaker.getStatus().state).toBe('open');
+
+    await expect(client.findAll('extract_user')).rejects.toThrow(CircuitOpenError);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * Test: Client errors are successful API responses for the breaker
+   */
+  it('should not count client errors as failures', async () => {
+    mockAxiosInstance.post.mockRejectedValue({
+      isAxiosError: true,
+      message: 'Bad request',
+      response: { status: 400, data: {}, headers: {} },
+    });
+    const circuitBreaker = new CircuitBreaker({ minimumRequests: 1 });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      circuitBreaker,
+    });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow('Bad request');
+
+    expect(circuitBreaker.getStatus()).toMatchObject({ state: 'closed', requests: 1, failures: 0 });
+  });
+
+  /**
+   * Test: Successful requests are recorded
+   */
+  it('should record successful requests', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [], Warnings: [] } });
+    const circuitBreaker = new CircuitBreaker();
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      circuitBreaker,
+    });
+
+    await client.findAll('extract_user');
+
+    expect(circuitBreaker.getStatus()).toMatchObject({ requests: 1, failures: 0 });
+  });
+
+  /**
+   * Test: A cancelled probe is not an answer of the API
+   */
+  it('should not close a half-open circuit when the probe is cancelled', async () => {
+    let now = 0;
+    const circuitBreaker = new CircuitBreaker(
+      { minimumRequests: 1, openDurationMs: 1000 },
+      () => now
+    );
+    circuitBreaker.acquire();
+    circuitBreaker.recordFailure();
+    now = 1000;
+    const controller = new AbortController();
+    mockAxiosInstance.post.mockImplementation(async () => {
+      controller.abort();
+      throw { isAxiosError: true, message: 'canceled', code: 'ERR_CANCELED' };
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      circuitBreaker,
+    });
+
+    await expect(
+      client.find({ tableName: 'extract_user', signal: controller.signal })
+    ).rejects.toThrow(CancellationError);
+
+    expect(circuitBreaker.getStatus().state).toBe('half-open');
+    expect(() => circuitBreaker.acquire()).not.toThrow();
+  });
+
+  /**
+   * Test: Factory shares the breaker per appId
+   */
+  it('should share the circuit breaker of an appId between clients of a factory', async () => {
+    mockAxiosInstance.post.mockRejectedValue(serverError);
+    const factory = new AppSheetClientFactory();
+    const guarded = { ...connectionDef, circuitBreaker: { minimumRequests: 3 } };
+
+    await expect(
+      factory.create(guarded, 'a@example.com').findAll('extract_user')
+    ).rejects.toThrow();
+    await expect(factory.create(guarded, 'b@example.com').findAll('extract_user')).rejects.toThrow(
+      CircuitOpenError
+    );
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+    expect(factory.getCircuitBreakerStatus(guarded)?.state).toBe('open');
+    expect(factory.getCircuitBreakerStatus(connectionDef)).toBeUndefined();
+  });
+});
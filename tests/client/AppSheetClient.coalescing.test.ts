@@ -0,0 +1,166 @@
+/**
+ * Test Suite: AppSheetClient request coalescing
+ *
+ * Tests for:
+ * - Identical concurrent Finds share one HTTP request
+ * - Each coalesced caller gets its own rows
+ * - Different selectors, properties and users are not coalesced
+ * - Per-call opt-out via `coalesce: false`
+ * - Coalescing across clients of one AppSheetClientFactory
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
+import { ConnectionDefinition } from '../../src/types';
+import { InMemoryTracer } from '../../src/utils/tracing';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient request coalescing', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    tables: {},
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [{ id: '1' }], Warnings: [] } });
+  });
+
+  /**
+   * Test: Identical concurrent Finds are sent once
+   */
+  it('should share one request between identical concurrent finds', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const results = await Promise.all([
+      client.find({ tableName: 'extract_user', selector: '[id] = "1"' }),
+      client.find({ tableName: 'extract_user', selector: '[id] = "1"' }),
+      client.findOne('extract_user', '[id] = "1"'),
+    ]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    expect(results[0].rows).toEqual([{ id: '1' }]);
+    expect(results[1].rows).toEqual([{ id: '1' }]);
+    expect(results[2]).toEqual({ id: '1' });
+  });
+
+  /**
+   * Test: Callers cannot modify each other's results
+   */
+  it('should give each coalesced caller its own copy of the rows', async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { Rows: [{ id: '1', name: 'John' }], Warnings: ['shared'] },
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const [first, second] = await Promise.all([
+      client.find({ tableName: 'extract_user' }),
+      client.find({ tableName: 'extract_user' }),
+    ]);
+    first.rows[0].name = 'Changed';
+    first.rows.push({ id: '2', name: 'Added' });
+    first.warnings?.push('changed');
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    expect(second.rows).toEqual([{ id: '1', name: 'John' }]);
+    expect(second.warnings).toEqual(['shared']);
+  });
+
+  /**
+   * Test: Failures are shared as well
+   */
+  it('should reject all coalesced calls if the request fails', async () => {
+    mockAxiosInstance.post.mockRejectedValueOnce(new Error('boom'));
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const results = await Promise.allSettled([
+      client.findAll('extract_user'),
+      client.findAll('extract_user'),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Only identical requests are coalesced
+   */
+  it('should not coalesce finds with different selectors or properties', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await Promise.all([
+      client.find({ tableName: 'extract_user', selector: '[id] = "1"' }),
+      client.find({ tableName: 'extract_user', selector: '[id] = "2"' }),
+      client.find({ tableName: 'extract_user', properties: { Locale: 'de-DE' } }),
+      client.find({ tableName: 'extract_worklog' }),
+    ]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(4);
+  });
+
+  /**
+   * Test: Requests after completion are sent again
+   */
+  it('should send sequential finds separately', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await client.findAll('extract_user');
+    await client.findAll('extract_user');
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * Test: Per-call opt-out
+   */
+  it('should send a separate request when coalesce is false', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    await Promise.all([
+      client.find({ tableName: 'extract_user' }),
+      client.find({ tableName: 'extract_user', coalesce: false }),
+    ]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * Test: Coalesced spans are marked
+   */
+  it('should mark spans of coalesced finds', async () => {
+    const tracer = new InMemoryTracer();
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+
+    await Promise.all([client.findAll('extract_user'), client.findAll('extract_user')]);
+
+    const [leader, follower] = tracer.getFinishedSpans();
+    expect(leader.attributes['appsheet.coalesced']).toBeUndefined();
+    expect(follower.attributes['appsheet.coalesced']).toBe(true);
+  });
+
+  /**
+   * Test: Clients of one factory share the coalescer per user
+   */
+  it('should coalesce across clients of one factory but not across users', async () => {
+    const factory = new AppSheetClientFactory();
+
+    await Promise.all([
+      factory.create(connectionDef, 'a@example.com').findAll('extract_user'),
+      factory.create(connectionDef, 'a@example.com').findAll('extract_user'),
+      factory.create(connectionDef, 'b@example.com').findAll('extract_user'),
+    ]);
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Test Suite: AppSheetClient delete results
+ *
+ * Tests for:
+ * - Deleted and not found rows based on the rows returned by the API
+ * - Matching by key field, or by all requested fields for tables outside the schema
+ * - Strict mode throwing NotFoundError
+ * - Same behavior in MockAppSheetClient, also if none of the rows exist
+ * - DynamicTable passing strict mode to the client, with a fallback for clients without key lists
+ *
+ * @module tests/client
+ */
+
+jest.mock('axios');
+jest.mock('uuid');
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
+import { ConnectionDefinition, NotFoundError } from '../../src/types';
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient delete results', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    tables: {
+      users: {
+        tableName: 'extract_user',
+        keyField: 'id',
+        fields: { id: { type: 'Text', required: true }, name: { type: 'Name', required: false } },
+      },
+    },
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+  });
+
+  /**
+   * Test: Only rows returned by the API count as deleted
+   */
+  it('should report deleted and not found rows by key field', async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { Rows: [{ id: '1', name: 'John' }], Warnings: ['1 row not found'] },
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const result = await client.delete({
+      tableName: 'extract_user',
+      rows: [{ id: '1', name: 'ignored' }, { id: '2' }],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      deletedCount: 1,
+      deletedKeys: [{ id: '1', name: 'ignored' }],
+      notFoundKeys: [{ id: '2' }],
+      warnings: ['1 row not found'],
+    });
+  });
+
+  /**
+   * Test: Tables outside the schema are matched by all requested fields
+   */
+  it('should match by all requested fields if the key field is unknown', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: [{ order_id: 7, status: 'Open' }] });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const result = await client.delete({
+      tableName: 'orders',
+      rows: [{ order_id: '7' }, { order_id: '8' }],
+    });
+
+    expect(result.deletedKeys).toEqual([{ order_id: '7' }]);
+    expect(result.notFoundKeys).toEqual([{ order_id: '8' }]);
+  });
+
+  /**
+   * Test: Strict mode rejects missing rows
+   */
+  it('should throw NotFoundError in strict mode if a row was not found', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [{ id: '1' }] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const error = await client
+      .delete({ tableName: 'extract_user', rows: [{ id: '1' }, { id: '2' }], strict: true })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('1 of 2 rows to delete not found in table "extract_user"');
+    expect(error.details).toMatchObject({
+      tableName: 'extract_user',
+      notFoundKeys: [{ id: '2' }],
+      result: { deletedKeys: [{ id: '1' }] },
+    });
+  });
+
+  /**
+   * Test: Strict mode passes if all rows were deleted
+   */
+  it('should not throw in strict mode if all rows were deleted', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [{ id: '1' }] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+    const result = await client.delete({
+      tableName: 'extract_user',
+      rows: [{ id: '1' }],
+      strict: true,
+    });
+
+    expect(result.deletedCount).toBe(1);
+  });
+
+  /**
+   * Test: The mock client reports the same result
+   */
+  it('should report the same result in MockAppSheetClient', async () => {
+    const client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    await client.add({ tableName: 'extract_user', rows: [{ id: '1', name: 'John' }] });
+
+    const result = await client.delete({
+      tableName: 'extract_user',
+      rows: [{ id: '1' }, { id: '2' }],
+    });
+
+    expect(result).toEqual({
+      success: true,
+      deletedCount: 1,
+      deletedKeys: [{ id: '1' }],
+      notFoundKeys: [{ id: '2' }],
+      warnings: [],
+    });
+    await expect(
+      client.delete({ tableName: 'extract_user', rows: [{ id: '2' }], strict: true })
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  /**
+   * Test: An empty Rows response means nothing was deleted, in both clients
+   */
+  it('should report all rows as not found if none exist, like MockAppSheetClient', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [], Warnings: [] } });
+    const real = new AppSheetClient(connectionDef, 'user@example.com');
+    const mock = new MockAppSheetClient(connectionDef, 'user@example.com');
+    const options = { tableName: 'extract_user', rows: [{ id: '1' }, { id: '2' }] };
+
+    const [realResult, mockResult] = await Promise.all([
+      real.delete(options),
+      mock.delete(options),
+    ]);
+
+    expect(realResult).toEqual(mockResult);
+    expect(realResult).toMatchObject({
+      deletedCount: 0,
+      deletedKeys: [],
+      notFoundKeys: options.rows,
+    });
+    await expect(real.delete({ ...options, strict: true })).rejects.toThrow(NotFoundError);
+    await expect(mock.delete({ ...options, strict: true })).rejects.toThrow(NotFoundError);
+  });
+
+  /**
+   * Test: DynamicTable passes strict mode to the client
+   */
+  it('should pass strict mode from DynamicTable.delete()', async () => {
+    const client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    const table = new DynamicTable(client, connectionDef.tables.users);
+
+    await expect(table.delete([{ id: '1' }])).resolves.toBe(true);
+    await expect(table.delete([{ id: '1' }], { strict: true })).rejects.toThrow(
+      'rows to delete not found'
+    );
+  });
+
+  /**
+   * Test: Strict mode also works with clients that don't report the key lists
+   */
+  it('should fall back to deletedCount for clients without notFoundKeys', async () => {
+    const client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    jest.spyOn(client, 'delete').mockResolvedValue({ success: true, deletedCount: 1 });
+    const table = new DynamicTable(client, connectionDef.tables.users);
+
+    await expect(table.delete([{ id: '1' }], { strict: true })).resolves.toBe(true);
+    await expect(table.delete([{ id: '1' }, { id: '2' }], { strict: true })).rejects.toThrow(
+      '1 of 2 rows to delete not found in table "extract_user"'
+    );
+  });
+});
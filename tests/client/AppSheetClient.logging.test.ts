@@ -0,0 +1,139 @@
+/**
+ * Test Suite: AppSheetClient logging
+ *
+ * Tests for:
+ * - Request start/end messages with duration
+ * - Retry and API warning messages
+ * - Failure messages
+ * - No access key or row values in the log context
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { ConnectionDefinition, LoggerInterface } from '../../src/types';
+import { BackoffRetryPolicy } from '../../src/utils';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient logging', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'secret-key',
+    tables: {
+      users: {
+        tableName: 'extract_user',
+        keyField: 'id',
+        fields: { id: { type: 'Text', required: true }, email: { type: 'Email', required: true } },
+      },
+    },
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  let logger: jest.Mocked<LoggerInterface>;
+
+  /** Flattened JSON of everything passed to the logger */
+  const loggedOutput = () =>
+    JSON.stringify(
+      ['debug', 'info', 'warn', 'error'].flatMap(
+        (level) => (logger as any)[level].mock.calls as unknown[]
+      )
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (error: any) => error?.isAxiosError === true
+    );
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  });
+
+  /**
+   * Test: Request start and end are logged with duration
+   */
+  it('should log request start and completion', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [{ id: '1' }] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { logger });
+
+    await client.findAll('extract_user');
+
+    expect(logger.debug).toHaveBeenCalledWith(
+      'AppSheet request started',
+      expect.objectContaining({ appId: 'test-app-id', action: 'Find', tableName: 'extract_user' })
+    );
+    expect(logger.debug).toHaveBeenCalledWith(
+      'AppSheet request completed',
+      expect.objectContaining({ action: 'Find', rowCount: 1, durationMs: expect.any(Number) })
+    );
+  });
+
+  /**
+   * Test: Secrets and row values never reach the logger
+   */
+  it('should log neither the access key nor row values', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { logger });
+
+    await client.add({ tableName: 'extract_user', rows: [{ id: '1', email: 'a@example.com' }] });
+
+    const output = loggedOutput();
+    expect(output).not.toContain('secret-key');
+    expect(output).not.toContain('a@example.com');
+    expect(logger.debug).toHaveBeenCalledWith('AppSheet request started', {
+      appId: 'test-app-id',
+      action: 'Add',
+      tableName: 'extract_user',
+      rowCount: 1,
+    });
+  });
+
+  /**
+   * Test: API warnings are logged
+   */
+  it('should log API warnings', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [], Warnings: ['Row skipped'] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { logger });
+
+    await client.findAll('extract_user');
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'AppSheet API returned warnings',
+      expect.objectContaining({ warnings: ['Row skipped'] })
+    );
+  });
+
+  /**
+   * Test: Retries and final failures are logged
+   */
+  it('should log retry attempts and failures', async () => {
+    mockAxiosInstance.post.mockRejectedValue({
+      isAxiosError: true,
+      message: 'Service Unavailable',
+      response: { status: 503, data: {}, headers: {} },
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      logger,
+      retryPolicy: new BackoffRetryPolicy({ maxAttempts: 2, baseDelayMs: 0, jitter: 'none' }),
+    });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow('Service Unavailable');
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Retrying AppSheet request',
+      expect.objectContaining({ attempt: 1, delayMs: 0 })
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      'AppSheet request failed',
+      expect.objectContaining({
+        action: 'Find',
+        error: expect.objectContaining({ code: 'API_ERROR', statusCode: 503 }),
+      })
+    );
+  });
+});
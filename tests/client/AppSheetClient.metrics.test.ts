@@ -0,0 +1,146 @@
+/**
+ * Test Suite: AppSheetClient metrics
+ *
+ * Tests for:
+ * - One metric per API request with duration, rows read and written
+ * - Retry counts and error codes of failed requests
+ * - Metrics collector configured on AppSheetClientFactory
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
+import { ConnectionDefinition, MetricsCollectorInterface, RequestMetric } from '../../src/types';
+import { InMemoryMetricsCollector } from '../../src/utils/metrics';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient metrics', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    retry: { maxAttempts: 3 },
+    tables: {},
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  let recorded: RequestMetric[];
+  let metrics: MetricsCollectorInterface;
+
+  const rateLimited = {
+    isAxiosError: true,
+    message: 'Too many requests',
+    response: { status: 429, data: {}, headers: {} },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (e: any) => e?.isAxiosError === true
+    );
+    jest.spyOn(AppSheetClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { Rows: [{ id: '1' }, { id: '2' }], Warnings: [] },
+    });
+    recorded = [];
+    metrics = { recordRequest: (metric) => recorded.push(metric) };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Test: Reads and writes are recorded per request
+   */
+  it('should record rows read by Find and rows written by writes', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { metrics });
+
+    await client.findAll('extract_user');
+    await client.add({ tableName: 'extract_user', rows: [{ id: '1' }, { id: '2' }, { id: '3' }] });
+
+    expect(recorded).toEqual([
+      {
+        appId: 'test-app-id',
+        tableName: 'extract_user',
+        action: 'Find',
+        durationMs: expect.any(Number),
+        retries: 0,
+        rowsRead: 2,
+        rowsWritten: 0,
+      },
+      {
+        appId: 'test-app-id',
+        tableName: 'extract_user',
+        action: 'Add',
+        durationMs: expect.any(Number),
+        retries: 0,
+        rowsRead: 0,
+        rowsWritten: 3,
+      },
+    ]);
+  });
+
+  /**
+   * Test: Chunked writes record one metric per request
+   */
+  it('should record each chunk of a batch as a request', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { metrics });
+
+    await client.delete({
+      tableName: 'extract_user',
+      rows: [{ id: '1' }, { id: '2' }, { id: '3' }],
+      batch: { maxRowsPerRequest: 2 },
+    });
+
+    expect(recorded.map((metric) => metric.rowsWritten)).toEqual([2, 1]);
+  });
+
+  /**
+   * Test: Retries and errors are recorded
+   */
+  it('should record retries and the error code of failed requests', async () => {
+    mockAxiosInstance.post
+      .mockRejectedValueOnce(rateLimited)
+      .mockResolvedValueOnce({ data: { Rows: [], Warnings: [] } })
+      .mockRejectedValue(rateLimited);
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { metrics });
+
+    await client.findAll('extract_user');
+    await expect(client.findAll('extract_user')).rejects.toThrow();
+
+    expect(recorded).toEqual([
+      expect.objectContaining({ retries: 1, rowsRead: 0 }),
+      expect.objectContaining({ retries: 2, errorCode: 'RATE_LIMIT' }),
+    ]);
+    expect(recorded[0].errorCode).toBeUndefined();
+  });
+
+  /**
+   * Test: Factory-level collector aggregates all clients
+   */
+  it('should aggregate metrics of all clients created by the factory', async () => {
+    const collector = new InMemoryMetricsCollector();
+    const factory = new AppSheetClientFactory(undefined, { metrics: collector });
+
+    await factory.create(connectionDef, 'a@example.com').findAll('extract_user');
+    await factory.create(connectionDef, 'b@example.com').findAll('extract_user');
+
+    const [table] = collector.snapshot().tables;
+    expect(table).toMatchObject({
+      appId: 'test-app-id',
+      tableName: 'extract_user',
+      action: 'Find',
+      requests: 2,
+      rowsRead: 4,
+    });
+    expect(table.latency.count).toBe(2);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Test Suite: AppSheetClient middleware pipeline
+ *
+ * Tests for:
+ * - Middleware order and access to action, table, payload and response
+ * - Header injection and payload modification
+ * - Error propagation and recovery
+ * - Short-circuiting without calling next()
+ * - Middleware configured via options and AppSheetClientFactory
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
+import { AppSheetError, ConnectionDefinition, Middleware, RequestContext } from '../../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient middleware', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    retry: { maxAttempts: 1 },
+    tables: {
+      users: {
+        tableName: 'extract_user',
+        keyField: 'id',
+        fields: { id: { type: 'Text', required: true } },
+      },
+    },
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [{ id: '1' }], Warnings: [] } });
+  });
+
+  /**
+   * Test: Middlewares run in order around the request
+   */
+  it('should run middlewares in order around the request', async () => {
+    const calls: string[] = [];
+    const tracking =
+      (name: string): Middleware =>
+      async (_ctx, next) => {
+        calls.push(`${name}:before`);
+        await next();
+        calls.push(`${name}:after`);
+      };
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, {
+      middleware: [tracking('a')],
+    });
+    client.use(tracking('b'));
+
+    await client.findAll('extract_user');
+
+    expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+  });
+
+  /**
+   * Test: Context exposes request details and response
+   */
+  it('should expose action, table, payload, properties and response', async () => {
+    let seen: RequestContext | undefined;
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (ctx, next) => {
+      await next();
+      seen = ctx;
+    });
+
+    await client.add({ tableName: 'extract_user', rows: [{ id: '1' }] });
+
+    expect(seen).toMatchObject({
+      appId: 'test-app-id',
+      action: 'Add',
+      tableName: 'extract_user',
+      url: '/apps/test-app-id/tables/extract_user/Action',
+      payload: { Action: 'Add', Rows: [{ id: '1' }] },
+      properties: { RunAsUserEmail: 'user@example.com' },
+      response: { Rows: [{ id: '1' }] },
+    });
+    expect(seen!.error).toBeUndefined();
+  });
+
+  /**
+   * Test: Headers and payload changes are sent
+   */
+  it('should send injected headers and modified payloads', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (ctx, next) => {
+      ctx.headers['X-Request-Id'] = 'abc-123';
+      ctx.properties.Locale = 'de-DE';
+      await next();
+    });
+
+    await client.findAll('extract_user');
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      '/apps/test-app-id/tables/extract_user/Action',
+      expect.objectContaining({
+        Properties: expect.objectContaining({ Locale: 'de-DE' }),
+      }),
+      { headers: { 'X-Request-Id': 'abc-123' } }
+    );
+  });
+
+  /**
+   * Test: Errors reach the middleware and can be recovered
+   */
+  it('should expose errors and allow middlewares to recover', async () => {
+    mockAxiosInstance.post.mockRejectedValue(new Error('boom'));
+    const seen: Array<Error | undefined> = [];
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (ctx, next) => {
+      try {
+        await next();
+      } catch {
+        seen.push(ctx.error);
+        ctx.response = { Rows: [], Warnings: ['served fallback'] };
+      }
+    });
+
+    const result = await client.find({ tableName: 'extract_user' });
+
+    expect(seen[0]?.message).toBe('boom');
+    expect(result).toEqual({ rows: [], warnings: ['served fallback'] });
+  });
+
+  /**
+   * Test: Errors propagate if not handled
+   */
+  it('should propagate errors through the chain', async () => {
+    mockAxiosInstance.post.mockRejectedValue(new Error('boom'));
+    const after = jest.fn();
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (_ctx, next) => {
+      await next();
+      after();
+    });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow('boom');
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test: Middlewares can short-circuit the request
+   */
+  it('should skip the request if a middleware does not call next()', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (ctx) => {
+      ctx.response = { Rows: [{ id: 'cached' }] };
+    });
+
+    const rows = await client.findAll('extract_user');
+
+    expect(rows).toEqual([{ id: 'cached' }]);
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Test: A chain that ends without a response is reported
+   */
+  it('should throw if the chain finishes without a response', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async () => {});
+
+    await expect(client.findAll('extract_user')).rejects.toThrow(AppSheetError);
+    await expect(client.findAll('extract_user')).rejects.toThrow('without a response');
+  });
+
+  /**
+   * Test: next() may only be called once
+   */
+  it('should reject calling next() twice', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com').use(async (_ctx, next) => {
+      await next();
+      await next();
+    });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow('next() called multiple times');
+    expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+  });
+
+  /**
+   * Test: Factory passes its middlewares to created clients
+   */
+  it('should apply middlewares configured on the factory', async () => {
+    const fromOptions = jest.fn(async (_ctx: RequestContext, next: () => Promise<void>) => next());
+    const fromUse = jest.fn(async (_ctx: RequestContext, next: () => Promise<void>) => next());
+    const factory = new AppSheetClientFactory(undefined, { middleware: [fromOptions] }).use(
+      fromUse
+    );
+
+    await factory.create(connectionDef, 'user@example.com').findAll('extract_user');
+
+    expect(fromOptions).toHaveBeenCalledTimes(1);
+    expect(fromUse).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Test Suite: AppSheetClient and DynamicTable tracing
+ *
+ * Tests for:
+ * - One span per client operation with appId, table, action and row count
+ * - Hashed selector attribute on Find
+ * - Retry count and error code attributes
+ * - DynamicTable spans as parents of client spans
+ *
+ * @module tests/client
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
+import { DynamicTableFactory } from '../../src/client/DynamicTableFactory';
+import { ConnectionDefinition, SchemaConfig } from '../../src/types';
+import { InMemoryTracer, hashSelector } from '../../src/utils/tracing';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('AppSheetClient tracing', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    retry: { maxAttempts: 3 },
+    tables: {
+      users: {
+        tableName: 'extract_user',
+        keyField: 'id',
+        fields: {
+          id: { type: 'Text', required: true },
+          name: { type: 'Text' },
+        },
+      },
+    },
+  };
+
+  const mockAxiosInstance = {
+    post: jest.fn(),
+  };
+
+  let tracer: InMemoryTracer;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+      (e: any) => e?.isAxiosError === true
+    );
+    jest.spyOn(AppSheetClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { Rows: [{ id: '1' }, { id: '2' }], Warnings: [] },
+    });
+    tracer = new InMemoryTracer();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Test: Find span attributes
+   */
+  it('should record a span for find with a hashed selector and result count', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+
+    await client.find({ tableName: 'extract_user', selector: '[name] = "John"' });
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.name).toBe('AppSheetClient.find');
+    expect(span.status).toBe('ok');
+    expect(span.attributes).toEqual({
+      'appsheet.app_id': 'test-app-id',
+      'appsheet.table': 'extract_user',
+      'appsheet.action': 'Find',
+      'appsheet.row_count': 2,
+      'appsheet.retry_count': 0,
+      'appsheet.selector_hash': hashSelector('Filter(extract_user, [name] = "John")'),
+    });
+  });
+
+  /**
+   * Test: Write span attributes
+   */
+  it('should record the number of rows sent for writes', async () => {
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+
+    await client.add({ tableName: 'extract_user', rows: [{ id: '1' }, { id: '2' }, { id: '3' }] });
+    await client.update({ tableName: 'extract_user', rows: [{ id: '1' }] });
+    await client.delete({ tableName: 'extract_user', rows: [{ id: '1' }] });
+
+    expect(
+      tracer
+        .getFinishedSpans()
+        .map((span) => [
+          span.name,
+          span.attributes['appsheet.action'],
+          span.attributes['appsheet.row_count'],
+        ])
+    ).toEqual([
+      ['AppSheetClient.add', 'Add', 3],
+      ['AppSheetClient.update', 'Edit', 1],
+      ['AppSheetClient.delete', 'Delete', 1],
+    ]);
+  });
+
+  /**
+   * Test: Retries are counted on the operation span
+   */
+  it('should count retries on the span', async () => {
+    const serverError = {
+      isAxiosError: true,
+      message: 'Service unavailable',
+      response: { status: 503, data: {}, headers: {} },
+    };
+    mockAxiosInstance.post
+      .mockRejectedValueOnce(serverError)
+      .mockRejectedValueOnce(serverError)
+      .mockResolvedValueOnce({ data: { Rows: [], Warnings: [] } });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+
+    await client.findAll('extract_user');
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('ok');
+    expect(span.attributes['appsheet.retry_count']).toBe(2);
+  });
+
+  /**
+   * Test: Failed operations record the error code
+   */
+  it('should record the error code and exception of failed operations', async () => {
+    mockAxiosInstance.post.mockRejectedValue({
+      isAxiosError: true,
+      message: 'Forbidden',
+      response: { status: 403, data: {}, headers: {} },
+    });
+    const client = new AppSheetClient(connectionDef, 'user@example.com', undefined, { tracer });
+
+    await expect(client.findAll('extract_user')).rejects.toThrow();
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('error');
+    expect(span.attributes['appsheet.error_code']).toBe('AUTH_ERROR');
+    expect(span.attributes['appsheet.retry_count']).toBe(0);
+    expect(span.exceptions).toHaveLength(1);
+  });
+
+  /**
+   * Test: DynamicTable spans wrap client spans
+   */
+  it('should link client spans to DynamicTable spans', async () => {
+    const schema: SchemaConfig = { connections: { default: connectionDef } };
+    const clientFactory = new AppSheetClientFactory(undefined, { tracer });
+    const tableFactory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+      tracer,
+    });
+    const table = tableFactory.create('default', 'users', 'user@example.com');
+
+    await table.find('[name] = "John"');
+    await table.add([{ id: '3', name: 'Jane' }]);
+
+    const [tableFind, clientFind, tableAdd, clientAdd] = tracer.getFinishedSpans();
+    expect(tableFind.name).toBe('DynamicTable.find');
+    expect(tableFind.attributes).toMatchObject({
+      'appsheet.table': 'extract_user',
+      'appsheet.action': 'Find',
+      'appsheet.row_count': 2,
+      'appsheet.selector_hash': hashSelector('[name] = "John"'),
+    });
+    expect(clientFind.parentSpanId).toBe(tableFind.spanId);
+    expect(tableAdd.name).toBe('DynamicTable.add');
+    expect(tableAdd.attributes['appsheet.row_count']).toBe(1);
+    expect(clientAdd.parentSpanId).toBe(tableAdd.spanId);
+  });
+
+  /**
+   * Test: Validation failures are traced on the DynamicTable span
+   */
+  it('should record validation errors on the DynamicTable span', async () => {
+    const schema: SchemaConfig = { connections: { default: connectionDef } };
+    const tableFactory = new DynamicTableFactory(
+      new AppSheetClientFactory(),
+      schema,
+      undefined,
+      undefined,
+      { tracer }
+    );
+    const table = tableFactory.create('default', 'users', 'user@example.com');
+
+    await expect(table.add([{ name: 'No id' }])).rejects.toThrow();
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('error');
+    expect(span.attributes['appsheet.error_code']).toBe('VALIDATION_ERROR');
+    expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+  });
+});
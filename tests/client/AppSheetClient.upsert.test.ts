@@ -0,0 +1,239 @@
+/**
+ * Test Suite: Upsert
+ *
+ * Tests for:
+ * - Key lookup with batched IN selectors and split into Add and Edit requests
+ * - Rows without key value and repeated keys
+ * - Tables outside the schema and invalid keysPerRequest
+ * - DynamicTable.upsert validating Add and Edit rows with their own rules
+ * - DynamicTable.upsert rejecting invalid values before the key lookup
+ *
+ * @module tests/client
+ */
+
+jest.mock('axios');
+jest.mock('uuid');
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
+import { ConnectionDefinition, ValidationError } from '../../src/types';
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+interface User {
+  id: string;
+  name: string;
+  email?: string;
+}
+
+describe('Upsert', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'test-app-id',
+    applicationAccessKey: 'test-key',
+    tables: {
+      users: {
+        tableName: 'extract_user',
+        keyField: 'id',
+        fields: {
+          id: { type: 'Text', required: true },
+          name: { type: 'Name', required: true },
+          email: { type: 'Email', required: false },
+        },
+      },
+    },
+  };
+
+  describe('AppSheetClient.upsert', () => {
+    const mockAxiosInstance = {
+      post: jest.fn(),
+    };
+
+    /** Simulate the API: Find returns the rows with existing keys, writes echo their rows */
+    const respondWith = (existingKeys: string[]) =>
+      mockAxiosInstance.post.mockImplementation(async (_url: string, payload: any) => {
+        if (payload.Action === 'Find') {
+          const rows = existingKeys
+            .filter((key) => payload.Properties.Selector.includes(`"${key}"`))
+            .map((id) => ({ id, name: `stored ${id}` }));
+          return { data: { Rows: rows, Warnings: [] } };
+        }
+        return { data: { Rows: payload.Rows, Warnings: [`${payload.Action} done`] } };
+      });
+
+    const actions = () => mockAxiosInstance.post.mock.calls.map(([, payload]) => payload.Action);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    });
+
+    /**
+     * Test: Existing keys are edited, new keys added
+     */
+    it('should look up keys once and send one Add and one Edit', async () => {
+      respondWith(['1']);
+      const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+      const result = await client.upsert({
+        tableName: 'extract_user',
+        rows: [
+          { id: '1', name: 'John' },
+          { id: '2', name: 'Jane' },
+        ],
+      });
+
+      expect(actions()).toEqual(['Find', 'Add', 'Edit']);
+      expect(mockAxiosInstance.post.mock.calls[0][1].Properties.Selector).toBe(
+        'Filter(extract_user, IN([id], LIST("1", "2")))'
+      );
+      expect(mockAxiosInstance.post.mock.calls[1][1].Rows).toEqual([{ id: '2', name: 'Jane' }]);
+      expect(mockAxiosInstance.post.mock.calls[2][1].Rows).toEqual([{ id: '1', name: 'John' }]);
+      expect(result).toEqual({
+        rows: [
+          { id: '2', name: 'Jane' },
+          { id: '1', name: 'John' },
+        ],
+        created: [{ id: '2', name: 'Jane' }],
+        updated: [{ id: '1', name: 'John' }],
+        warnings: ['Add done', 'Edit done'],
+      });
+    });
+
+    /**
+     * Test: Only the needed requests are sent
+     */
+    it('should skip the lookup for rows without key and empty groups', async () => {
+      respondWith([]);
+      const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+      const result = await client.upsert({
+        tableName: 'extract_user',
+        rows: [{ name: 'Generated key' }],
+      });
+
+      expect(actions()).toEqual(['Add']);
+      expect(result.created).toEqual([{ name: 'Generated key' }]);
+      expect(result.updated).toEqual([]);
+    });
+
+    /**
+     * Test: A repeated new key is added once and then edited
+     */
+    it('should edit repeated keys after adding the first row', async () => {
+      respondWith([]);
+      const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+      const result = await client.upsert({
+        tableName: 'extract_user',
+        rows: [
+          { id: '3', name: 'First' },
+          { id: '3', name: 'Second' },
+        ],
+      });
+
+      expect(mockAxiosInstance.post.mock.calls[0][1].Properties.Selector).toBe(
+        'Filter(extract_user, IN([id], LIST("3")))'
+      );
+      expect(result.created).toEqual([{ id: '3', name: 'First' }]);
+      expect(result.updated).toEqual([{ id: '3', name: 'Second' }]);
+    });
+
+    /**
+     * Test: Long key lists are looked up in several requests
+     */
+    it('should split the key lookup by keysPerRequest', async () => {
+      respondWith(['1', '3']);
+      const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+      const result = await client.upsert({
+        tableName: 'extract_user',
+        rows: ['1', '2', '3'].map((id) => ({ id, name: id })),
+        keysPerRequest: 2,
+      });
+
+      expect(actions()).toEqual(['Find', 'Find', 'Add', 'Edit']);
+      expect(result.created.map((row) => row.id)).toEqual(['2']);
+      expect(result.updated.map((row) => row.id)).toEqual(['1', '3']);
+    });
+
+    /**
+     * Test: The key field must be known
+     */
+    it('should reject tables outside the schema and invalid keysPerRequest', async () => {
+      const client = new AppSheetClient(connectionDef, 'user@example.com');
+
+      await expect(client.upsert({ tableName: 'other', rows: [{ id: '1' }] })).rejects.toThrow(
+        'Cannot upsert into table "other": table is not defined in the connection schema'
+      );
+      await expect(
+        client.upsert({ tableName: 'extract_user', rows: [{ id: '1' }], keysPerRequest: 0 })
+      ).rejects.toThrow('keysPerRequest must be a positive integer, got: 0');
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DynamicTable.upsert', () => {
+    let client: MockAppSheetClient;
+    let table: DynamicTable<User>;
+
+    beforeEach(async () => {
+      client = new MockAppSheetClient(connectionDef, 'user@example.com');
+      table = new DynamicTable<User>(client, connectionDef.tables.users);
+      await client.add({ tableName: 'extract_user', rows: [{ id: '1', name: 'John' }] });
+    });
+
+    /**
+     * Test: Created and updated rows are reported
+     */
+    it('should create new rows and update existing rows', async () => {
+      const result = await table.upsert([
+        { id: '1', email: 'john@example.com' },
+        { id: '2', name: 'Jane' },
+      ]);
+
+      expect(result.created).toEqual([expect.objectContaining({ id: '2', name: 'Jane' })]);
+      expect(result.updated).toEqual([
+        expect.objectContaining({ id: '1', name: 'John', email: 'john@example.com' }),
+      ]);
+    });
+
+    /**
+     * Test: Field values are checked before the key lookup
+     */
+    it('should reject invalid field values without looking up keys', async () => {
+      const find = jest.spyOn(client, 'find');
+
+      const error = await table
+        .upsert([{ id: '1', email: 'not-an-email' }, { name: 'Jane', email: 'jane' }, { id: '2' }])
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.issues).toEqual([
+        expect.objectContaining({ rowIndex: 0, field: 'email', rule: 'format' }),
+        expect.objectContaining({ rowIndex: 1, field: 'id', rule: 'required' }),
+        expect.objectContaining({ rowIndex: 1, field: 'email', rule: 'format' }),
+      ]);
+      expect(find).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: Required fields are only checked for rows to add
+     */
+    it('should validate rows to add with required fields and rows to edit partially', async () => {
+      const error = await table
+        .upsert([{ id: '1', email: 'john@example.com' }, { id: '2' }, { id: '3' }])
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.issues).toEqual([
+        expect.objectContaining({ rowIndex: 1, field: 'name', rule: 'required' }),
+        expect.objectContaining({ rowIndex: 2, field: 'name', rule: 'required' }),
+      ]);
+      expect(await client.findAll('extract_user')).toEqual([
+        expect.objectContaining({ id: '1', name: 'John' }),
+      ]);
+    });
+  });
+});
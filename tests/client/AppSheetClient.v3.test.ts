@@ -10,7 +10,16 @@
 
 import axios from 'axios';
 import { AppSheetClient } from '../../src/client/AppSheetClient';
-import { ConnectionDefinition } from '../../src/types';
+import { BackoffRetryPolicy } from '../../src/utils/policies';
+import { SelectorBuilder } from '../../src/utils/SelectorBuilder';
+import {
+  ConnectionDefinition,
+  NetworkError,
+  PartialBatchError,
+  RateLimitError,
+  SelectorBuilderInterface,
+  ValidationError,
+} from '../../src/types';
 
 /**
  * Mock axios module to intercept HTTP requests without hitting real API.
@@ -303,7 +312,7 @@ describe('AppSheetClient v3.0.0', () => {
       const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
 
       mockAxiosInstance.post.mockResolvedValue({
-        data: { Rows: [] },
+        data: { Rows: [{ id: '1', email: 'a@example.com' }] },
       });
 
       const result = await client.delete({
@@ -313,6 +322,390 @@ describe('AppSheetClient v3.0.0', () => {
 
       expect(result.success).toBe(true);
       expect(result.deletedCount).toBe(1);
+      expect(result.deletedKeys).toEqual([{ id: '1' }]);
+      expect(result.notFoundKeys).toEqual([]);
+    });
+  });
+
+  describe('Sorting and limiting', () => {
+    /**
+     * Test: orderBy and limit compose with the filter into Top(OrderBy(Filter(...)))
+     */
+    it('should compose selector, orderBy and limit', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({
+        tableName: 'extract_worklog',
+        selector: '[hours] > 2',
+        orderBy: [
+          { field: 'date', direction: 'desc' },
+          { field: 'worklog_id', direction: 'asc' },
+        ],
+        limit: 25,
+      });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBe(
+        'Top(OrderBy(Filter(extract_worklog, [hours] > 2), [date], TRUE, [worklog_id], FALSE), 25)'
+      );
+    });
+
+    /**
+     * Test: Custom selector builders without applyOrderAndLimit() use the default rendering
+     */
+    it('should compose orderBy and limit for a custom selector builder', async () => {
+      const builder = new SelectorBuilder();
+      const customBuilder: SelectorBuilderInterface = {
+        ensureFunction: builder.ensureFunction.bind(builder),
+        escapeValue: builder.escapeValue.bind(builder),
+        buildFilter: builder.buildFilter.bind(builder),
+        isSafeIdentifier: builder.isSafeIdentifier.bind(builder),
+      };
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail, customBuilder);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({ tableName: 'extract_worklog', orderBy: [{ field: 'date' }], limit: 5 });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBe(
+        'Top(OrderBy(Filter(extract_worklog, TRUE), [date], FALSE), 5)'
+      );
+    });
+
+    /**
+     * Test: Sorting without a filter uses Filter(table, TRUE) as base
+     */
+    it('should use Filter(table, TRUE) when only orderBy is given', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({ tableName: 'extract_worklog', orderBy: [{ field: 'date' }] });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBe(
+        'OrderBy(Filter(extract_worklog, TRUE), [date], FALSE)'
+      );
+    });
+
+    /**
+     * Test: Limit without sort wraps the filter in Top()
+     */
+    it('should wrap only in Top() when only limit is given', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({ tableName: 'extract_worklog', limit: 3 });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBe('Top(Filter(extract_worklog, TRUE), 3)');
+    });
+
+    /**
+     * Test: No selector is sent without filter, sort and limit
+     */
+    it('should not send a Selector without filter, sort and limit', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({ tableName: 'extract_worklog' });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBeUndefined();
+    });
+  });
+
+  describe('Selector validation', () => {
+    /**
+     * Test: validateSelector reports all problems before any request is sent
+     */
+    it('should throw ValidationError listing all selector problems', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+
+      try {
+        await client.find({
+          tableName: 'extract_worklog',
+          selector: 'Filter(extract_worklog, AND([hours] > "2", [dte] = TODAY()))',
+          validateSelector: true,
+        });
+        fail('Should have thrown ValidationError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toContain('Field "hours" (Number) compared with text "2"');
+        expect(error.message).toContain('Unknown field "dte"');
+        expect(error.details.issues).toHaveLength(2);
+      }
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: Valid selectors are sent unchanged
+     */
+    it('should send valid selectors when validation is enabled', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockResolvedValue({ data: { Rows: [] } });
+
+      await client.find({
+        tableName: 'extract_worklog',
+        selector: '[hours] > 2',
+        validateSelector: true,
+      });
+
+      const payload = mockAxiosInstance.post.mock.calls[0][1];
+      expect(payload.Properties.Selector).toBe('Filter(extract_worklog, [hours] > 2)');
+    });
+
+    /**
+     * Test: Validation requires a schema for the table
+     */
+    it('should reject validation for tables without schema', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+
+      await expect(
+        client.find({ tableName: 'unknown_table', selector: '[x] = 1', validateSelector: true })
+      ).rejects.toThrow('not defined in the connection schema');
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Retry behavior', () => {
+    /**
+     * Creates an axios-like error with the given response (or none for network errors).
+     */
+    const axiosError = (response?: { status: number; headers?: any; data?: any }) => ({
+      isAxiosError: true,
+      message: response ? `Request failed with status code ${response.status}` : 'timeout',
+      code: response ? undefined : 'ECONNABORTED',
+      response: response && { data: {}, headers: {}, ...response },
+    });
+
+    let sleepSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      (mockedAxios.isAxiosError as unknown as jest.Mock).mockImplementation(
+        (error: any) => error?.isAxiosError === true
+      );
+      sleepSpy = jest.spyOn(AppSheetClient.prototype as any, 'sleep').mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      sleepSpy.mockRestore();
+    });
+
+    /**
+     * Test: Transient server errors are retried and reported via onRetry
+     */
+    it('should retry server errors and report retries via onRetry', async () => {
+      const onRetry = jest.fn();
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail, undefined, {
+        retryPolicy: new BackoffRetryPolicy({ jitter: 'none', baseDelayMs: 100 }),
+        onRetry,
+      });
+      mockAxiosInstance.post
+        .mockRejectedValueOnce(axiosError({ status: 503 }))
+        .mockResolvedValueOnce({ data: { Rows: [{ id: '1' }] } });
+
+      const result = await client.find({ tableName: 'extract_user' });
+
+      expect(result.rows).toEqual([{ id: '1' }]);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(sleepSpy).toHaveBeenCalledWith(100);
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'Find',
+          tableName: 'extract_user',
+          attempt: 1,
+          delayMs: 100,
+        })
+      );
+    });
+
+    /**
+     * Test: Add is not retried on network errors (may already have created rows)
+     */
+    it('should not retry Add on network errors', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockRejectedValue(axiosError());
+
+      await expect(client.add({ tableName: 'extract_user', rows: [{ id: '1' }] })).rejects.toThrow(
+        NetworkError
+      );
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test: Rate-limit responses wait for the Retry-After header
+     */
+    it('should honor Retry-After on 429 responses', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post
+        .mockRejectedValueOnce(axiosError({ status: 429, headers: { 'retry-after': '2' } }))
+        .mockResolvedValueOnce({ data: { Rows: [] } });
+
+      await client.add({ tableName: 'extract_user', rows: [{ id: '1' }] });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(sleepSpy).toHaveBeenCalledWith(2000);
+    });
+
+    /**
+     * Test: The last error is thrown once attempts are exhausted
+     */
+    it('should throw the last error after maxAttempts from the connection', async () => {
+      const client = new AppSheetClient(
+        { ...mockConnectionDef, retry: { maxAttempts: 2, jitter: 'none', baseDelayMs: 0 } },
+        mockRunAsUserEmail
+      );
+      mockAxiosInstance.post.mockRejectedValue(axiosError({ status: 429 }));
+
+      await expect(client.find({ tableName: 'extract_user' })).rejects.toThrow(RateLimitError);
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Chunking', () => {
+    const rows = Array.from({ length: 5 }, (_, i) => ({ id: String(i + 1) }));
+
+    /**
+     * Responds with the posted rows and one warning per request.
+     */
+    const echo = (_url: string, payload: any) =>
+      Promise.resolve({ data: { Rows: payload.Rows, Warnings: [`chunk ${payload.Rows[0].id}`] } });
+
+    /**
+     * Test: Batches are not split without maxRowsPerRequest
+     */
+    it('should send all rows in one request by default', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockImplementation(echo);
+
+      await client.add({ tableName: 'extract_user', rows });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1);
+    });
+
+    /**
+     * Test: Large batches are split and merged in order
+     */
+    it('should split batches by maxRowsPerRequest and merge the responses', async () => {
+      const client = new AppSheetClient(
+        { ...mockConnectionDef, batching: { maxRowsPerRequest: 2 } },
+        mockRunAsUserEmail
+      );
+      mockAxiosInstance.post.mockImplementation(echo);
+
+      const result = await client.update({ tableName: 'extract_user', rows });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+      expect(mockAxiosInstance.post.mock.calls.map((call) => call[1].Rows.length)).toEqual([
+        2, 2, 1,
+      ]);
+      expect(mockAxiosInstance.post.mock.calls[0][1].Action).toBe('Edit');
+      expect(result.rows).toEqual(rows);
+      expect(result.warnings).toEqual(['chunk 1', 'chunk 3', 'chunk 5']);
+    });
+
+    /**
+     * Test: Per-call options override the connection and bound parallelism
+     */
+    it('should send chunks with bounded parallelism', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockAxiosInstance.post.mockImplementation(async (url: string, payload: any) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setImmediate(resolve));
+        inFlight--;
+        return echo(url, payload);
+      });
+
+      const result = await client.add({
+        tableName: 'extract_user',
+        rows,
+        batch: { maxRowsPerRequest: 1, concurrency: 2 },
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+      expect(result.rows).toEqual(rows);
+    });
+
+    /**
+     * Test: Delete counts all rows of a chunked batch
+     */
+    it('should count all deleted rows of a chunked delete', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+      mockAxiosInstance.post.mockImplementation(echo);
+
+      const result = await client.delete({
+        tableName: 'extract_user',
+        rows,
+        batch: { maxRowsPerRequest: 3 },
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+      expect(result.deletedCount).toBe(5);
+    });
+
+    /**
+     * Test: Failed chunks are reported in a PartialBatchError
+     */
+    it('should report failed chunks in a PartialBatchError', async () => {
+      const client = new AppSheetClient(
+        { ...mockConnectionDef, retry: { maxAttempts: 1 } },
+        mockRunAsUserEmail
+      );
+      mockAxiosInstance.post.mockImplementation((url: string, payload: any) =>
+        payload.Rows[0].id === '3'
+          ? Promise.reject(new Error('Payload too large'))
+          : echo(url, payload)
+      );
+
+      try {
+        await client.add({ tableName: 'extract_user', rows, batch: { maxRowsPerRequest: 2 } });
+        fail('Should have thrown PartialBatchError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(PartialBatchError);
+        expect(error.code).toBe('PARTIAL_BATCH_FAILURE');
+        expect(error.message).toContain('failed for 1 of 3 chunks: Payload too large');
+        expect(error.result.rows).toEqual([rows[0], rows[1], rows[4]]);
+        expect(error.result.chunks.map((chunk: any) => chunk.success)).toEqual([true, false, true]);
+        expect(error.result.chunks[1]).toMatchObject({ index: 1, offset: 2, rowCount: 2 });
+        expect(error.details.failedChunks).toHaveLength(1);
+      }
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(3);
+    });
+
+    /**
+     * Test: Invalid chunk sizes are rejected
+     */
+    it('should reject invalid maxRowsPerRequest values', async () => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+
+      await expect(
+        client.add({ tableName: 'extract_user', rows, batch: { maxRowsPerRequest: 0 } })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        client.add({ tableName: 'extract_user', rows, batch: { maxRowsPerRequest: 10.5 } })
+      ).rejects.toThrow('maxRowsPerRequest must be a positive integer, got: 10.5');
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Test: Invalid parallelism is rejected instead of starting no workers
+     */
+    it.each([0, NaN, 1.5])('should reject concurrency %p', async (concurrency) => {
+      const client = new AppSheetClient(mockConnectionDef, mockRunAsUserEmail);
+
+      await expect(
+        client.add({
+          tableName: 'extract_user',
+          rows,
+          batch: { maxRowsPerRequest: 2, concurrency },
+        })
+      ).rejects.toThrow(`concurrency must be a positive integer, got: ${concurrency}`);
+      expect(mockAxiosInstance.post).not.toHaveBeenCalled();
     });
   });
 
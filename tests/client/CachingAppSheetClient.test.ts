@@ -0,0 +1,222 @@
+/**
+ * Test Suite: CachingAppSheetClient
+ *
+ * Tests for:
+ * - Read-through caching of Find results for tables with a TTL
+ * - Cache keys per query and runAsUserEmail
+ * - Invalidation after add/update/delete (also on failure)
+ * - upsert/invokeAction only for wrapped clients that implement them
+ * - Finds overlapping a write are not cached
+ * - Selector validation also for cached results
+ * - Isolation of cached rows from caller modifications
+ * - DynamicTableFactory cache option
+ *
+ * @module tests/client
+ */
+
+import { CachingAppSheetClient } from '../../src/client/CachingAppSheetClient';
+import { DynamicTableFactory } from '../../src/client/DynamicTableFactory';
+import {
+  AppSheetClientFactoryInterface,
+  AppSheetClientInterface,
+  ConnectionDefinition,
+  FindResponse,
+  SchemaConfig,
+  ValidationError,
+} from '../../src/types';
+import { InMemoryLruCacheStore } from '../../src/utils/cache';
+
+/**
+ * Create a mock AppSheetClient for testing
+ */
+function createMockClient(): jest.Mocked<AppSheetClientInterface> {
+  return {
+    add: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    find: jest.fn().mockResolvedValue({ rows: [{ id: '1', name: 'North' }], warnings: [] }),
+    update: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    delete: jest.fn().mockResolvedValue({ success: true, deletedCount: 0, warnings: [] }),
+    findAll: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn().mockResolvedValue(null),
+    addOne: jest.fn().mockResolvedValue({}),
+    updateOne: jest.fn().mockResolvedValue({}),
+    deleteOne: jest.fn().mockResolvedValue(true),
+    getTable: jest.fn(),
+  };
+}
+
+describe('CachingAppSheetClient', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'app-1',
+    applicationAccessKey: 'key',
+    tables: {
+      areas: {
+        tableName: 'extract_area',
+        keyField: 'id',
+        cache: { ttlMs: 60000 },
+        fields: { id: { type: 'Text', required: true }, name: { type: 'Text' } },
+      },
+      worklogs: {
+        tableName: 'extract_worklog',
+        keyField: 'id',
+        fields: { id: { type: 'Text', required: true } },
+      },
+    },
+  };
+
+  let now: number;
+  let store: InMemoryLruCacheStore;
+  let inner: jest.Mocked<AppSheetClientInterface>;
+  let client: CachingAppSheetClient;
+
+  beforeEach(() => {
+    now = 0;
+    store = new InMemoryLruCacheStore({ now: () => now });
+    inner = createMockClient();
+    client = new CachingAppSheetClient(inner, connectionDef, 'user@example.com', store);
+  });
+
+  it('should serve repeated finds of cached tables from the store', async () => {
+    const first = await client.findAll('extract_area');
+    const second = await client.findAll('extract_area');
+
+    expect(first).toEqual([{ id: '1', name: 'North' }]);
+    expect(second).toEqual(first);
+    expect(inner.find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should request the API again after the TTL', async () => {
+    await client.findAll('extract_area');
+    now = 60000;
+    await client.findAll('extract_area');
+
+    expect(inner.find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache tables without a TTL unless a default is set', async () => {
+    await client.findAll('extract_worklog');
+    await client.findAll('extract_worklog');
+    expect(inner.find).toHaveBeenCalledTimes(2);
+
+    const withDefault = new CachingAppSheetClient(
+      inner,
+      connectionDef,
+      'user@example.com',
+      store,
+      1000
+    );
+    await withDefault.findAll('extract_worklog');
+    await withDefault.findAll('extract_worklog');
+    expect(inner.find).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cache per selector, sort, limit and user', async () => {
+    const other = new CachingAppSheetClient(inner, connectionDef, 'other@example.com', store);
+
+    await client.find({ tableName: 'extract_area', selector: '[name] = "North"' });
+    await client.find({ tableName: 'extract_area', selector: '[name] = "South"' });
+    await client.find({ tableName: 'extract_area', limit: 5 });
+    await client.find({ tableName: 'extract_area', orderBy: [{ field: 'name' }] });
+    await other.find({ tableName: 'extract_area', selector: '[name] = "North"' });
+    await client.find({ tableName: 'extract_area', selector: '[name] = "North"' });
+
+    expect(inner.find).toHaveBeenCalledTimes(5);
+  });
+
+  it.each(['add', 'update', 'delete'] as const)(
+    'should invalidate the table for all users after %s',
+    async (method) => {
+      const other = new CachingAppSheetClient(inner, connectionDef, 'other@example.com', store);
+      await client.findAll('extract_area');
+      await other.findAll('extract_area');
+
+      await client[method]({ tableName: 'extract_area', rows: [{ id: '1' }] });
+      await client.findAll('extract_area');
+      await other.findAll('extract_area');
+
+      expect(inner.find).toHaveBeenCalledTimes(4);
+    }
+  );
+
+  it('should invalidate the table if a write fails', async () => {
+    inner.update.mockRejectedValueOnce(new Error('boom'));
+    await client.findAll('extract_area');
+
+    await expect(client.updateOne('extract_area', { id: '1' })).rejects.toThrow('boom');
+    await client.findAll('extract_area');
+
+    expect(inner.find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should delegate upsert and invokeAction only if the wrapped client implements them', async () => {
+    await expect(
+      client.upsert({ tableName: 'extract_area', rows: [{ id: '1' }] })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' });
+
+    const invokeAction = jest.fn().mockResolvedValue({ rows: [{ id: '1' }], warnings: [] });
+    const wrapped: AppSheetClientInterface = { ...inner, invokeAction };
+    const extended = new CachingAppSheetClient(wrapped, connectionDef, 'user@example.com', store);
+    await extended.findAll('extract_area');
+    await extended.invokeAction({
+      tableName: 'extract_area',
+      action: 'Archive',
+      rows: [{ id: '1' }],
+    });
+    await extended.findAll('extract_area');
+
+    expect(invokeAction).toHaveBeenCalledTimes(1);
+    expect(inner.find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a Find that overlaps a write by another client of the store', async () => {
+    const other = new CachingAppSheetClient(inner, connectionDef, 'other@example.com', store);
+    let respond!: (response: FindResponse) => void;
+    inner.find.mockImplementationOnce(
+      () => new Promise<FindResponse<any>>((resolve) => (respond = resolve))
+    );
+
+    const pending = client.findAll('extract_area');
+    await other.update({ tableName: 'extract_area', rows: [{ id: '1', name: 'South' }] });
+    respond({ rows: [{ id: '1', name: 'North' }], warnings: [] });
+    await pending;
+    await client.findAll('extract_area');
+
+    expect(inner.find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate selectors before serving cached results', async () => {
+    await client.find({ tableName: 'extract_area', selector: '[name] = 5' });
+
+    await expect(
+      client.find({ tableName: 'extract_area', selector: '[name] = 5', validateSelector: true })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      client.find({ tableName: 'extract_area', selector: '[size] > 1', validateSelector: true })
+    ).rejects.toThrow('Invalid selector for table "extract_area"');
+    expect(inner.find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not expose cached rows to modification', async () => {
+    const rows = await client.findAll('extract_area');
+    rows[0].name = 'Changed';
+
+    expect(await client.findAll('extract_area')).toEqual([{ id: '1', name: 'North' }]);
+  });
+
+  it('should be used by DynamicTableFactory when cache options are set', async () => {
+    const schema: SchemaConfig = { connections: { default: connectionDef } };
+    const clientFactory: AppSheetClientFactoryInterface = { create: jest.fn(() => inner) };
+    inner.getTable.mockReturnValue(connectionDef.tables.areas);
+
+    const cached = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+      cache: {},
+    });
+    await cached.create('default', 'areas', 'a@example.com').findAll();
+    await cached.create('default', 'areas', 'b@example.com').findAll();
+    await cached.create('default', 'areas', 'a@example.com').findAll();
+    expect(inner.find).toHaveBeenCalledTimes(2);
+
+    const uncached = new DynamicTableFactory(clientFactory, schema);
+    await uncached.create('default', 'areas', 'a@example.com').findAll();
+    expect(inner.find).toHaveBeenCalledTimes(3);
+  });
+});
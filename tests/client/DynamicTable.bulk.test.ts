@@ -0,0 +1,269 @@
+/**
+ * Tests for DynamicTable bulk writes with per-row results
+ *
+ * Covers addBulk() and updateBulk():
+ * - One result per input row with the created/updated row and warnings
+ * - continueOnValidationError sends only valid rows and reports rejected rows
+ * - Rows of failed chunks are reported as failed
+ * - Chunk warnings are attributed to the rows of the chunk
+ */
+
+import axios from 'axios';
+import { AppSheetClient } from '../../src/client/AppSheetClient';
+import { DynamicTable } from '../../src/client/DynamicTable';
+import {
+  AppSheetClientInterface,
+  AuthenticationError,
+  ChunkResult,
+  NetworkError,
+  PartialBatchError,
+  TableDefinition,
+  ValidationError,
+} from '../../src/types';
+import { ErrorUnknownFieldPolicy } from '../../src/utils/policies';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+interface Task {
+  id: string;
+  title: string;
+  priority?: string;
+}
+
+/**
+ * Create a mock client that implements AppSheetClientInterface
+ * (Same pattern as DynamicTable.test.ts)
+ */
+function createMockClient(): jest.Mocked<AppSheetClientInterface> {
+  return {
+    add: jest.fn().mockImplementation(async ({ rows }) => ({ rows, warnings: [] })),
+    find: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    update: jest.fn().mockImplementation(async ({ rows }) => ({ rows, warnings: [] })),
+    delete: jest.fn().mockResolvedValue({ success: true, deletedCount: 0, warnings: [] }),
+    findAll: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn().mockResolvedValue(null),
+    addOne: jest.fn().mockResolvedValue({}),
+    updateOne: jest.fn().mockResolvedValue({}),
+    deleteOne: jest.fn().mockResolvedValue(true),
+    getTable: jest.fn(),
+  };
+}
+
+describe('DynamicTable bulk writes', () => {
+  const tableDef: TableDefinition = {
+    tableName: 'extract_task',
+    keyField: 'id',
+    fields: {
+      id: { type: 'Text', required: true },
+      title: { type: 'Text', required: true },
+      priority: { type: 'Enum', required: false, allowedValues: ['Low', 'High'] },
+    },
+  };
+
+  let mockClient: jest.Mocked<AppSheetClientInterface>;
+  let table: DynamicTable<Task>;
+
+  beforeEach(() => {
+    mockClient = createMockClient();
+    table = new DynamicTable<Task>(mockClient, tableDef);
+  });
+
+  it('should return one result per row with the created row and warnings', async () => {
+    mockClient.add.mockImplementation(async ({ rows }) => ({
+      rows: rows.map((row: any) => ({ ...row, created: true })),
+      warnings: ['slow sync'],
+    }));
+
+    const result = await table.addBulk([
+      { id: '1', title: 'First' },
+      { id: '2', title: 'Second' },
+    ]);
+
+    expect(result.results).toEqual([
+      {
+        index: 0,
+        input: { id: '1', title: 'First' },
+        status: 'success',
+        row: { id: '1', title: 'First', created: true },
+        warnings: ['slow sync'],
+      },
+      {
+        index: 1,
+        input: { id: '2', title: 'Second' },
+        status: 'success',
+        row: { id: '2', title: 'Second', created: true },
+        warnings: ['slow sync'],
+      },
+    ]);
+    expect(result.rows).toHaveLength(2);
+    expect(result.rejected).toEqual([]);
+    expect(result.failed).toEqual([]);
+    expect(result.warnings).toEqual(['slow sync']);
+  });
+
+  it('should throw one error listing the problems of all invalid rows by default', async () => {
+    const error = await table
+      .addBulk([
+        { id: '1', title: 'Valid' },
+        { id: '2', title: 'Invalid', priority: 'Urgent' },
+        { id: '3' },
+      ])
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toContain('2 validation errors in table "extract_task"');
+    expect(error.details.issues.map((issue: any) => [issue.rowIndex, issue.field])).toEqual([
+      [1, 'priority'],
+      [2, 'title'],
+    ]);
+    expect(mockClient.add).not.toHaveBeenCalled();
+  });
+
+  it('should send only valid rows with continueOnValidationError', async () => {
+    const result = await table.addBulk(
+      [
+        { id: '1', title: 'Valid' },
+        { id: '2', title: 'Invalid', priority: 'Urgent' },
+        { id: '3' },
+        { id: '4', title: 'Also valid' },
+      ],
+      { continueOnValidationError: true }
+    );
+
+    expect(mockClient.add).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rows: [
+          { id: '1', title: 'Valid' },
+          { id: '4', title: 'Also valid' },
+        ],
+      })
+    );
+    expect(result.rows).toEqual([
+      { id: '1', title: 'Valid' },
+      { id: '4', title: 'Also valid' },
+    ]);
+    expect(result.rejected.map((r) => r.index)).toEqual([1, 2]);
+    expect(result.rejected[0]).toMatchObject({
+      status: 'invalid',
+      input: { id: '2', title: 'Invalid', priority: 'Urgent' },
+    });
+    expect(result.rejected[0].error).toBeInstanceOf(ValidationError);
+    expect(result.rejected[0].error?.message).toContain('Row 1');
+    expect(result.rejected[1].error?.message).toContain('title');
+  });
+
+  it('should reject rows with unknown fields individually under the error policy', async () => {
+    table = new DynamicTable<Task>(mockClient, tableDef, new ErrorUnknownFieldPolicy());
+
+    const result = await table.addBulk(
+      [{ id: '1', title: 'Valid' }, { id: '2', title: 'Extra', extra: 'x' } as any],
+      { continueOnValidationError: true }
+    );
+
+    expect(result.rows).toEqual([{ id: '1', title: 'Valid' }]);
+    expect(result.rejected[0].error?.message).toContain('Unknown fields');
+  });
+
+  it('should not call the client if all rows are invalid', async () => {
+    const result = await table.addBulk([{ id: '1' }], { continueOnValidationError: true });
+
+    expect(mockClient.add).not.toHaveBeenCalled();
+    expect(result.rows).toEqual([]);
+    expect(result.rejected).toHaveLength(1);
+  });
+
+  it('should report rows of failed chunks and attribute chunk warnings', async () => {
+    const chunks: ChunkResult[] = [
+      { index: 0, offset: 0, rowCount: 2, success: true, warnings: ['chunk 0'] },
+      { index: 1, offset: 2, rowCount: 1, success: false, error: new NetworkError('Timeout') },
+    ];
+    mockClient.update.mockRejectedValue(
+      new PartialBatchError('1 of 2 chunks failed', {
+        rows: [
+          { id: '1', title: 'A' },
+          { id: '2', title: 'B' },
+        ],
+        warnings: ['chunk 0'],
+        chunks,
+      })
+    );
+
+    const result = await table.updateBulk(
+      [
+        { id: '1', title: 'A' },
+        { id: '2', title: 'B' },
+        { id: '3', title: 'C' },
+      ],
+      { continueOnValidationError: true }
+    );
+
+    expect(result.results.map((r) => r.status)).toEqual(['success', 'success', 'failed']);
+    expect(result.results[1]).toMatchObject({
+      row: { id: '2', title: 'B' },
+      warnings: ['chunk 0'],
+    });
+    expect(result.failed[0].error).toBeInstanceOf(NetworkError);
+    expect(result.failed[0].input).toEqual({ id: '3', title: 'C' });
+  });
+
+  it('should map chunks to input rows when invalid rows were skipped', async () => {
+    mockClient.add.mockResolvedValue({
+      rows: [{ id: '3', title: 'C' }],
+      warnings: [],
+      chunks: [
+        { index: 0, offset: 0, rowCount: 1, success: false, error: new NetworkError('Timeout') },
+        { index: 1, offset: 1, rowCount: 1, success: true, warnings: [] },
+      ],
+    });
+
+    const result = await table.addBulk(
+      [{ id: '1', title: 'A' }, { id: '2' }, { id: '3', title: 'C' }],
+      { continueOnValidationError: true }
+    );
+
+    expect(result.results.map((r) => r.status)).toEqual(['failed', 'invalid', 'success']);
+    expect(result.results[2].row).toEqual({ id: '3', title: 'C' });
+  });
+
+  it('should match returned rows by key if not every row was returned', async () => {
+    mockClient.update.mockResolvedValue({ rows: [{ id: '2', title: 'B2' }], warnings: [] });
+
+    const result = await table.updateBulk([
+      { id: '1', title: 'A' },
+      { id: '2', title: 'B' },
+    ]);
+
+    expect(result.results[0].row).toBeUndefined();
+    expect(result.results[1].row).toEqual({ id: '2', title: 'B2' });
+  });
+
+  it('should throw errors that are not partial batch failures', async () => {
+    mockClient.add.mockRejectedValue(new AuthenticationError('Invalid key'));
+
+    await expect(table.addBulk([{ id: '1', title: 'A' }])).rejects.toThrow(AuthenticationError);
+  });
+
+  it('should receive chunk outcomes from AppSheetClient', async () => {
+    const post = jest
+      .fn()
+      .mockResolvedValueOnce({ data: { Rows: [{ id: '1' }, { id: '2' }], Warnings: ['first'] } })
+      .mockResolvedValueOnce({ data: { Rows: [{ id: '3' }], Warnings: [] } });
+    mockedAxios.create.mockReturnValue({ post } as any);
+    const client = new AppSheetClient(
+      { appId: 'app', applicationAccessKey: 'key', tables: {} },
+      'user@example.com'
+    );
+
+    const response = await client.add({
+      tableName: 'extract_task',
+      rows: [{ id: '1' }, { id: '2' }, { id: '3' }],
+      batch: { maxRowsPerRequest: 2 },
+    });
+
+    expect(response.chunks).toEqual([
+      { index: 0, offset: 0, rowCount: 2, success: true, warnings: ['first'] },
+      { index: 1, offset: 2, rowCount: 1, success: true, warnings: [] },
+    ]);
+  });
+});
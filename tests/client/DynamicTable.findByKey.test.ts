@@ -0,0 +1,126 @@
+/**
+ * Tests for DynamicTable primary-key lookups
+ *
+ * Covers findByKey() and findByKeys():
+ * - Escaped selectors on the schema key field
+ * - Results in input order with null for missing keys
+ * - Splitting long key lists into several requests
+ */
+
+jest.mock('uuid');
+
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
+import { ConnectionDefinition, ValidationError } from '../../src/types';
+
+interface Service {
+  service_portfolio_id: string;
+  name: string;
+}
+
+describe('DynamicTable key lookups', () => {
+  const connectionDef: ConnectionDefinition = {
+    appId: 'mock-app',
+    applicationAccessKey: 'mock-key',
+    tables: {
+      services: {
+        tableName: 'service_portfolio',
+        keyField: 'service_portfolio_id',
+        fields: {
+          service_portfolio_id: { type: 'Text', required: true },
+          name: { type: 'Text', required: true },
+        },
+      },
+    },
+  };
+
+  let client: MockAppSheetClient;
+  let table: DynamicTable<Service>;
+
+  beforeEach(async () => {
+    client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    table = new DynamicTable<Service>(client, connectionDef.tables.services);
+    await client.add<Service>({
+      tableName: 'service_portfolio',
+      rows: [
+        { service_portfolio_id: 's1', name: 'Hosting' },
+        { service_portfolio_id: 's2', name: 'Backup' },
+        { service_portfolio_id: 's3', name: 'Support' },
+        { service_portfolio_id: 'O"Brien\\1', name: 'Quoted' },
+      ],
+    });
+  });
+
+  describe('findByKey', () => {
+    it('should find a row by the key field', async () => {
+      const findSpy = jest.spyOn(client, 'find');
+
+      const row = await table.findByKey('s2');
+
+      expect(row).toMatchObject({ service_portfolio_id: 's2', name: 'Backup' });
+      expect(findSpy).toHaveBeenCalledWith({
+        tableName: 'service_portfolio',
+        selector: 'Filter(service_portfolio, [service_portfolio_id] = "s2")',
+      });
+    });
+
+    it('should escape quotes and backslashes in the key', async () => {
+      const row = await table.findByKey('O"Brien\\1');
+
+      expect(row?.name).toBe('Quoted');
+    });
+
+    it('should return null for a missing key', async () => {
+      expect(await table.findByKey('missing')).toBeNull();
+    });
+  });
+
+  describe('findByKeys', () => {
+    it('should return rows in input order with null for missing keys', async () => {
+      const rows = await table.findByKeys(['s3', 'missing', 's1', 's3']);
+
+      expect(rows.map((row) => row?.name ?? null)).toEqual(['Support', null, 'Hosting', 'Support']);
+    });
+
+    it('should query all keys with one IN selector', async () => {
+      const findSpy = jest.spyOn(client, 'find');
+
+      await table.findByKeys(['s1', 's2']);
+
+      expect(findSpy).toHaveBeenCalledTimes(1);
+      expect(findSpy.mock.calls[0][0].selector).toBe(
+        'Filter(service_portfolio, IN([service_portfolio_id], LIST("s1", "s2")))'
+      );
+    });
+
+    it('should split long key lists into several requests', async () => {
+      const findSpy = jest.spyOn(client, 'find');
+
+      const rows = await table.findByKeys(['s1', 's2', 's3', 'O"Brien\\1', 's1'], {
+        keysPerRequest: 2,
+      });
+
+      expect(findSpy).toHaveBeenCalledTimes(2);
+      expect(rows.map((row) => row?.service_portfolio_id)).toEqual([
+        's1',
+        's2',
+        's3',
+        'O"Brien\\1',
+        's1',
+      ]);
+    });
+
+    it('should not send a request for an empty key list', async () => {
+      const findSpy = jest.spyOn(client, 'find');
+
+      expect(await table.findByKeys([])).toEqual([]);
+      expect(findSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid keysPerRequest values', async () => {
+      await expect(table.findByKeys(['s1'], { keysPerRequest: 0 })).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+});
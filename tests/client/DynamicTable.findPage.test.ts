@@ -0,0 +1,226 @@
+/**
+ * Test Suite: DynamicTable.findPage
+ *
+ * Tests for:
+ * - Keyset pages with OrderBy()/Top() and comparisons on the sort fields
+ * - Sort orders with ties, blanks and descending fields
+ * - Date sort values compared as DATE() literals
+ * - Stable pages while rows are inserted
+ * - Opaque cursors: validation and sort order check
+ *
+ * @module tests/client
+ */
+
+jest.mock('uuid');
+
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
+import { ConnectionDefinition, SortOrder, TableDefinition, ValidationError } from '../../src/types';
+import { where } from '../../src/utils/QueryBuilder';
+
+interface Task {
+  id: string;
+  status: string;
+  priority?: number;
+  due?: string;
+}
+
+const taskDef: TableDefinition = {
+  tableName: 'extract_task',
+  keyField: 'id',
+  fields: {
+    id: { type: 'Text', required: true },
+    status: { type: 'Enum', required: true, allowedValues: ['Open', 'Done'] },
+    priority: { type: 'Number', required: false },
+    due: { type: 'Date', required: false },
+  },
+};
+
+const connectionDef: ConnectionDefinition = {
+  appId: 'mock-app',
+  applicationAccessKey: 'mock-key',
+  tables: { tasks: taskDef },
+};
+
+const tasks: Task[] = [
+  { id: 't1', status: 'Open', priority: 2, due: '12/31/2025' },
+  { id: 't2', status: 'Done', priority: 1, due: '01/02/2026' },
+  { id: 't3', status: 'Open' },
+  { id: 't4', status: 'Open', priority: 2, due: '12/31/2025' },
+  { id: 't5', status: 'Done', priority: 3, due: '11/30/2025' },
+  { id: 't6', status: 'Open', priority: 1, due: '02/01/2026' },
+  { id: 't7', status: 'Done', due: '01/15/2026' },
+];
+
+describe('DynamicTable.findPage', () => {
+  let client: MockAppSheetClient;
+  let table: DynamicTable<Task>;
+
+  /** Follow the cursors and return the ids of every page */
+  async function allPages(orderBy: SortOrder[] | undefined, pageSize: number): Promise<string[][]> {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await table.findPage({ orderBy, pageSize, cursor });
+      pages.push(page.rows.map((row) => row.id));
+      expect(page.hasMore).toBe(page.nextCursor !== undefined);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return pages;
+  }
+
+  beforeEach(async () => {
+    client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    table = new DynamicTable<Task>(client, taskDef);
+    await client.add<Task>({ tableName: 'extract_task', rows: tasks });
+  });
+
+  it('should page through the table in key order', async () => {
+    expect(await allPages(undefined, 3)).toEqual([['t1', 't2', 't3'], ['t4', 't5', 't6'], ['t7']]);
+  });
+
+  it('should request one extra row and seek past the cursor', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    const first = await table.findPage({ pageSize: 2 });
+    await table.findPage({ pageSize: 2, cursor: first.nextCursor });
+
+    expect(find.mock.calls[0][0]).toMatchObject({
+      selector: undefined,
+      orderBy: [{ field: 'id', direction: 'asc' }],
+      limit: 3,
+    });
+    expect(find.mock.calls[1][0].selector).toBe('Filter(extract_task, [id] > "t2")');
+  });
+
+  it('should report the last page without a further request', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    const page = await table.findPage({ pageSize: 7 });
+
+    expect(page.rows).toHaveLength(7);
+    expect(page).toMatchObject({ hasMore: false, nextCursor: undefined });
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  it.each<[string, SortOrder[]]>([
+    ['ascending with blanks and ties', [{ field: 'priority' }]],
+    ['descending with blanks and ties', [{ field: 'priority', direction: 'desc' }]],
+    ['mixed directions', [{ field: 'status', direction: 'desc' }, { field: 'priority' }]],
+    ['descending key', [{ field: 'id', direction: 'desc' }]],
+  ])('should return every row once for %s', async (_name, orderBy) => {
+    const expected = (await table.find(undefined, { orderBy: [...orderBy, { field: 'id' }] })).map(
+      (row) => row.id
+    );
+
+    for (const pageSize of [1, 2, 3]) {
+      expect((await allPages(orderBy, pageSize)).flat()).toEqual(expected);
+    }
+  });
+
+  it('should page over dates across month and year boundaries', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    expect((await allPages([{ field: 'due' }], 2)).flat()).toEqual([
+      't3',
+      't5',
+      't1',
+      't4',
+      't2',
+      't7',
+      't6',
+    ]);
+    expect((await allPages([{ field: 'due', direction: 'desc' }], 3)).flat()).toEqual([
+      't6',
+      't7',
+      't2',
+      't1',
+      't4',
+      't5',
+      't3',
+    ]);
+    expect(find.mock.calls[2][0].selector).toBe(
+      'Filter(extract_task, OR([due] > DATE("2025-12-31"), ' +
+        'AND([due] = DATE("2025-12-31"), [id] > "t4")))'
+    );
+  });
+
+  it('should parse datetimes in the table locale', async () => {
+    const eventDef: TableDefinition = {
+      tableName: 'extract_event',
+      keyField: 'id',
+      locale: 'de-DE',
+      fields: {
+        id: { type: 'Text', required: true },
+        start: { type: 'DateTime', required: true },
+      },
+    };
+    const events = new DynamicTable(client, eventDef);
+    const find = jest.spyOn(client, 'find').mockResolvedValue({
+      rows: [
+        { id: 'e1', start: '31.12.2025 23:30:00' },
+        { id: 'e2', start: '01.01.2026 08:00:00' },
+      ],
+      warnings: [],
+    });
+
+    const first = await events.findPage({ orderBy: [{ field: 'start' }], pageSize: 1 });
+    await events.findPage({ orderBy: [{ field: 'start' }], pageSize: 1, cursor: first.nextCursor });
+
+    expect(find.mock.calls[1][0].selector).toBe(
+      'Filter(extract_event, OR([start] > DATETIME("2025-12-31 23:30:00"), ' +
+        'AND([start] = DATETIME("2025-12-31 23:30:00"), [id] > "e1")))'
+    );
+  });
+
+  it('should combine the selector with the cursor condition', async () => {
+    const find = jest.spyOn(client, 'find');
+    const orderBy: SortOrder[] = [{ field: 'priority', direction: 'desc' }];
+
+    const first = await table.findPage({
+      selector: where('status').eq('Open'),
+      orderBy,
+      pageSize: 2,
+    });
+    const second = await table.findPage({
+      selector: where('status').eq('Open'),
+      orderBy,
+      pageSize: 2,
+      cursor: first.nextCursor,
+    });
+
+    expect(first.rows.map((row) => row.id)).toEqual(['t1', 't4']);
+    expect(second.rows.map((row) => row.id)).toEqual(['t6', 't3']);
+    expect(find.mock.calls[1][0].selector).toBe(
+      'Filter(extract_task, AND([status] = "Open", OR(OR([priority] < 2, ISBLANK([priority])), ' +
+        'AND([priority] = 2, [id] > "t4"))))'
+    );
+  });
+
+  it('should keep pages stable while rows are inserted', async () => {
+    const first = await table.findPage({ pageSize: 3 });
+    await client.add<Task>({ tableName: 'extract_task', rows: [{ id: 't0', status: 'Open' }] });
+
+    const second = await table.findPage({ pageSize: 3, cursor: first.nextCursor });
+
+    expect(second.rows.map((row) => row.id)).toEqual(['t4', 't5', 't6']);
+  });
+
+  it('should reject malformed cursors and cursors of another sort order', async () => {
+    const first = await table.findPage({ pageSize: 2 });
+
+    await expect(table.findPage({ cursor: 'not-a-cursor' })).rejects.toThrow(
+      'Invalid page cursor for table "extract_task"'
+    );
+    await expect(
+      table.findPage({ orderBy: [{ field: 'priority' }], cursor: first.nextCursor })
+    ).rejects.toThrow('was created for a different sort order');
+  });
+
+  it('should validate pageSize and sort fields', async () => {
+    await expect(table.findPage({ pageSize: 0 })).rejects.toThrow(ValidationError);
+    await expect(table.findPage({ orderBy: [{ field: 'unknown' }] })).rejects.toThrow(
+      'Unknown sort field(s) for table "extract_task": unknown'
+    );
+  });
+});
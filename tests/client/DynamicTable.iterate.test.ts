@@ -0,0 +1,172 @@
+/**
+ * Test Suite: DynamicTable.iterate
+ *
+ * Tests for:
+ * - Key-ordered Top() windows against MockAppSheetClient
+ * - Filters as boolean expressions, Filter() selectors and where() queries
+ * - Numeric keys compared as numbers
+ * - Backpressure: pages are only requested when the consumer needs them
+ * - Option validation
+ *
+ * @module tests/client
+ */
+
+jest.mock('uuid');
+
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
+import { ConnectionDefinition, TableDefinition, ValidationError } from '../../src/types';
+import { where } from '../../src/utils/QueryBuilder';
+
+interface Task {
+  id: string;
+  status: string;
+}
+
+interface Counter {
+  nr: number;
+}
+
+const taskDef: TableDefinition = {
+  tableName: 'extract_task',
+  keyField: 'id',
+  fields: {
+    id: { type: 'Text', required: true },
+    status: { type: 'Enum', required: true, allowedValues: ['Open', 'Done'] },
+  },
+};
+
+const counterDef: TableDefinition = {
+  tableName: 'extract_counter',
+  keyField: 'nr',
+  fields: { nr: { type: 'Number', required: true } },
+};
+
+const connectionDef: ConnectionDefinition = {
+  appId: 'mock-app',
+  applicationAccessKey: 'mock-key',
+  tables: { tasks: taskDef, counters: counterDef },
+};
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for await (const row of iterable) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('DynamicTable.iterate', () => {
+  let client: MockAppSheetClient;
+  let table: DynamicTable<Task>;
+
+  beforeEach(async () => {
+    client = new MockAppSheetClient(connectionDef, 'user@example.com');
+    table = new DynamicTable<Task>(client, taskDef);
+    await client.add<Task>({
+      tableName: 'extract_task',
+      rows: ['g', 'c', 'a', 'f', 'b', 'e', 'd'].map((id) => ({
+        id,
+        status: 'aeiou'.includes(id) ? 'Open' : 'Done',
+      })),
+    });
+  });
+
+  it('should return all rows in key order, one page per request', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    const rows = await collect(table.iterate({ pageSize: 3 }));
+
+    expect(rows.map((row) => row.id)).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+    expect(find).toHaveBeenCalledTimes(3);
+    expect(find.mock.calls.map(([options]) => options.selector)).toEqual([
+      undefined,
+      'Filter(extract_task, [id] > "c")',
+      'Filter(extract_task, [id] > "f")',
+    ]);
+    expect(find.mock.calls[0][0]).toMatchObject({ orderBy: [{ field: 'id' }], limit: 3 });
+  });
+
+  it('should send one more request if the last page is full', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    const rows = await collect(table.iterate({ pageSize: 7 }));
+
+    expect(rows).toHaveLength(7);
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should combine where() queries with the key window', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    const rows = await collect(
+      table.iterate({ selector: where('status').eq('Open'), pageSize: 1 })
+    );
+
+    expect(rows.map((row) => row.id)).toEqual(['a', 'e']);
+    expect(find.mock.calls[1][0].selector).toBe(
+      'Filter(extract_task, AND([status] = "Open", [id] > "a"))'
+    );
+  });
+
+  it('should accept boolean expressions and Filter() selectors', async () => {
+    const fromExpression = await collect(
+      table.iterate({ selector: '[status] = "Done"', pageSize: 2 })
+    );
+    const fromFilter = await collect(
+      table.iterate({ selector: 'Filter(extract_task, [status] = "Done")', pageSize: 2 })
+    );
+
+    expect(fromExpression.map((row) => row.id)).toEqual(['b', 'c', 'd', 'f', 'g']);
+    expect(fromFilter).toEqual(fromExpression);
+  });
+
+  it('should reject selectors that are not filters', () => {
+    expect(() => table.iterate({ selector: 'Top(Filter(extract_task, TRUE), 5)' })).toThrow(
+      'Selector must be a boolean expression or a Filter() selector'
+    );
+  });
+
+  it('should compare numeric keys as numbers', async () => {
+    const counters = new DynamicTable<Counter>(client, counterDef);
+    await client.add<Counter>({
+      tableName: 'extract_counter',
+      rows: [12, 2, 7, 10, 1, 9, 3].map((nr) => ({ nr })),
+    });
+    const find = jest.spyOn(client, 'find');
+
+    const rows = await collect(counters.iterate({ pageSize: 3 }));
+
+    expect(rows.map((row) => row.nr)).toEqual([1, 2, 3, 7, 9, 10, 12]);
+    expect(find.mock.calls[1][0].selector).toBe('Filter(extract_counter, [nr] > 3)');
+  });
+
+  it('should only request the next page when the consumer needs it', async () => {
+    const find = jest.spyOn(client, 'find');
+    const iterator = table.iterate({ pageSize: 2 })[Symbol.asyncIterator]();
+
+    await iterator.next();
+    await iterator.next();
+    expect(find).toHaveBeenCalledTimes(1);
+
+    await iterator.next();
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop requesting pages when the consumer stops', async () => {
+    const find = jest.spyOn(client, 'find');
+
+    for await (const row of table.iterate({ pageSize: 2 })) {
+      if (row.id === 'c') break;
+    }
+
+    expect(find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should validate pageSize', () => {
+    expect(() => table.iterate({ pageSize: 0 })).toThrow(ValidationError);
+    expect(() => table.iterate({ pageSize: 1.5 })).toThrow(
+      'pageSize must be a positive integer, got: 1.5'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Integration tests for DynamicTable with ReadConversionPolicy
+ */
+
+import { DynamicTable } from '../../src/client/DynamicTable';
+import { DynamicTableFactory } from '../../src/client/DynamicTableFactory';
+import {
+  AppSheetClientFactoryInterface,
+  AppSheetClientInterface,
+  SchemaConfig,
+  TableDefinition,
+} from '../../src/types';
+import { LocaleReadConversionPolicy } from '../../src/utils/policies';
+
+/**
+ * Create a mock client that implements AppSheetClientInterface
+ */
+function createMockClient(): jest.Mocked<AppSheetClientInterface> {
+  return {
+    add: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    find: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    update: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
+    delete: jest.fn().mockResolvedValue({ success: true, deletedCount: 0, warnings: [] }),
+    findAll: jest.fn().mockResolvedValue([]),
+    findOne: jest.fn().mockResolvedValue(null),
+    addOne: jest.fn().mockResolvedValue({}),
+    updateOne: jest.fn().mockResolvedValue({}),
+    deleteOne: jest.fn().mockResolvedValue(true),
+    getTable: jest.fn().mockReturnValue({
+      tableName: 'test',
+      keyField: 'id',
+      fields: { id: { type: 'Text', required: true } },
+    }),
+  };
+}
+
+describe('DynamicTable with ReadConversionPolicy', () => {
+  let mockClient: jest.Mocked<AppSheetClientInterface>;
+
+  const tableDef: TableDefinition = {
+    tableName: 'extract_worklog',
+    keyField: 'id',
+    locale: 'de-DE',
+    fields: {
+      id: { type: 'Number', required: true },
+      date: { type: 'Date', required: true },
+      hours: { type: 'Decimal', required: false },
+      billable: { type: 'YesNo', required: false },
+      tags: { type: 'EnumList', required: false },
+    },
+  };
+
+  const rawRow = { id: '1', date: '11.03.2026', hours: '7,5', billable: 'Y', tags: 'A , B' };
+  const convertedRow = { id: 1, date: '2026-03-11', hours: 7.5, billable: true, tags: ['A', 'B'] };
+
+  beforeEach(() => {
+    mockClient = createMockClient();
+    mockClient.find.mockResolvedValue({ rows: [rawRow], warnings: [] });
+  });
+
+  const createTable = () =>
+    new DynamicTable(mockClient, tableDef, undefined, undefined, {
+      readConversionPolicy: new LocaleReadConversionPolicy(),
+    });
+
+  it('should convert rows of findAll() and find()', async () => {
+    const table = createTable();
+
+    expect(await table.findAll()).toEqual([convertedRow]);
+    expect(await table.find('[billable] = TRUE')).toEqual([convertedRow]);
+  });
+
+  it('should convert the row of findOne() and findByKey()', async () => {
+    const table = createTable();
+
+    expect(await table.findOne('[id] = 1')).toEqual(convertedRow);
+    expect(await table.findByKey(1)).toEqual(convertedRow);
+  });
+
+  it('should match converted keys in findByKeys()', async () => {
+    const table = createTable();
+
+    expect(await table.findByKeys([1, 2])).toEqual([convertedRow, null]);
+  });
+
+  it('should not convert rows returned by writes', async () => {
+    mockClient.add.mockResolvedValue({ rows: [rawRow], warnings: [] });
+    const table = createTable();
+
+    expect(await table.add([{ id: 1, date: '2026-03-11' }])).toEqual([rawRow]);
+  });
+
+  it('should return raw rows without a policy (backward compatible)', async () => {
+    const table = new DynamicTable(mockClient, tableDef);
+
+    expect(await table.findAll()).toEqual([rawRow]);
+  });
+
+  it('should pass the policy from DynamicTableFactory options to created tables', async () => {
+    const schema: SchemaConfig = {
+      connections: {
+        worklog: {
+          appId: 'app-id',
+          applicationAccessKey: 'key',
+          tables: { worklogs: tableDef },
+        },
+      },
+    };
+    mockClient.getTable.mockReturnValue(tableDef);
+    const clientFactory: AppSheetClientFactoryInterface = { create: () => mockClient };
+    const factory = new DynamicTableFactory(clientFactory, schema, undefined, undefined, {
+      readConversionPolicy: new LocaleReadConversionPolicy(),
+    });
+
+    const rows = await factory.create('worklog', 'worklogs', 'user@example.com').findAll();
+
+    expect(rows).toEqual([convertedRow]);
+  });
+});
@@ -3,17 +3,25 @@
  */
 
 import { DynamicTable } from '../../src/client/DynamicTable';
-import { AppSheetClientInterface, TableDefinition, ValidationError } from '../../src/types';
+import {
+  AppSheetClientInterface,
+  AppSheetError,
+  TableDefinition,
+  ValidationError,
+} from '../../src/types';
+import { where } from '../../src/utils/QueryBuilder';
 
 /**
- * Create a mock client that implements AppSheetClientInterface
+ * Create a mock client that implements AppSheetClientInterface, including optional methods
  */
-function createMockClient(): jest.Mocked<AppSheetClientInterface> {
+function createMockClient(): jest.Mocked<Required<AppSheetClientInterface>> {
   return {
     add: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
     find: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
     update: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
     delete: jest.fn().mockResolvedValue({ success: true, deletedCount: 0, warnings: [] }),
+    upsert: jest.fn().mockResolvedValue({ rows: [], created: [], updated: [], warnings: [] }),
+    invokeAction: jest.fn().mockResolvedValue({ rows: [], warnings: [] }),
     findAll: jest.fn().mockResolvedValue([]),
     findOne: jest.fn().mockResolvedValue(null),
     addOne: jest.fn().mockResolvedValue({}),
@@ -28,7 +36,7 @@ function createMockClient(): jest.Mocked<AppSheetClientInterface> {
 }
 
 describe('DynamicTable - AppSheet Field Types', () => {
-  let mockClient: jest.Mocked<AppSheetClientInterface>;
+  let mockClient: jest.Mocked<Required<AppSheetClientInterface>>;
   let tableDef: TableDefinition;
 
   beforeEach(() => {
@@ -637,6 +645,91 @@ describe('DynamicTable - AppSheet Field Types', () => {
       expect(result).toEqual(mockRows);
       expect(mockClient.find).toHaveBeenCalledWith({ tableName: 'users', selector: undefined });
     });
+
+    it('should render query builder conditions to a Filter() selector', async () => {
+      mockClient.find.mockResolvedValue({ rows: [], warnings: [] });
+
+      const table = new DynamicTable(mockClient, tableDef);
+      await table.find(where('name').eq('User 1').and(where('email').contains('@example.com')));
+
+      expect(mockClient.find).toHaveBeenCalledWith({
+        tableName: 'users',
+        selector: 'Filter(users, AND([name] = "User 1", CONTAINS([email], "@example.com")))',
+      });
+    });
+
+    it('should accept query builder conditions in findOne', async () => {
+      const mockRow = { id: '1', email: 'user1@example.com', name: 'User 1' };
+      mockClient.find.mockResolvedValue({ rows: [mockRow], warnings: [] });
+
+      const table = new DynamicTable(mockClient, tableDef);
+      const result = await table.findOne(where('id').eq('1'));
+
+      expect(result).toEqual(mockRow);
+      expect(mockClient.find).toHaveBeenCalledWith({
+        tableName: 'users',
+        selector: 'Filter(users, [id] = "1")',
+      });
+    });
+
+    it('should pass orderBy and limit to the client', async () => {
+      mockClient.find.mockResolvedValue({ rows: [], warnings: [] });
+
+      const table = new DynamicTable(mockClient, tableDef);
+      await table.find('[name] <> ""', {
+        orderBy: [{ field: 'name', direction: 'desc' }],
+        limit: 5,
+      });
+
+      expect(mockClient.find).toHaveBeenCalledWith({
+        tableName: 'users',
+        selector: '[name] <> ""',
+        orderBy: [{ field: 'name', direction: 'desc' }],
+        limit: 5,
+      });
+    });
+
+    it('should reject sort fields not in the schema', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      await expect(table.find(undefined, { orderBy: [{ field: 'status' }] })).rejects.toThrow(
+        ValidationError
+      );
+      expect(mockClient.find).not.toHaveBeenCalled();
+    });
+
+    it('should reject queries with fields not in the schema', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      await expect(table.find(where('status').eq('Active'))).rejects.toThrow(ValidationError);
+      expect(mockClient.find).not.toHaveBeenCalled();
+    });
+
+    it('should validate selectors against the schema when requested', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      try {
+        await table.find('[Status] = "Active" AND [name] = 5', { validateSelector: true });
+        fail('Should have thrown ValidationError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.details.issues.map((issue: any) => issue.type)).toEqual([
+          'unknownField',
+          'typeMismatch',
+        ]);
+      }
+      expect(mockClient.find).not.toHaveBeenCalled();
+    });
+
+    it('should send valid selectors when validation is requested', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+      await table.find('[name] = "User 1"', { validateSelector: true });
+
+      expect(mockClient.find).toHaveBeenCalledWith({
+        tableName: 'users',
+        selector: '[name] = "User 1"',
+      });
+    });
   });
 
   describe('Delete operations', () => {
@@ -652,7 +745,13 @@ describe('DynamicTable - AppSheet Field Types', () => {
     });
 
     it('should delete rows by key', async () => {
-      mockClient.delete.mockResolvedValue({ success: true, deletedCount: 2, warnings: [] });
+      mockClient.delete.mockResolvedValue({
+        success: true,
+        deletedCount: 2,
+        deletedKeys: [{ id: '1' }, { id: '2' }],
+        notFoundKeys: [],
+        warnings: [],
+      });
 
       const table = new DynamicTable(mockClient, tableDef);
       const result = await table.delete([{ id: '1' }, { id: '2' }]);
@@ -665,6 +764,57 @@ describe('DynamicTable - AppSheet Field Types', () => {
     });
   });
 
+  describe('Named actions', () => {
+    beforeEach(() => {
+      tableDef = {
+        tableName: 'extract_task',
+        keyField: 'id',
+        fields: {
+          id: { type: 'Text', required: true },
+          priority: { type: 'Enum', required: false, allowedValues: ['Low', 'High'] },
+        },
+        actions: ['Mark Complete'],
+      };
+    });
+
+    it('should invoke declared actions with the processed rows', async () => {
+      mockClient.invokeAction.mockResolvedValue({ rows: [{ id: '1' }], warnings: [] });
+
+      const table = new DynamicTable(mockClient, tableDef);
+      const result = await table.invokeAction('Mark Complete', [{ id: '1', extra: 'x' } as any]);
+
+      expect(result).toEqual([{ id: '1' }]);
+      expect(mockClient.invokeAction).toHaveBeenCalledWith({
+        tableName: 'extract_task',
+        action: 'Mark Complete',
+        rows: [{ id: '1' }],
+        properties: undefined,
+      });
+    });
+
+    it('should reject undeclared actions and invalid rows without calling the client', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      await expect(table.invokeAction('Archive', [{ id: '1' }])).rejects.toThrow(
+        'Action "Archive" is not declared for table "extract_task"'
+      );
+      await expect(
+        table.invokeAction('Mark Complete', [{ id: '1', priority: 'Urgent' }])
+      ).rejects.toThrow(ValidationError);
+      expect(mockClient.invokeAction).not.toHaveBeenCalled();
+    });
+
+    it('should reject actions if the client does not implement invokeAction()', async () => {
+      const basicClient: AppSheetClientInterface = { ...mockClient, invokeAction: undefined };
+      const table = new DynamicTable(basicClient, tableDef);
+
+      const error = await table.invokeAction('Mark Complete', [{ id: '1' }]).catch((e) => e);
+
+      expect(error).toBeInstanceOf(AppSheetError);
+      expect(error.code).toBe('UNSUPPORTED_OPERATION');
+    });
+  });
+
   describe('Table metadata methods', () => {
     beforeEach(() => {
       tableDef = {
@@ -778,7 +928,13 @@ describe('DynamicTable - AppSheet Field Types', () => {
       expect(updated[0].status).toBe('Completed');
 
       // Delete
-      mockClient.delete.mockResolvedValue({ success: true, deletedCount: 1, warnings: [] });
+      mockClient.delete.mockResolvedValue({
+        success: true,
+        deletedCount: 1,
+        deletedKeys: [{ id: '1' }],
+        notFoundKeys: [],
+        warnings: [],
+      });
       const deleted = await table.delete([{ id: '1' }]);
       expect(deleted).toBe(true);
     });
@@ -862,6 +1018,63 @@ describe('DynamicTable - AppSheet Field Types', () => {
     });
   });
 
+  describe('Aggregated validation', () => {
+    beforeEach(() => {
+      tableDef = {
+        tableName: 'contacts',
+        keyField: 'id',
+        fields: {
+          id: { type: 'Text', required: true },
+          email: { type: 'Email', required: true },
+          status: { type: 'Enum', required: false, allowedValues: ['Active', 'Inactive'] },
+        },
+      };
+    });
+
+    it('should report all problems of all rows in one ValidationError', async () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      const error = await table
+        .add([
+          { id: '1', email: 'bad', status: 'Unknown' },
+          { id: '2', email: 'ok@example.com' },
+          { email: 'also-bad' },
+        ])
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.details.issues).toEqual([
+        expect.objectContaining({ rowIndex: 0, field: 'email', rule: 'format', value: 'bad' }),
+        expect.objectContaining({ rowIndex: 0, field: 'status', rule: 'enum', type: 'Enum' }),
+        expect.objectContaining({ rowIndex: 2, field: 'id', rule: 'required' }),
+        expect.objectContaining({ rowIndex: 2, field: 'email', rule: 'format' }),
+      ]);
+      expect(mockClient.add).not.toHaveBeenCalled();
+    });
+
+    it('should return a validation report without calling the API', () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      expect(table.validate([{ id: '1', email: 'ok@example.com' }])).toEqual({
+        valid: true,
+        issues: [],
+      });
+
+      const report = table.validate([{ id: '1', email: 'ok@example.com' }, { status: 'Gone' }]);
+      expect(report.valid).toBe(false);
+      expect(
+        report.issues.map((issue) => `${issue.rowIndex}:${issue.field}:${issue.rule}`)
+      ).toEqual(['1:id:required', '1:email:required', '1:status:enum']);
+      expect(mockClient.add).not.toHaveBeenCalled();
+    });
+
+    it('should skip required checks for partial rows', () => {
+      const table = new DynamicTable(mockClient, tableDef);
+
+      expect(table.validate([{ status: 'Active' }], { partial: true }).valid).toBe(true);
+    });
+  });
+
   describe('Edge cases and error messages', () => {
     it('should provide clear error messages for multiple validation failures', async () => {
       const tableDef: TableDefinition = {
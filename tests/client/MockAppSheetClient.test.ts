@@ -7,6 +7,7 @@
  * The tests verify:
  * - Database management (initialization, seeding, clearing)
  * - CRUD operations (Create, Read, Update, Delete)
+ * - Named actions (invokeAction with registered handlers)
  * - Convenience methods (simplified API wrappers)
  * - v3.0.0 constructor (ConnectionDefinition, runAsUserEmail)
  * - v3.0.0 getTable() method
@@ -19,7 +20,12 @@
 jest.mock('uuid');
 
 import { MockAppSheetClient } from '../../src/client/MockAppSheetClient';
-import { ValidationError, NotFoundError, ConnectionDefinition } from '../../src/types';
+import {
+  ValidationError,
+  NotFoundError,
+  ConnectionDefinition,
+  UnsupportedExpressionError,
+} from '../../src/types';
 
 /**
  * Test data interface representing a User entity.
@@ -371,7 +377,7 @@ describe('MockAppSheetClient', () => {
      * Expected behavior:
      * - Only rows matching the exact field value are returned
      * - Double quotes are properly parsed
-     * - Case-sensitive matching
+     * - Case-insensitive matching, like AppSheet text comparisons
      *
      * Use case: Precise field-based queries mimicking AppSheet filter behavior
      */
@@ -416,7 +422,7 @@ describe('MockAppSheetClient', () => {
      *
      * Expected behavior:
      * - Rows matching any of the values are returned
-     * - Case-sensitive matching
+     * - Case-insensitive matching, like AppSheet text comparisons
      * - Multiple values are properly parsed from comma-separated list
      *
      * Use case: Filtering by multiple possible values (e.g., status IN ("pending", "active"))
@@ -451,6 +457,94 @@ describe('MockAppSheetClient', () => {
 
       expect(result.rows).toHaveLength(0);
     });
+
+    /**
+     * Test: Sorting with orderBy
+     *
+     * Verifies that find() sorts rows like OrderBy() in production,
+     * including multiple sort keys and descending order.
+     *
+     * Use case: Tests for sorted queries match production behavior
+     */
+    it('should sort rows by orderBy criteria', async () => {
+      const asc = await client.find<User>({ tableName: 'users', orderBy: [{ field: 'name' }] });
+      expect(asc.rows.map((r) => r.name)).toEqual(['Bob', 'Jane', 'John']);
+
+      const multi = await client.find<User>({
+        tableName: 'users',
+        orderBy: [
+          { field: 'status', direction: 'asc' },
+          { field: 'name', direction: 'desc' },
+        ],
+      });
+      expect(multi.rows.map((r) => r.name)).toEqual(['John', 'Jane', 'Bob']);
+    });
+
+    /**
+     * Test: Limiting with limit
+     *
+     * Verifies that find() applies the limit after filtering and sorting,
+     * like Top(OrderBy(Filter(...))) in production.
+     */
+    it('should apply limit after selector and orderBy', async () => {
+      const result = await client.find<User>({
+        tableName: 'users',
+        selector: '[status] = "active"',
+        orderBy: [{ field: 'name', direction: 'desc' }],
+        limit: 1,
+      });
+
+      expect(result.rows).toHaveLength(1);
+      expect(result.rows[0].name).toBe('John');
+    });
+
+    /**
+     * Test: Invalid limit is rejected like in production
+     */
+    it('should throw ValidationError for invalid limit', async () => {
+      await expect(client.find({ tableName: 'users', limit: 0 })).rejects.toThrow(ValidationError);
+    });
+
+    /**
+     * Test: Full selector expressions
+     *
+     * Verifies that find() evaluates real AppSheet selectors (Filter wrapper,
+     * compound conditions, functions) instead of returning all rows.
+     *
+     * Use case: Tests fail when a production selector would filter differently
+     */
+    it('should evaluate Filter() with compound conditions', async () => {
+      const result = await client.find<User>({
+        tableName: 'users',
+        selector: 'Filter(users, AND([status] <> "inactive", NOT(CONTAINS([name], "jo"))))',
+      });
+
+      expect(result.rows.map((r) => r.name)).toEqual(['Jane']);
+    });
+
+    /**
+     * Test: OrderBy()/Top() inside the selector
+     */
+    it('should evaluate OrderBy() and Top() in the selector', async () => {
+      const result = await client.find<User>({
+        tableName: 'users',
+        selector: 'Top(OrderBy(Filter(users, ISNOTBLANK([status])), [name], FALSE), 2)',
+      });
+
+      expect(result.rows.map((r) => r.name)).toEqual(['Bob', 'Jane']);
+    });
+
+    /**
+     * Test: Unsupported selectors raise an error
+     *
+     * Verifies that selectors the mock cannot evaluate throw instead of
+     * silently matching every row.
+     */
+    it('should throw UnsupportedExpressionError for unsupported selectors', async () => {
+      await expect(
+        client.find({ tableName: 'users', selector: 'LOOKUP([id], "users", "id", "name") = "x"' })
+      ).rejects.toThrow(UnsupportedExpressionError);
+    });
   });
 
   /**
@@ -749,6 +843,139 @@ describe('MockAppSheetClient', () => {
     });
   });
 
+  /**
+   * Test Suite: Upsert Operations
+   *
+   * Verifies upsert() adds rows with new keys, edits rows with existing keys
+   * and reports which rows were created and which were updated.
+   */
+  describe('Upsert Operations - upsert', () => {
+    beforeEach(async () => {
+      await client.add<User>({
+        tableName: 'users',
+        rows: [{ id: '1', name: 'John', status: 'active' }],
+      });
+    });
+
+    it('should add new rows and update existing rows', async () => {
+      const result = await client.upsert<User>({
+        tableName: 'users',
+        rows: [
+          { id: '1', name: 'John Updated' },
+          { id: '2', name: 'Jane' },
+        ],
+      });
+
+      expect(result.created).toEqual([expect.objectContaining({ id: '2', name: 'Jane' })]);
+      expect(result.updated).toEqual([
+        expect.objectContaining({ id: '1', name: 'John Updated', status: 'active' }),
+      ]);
+      expect(result.rows.map((row) => row.id)).toEqual(['2', '1']);
+      expect(await client.findAll<User>('users')).toHaveLength(2);
+    });
+
+    it('should add rows without key value', async () => {
+      const result = await client.upsert<User>({
+        tableName: 'users',
+        rows: [{ name: 'Generated' } as User],
+      });
+
+      expect(result.created).toHaveLength(1);
+      expect(result.created[0].id).toBeDefined();
+      expect(result.updated).toEqual([]);
+    });
+
+    it('should edit repeated keys after adding the first row', async () => {
+      const result = await client.upsert<User>({
+        tableName: 'users',
+        rows: [
+          { id: '3', name: 'First' },
+          { id: '3', name: 'Second' },
+        ],
+      });
+
+      expect(result.created).toEqual([expect.objectContaining({ id: '3', name: 'First' })]);
+      expect(result.updated).toEqual([expect.objectContaining({ id: '3', name: 'Second' })]);
+    });
+
+    it('should reject tables that are not defined in the schema', async () => {
+      await expect(client.upsert({ tableName: 'unknown', rows: [{ id: '1' }] })).rejects.toThrow(
+        'table is not defined in the connection schema'
+      );
+    });
+  });
+
+  /**
+   * Test Suite: Named Actions
+   *
+   * Verifies invokeAction() validates actions against the schema and applies
+   * handlers registered via registerAction().
+   */
+  describe('Named Actions - invokeAction', () => {
+    beforeEach(async () => {
+      const users = { ...mockConnectionDef.tables.users, actions: ['Deactivate', 'Ping'] };
+      client = new MockAppSheetClient(
+        { ...mockConnectionDef, tables: { ...mockConnectionDef.tables, users } },
+        mockRunAsUserEmail
+      );
+      await client.add<User>({
+        tableName: 'users',
+        rows: [
+          { id: '1', name: 'John', status: 'active' },
+          { id: '2', name: 'Jane', status: 'active' },
+        ],
+      });
+    });
+
+    it('should apply the registered handler to each row', async () => {
+      client.registerAction<User>('users', 'Deactivate', () => ({ status: 'inactive' }));
+
+      const result = await client.invokeAction<User>({
+        tableName: 'users',
+        action: 'Deactivate',
+        rows: [{ id: '1', name: '' }],
+      });
+
+      expect(result.rows).toEqual([expect.objectContaining({ id: '1', status: 'inactive' })]);
+      const stored = await client.findOne<User>('users', '[id] = "1"');
+      expect(stored?.status).toBe('inactive');
+      const untouched = await client.findOne<User>('users', '[id] = "2"');
+      expect(untouched?.status).toBe('active');
+    });
+
+    it('should pass the stored row and the input row to the handler', async () => {
+      const handler = jest.fn();
+      client.registerAction<User>('users', 'Ping', handler);
+
+      const result = await client.invokeAction<User>({
+        tableName: 'users',
+        action: 'Ping',
+        rows: [{ id: '2', name: 'input' }],
+      });
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: '2', name: 'Jane' }), {
+        id: '2',
+        name: 'input',
+      });
+      expect(result.rows[0].name).toBe('Jane');
+    });
+
+    it('should reject actions not declared for the table', async () => {
+      await expect(
+        client.invokeAction({ tableName: 'users', action: 'Archive', rows: [{ id: '1' }] })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject rows without key or unknown rows', async () => {
+      await expect(
+        client.invokeAction({ tableName: 'users', action: 'Ping', rows: [{ name: 'x' }] })
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        client.invokeAction({ tableName: 'users', action: 'Ping', rows: [{ id: '99' }] })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
   /**
    * Test Suite: Convenience Methods
    *
@@ -1219,5 +1446,18 @@ describe('MockAppSheetClient', () => {
       expect(typeof clientInterface.deleteOne).toBe('function');
       expect(typeof clientInterface.getTable).toBe('function'); // v3.0.0
     });
+
+    /**
+     * Test: Implements optional methods
+     *
+     * Verifies that MockAppSheetClient also provides the optional upsert()
+     * and invokeAction() operations of AppSheetClientInterface.
+     */
+    it('should implement the optional methods of AppSheetClientInterface', () => {
+      const clientInterface: import('../../src/types').AppSheetClientInterface = client;
+
+      expect(typeof clientInterface.upsert).toBe('function');
+      expect(typeof clientInterface.invokeAction).toBe('function');
+    });
   });
 });
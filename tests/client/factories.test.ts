@@ -68,6 +68,60 @@ describe('AppSheetClientFactory', () => {
     const factory = new AppSheetClientFactory();
     expect(typeof factory.create).toBe('function');
   });
+
+  describe('shared request limiter', () => {
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    /**
+     * Creates clients whose requests stay in flight until release() is called.
+     */
+    const setup = () => {
+      const releases: Array<() => void> = [];
+      const post = jest.fn(
+        () => new Promise((resolve) => releases.push(() => resolve({ data: { Rows: [] } })))
+      );
+      mockedAxios.create.mockReturnValue({ post } as any);
+      return { post, release: () => releases.shift()!() };
+    };
+
+    it('should share the limiter between clients of the same appId', async () => {
+      const { post, release } = setup();
+      const factory = new AppSheetClientFactory();
+      const connectionDef = { ...mockConnectionDef, rateLimit: { maxConcurrent: 1 } };
+
+      const first = factory.create(connectionDef, 'alice@example.com').findAll('extract_user');
+      const second = factory.create(connectionDef, 'bob@example.com').findAll('extract_user');
+      await flush();
+      expect(post).toHaveBeenCalledTimes(1);
+
+      release();
+      await first;
+      await flush();
+      expect(post).toHaveBeenCalledTimes(2);
+
+      release();
+      await second;
+    });
+
+    it('should use separate limiters for different appIds', async () => {
+      const { post, release } = setup();
+      const factory = new AppSheetClientFactory();
+      const rateLimit = { maxConcurrent: 1 };
+
+      const first = factory
+        .create({ ...mockConnectionDef, rateLimit }, 'user@example.com')
+        .findAll('extract_user');
+      const second = factory
+        .create({ ...mockConnectionDef, appId: 'other-app-id', rateLimit }, 'user@example.com')
+        .findAll('extract_user');
+      await flush();
+      expect(post).toHaveBeenCalledTimes(2);
+
+      release();
+      release();
+      await Promise.all([first, second]);
+    });
+  });
 });
 
 describe('MockAppSheetClientFactory', () => {
@@ -0,0 +1,137 @@
+/**
+ * Test Suite: CircuitBreaker
+ *
+ * Tests for:
+ * - Opening after the failure rate threshold with minimum requests
+ * - Rolling window expiry (also without failures)
+ * - Failing fast with CircuitOpenError while open
+ * - Half-open probing, closing and re-opening
+ * - Releasing cancelled probes
+ *
+ * @module tests/utils
+ */
+
+import { CircuitOpenError } from '../../src/types';
+import { CircuitBreaker } from '../../src/utils/CircuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  const clock = () => now;
+
+  /** Record a number of requests with the given outcome */
+  const record = (breaker: CircuitBreaker, count: number, failed: boolean) => {
+    for (let i = 0; i < count; i++) {
+      breaker.acquire();
+      if (failed) {
+        breaker.recordFailure();
+      } else {
+        breaker.recordSuccess();
+      }
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should stay closed until the minimum number of requests is reached', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 4 }, clock);
+
+    record(breaker, 3, true);
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', requests: 3, failures: 3 });
+  });
+
+  it('should open when the failure rate reaches the threshold', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 4, failureRateThreshold: 0.5 }, clock);
+
+    record(breaker, 2, false);
+    record(breaker, 1, true);
+    expect(breaker.getStatus().state).toBe('closed');
+
+    record(breaker, 1, true);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: 0, halfOpenAt: 30000 });
+  });
+
+  it('should only count outcomes within the window', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 2, windowMs: 1000 }, clock);
+
+    record(breaker, 1, true);
+    now = 1500;
+    record(breaker, 1, true);
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', requests: 1, failureRate: 1 });
+  });
+
+  it('should drop expired outcomes while only successes are recorded', () => {
+    const breaker = new CircuitBreaker({ windowMs: 1000 }, clock);
+
+    for (now = 0; now < 10000; now += 100) {
+      record(breaker, 1, false);
+    }
+
+    expect((breaker as any).outcomes).toHaveLength(10);
+  });
+
+  it('should fail fast with CircuitOpenError while open', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openDurationMs: 10000 }, clock);
+    record(breaker, 1, true);
+
+    now = 4000;
+    let error: unknown;
+    try {
+      breaker.acquire();
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).code).toBe('CIRCUIT_OPEN');
+    expect((error as CircuitOpenError).retryAfterMs).toBe(6000);
+  });
+
+  it('should half-open after the open duration and close after successful probes', () => {
+    const breaker = new CircuitBreaker(
+      { minimumRequests: 1, openDurationMs: 1000, halfOpenMaxRequests: 2 },
+      clock
+    );
+    record(breaker, 1, true);
+
+    now = 1000;
+    expect(breaker.getStatus().state).toBe('half-open');
+
+    breaker.acquire();
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    expect(breaker.getStatus().state).toBe('half-open');
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', requests: 0 });
+  });
+
+  it('should re-open if a probe fails', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openDurationMs: 1000 }, clock);
+    record(breaker, 1, true);
+
+    now = 1000;
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', openedAt: 1000 });
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should free the probe slot of a released request without closing', () => {
+    const breaker = new CircuitBreaker({ minimumRequests: 1, openDurationMs: 1000 }, clock);
+    record(breaker, 1, true);
+
+    now = 1000;
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.release();
+
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+});
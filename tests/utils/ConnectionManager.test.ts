@@ -11,6 +11,7 @@
  */
 
 import { ConnectionManager } from '../../src/utils/ConnectionManager';
+import { AppSheetClientFactory } from '../../src/client/AppSheetClientFactory';
 import {
   MockAppSheetClientFactory,
   MockAppSheetClient,
@@ -216,6 +217,43 @@ describe('ConnectionManager v3.0.0', () => {
     });
   });
 
+  describe('getCircuitBreakerStatus()', () => {
+    it('should return the status of the factory\'s shared circuit breaker', () => {
+      const schema: SchemaConfig = {
+        connections: {
+          ...testSchema.connections,
+          worklog: { ...testSchema.connections.worklog, circuitBreaker: { minimumRequests: 5 } },
+        },
+      };
+      const manager = new ConnectionManager(new AppSheetClientFactory(), schema);
+
+      expect(manager.getCircuitBreakerStatus('worklog')).toEqual({
+        state: 'closed',
+        requests: 0,
+        failures: 0,
+        failureRate: 0,
+        openedAt: undefined,
+        halfOpenAt: undefined,
+      });
+      expect(manager.getCircuitBreakerStatuses()).toEqual({
+        worklog: expect.objectContaining({ state: 'closed' }),
+        inventory: undefined,
+      });
+    });
+
+    it('should return undefined if the factory has no circuit breakers', () => {
+      const manager = new ConnectionManager(new MockAppSheetClientFactory(), testSchema);
+
+      expect(manager.getCircuitBreakerStatus('worklog')).toBeUndefined();
+    });
+
+    it('should throw for unknown connections', () => {
+      const manager = new ConnectionManager(new AppSheetClientFactory(), testSchema);
+
+      expect(() => manager.getCircuitBreakerStatus('missing')).toThrow(/not found/);
+    });
+  });
+
   describe('Factory injection patterns', () => {
     it('should enable testing with MockAppSheetClientFactory', async () => {
       const factory = new MockAppSheetClientFactory();
@@ -0,0 +1,247 @@
+/**
+ * QueryBuilder Tests
+ *
+ * Tests for the fluent query API: comparison operators, logical combinators,
+ * value escaping, date rendering, schema field checks and package exports.
+ */
+
+import { where, and, or, not, today, now, QueryCondition } from '../../src/utils/QueryBuilder';
+import { TableDefinition, ValidationError } from '../../src/types';
+import * as root from '../../src';
+
+interface Task {
+  id: string;
+  status: string;
+  title: string;
+  due: string;
+  created: string;
+  hours: number;
+  done: boolean;
+}
+
+const tableDef: TableDefinition = {
+  tableName: 'extract_task',
+  keyField: 'id',
+  fields: {
+    id: { type: 'Text', required: true },
+    status: { type: 'Enum', allowedValues: ['Active', 'Pending', 'Done'] },
+    title: { type: 'Text' },
+    due: { type: 'Date' },
+    created: { type: 'DateTime' },
+    hours: { type: 'Number' },
+    done: { type: 'YesNo' },
+  },
+};
+
+describe('QueryBuilder', () => {
+  // ────────────────────────────────────────────────────────────────────
+  // Comparison operators
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('comparison operators', () => {
+    it('should render eq with a quoted string', () => {
+      expect(where('status').eq('Active').toExpression()).toBe('[status] = "Active"');
+    });
+
+    it('should render ne, lt, lte, gt and gte', () => {
+      expect(where('status').ne('Done').toExpression()).toBe('[status] <> "Done"');
+      expect(where('hours').lt(8).toExpression()).toBe('[hours] < 8');
+      expect(where('hours').lte(8).toExpression()).toBe('[hours] <= 8');
+      expect(where('hours').gt(0.5).toExpression()).toBe('[hours] > 0.5');
+      expect(where('hours').gte(-1).toExpression()).toBe('[hours] >= -1');
+    });
+
+    it('should render booleans as TRUE/FALSE', () => {
+      expect(where('done').eq(true).toExpression()).toBe('[done] = TRUE');
+      expect(where('done').eq(false).toExpression()).toBe('[done] = FALSE');
+    });
+
+    it('should render in() as IN with LIST()', () => {
+      expect(where('status').in(['Active', 'Pending']).toExpression()).toBe(
+        'IN([status], LIST("Active", "Pending"))'
+      );
+    });
+
+    it('should render an empty in() list', () => {
+      expect(where('status').in([]).toExpression()).toBe('IN([status], LIST())');
+    });
+
+    it('should render contains, isBlank and isNotBlank', () => {
+      expect(where('title').contains('urgent').toExpression()).toBe('CONTAINS([title], "urgent")');
+      expect(where('due').isBlank().toExpression()).toBe('ISBLANK([due])');
+      expect(where('due').isNotBlank().toExpression()).toBe('ISNOTBLANK([due])');
+    });
+
+    it('should reject non-finite numbers', () => {
+      expect(() => where('hours').eq(NaN).toExpression()).toThrow(TypeError);
+      expect(() => where('hours').eq(Infinity).toExpression()).toThrow(TypeError);
+    });
+
+    it('should reject invalid field names', () => {
+      expect(() => where('')).toThrow(ValidationError);
+      expect(() => where('a] OR [b')).toThrow(ValidationError);
+    });
+  });
+
+  // ────────────────────────────────────────────────────────────────────
+  // Escaping
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('value escaping', () => {
+    it('should escape double quotes and backslashes', () => {
+      expect(where('title').eq('O"Brien \\ Co').toExpression()).toBe(
+        '[title] = "O\\"Brien \\\\ Co"'
+      );
+    });
+
+    it('should prevent injection through values', () => {
+      expect(where('id').eq('123" OR "1"="1').toExpression()).toBe(
+        '[id] = "123\\" OR \\"1\\"=\\"1"'
+      );
+    });
+
+    it('should escape values inside in() and contains()', () => {
+      expect(where('title').in(['a"b']).toExpression()).toBe('IN([title], LIST("a\\"b"))');
+      expect(where('title').contains('x"y').toExpression()).toBe('CONTAINS([title], "x\\"y")');
+    });
+  });
+
+  // ────────────────────────────────────────────────────────────────────
+  // Logical combinators
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('logical combinators', () => {
+    it('should chain and() on a condition', () => {
+      const query = where('status').eq('Active').and(where('hours').gt(2));
+      expect(query.toExpression()).toBe('AND([status] = "Active", [hours] > 2)');
+    });
+
+    it('should chain or() on a condition', () => {
+      const query = where('status').eq('Active').or(where('status').eq('Pending'));
+      expect(query.toExpression()).toBe('OR([status] = "Active", [status] = "Pending")');
+    });
+
+    it('should negate with not()', () => {
+      expect(where('status').eq('Done').not().toExpression()).toBe('NOT([status] = "Done")');
+      expect(not(where('due').isBlank()).toExpression()).toBe('NOT(ISBLANK([due]))');
+    });
+
+    it('should nest or groups inside and', () => {
+      const query = and(
+        where('hours').gt(0),
+        or(where('status').eq('Active'), where('status').eq('Pending'))
+      );
+      expect(query.toExpression()).toBe(
+        'AND([hours] > 0, OR([status] = "Active", [status] = "Pending"))'
+      );
+    });
+
+    it('should return a single condition unchanged', () => {
+      const condition = where('status').eq('Active');
+      expect(and(condition)).toBe(condition);
+      expect(or(condition)).toBe(condition);
+    });
+
+    it('should reject empty combinators', () => {
+      expect(() => and()).toThrow(ValidationError);
+      expect(() => or()).toThrow(ValidationError);
+    });
+
+    it('should collect referenced fields', () => {
+      const query = where('status')
+        .eq('Active')
+        .and(where('hours').gt(1), where('status').ne('Done'));
+      expect(query.getFields()).toEqual(['status', 'hours']);
+    });
+  });
+
+  // ────────────────────────────────────────────────────────────────────
+  // Dates and functions
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('dates and functions', () => {
+    it('should render TODAY() and NOW()', () => {
+      expect(where('due').lt(today()).toExpression()).toBe('[due] < TODAY()');
+      expect(where('created').lte(now()).toExpression()).toBe('[created] <= NOW()');
+    });
+
+    it('should support day arithmetic on functions', () => {
+      expect(where('due').gte(today().minus(7)).toExpression()).toBe('[due] >= TODAY() - 7');
+      expect(where('due').lte(today().plus(3)).toExpression()).toBe('[due] <= TODAY() + 3');
+    });
+
+    it('should render Date values as DATE() for Date fields', () => {
+      const date = new Date('2026-03-12T00:00:00Z');
+      expect(where('due').eq(date).toExpression(tableDef)).toBe('[due] = DATE("2026-03-12")');
+    });
+
+    it('should render Date values as DATETIME() for other fields', () => {
+      const date = new Date('2026-03-12T14:30:05Z');
+      expect(where('created').gt(date).toExpression(tableDef)).toBe(
+        '[created] > DATETIME("2026-03-12 14:30:05")'
+      );
+    });
+
+    it('should format dates inside nested groups using the table definition', () => {
+      const date = new Date('2026-03-12T00:00:00Z');
+      const query = where('status')
+        .eq('Active')
+        .and(or(where('due').lt(date), where('due').isBlank()));
+      expect(query.toExpression(tableDef)).toBe(
+        'AND([status] = "Active", OR([due] < DATE("2026-03-12"), ISBLANK([due])))'
+      );
+    });
+  });
+
+  // ────────────────────────────────────────────────────────────────────
+  // build() with TableDefinition
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('build', () => {
+    it('should wrap the expression in Filter() with the AppSheet table name', () => {
+      const query = where<Task>('status').eq('Active').and(where<Task>('due').lt(today()));
+      expect(query.build(tableDef)).toBe(
+        'Filter(extract_task, AND([status] = "Active", [due] < TODAY()))'
+      );
+    });
+
+    it('should throw ValidationError for unknown fields', () => {
+      const query = where('stauts').eq('Active').and(where('hourz').gt(1));
+
+      try {
+        query.build(tableDef);
+        fail('Should have thrown ValidationError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toContain('stauts');
+        expect(error.message).toContain('hourz');
+        expect(error.details.unknownFields).toEqual(['stauts', 'hourz']);
+      }
+    });
+
+    it('should accept AppSheet virtual columns', () => {
+      expect(where('_RowNumber').gt(10).build(tableDef)).toBe(
+        'Filter(extract_task, [_RowNumber] > 10)'
+      );
+    });
+
+    it('should return a QueryCondition from all entry points', () => {
+      expect(where('status').eq('x')).toBeInstanceOf(QueryCondition);
+      expect(not(where('status').eq('x'))).toBeInstanceOf(QueryCondition);
+    });
+  });
+
+  // ────────────────────────────────────────────────────────────────────
+  // Package exports
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('package exports', () => {
+    it('should export the combinators only under the query namespace', () => {
+      expect(root.where).toBe(where);
+      expect(root.query).toMatchObject({ where, and, or, not, today, now });
+      for (const name of ['and', 'or', 'not', 'today', 'now']) {
+        expect(root).not.toHaveProperty(name);
+      }
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Test Suite: RequestCoalescer
+ *
+ * Tests for:
+ * - Sharing in-flight tasks with the same key
+ * - Separate tasks for different keys
+ * - Releasing keys after success and failure
+ *
+ * @module tests/utils
+ */
+
+import { RequestCoalescer } from '../../src/utils/RequestCoalescer';
+
+/** Create a promise that can be resolved or rejected from outside */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('RequestCoalescer', () => {
+  it('should share the in-flight task for the same key', async () => {
+    const coalescer = new RequestCoalescer();
+    const pending = deferred<string>();
+    const task = jest.fn(() => pending.promise);
+
+    const first = coalescer.run('a', task);
+    const second = coalescer.run('a', task);
+    expect(coalescer.isInFlight('a')).toBe(true);
+
+    pending.resolve('result');
+    await expect(Promise.all([first, second])).resolves.toEqual(['result', 'result']);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run tasks with different keys separately', async () => {
+    const coalescer = new RequestCoalescer();
+    const task = jest.fn(async () => 'result');
+
+    await Promise.all([coalescer.run('a', task), coalescer.run('b', task)]);
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release the key after the task settled', async () => {
+    const coalescer = new RequestCoalescer();
+    const failing = jest.fn(async () => {
+      throw new Error('boom');
+    });
+
+    await expect(
+      Promise.all([coalescer.run('a', failing), coalescer.run('a', failing)])
+    ).rejects.toThrow('boom');
+    expect(coalescer.isInFlight('a')).toBe(false);
+    expect(coalescer.inFlightCount).toBe(0);
+
+    await expect(coalescer.run('a', async () => 'again')).resolves.toBe('again');
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
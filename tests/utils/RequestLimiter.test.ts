@@ -0,0 +1,228 @@
+/**
+ * Unit tests for RequestLimiter
+ *
+ * Covers:
+ * - Concurrency limit (max in flight) with FIFO queueing
+ * - Token bucket rate limit with burst
+ * - Queue timeout (QueueTimeoutError)
+ * - Slot release on task failure
+ * - Cancellation of waiting tasks via AbortSignal
+ * - Option validation
+ */
+
+import { RequestLimiter } from '../../src/utils/RequestLimiter';
+import { CancellationError, QueueTimeoutError, ValidationError } from '../../src/types';
+
+/**
+ * Creates a task that stays pending until resolved from the outside.
+ */
+function deferred<T = string>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject, task: jest.fn(() => promise) };
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('RequestLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('concurrency limit', () => {
+    it('should limit the number of tasks in flight', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 2 });
+      const tasks = [deferred(), deferred(), deferred()];
+
+      const results = tasks.map((d) => limiter.schedule(d.task));
+      await flush();
+
+      expect(tasks[0].task).toHaveBeenCalled();
+      expect(tasks[1].task).toHaveBeenCalled();
+      expect(tasks[2].task).not.toHaveBeenCalled();
+      expect(limiter.activeCount).toBe(2);
+      expect(limiter.queuedCount).toBe(1);
+
+      tasks[0].resolve('a');
+      await flush();
+      expect(tasks[2].task).toHaveBeenCalled();
+
+      tasks[1].resolve('b');
+      tasks[2].resolve('c');
+      await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+      expect(limiter.activeCount).toBe(0);
+    });
+
+    it('should release the slot when a task fails', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 1 });
+      const failing = deferred();
+      const next = deferred();
+
+      const first = limiter.schedule(failing.task);
+      const second = limiter.schedule(next.task);
+      failing.reject(new Error('boom'));
+
+      await expect(first).rejects.toThrow('boom');
+      await flush();
+      expect(next.task).toHaveBeenCalled();
+
+      next.resolve('ok');
+      await expect(second).resolves.toBe('ok');
+    });
+  });
+
+  describe('rate limit', () => {
+    it('should start burst tasks immediately and the rest at the refill rate', async () => {
+      const limiter = new RequestLimiter({ requestsPerSecond: 2, burst: 2 });
+      const task = jest.fn(async () => 'done');
+
+      const results = Array.from({ length: 4 }, () => limiter.schedule(task));
+      await flush();
+      expect(task).toHaveBeenCalledTimes(2);
+
+      jest.advanceTimersByTime(499);
+      await flush();
+      expect(task).toHaveBeenCalledTimes(2);
+
+      jest.advanceTimersByTime(1);
+      await flush();
+      expect(task).toHaveBeenCalledTimes(3);
+
+      jest.advanceTimersByTime(500);
+      await flush();
+      expect(task).toHaveBeenCalledTimes(4);
+
+      await Promise.all(results);
+    });
+
+    it('should default the burst to one second of requests', async () => {
+      const limiter = new RequestLimiter({ requestsPerSecond: 3 });
+      const task = jest.fn(async () => 'done');
+
+      const results = Array.from({ length: 4 }, () => limiter.schedule(task));
+      await flush();
+      expect(task).toHaveBeenCalledTimes(3);
+
+      jest.advanceTimersByTime(334);
+      await Promise.all(results);
+      expect(task).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not limit without options', async () => {
+      const limiter = new RequestLimiter();
+      const task = jest.fn(async () => 'done');
+
+      await Promise.all(Array.from({ length: 50 }, () => limiter.schedule(task)));
+      expect(task).toHaveBeenCalledTimes(50);
+    });
+
+    it('should ignore the burst without requestsPerSecond', async () => {
+      const limiter = new RequestLimiter({ burst: 2 });
+      const task = jest.fn(async () => 'done');
+
+      await Promise.all(Array.from({ length: 3 }, () => limiter.schedule(task)));
+      expect(task).toHaveBeenCalledTimes(3);
+      expect(limiter.queuedCount).toBe(0);
+    });
+  });
+
+  describe('queue timeout', () => {
+    it('should reject tasks that wait longer than queueTimeoutMs', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 1, queueTimeoutMs: 1000 });
+      const running = deferred();
+      const waiting = deferred();
+
+      const first = limiter.schedule(running.task);
+      const second = limiter.schedule(waiting.task);
+      jest.advanceTimersByTime(1000);
+
+      await expect(second).rejects.toThrow(QueueTimeoutError);
+      await expect(second).rejects.toMatchObject({
+        code: 'QUEUE_TIMEOUT',
+        details: { queueTimeoutMs: 1000 },
+      });
+      expect(waiting.task).not.toHaveBeenCalled();
+      expect(limiter.queuedCount).toBe(0);
+
+      running.resolve('ok');
+      await expect(first).resolves.toBe('ok');
+    });
+
+    it('should not time out tasks that started in time', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 1, queueTimeoutMs: 1000 });
+      const running = deferred();
+
+      const result = limiter.schedule(running.task);
+      jest.advanceTimersByTime(5000);
+      running.resolve('slow but fine');
+
+      await expect(result).resolves.toBe('slow but fine');
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should remove a cancelled task from the queue without starting it', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 1 });
+      const running = deferred();
+      const cancelled = deferred();
+      const next = deferred();
+      const controller = new AbortController();
+
+      const first = limiter.schedule(running.task);
+      const second = limiter.schedule(cancelled.task, controller.signal);
+      const third = limiter.schedule(next.task);
+      controller.abort();
+
+      await expect(second).rejects.toThrow(CancellationError);
+      expect(limiter.queuedCount).toBe(1);
+
+      running.resolve('first');
+      await first;
+      await flush();
+      expect(cancelled.task).not.toHaveBeenCalled();
+      expect(next.task).toHaveBeenCalledTimes(1);
+
+      next.resolve('third');
+      await expect(third).resolves.toBe('third');
+    });
+
+    it('should not queue a task whose signal is already aborted', async () => {
+      const limiter = new RequestLimiter({ maxConcurrent: 1 });
+      const task = jest.fn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(limiter.schedule(task, controller.signal)).rejects.toMatchObject({
+        code: 'CANCELLED',
+      });
+      expect(task).not.toHaveBeenCalled();
+      expect(limiter.activeCount).toBe(0);
+    });
+  });
+
+  describe('options', () => {
+    it.each([
+      ['requestsPerSecond', { requestsPerSecond: 0 }],
+      ['requestsPerSecond', { requestsPerSecond: NaN }],
+      ['burst', { burst: -1 }],
+      ['maxConcurrent', { maxConcurrent: 1.5 }],
+      ['maxConcurrent', { maxConcurrent: Infinity }],
+      ['queueTimeoutMs', { queueTimeoutMs: 0 }],
+    ])('should reject an invalid %s', (name, options) => {
+      expect(() => new RequestLimiter(options)).toThrow(ValidationError);
+      expect(() => new RequestLimiter(options)).toThrow(`${name} must be a positive`);
+    });
+  });
+});
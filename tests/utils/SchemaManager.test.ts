@@ -95,6 +95,40 @@ describe('SchemaManager v3.0.0', () => {
       expect(() => new SchemaManager(factory, invalidSchema)).toThrow(/Invalid schema/);
     });
 
+    it('should reject invalid table cache TTLs', () => {
+      const factory = new MockAppSheetClientFactory();
+      const invalidSchema: SchemaConfig = {
+        connections: {
+          default: {
+            appId: 'app',
+            applicationAccessKey: 'key',
+            tables: {
+              areas: { tableName: 'area', keyField: 'id', fields: {}, cache: { ttlMs: 0 } },
+            },
+          },
+        },
+      };
+
+      expect(() => new SchemaManager(factory, invalidSchema)).toThrow(/cache\.ttlMs/);
+    });
+
+    it('should reject invalid table actions', () => {
+      const factory = new MockAppSheetClientFactory();
+      const invalidSchema: SchemaConfig = {
+        connections: {
+          default: {
+            appId: 'app',
+            applicationAccessKey: 'key',
+            tables: {
+              tasks: { tableName: 'task', keyField: 'id', fields: {}, actions: ['Done', ''] },
+            },
+          },
+        },
+      };
+
+      expect(() => new SchemaManager(factory, invalidSchema)).toThrow(/actions must be a list/);
+    });
+
     it('should work with MockAppSheetClientFactory', () => {
       const factory = new MockAppSheetClientFactory();
       const manager = new SchemaManager(factory, baseSchema);
@@ -155,6 +189,24 @@ describe('SchemaManager v3.0.0', () => {
         /Invalid schema/
       );
     });
+
+    it('should log the loaded schema and pass the logger to the internal table factory', () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      const manager = new SchemaManager(new MockAppSheetClientFactory(), baseSchema, undefined, {
+        logger,
+      });
+      manager.table('test-conn', 'users', 'user@example.com');
+
+      expect(logger.info).toHaveBeenCalledWith('Schema loaded', {
+        connections: ['test-conn', 'hr-conn'],
+        tableCount: 3,
+      });
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Created DynamicTable',
+        expect.objectContaining({ connectionName: 'test-conn', tableName: 'users' })
+      );
+    });
   });
 
   describe('table()', () => {
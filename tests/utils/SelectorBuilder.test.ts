@@ -8,7 +8,7 @@
  */
 
 import { SelectorBuilder } from '../../src/utils/SelectorBuilder';
-import { SelectorBuilderInterface } from '../../src/types';
+import { SelectorBuilderInterface, ValidationError } from '../../src/types';
 
 describe('SelectorBuilder', () => {
   let builder: SelectorBuilderInterface;
@@ -23,6 +23,7 @@ describe('SelectorBuilder', () => {
     expect(builder.escapeValue).toBeDefined();
     expect(builder.buildFilter).toBeDefined();
     expect(builder.isSafeIdentifier).toBeDefined();
+    expect(builder.applyOrderAndLimit).toBeDefined();
   });
 
   // ────────────────────────────────────────────────────────────────────
@@ -266,6 +267,63 @@ describe('SelectorBuilder', () => {
     });
   });
 
+  // ────────────────────────────────────────────────────────────────────
+  // applyOrderAndLimit()
+  // ────────────────────────────────────────────────────────────────────
+
+  describe('applyOrderAndLimit', () => {
+    const base = 'Filter(People, [Age] >= 21)';
+    const selectorBuilder = new SelectorBuilder();
+
+    it('should return the selector unchanged without order and limit', () => {
+      expect(selectorBuilder.applyOrderAndLimit(base)).toBe(base);
+      expect(selectorBuilder.applyOrderAndLimit(base, [])).toBe(base);
+    });
+
+    it('should wrap in OrderBy() with ascending as default', () => {
+      expect(selectorBuilder.applyOrderAndLimit(base, [{ field: 'LastName' }])).toBe(
+        'OrderBy(Filter(People, [Age] >= 21), [LastName], FALSE)'
+      );
+    });
+
+    it('should render multiple sort keys with their directions', () => {
+      expect(
+        selectorBuilder.applyOrderAndLimit(base, [
+          { field: 'Age', direction: 'desc' },
+          { field: 'LastName', direction: 'asc' },
+        ])
+      ).toBe('OrderBy(Filter(People, [Age] >= 21), [Age], TRUE, [LastName], FALSE)');
+    });
+
+    it('should wrap in Top() for a limit', () => {
+      expect(selectorBuilder.applyOrderAndLimit(base, undefined, 5)).toBe(
+        'Top(Filter(People, [Age] >= 21), 5)'
+      );
+    });
+
+    it('should compose Top(OrderBy(Filter(...)))', () => {
+      expect(selectorBuilder.applyOrderAndLimit(base, [{ field: 'LastName' }], 10)).toBe(
+        'Top(OrderBy(Filter(People, [Age] >= 21), [LastName], FALSE), 10)'
+      );
+    });
+
+    it('should reject invalid limits', () => {
+      expect(() => selectorBuilder.applyOrderAndLimit(base, undefined, 0)).toThrow(ValidationError);
+      expect(() => selectorBuilder.applyOrderAndLimit(base, undefined, -1)).toThrow(
+        ValidationError
+      );
+      expect(() => selectorBuilder.applyOrderAndLimit(base, undefined, 2.5)).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject sort fields with brackets', () => {
+      expect(() => selectorBuilder.applyOrderAndLimit(base, [{ field: 'a], [b' }])).toThrow(
+        ValidationError
+      );
+    });
+  });
+
   // ────────────────────────────────────────────────────────────────────
   // isSafeIdentifier()
   // ────────────────────────────────────────────────────────────────────
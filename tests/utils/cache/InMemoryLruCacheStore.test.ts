@@ -0,0 +1,71 @@
+/**
+ * Test Suite: InMemoryLruCacheStore
+ *
+ * Tests for:
+ * - get/set/delete
+ * - TTL expiry
+ * - LRU eviction
+ * - Prefix invalidation
+ *
+ * @module tests/utils/cache
+ */
+
+import { InMemoryLruCacheStore } from '../../../src/utils/cache';
+
+describe('InMemoryLruCacheStore', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1000;
+  });
+
+  it('should store, return and delete values', async () => {
+    const store = new InMemoryLruCacheStore({ now: clock });
+
+    await store.set('a', { rows: [1] }, 100);
+    expect(await store.get('a')).toEqual({ rows: [1] });
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const store = new InMemoryLruCacheStore({ now: clock });
+    await store.set('a', 'value', 100);
+
+    now = 1099;
+    expect(await store.get('a')).toBe('value');
+
+    now = 1100;
+    expect(await store.get('a')).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new InMemoryLruCacheStore({ maxEntries: 2, now: clock });
+    await store.set('a', 1, 100);
+    await store.set('b', 2, 100);
+
+    // Touch "a" so "b" becomes the least recently used entry
+    await store.get('a');
+    await store.set('c', 3, 100);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should delete all entries with a prefix', async () => {
+    const store = new InMemoryLruCacheStore({ now: clock });
+    await store.set('app:users:1', 1, 100);
+    await store.set('app:users:2', 2, 100);
+    await store.set('app:areas:1', 3, 100);
+
+    await store.deletePrefix('app:users:');
+
+    expect(await store.get('app:users:1')).toBeUndefined();
+    expect(await store.get('app:users:2')).toBeUndefined();
+    expect(await store.get('app:areas:1')).toBe(3);
+  });
+});
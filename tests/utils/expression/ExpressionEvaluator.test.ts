@@ -0,0 +1,195 @@
+/**
+ * Unit tests for the ExpressionEvaluator
+ *
+ * Covers:
+ * - Selector functions: Filter, Select, OrderBy, Top and bare conditions
+ * - Logical operators, comparisons and IN
+ * - Text, numeric, Yes/No and date semantics (including TODAY() arithmetic)
+ * - Clear errors for unsupported constructs
+ */
+
+import { ExpressionEvaluator } from '../../../src/utils/expression/ExpressionEvaluator';
+import { ExpressionSyntaxError, UnsupportedExpressionError } from '../../../src/types';
+
+interface Task {
+  id: string;
+  title: string;
+  status?: string;
+  hours?: number | string;
+  done?: boolean | string;
+  due?: string;
+  tags?: string;
+}
+
+const rows: Task[] = [
+  { id: '1', title: 'Fix login', status: 'Active', hours: 5, done: false, due: '2026-03-10' },
+  {
+    id: '2',
+    title: 'Urgent: deploy',
+    status: 'Pending',
+    hours: '12',
+    done: 'Y',
+    due: '2026-03-20',
+  },
+  { id: '3', title: 'Write docs', status: 'Done', hours: 2, done: true, tags: 'docs , writing' },
+  { id: '4', title: 'Review PR', status: '', hours: 8, done: 'N', due: '03/12/2026' },
+];
+
+const ids = (result: Task[]) => result.map((row) => row.id);
+
+describe('ExpressionEvaluator', () => {
+  const evaluator = new ExpressionEvaluator({ now: () => new Date('2026-03-15T10:30:00Z') });
+
+  describe('selector functions', () => {
+    it('should filter rows with Filter()', () => {
+      expect(ids(evaluator.select(rows, 'Filter(Tasks, [hours] > 4)'))).toEqual(['1', '2', '4']);
+    });
+
+    it('should filter rows with Select()', () => {
+      expect(ids(evaluator.select(rows, 'Select(Tasks[id], [status] = "Done", TRUE)'))).toEqual([
+        '3',
+      ]);
+    });
+
+    it('should accept bare conditions', () => {
+      expect(ids(evaluator.select(rows, '[status] = "Active"'))).toEqual(['1']);
+    });
+
+    it('should sort with OrderBy() and limit with Top()', () => {
+      const result = evaluator.select(
+        rows,
+        'Top(OrderBy(Filter(Tasks, TRUE), [hours], TRUE, [id], FALSE), 2)'
+      );
+      expect(ids(result)).toEqual(['2', '4']);
+    });
+
+    it('should sort blanks first and default to ascending', () => {
+      expect(ids(evaluator.select(rows, 'OrderBy(Filter(Tasks, TRUE), [status])'))).toEqual([
+        '4',
+        '1',
+        '3',
+        '2',
+      ]);
+    });
+
+    it('should sort date strings as dates', () => {
+      expect(ids(evaluator.select(rows, 'OrderBy(Filter(Tasks, TRUE), [due])'))).toEqual([
+        '3',
+        '1',
+        '4',
+        '2',
+      ]);
+    });
+
+    it('should not modify the input rows', () => {
+      const copy = [...rows];
+      evaluator.select(rows, 'OrderBy(Filter(Tasks, TRUE), [hours], TRUE)');
+      expect(rows).toEqual(copy);
+    });
+  });
+
+  describe('logical operators and comparisons', () => {
+    it('should combine conditions with AND, OR and NOT', () => {
+      expect(ids(evaluator.select(rows, '[hours] > 4 AND NOT([done] = TRUE)'))).toEqual(['1', '4']);
+      expect(ids(evaluator.select(rows, 'OR([status] = "Done", [id] = "1")'))).toEqual(['1', '3']);
+    });
+
+    it('should compare text case-insensitively', () => {
+      expect(ids(evaluator.select(rows, '[status] = "active"'))).toEqual(['1']);
+      expect(ids(evaluator.select(rows, '[status] <> "ACTIVE"'))).toEqual(['2', '3', '4']);
+    });
+
+    it('should compare numeric strings as numbers', () => {
+      expect(ids(evaluator.select(rows, '[hours] >= 10'))).toEqual(['2']);
+      expect(ids(evaluator.select(rows, '[hours] <= 2'))).toEqual(['3']);
+    });
+
+    it('should compare Yes/No values from booleans and text', () => {
+      expect(ids(evaluator.select(rows, '[done] = TRUE'))).toEqual(['2', '3']);
+      expect(ids(evaluator.select(rows, '[done]'))).toEqual(['2', '3']);
+    });
+
+    it('should treat blank values as equal only to blanks', () => {
+      expect(ids(evaluator.select(rows, '[status] = ""'))).toEqual(['4']);
+      expect(ids(evaluator.select(rows, '[due] < DATE("2030-01-01")'))).toEqual(['1', '2', '4']);
+    });
+
+    it('should match IN() against LIST(), braces and EnumList values', () => {
+      expect(ids(evaluator.select(rows, 'IN([status], LIST("Active", "Done"))'))).toEqual([
+        '1',
+        '3',
+      ]);
+      expect(ids(evaluator.select(rows, "[id] IN ('2', '4')"))).toEqual(['2', '4']);
+      expect(ids(evaluator.select(rows, 'IN("writing", [tags])'))).toEqual(['3']);
+    });
+  });
+
+  describe('functions', () => {
+    it('should evaluate CONTAINS, STARTSWITH and ENDSWITH case-insensitively', () => {
+      expect(ids(evaluator.select(rows, 'CONTAINS([title], "urgent")'))).toEqual(['2']);
+      expect(ids(evaluator.select(rows, 'STARTSWITH([title], "write")'))).toEqual(['3']);
+      expect(ids(evaluator.select(rows, 'ENDSWITH([title], "PR")'))).toEqual(['4']);
+    });
+
+    it('should evaluate ISBLANK and ISNOTBLANK', () => {
+      expect(ids(evaluator.select(rows, 'ISBLANK([due])'))).toEqual(['3']);
+      expect(ids(evaluator.select(rows, 'ISNOTBLANK([status])'))).toEqual(['1', '2', '3']);
+    });
+
+    it('should evaluate LOWER, UPPER and LEN', () => {
+      expect(evaluator.test('LOWER([title]) = "fix login"', rows[0])).toBe(true);
+      expect(evaluator.test('UPPER([title]) = "FIX LOGIN"', rows[0])).toBe(true);
+      expect(evaluator.test('LEN([title]) = 9', rows[0])).toBe(true);
+    });
+  });
+
+  describe('dates', () => {
+    it('should compare ISO and US date values against DATE() literals', () => {
+      expect(ids(evaluator.select(rows, '[due] = DATE("2026-03-12")'))).toEqual(['4']);
+      expect(ids(evaluator.select(rows, '[due] > DATE("2026-03-11")'))).toEqual(['2', '4']);
+    });
+
+    it('should evaluate TODAY() with day arithmetic', () => {
+      expect(ids(evaluator.select(rows, '[due] < TODAY()'))).toEqual(['1', '4']);
+      expect(ids(evaluator.select(rows, '[due] >= TODAY() - 3'))).toEqual(['2', '4']);
+      expect(ids(evaluator.select(rows, '[due] <= TODAY() + 5'))).toEqual(['1', '2', '4']);
+    });
+
+    it('should compare DATETIME() against NOW()', () => {
+      expect(evaluator.test('DATETIME("2026-03-15 10:00:00") < NOW()', {})).toBe(true);
+      expect(evaluator.test('DATE("2026-03-15") = TODAY()', {})).toBe(true);
+    });
+
+    it('should compute date differences in days', () => {
+      expect(evaluator.test('TODAY() - [due] = 5', rows[0])).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['unknown functions', 'LOOKUP([id], "Tasks", "id", "title") = "x"', 'LOOKUP'],
+      ['nested selector functions', 'IN([id], Select(Tasks[id], TRUE))', 'top level'],
+      ['table references in conditions', '[id] = Tasks', 'Tasks'],
+      ['non Yes/No conditions', '[title]', 'Yes/No'],
+      ['wrong arity', 'CONTAINS([title])', 'expects 2'],
+      ['text arithmetic', '[title] + 1 > 0', 'requires numbers'],
+    ])('should throw UnsupportedExpressionError for %s', (_label, selector, message) => {
+      expect(() => evaluator.select(rows, selector)).toThrow(UnsupportedExpressionError);
+      expect(() => evaluator.select(rows, selector)).toThrow(message);
+    });
+
+    it('should include the offending expression in error details', () => {
+      try {
+        evaluator.select(rows, 'AND([id] = "1", SWITCH([status], "a", TRUE, FALSE))');
+        fail('Should have thrown UnsupportedExpressionError');
+      } catch (error: any) {
+        expect(error.code).toBe('UNSUPPORTED_EXPRESSION');
+        expect(error.details).toEqual({ expression: 'SWITCH([status], "a", TRUE, FALSE)' });
+      }
+    });
+
+    it('should throw ExpressionSyntaxError for invalid selectors', () => {
+      expect(() => evaluator.select(rows, 'Filter(Tasks, [id] = )')).toThrow(ExpressionSyntaxError);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for the AppSheet expression tokenizer, parser and printer
+ *
+ * Covers:
+ * - Tokenizing fields, strings, numbers, operators and punctuation
+ * - Parsing selector functions, logical operators (infix and function form),
+ *   comparisons, IN, literals and arithmetic
+ * - Syntax errors with positions
+ * - Printing ASTs back to canonical expressions (round trip)
+ */
+
+import { ExpressionTokenizer } from '../../../src/utils/expression/ExpressionTokenizer';
+import { ExpressionParser } from '../../../src/utils/expression/ExpressionParser';
+import { ExpressionPrinter } from '../../../src/utils/expression/ExpressionPrinter';
+import { SelectorBuilder } from '../../../src/utils/SelectorBuilder';
+import { where, today } from '../../../src/utils/QueryBuilder';
+import { ExpressionSyntaxError } from '../../../src/types';
+
+const field = (name: string) => ({ type: 'Field', name });
+const str = (value: string) => ({ type: 'Literal', valueType: 'string', value });
+const num = (value: number) => ({ type: 'Literal', valueType: 'number', value });
+
+describe('ExpressionTokenizer', () => {
+  it('should tokenize fields, operators and numbers with positions', () => {
+    expect(ExpressionTokenizer.tokenize('[Age] >= 21')).toEqual([
+      { type: 'Field', value: 'Age', position: 0 },
+      { type: 'Operator', value: '>=', position: 6 },
+      { type: 'Number', value: '21', position: 9 },
+      { type: 'End', value: '', position: 11 },
+    ]);
+  });
+
+  it('should keep spaces inside field names', () => {
+    expect(ExpressionTokenizer.tokenize('[First Name]')[0].value).toBe('First Name');
+  });
+
+  it('should unescape double- and single-quoted strings', () => {
+    const tokens = ExpressionTokenizer.tokenize('"O\\"Brien \\\\ Co" \'it\\\'s\'');
+    expect(tokens.slice(0, 2).map((t) => t.value)).toEqual(['O"Brien \\ Co', "it's"]);
+  });
+
+  it('should throw ExpressionSyntaxError for unterminated strings and fields', () => {
+    expect(() => ExpressionTokenizer.tokenize('[Name] = "abc')).toThrow(ExpressionSyntaxError);
+    expect(() => ExpressionTokenizer.tokenize('[Name = "abc"')).toThrow(ExpressionSyntaxError);
+  });
+
+  it('should report the position of unexpected characters', () => {
+    try {
+      ExpressionTokenizer.tokenize('[a] = 1 ; 2');
+      fail('Should have thrown ExpressionSyntaxError');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(ExpressionSyntaxError);
+      expect(error.position).toBe(8);
+      expect(error.code).toBe('EXPRESSION_SYNTAX_ERROR');
+    }
+  });
+});
+
+describe('ExpressionParser', () => {
+  describe('selector functions', () => {
+    it('should parse Filter with table identifier and condition', () => {
+      expect(ExpressionParser.parse('Filter(People, [Age] >= 21)')).toEqual({
+        type: 'Call',
+        name: 'Filter',
+        args: [
+          { type: 'Identifier', name: 'People' },
+          { type: 'Comparison', operator: '>=', left: field('Age'), right: num(21) },
+        ],
+      });
+    });
+
+    it('should parse Select with table-qualified column list', () => {
+      const ast = ExpressionParser.parse('Select(People[_ComputedKey], [Active] = TRUE)');
+      expect(ast).toMatchObject({
+        type: 'Call',
+        name: 'Select',
+        args: [
+          { type: 'Field', name: '_ComputedKey', table: 'People' },
+          {
+            type: 'Comparison',
+            right: { type: 'Literal', valueType: 'boolean', value: true },
+          },
+        ],
+      });
+    });
+
+    it('should parse nested OrderBy and Top', () => {
+      const ast = ExpressionParser.parse(
+        'Top(OrderBy(Filter(People, TRUE), [Name], FALSE, [Age], TRUE), 10)'
+      );
+      expect(ast).toMatchObject({
+        type: 'Call',
+        name: 'Top',
+        args: [
+          { type: 'Call', name: 'OrderBy', args: [{ name: 'Filter' }, {}, {}, {}, {}] },
+          num(10),
+        ],
+      });
+    });
+  });
+
+  describe('logical operators', () => {
+    it('should parse infix AND/OR with AND binding tighter', () => {
+      expect(ExpressionParser.parse('[a] = 1 OR [b] = 2 AND [c] = 3')).toEqual({
+        type: 'Logical',
+        operator: 'OR',
+        operands: [
+          { type: 'Comparison', operator: '=', left: field('a'), right: num(1) },
+          {
+            type: 'Logical',
+            operator: 'AND',
+            operands: [
+              { type: 'Comparison', operator: '=', left: field('b'), right: num(2) },
+              { type: 'Comparison', operator: '=', left: field('c'), right: num(3) },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should parse function-form and infix operators to the same AST', () => {
+      expect(ExpressionParser.parse('AND([a] = 1, [b] = 2)')).toEqual(
+        ExpressionParser.parse('[a] = 1 and [b] = 2')
+      );
+      expect(ExpressionParser.parse('NOT([a] = 1)')).toEqual(ExpressionParser.parse('NOT [a] = 1'));
+    });
+
+    it('should flatten chained infix operators', () => {
+      const ast = ExpressionParser.parse('[a] = 1 AND [b] = 2 AND [c] = 3');
+      expect(ast).toMatchObject({ type: 'Logical', operator: 'AND' });
+      expect((ast as any).operands).toHaveLength(3);
+    });
+
+    it('should respect parentheses', () => {
+      expect(ExpressionParser.parse('([a] = 1 OR [b] = 2) AND [c] = 3')).toMatchObject({
+        type: 'Logical',
+        operator: 'AND',
+        operands: [{ type: 'Logical', operator: 'OR' }, { type: 'Comparison' }],
+      });
+    });
+  });
+
+  describe('comparisons and membership', () => {
+    it('should normalize != to <>', () => {
+      expect(ExpressionParser.parse('[Status] != "Done"')).toMatchObject({ operator: '<>' });
+    });
+
+    it('should parse all comparison operators', () => {
+      for (const operator of ['=', '<>', '<', '>', '<=', '>=']) {
+        expect(ExpressionParser.parse(`[x] ${operator} 1`)).toMatchObject({
+          type: 'Comparison',
+          operator,
+        });
+      }
+    });
+
+    it('should parse IN with LIST() and with braces', () => {
+      const expected = {
+        type: 'In',
+        value: field('Status'),
+        list: { type: 'List', items: [str('A'), str('B')] },
+      };
+      expect(ExpressionParser.parse('IN([Status], LIST("A", "B"))')).toEqual(expected);
+      expect(ExpressionParser.parse('IN([Status], {"A", "B"})')).toEqual(expected);
+      expect(ExpressionParser.parse('[Status] IN ("A", "B")')).toEqual(expected);
+    });
+  });
+
+  describe('literals and functions', () => {
+    it('should parse DATE and DATETIME with constant strings as date literals', () => {
+      expect(ExpressionParser.parse('DATE("2026-03-12")')).toEqual({
+        type: 'Literal',
+        valueType: 'date',
+        value: '2026-03-12',
+      });
+      expect(ExpressionParser.parse('DATETIME("2026-03-12 14:30:05")')).toEqual({
+        type: 'Literal',
+        valueType: 'datetime',
+        value: '2026-03-12 14:30:05',
+      });
+    });
+
+    it('should keep DATE() with non-constant arguments as a call', () => {
+      expect(ExpressionParser.parse('DATE([Created])')).toEqual({
+        type: 'Call',
+        name: 'DATE',
+        args: [field('Created')],
+      });
+    });
+
+    it('should parse common functions as calls', () => {
+      expect(ExpressionParser.parse('CONTAINS([Title], "urgent")')).toEqual({
+        type: 'Call',
+        name: 'CONTAINS',
+        args: [field('Title'), str('urgent')],
+      });
+      expect(ExpressionParser.parse('ISBLANK([Due])')).toMatchObject({ name: 'ISBLANK' });
+    });
+
+    it('should parse arithmetic with standard precedence', () => {
+      expect(ExpressionParser.parse('[Due] >= TODAY() - 7 * 2')).toEqual({
+        type: 'Comparison',
+        operator: '>=',
+        left: field('Due'),
+        right: {
+          type: 'Arithmetic',
+          operator: '-',
+          left: { type: 'Call', name: 'TODAY', args: [] },
+          right: { type: 'Arithmetic', operator: '*', left: num(7), right: num(2) },
+        },
+      });
+    });
+
+    it('should fold negative numbers into literals', () => {
+      expect(ExpressionParser.parse('[x] > -1.5')).toMatchObject({ right: num(-1.5) });
+    });
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ['empty expression', ''],
+      ['missing closing paren', 'Filter(People, [a] = 1'],
+      ['trailing input', '[a] = 1 [b]'],
+      ['dangling operator', '[a] ='],
+      ['wrong NOT arity', 'NOT([a], [b])'],
+      ['IN without list', '[a] IN "x"'],
+    ])('should reject %s', (_label, expression) => {
+      expect(() => ExpressionParser.parse(expression)).toThrow(ExpressionSyntaxError);
+    });
+
+    it('should include the expression in error details', () => {
+      try {
+        ExpressionParser.parse('[a] = = 1');
+        fail('Should have thrown ExpressionSyntaxError');
+      } catch (error: any) {
+        expect(error.position).toBe(6);
+        expect(error.details).toEqual({ expression: '[a] = = 1' });
+      }
+    });
+  });
+});
+
+describe('ExpressionPrinter', () => {
+  it('should print canonical function-form output', () => {
+    const ast = ExpressionParser.parse("[Status] = 'Active' and [Name] IN ('A', 'B')");
+    expect(ExpressionPrinter.print(ast)).toBe(
+      'AND([Status] = "Active", IN([Name], LIST("A", "B")))'
+    );
+  });
+
+  it('should escape strings like SelectorBuilder', () => {
+    const value = 'O"Brien \\ Co';
+    const ast = { type: 'Literal' as const, valueType: 'string' as const, value };
+    expect(ExpressionPrinter.print(ast)).toBe(`"${new SelectorBuilder().escapeValue(value)}"`);
+  });
+
+  it('should parenthesize only where precedence requires it', () => {
+    expect(ExpressionPrinter.print(ExpressionParser.parse('([a] - 1) - 2 > [b] * (2 + 3)'))).toBe(
+      '[a] - 1 - 2 > [b] * (2 + 3)'
+    );
+    expect(ExpressionPrinter.print(ExpressionParser.parse('[a] - (1 - 2) = ([b] = TRUE)'))).toBe(
+      '[a] - (1 - 2) = ([b] = TRUE)'
+    );
+  });
+
+  it.each([
+    'Filter(People, [Age] >= 21)',
+    'Top(OrderBy(Filter(People, TRUE), [Name], FALSE), 10)',
+    'Select(People[_ComputedKey], OR(ISBLANK([Due]), [Due] < TODAY() - 7))',
+    'NOT(IN([Status], {"Done", "Closed"}))',
+    '[Created] > DATETIME("2026-03-12 14:30:05") AND [Due] = DATE("2026-03-12")',
+    '[x] <> -3 OR [y] != "a\\"b"',
+  ])('should round-trip %s', (expression) => {
+    const ast = ExpressionParser.parse(expression);
+    expect(ExpressionParser.parse(ExpressionPrinter.print(ast))).toEqual(ast);
+  });
+
+  it('should round-trip QueryBuilder output unchanged', () => {
+    const expression = where('status')
+      .in(['Active', 'Pending'])
+      .and(where('due').gte(today().minus(7)), where('title').contains('x"y'))
+      .toExpression();
+    expect(ExpressionPrinter.print(ExpressionParser.parse(expression))).toBe(expression);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for logger implementations
+ *
+ * Tests:
+ * - RedactingLogger (ApplicationAccessKey and configured fields, nested values, wrap())
+ * - ConsoleLogger (level filtering, console methods)
+ * - PinoLoggerAdapter (argument order)
+ */
+
+import {
+  ConsoleLogger,
+  NoOpLogger,
+  PinoLoggerAdapter,
+  RedactingLogger,
+  REDACTED,
+} from '../../../src/utils/logging';
+import { LoggerInterface } from '../../../src/types';
+
+const createLogger = (): jest.Mocked<LoggerInterface> => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+describe('RedactingLogger', () => {
+  it('should always redact the ApplicationAccessKey', () => {
+    const target = createLogger();
+    const logger = new RedactingLogger(target);
+
+    logger.debug('Request', { headers: { ApplicationAccessKey: 'secret', 'X-Trace': 'abc' } });
+
+    expect(target.debug).toHaveBeenCalledWith('Request', {
+      headers: { ApplicationAccessKey: REDACTED, 'X-Trace': 'abc' },
+    });
+  });
+
+  it('should redact configured row fields at any depth, case-insensitively', () => {
+    const target = createLogger();
+    const logger = new RedactingLogger(target, ['Email', 'salary']);
+
+    logger.info('Rows', {
+      payload: { Rows: [{ id: '1', email: 'a@example.com', Salary: 1000 }] },
+    });
+
+    expect(target.info).toHaveBeenCalledWith('Rows', {
+      payload: { Rows: [{ id: '1', email: REDACTED, Salary: REDACTED }] },
+    });
+  });
+
+  it('should not modify the original context', () => {
+    const logger = new RedactingLogger(createLogger(), ['email']);
+    const context = { row: { email: 'a@example.com' } };
+
+    logger.warn('Row', context);
+
+    expect(context.row.email).toBe('a@example.com');
+  });
+
+  it('should keep dates and errors and handle circular references', () => {
+    const target = createLogger();
+    const logger = new RedactingLogger(target);
+    const date = new Date('2026-03-12T00:00:00Z');
+    const error = new Error('boom');
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    logger.error('Failed', { date, error, circular });
+
+    expect(target.error).toHaveBeenCalledWith('Failed', {
+      date,
+      error,
+      circular: { name: 'loop', self: '[Circular]' },
+    });
+  });
+
+  it('should pass messages without context unchanged', () => {
+    const target = createLogger();
+
+    new RedactingLogger(target).info('Hello');
+
+    expect(target.info).toHaveBeenCalledWith('Hello', undefined);
+  });
+
+  describe('wrap()', () => {
+    it('should return a NoOpLogger without logger', () => {
+      expect(RedactingLogger.wrap()).toBeInstanceOf(NoOpLogger);
+      expect(RedactingLogger.wrap({ redactFields: ['email'] })).toBeInstanceOf(NoOpLogger);
+    });
+
+    it('should wrap configured loggers', () => {
+      const target = createLogger();
+      const logger = RedactingLogger.wrap({ logger: target, redactFields: ['email'] });
+
+      logger.info('Row', { email: 'a@example.com' });
+
+      expect(logger).toBeInstanceOf(RedactingLogger);
+      expect(target.info).toHaveBeenCalledWith('Row', { email: REDACTED });
+    });
+  });
+});
+
+describe('ConsoleLogger', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write info and above by default', () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation();
+    const log = jest.spyOn(console, 'log').mockImplementation();
+    const warn = jest.spyOn(console, 'warn').mockImplementation();
+    const logger = new ConsoleLogger();
+
+    logger.debug('hidden');
+    logger.info('shown');
+    logger.warn('careful', { attempt: 2 });
+
+    expect(debug).not.toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith('shown');
+    expect(warn).toHaveBeenCalledWith('careful', { attempt: 2 });
+  });
+
+  it('should write debug messages at debug level', () => {
+    const debug = jest.spyOn(console, 'debug').mockImplementation();
+
+    new ConsoleLogger('debug').debug('details');
+
+    expect(debug).toHaveBeenCalledWith('details');
+  });
+
+  it('should only write errors at error level', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation();
+    const error = jest.spyOn(console, 'error').mockImplementation();
+    const logger = new ConsoleLogger('error');
+
+    logger.warn('hidden');
+    logger.error('failed');
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledWith('failed');
+  });
+});
+
+describe('PinoLoggerAdapter', () => {
+  it('should pass the context first and the message second', () => {
+    const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = new PinoLoggerAdapter(pino);
+
+    logger.info('Request completed', { durationMs: 12 });
+    logger.error('Request failed');
+
+    expect(pino.info).toHaveBeenCalledWith({ durationMs: 12 }, 'Request completed');
+    expect(pino.error).toHaveBeenCalledWith({}, 'Request failed');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Test Suite: Metrics collectors and Prometheus formatter
+ *
+ * Tests for:
+ * - InMemoryMetricsCollector aggregation per connection, table and action
+ * - Latency histogram buckets
+ * - Snapshot isolation and reset
+ * - PrometheusFormatter output and label escaping
+ *
+ * @module tests/utils/metrics
+ */
+
+import { RequestMetric } from '../../../src/types';
+import { InMemoryMetricsCollector, PrometheusFormatter } from '../../../src/utils/metrics';
+
+const metric = (overrides: Partial<RequestMetric> = {}): RequestMetric => ({
+  appId: 'app-1',
+  tableName: 'extract_user',
+  action: 'Find',
+  durationMs: 40,
+  retries: 0,
+  rowsRead: 0,
+  rowsWritten: 0,
+  ...overrides,
+});
+
+describe('InMemoryMetricsCollector', () => {
+  it('should aggregate requests, errors, retries and rows per table and action', () => {
+    const collector = new InMemoryMetricsCollector();
+
+    collector.recordRequest(metric({ rowsRead: 10 }));
+    collector.recordRequest(metric({ rowsRead: 5, retries: 2 }));
+    collector.recordRequest(metric({ errorCode: 'RATE_LIMIT', retries: 3 }));
+    collector.recordRequest(metric({ action: 'Add', rowsWritten: 4 }));
+    collector.recordRequest(metric({ appId: 'app-2', action: 'Add', rowsWritten: 1 }));
+
+    const { tables } = collector.snapshot();
+    expect(tables).toHaveLength(3);
+    expect(tables[0]).toMatchObject({
+      appId: 'app-1',
+      tableName: 'extract_user',
+      action: 'Find',
+      requests: 3,
+      errors: { RATE_LIMIT: 1 },
+      retries: 5,
+      rowsRead: 15,
+      rowsWritten: 0,
+    });
+    expect(tables[1]).toMatchObject({ appId: 'app-1', action: 'Add', rowsWritten: 4 });
+    expect(tables[2]).toMatchObject({ appId: 'app-2', action: 'Add', rowsWritten: 1 });
+  });
+
+  it('should record latencies in cumulative buckets', () => {
+    const collector = new InMemoryMetricsCollector({ latencyBuckets: [100, 10] });
+
+    collector.recordRequest(metric({ durationMs: 5 }));
+    collector.recordRequest(metric({ durationMs: 50 }));
+    collector.recordRequest(metric({ durationMs: 500 }));
+
+    expect(collector.snapshot().tables[0].latency).toEqual({
+      buckets: [
+        { le: 10, count: 1 },
+        { le: 100, count: 2 },
+      ],
+      sum: 555,
+      count: 3,
+    });
+  });
+
+  it('should return independent snapshots and reset', () => {
+    const collector = new InMemoryMetricsCollector();
+    collector.recordRequest(metric({ errorCode: 'NETWORK_ERROR' }));
+
+    const snapshot = collector.snapshot();
+    collector.recordRequest(metric({ errorCode: 'NETWORK_ERROR' }));
+
+    expect(snapshot.tables[0].requests).toBe(1);
+    expect(snapshot.tables[0].errors.NETWORK_ERROR).toBe(1);
+    expect(snapshot.tables[0].latency.count).toBe(1);
+
+    collector.reset();
+    expect(collector.snapshot().tables).toEqual([]);
+  });
+});
+
+describe('PrometheusFormatter', () => {
+  it('should render counters and histograms in the text exposition format', () => {
+    const collector = new InMemoryMetricsCollector({ latencyBuckets: [50, 100] });
+    collector.recordRequest(metric({ rowsRead: 3, retries: 1 }));
+    collector.recordRequest(metric({ durationMs: 80, errorCode: 'RATE_LIMIT' }));
+
+    const output = new PrometheusFormatter().format(collector.snapshot());
+    const labels = 'app_id="app-1",table="extract_user",action="Find"';
+
+    expect(output.split('\n')).toEqual([
+      '# HELP appsheet_requests_total Total AppSheet API requests',
+      '# TYPE appsheet_requests_total counter',
+      `appsheet_requests_total{${labels}} 2`,
+      '# HELP appsheet_errors_total Failed AppSheet API requests by error code',
+      '# TYPE appsheet_errors_total counter',
+      `appsheet_errors_total{${labels},code="RATE_LIMIT"} 1`,
+      '# HELP appsheet_retries_total Retries of AppSheet API requests',
+      '# TYPE appsheet_retries_total counter',
+      `appsheet_retries_total{${labels}} 1`,
+      '# HELP appsheet_rows_read_total Rows returned by Find requests',
+      '# TYPE appsheet_rows_read_total counter',
+      `appsheet_rows_read_total{${labels}} 3`,
+      '# HELP appsheet_rows_written_total Rows sent by Add, Edit and Delete requests',
+      '# TYPE appsheet_rows_written_total counter',
+      `appsheet_rows_written_total{${labels}} 0`,
+      '# HELP appsheet_request_duration_ms AppSheet API request duration in milliseconds',
+      '# TYPE appsheet_request_duration_ms histogram',
+      `appsheet_request_duration_ms_bucket{${labels},le="50"} 1`,
+      `appsheet_request_duration_ms_bucket{${labels},le="100"} 2`,
+      `appsheet_request_duration_ms_bucket{${labels},le="+Inf"} 2`,
+      `appsheet_request_duration_ms_sum{${labels}} 120`,
+      `appsheet_request_duration_ms_count{${labels}} 2`,
+      '',
+    ]);
+  });
+
+  it('should apply the prefix and escape label values', () => {
+    const collector = new InMemoryMetricsCollector();
+    collector.recordRequest(metric({ tableName: 'odd "name"\\\n' }));
+
+    const output = new PrometheusFormatter('myapp').format(collector.snapshot());
+
+    expect(output).toContain('myapp_requests_total{app_id="app-1",table="odd \\"name\\"\\\\\\n"');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for BackoffRetryPolicy
+ *
+ * Covers:
+ * - Exponential, linear and constant backoff with max delay cap
+ * - Full and equal jitter (with injected random source)
+ * - maxAttempts limit
+ * - Idempotent vs. non-idempotent (Add, named actions) retry rules
+ * - Retry-After handling for rate-limit errors
+ * - Custom retryable error matchers (class, code, status)
+ */
+
+import { BackoffRetryPolicy } from '../../../src/utils/policies/BackoffRetryPolicy';
+import {
+  AppSheetError,
+  AuthenticationError,
+  NetworkError,
+  RateLimitError,
+  RetryContext,
+} from '../../../src/types';
+
+const context = (error: AppSheetError, attempt = 1, action = 'Find'): RetryContext => ({
+  action,
+  tableName: 'extract_user',
+  attempt,
+  error,
+});
+
+const apiError = (status: number) => new AppSheetError('API error', 'API_ERROR', status);
+const serverError = (status = 503) => apiError(status);
+
+describe('BackoffRetryPolicy', () => {
+  describe('backoff strategies', () => {
+    it('should double the delay for exponential backoff', () => {
+      const policy = new BackoffRetryPolicy({ maxAttempts: 10, jitter: 'none' });
+
+      expect(policy.getRetryDelay(context(serverError(), 1))).toBe(1000);
+      expect(policy.getRetryDelay(context(serverError(), 2))).toBe(2000);
+      expect(policy.getRetryDelay(context(serverError(), 3))).toBe(4000);
+    });
+
+    it('should grow the delay linearly for linear backoff', () => {
+      const policy = new BackoffRetryPolicy({
+        maxAttempts: 10,
+        backoff: 'linear',
+        baseDelayMs: 200,
+        jitter: 'none',
+      });
+
+      expect(policy.getRetryDelay(context(serverError(), 1))).toBe(200);
+      expect(policy.getRetryDelay(context(serverError(), 3))).toBe(600);
+    });
+
+    it('should keep the delay for constant backoff', () => {
+      const policy = new BackoffRetryPolicy({
+        maxAttempts: 10,
+        backoff: 'constant',
+        baseDelayMs: 300,
+        jitter: 'none',
+      });
+
+      expect(policy.getRetryDelay(context(serverError(), 1))).toBe(300);
+      expect(policy.getRetryDelay(context(serverError(), 4))).toBe(300);
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+      const policy = new BackoffRetryPolicy({ maxAttempts: 10, maxDelayMs: 5000, jitter: 'none' });
+
+      expect(policy.getRetryDelay(context(serverError(), 8))).toBe(5000);
+    });
+  });
+
+  describe('jitter', () => {
+    it('should apply full jitter by default', () => {
+      const policy = new BackoffRetryPolicy({}, () => 0.5);
+
+      expect(policy.getRetryDelay(context(serverError(), 2))).toBe(1000);
+    });
+
+    it('should apply equal jitter', () => {
+      const policy = new BackoffRetryPolicy({ jitter: 'equal' }, () => 0.5);
+
+      expect(policy.getRetryDelay(context(serverError(), 2))).toBe(1500);
+    });
+  });
+
+  describe('maxAttempts', () => {
+    it('should stop after 3 attempts by default', () => {
+      const policy = new BackoffRetryPolicy({ jitter: 'none' });
+
+      expect(policy.getRetryDelay(context(serverError(), 2))).not.toBeNull();
+      expect(policy.getRetryDelay(context(serverError(), 3))).toBeNull();
+    });
+
+    it('should never retry with maxAttempts 1', () => {
+      const policy = new BackoffRetryPolicy({ maxAttempts: 1 });
+
+      expect(policy.getRetryDelay(context(serverError(), 1))).toBeNull();
+    });
+  });
+
+  describe('retryable errors', () => {
+    const policy = new BackoffRetryPolicy({ jitter: 'none' });
+
+    it.each([
+      ['network errors', new NetworkError('Timeout')],
+      ['rate limits', new RateLimitError('Too many requests')],
+      ['HTTP 500', serverError(500)],
+      ['HTTP 502', serverError(502)],
+      ['HTTP 504', serverError(504)],
+    ])('should retry %s for idempotent actions', (_label, error) => {
+      expect(policy.getRetryDelay(context(error, 1, 'Edit'))).toBe(1000);
+    });
+
+    it.each([
+      ['authentication errors', new AuthenticationError('Invalid key')],
+      ['HTTP 501', serverError(501)],
+      ['HTTP 400', apiError(400)],
+    ])('should not retry %s', (_label, error) => {
+      expect(policy.getRetryDelay(context(error))).toBeNull();
+    });
+
+    it('should only retry rate limits for Add', () => {
+      expect(policy.getRetryDelay(context(new NetworkError('Timeout'), 1, 'Add'))).toBeNull();
+      expect(policy.getRetryDelay(context(serverError(), 1, 'Add'))).toBeNull();
+      expect(policy.getRetryDelay(context(new RateLimitError('Slow down'), 1, 'Add'))).toBe(1000);
+    });
+
+    it('should treat named actions like Add', () => {
+      expect(policy.getRetryDelay(context(serverError(), 1, 'Mark Complete'))).toBeNull();
+      expect(
+        policy.getRetryDelay(context(new RateLimitError('Slow down'), 1, 'Mark Complete'))
+      ).toBe(1000);
+    });
+
+    it('should match custom errors by class, code and status', () => {
+      const custom = new BackoffRetryPolicy({
+        jitter: 'none',
+        retryableErrors: [AuthenticationError, 'API_ERROR', 501],
+      });
+
+      expect(custom.getRetryDelay(context(new AuthenticationError('x')))).toBe(1000);
+      expect(custom.getRetryDelay(context(apiError(400)))).toBe(1000);
+      expect(custom.getRetryDelay(context(new AppSheetError('x', 'OTHER', 501)))).toBe(1000);
+      expect(custom.getRetryDelay(context(new NetworkError('x')))).toBeNull();
+    });
+
+    it('should allow retrying Add for configured errors', () => {
+      const custom = new BackoffRetryPolicy({
+        jitter: 'none',
+        nonIdempotentRetryableErrors: [503],
+      });
+
+      expect(custom.getRetryDelay(context(serverError(503), 1, 'Add'))).toBe(1000);
+    });
+  });
+
+  describe('Retry-After', () => {
+    it('should wait for Retry-After on rate limits', () => {
+      const policy = new BackoffRetryPolicy();
+
+      expect(policy.getRetryDelay(context(new RateLimitError('Slow down', undefined, 7000)))).toBe(
+        7000
+      );
+    });
+
+    it('should stop retrying if Retry-After exceeds maxRetryAfterMs', () => {
+      const policy = new BackoffRetryPolicy({ maxRetryAfterMs: 5000 });
+
+      expect(
+        policy.getRetryDelay(context(new RateLimitError('Slow down', undefined, 7000)))
+      ).toBeNull();
+    });
+
+    it('should use backoff if respectRetryAfter is disabled', () => {
+      const policy = new BackoffRetryPolicy({ respectRetryAfter: false, jitter: 'none' });
+
+      expect(policy.getRetryDelay(context(new RateLimitError('Slow down', undefined, 7000)))).toBe(
+        1000
+      );
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for ReadConversionPolicy implementations
+ *
+ * Tests both built-in policies:
+ * - NoOpReadConversionPolicy (pass-through, default)
+ * - LocaleReadConversionPolicy (locale output → ISO dates and native types)
+ */
+
+import { NoOpReadConversionPolicy } from '../../../src/utils/policies/NoOpReadConversionPolicy';
+import { LocaleReadConversionPolicy } from '../../../src/utils/policies/LocaleReadConversionPolicy';
+import { LocaleWriteConversionPolicy } from '../../../src/utils/policies/LocaleWriteConversionPolicy';
+import { FieldDefinition } from '../../../src/types';
+
+// ============================================
+// Shared test fixtures
+// ============================================
+
+const fields: Record<string, FieldDefinition> = {
+  id: { type: 'Text', required: true },
+  date: { type: 'Date' },
+  created: { type: 'DateTime' },
+  modified: { type: 'ChangeTimestamp' },
+  hours: { type: 'Number' },
+  rate: { type: 'Decimal' },
+  price: { type: 'Price' },
+  share: { type: 'Percent' },
+  version: { type: 'ChangeCounter' },
+  billable: { type: 'YesNo' },
+  tags: { type: 'EnumList' },
+  projects: { type: 'RefList' },
+  name: { type: 'Text' },
+};
+
+// ============================================
+// NoOpReadConversionPolicy
+// ============================================
+
+describe('NoOpReadConversionPolicy', () => {
+  const policy = new NoOpReadConversionPolicy();
+
+  it('should return the exact same array reference', () => {
+    const rows = [{ date: '03/11/2026', hours: '8', billable: 'Y' }];
+    expect(policy.apply('table', rows, fields, 'en-US')).toBe(rows);
+  });
+});
+
+// ============================================
+// LocaleReadConversionPolicy
+// ============================================
+
+describe('LocaleReadConversionPolicy', () => {
+  const policy = new LocaleReadConversionPolicy();
+
+  describe('Date conversion', () => {
+    it('should convert en-US dates to ISO', () => {
+      const [row] = policy.apply('table', [{ date: '03/11/2026' }], fields, 'en-US');
+      expect(row.date).toBe('2026-03-11');
+    });
+
+    it('should convert de-DE dates to ISO', () => {
+      const [row] = policy.apply('table', [{ date: '11.03.2026' }], fields, 'de-DE');
+      expect(row.date).toBe('2026-03-11');
+    });
+
+    it('should convert ja-JP dates to ISO', () => {
+      const [row] = policy.apply('table', [{ date: '2026/03/11' }], fields, 'ja-JP');
+      expect(row.date).toBe('2026-03-11');
+    });
+
+    it('should pad single-digit day and month', () => {
+      const [row] = policy.apply('table', [{ date: '3/1/2026' }], fields, 'en-US');
+      expect(row.date).toBe('2026-03-01');
+    });
+
+    it('should use en-US without locale', () => {
+      const [row] = policy.apply('table', [{ date: '03/11/2026' }], fields);
+      expect(row.date).toBe('2026-03-11');
+    });
+
+    it('should pass through ISO and unparseable dates unchanged', () => {
+      const rows = policy.apply(
+        'table',
+        [{ date: '2026-03-11' }, { date: '13/45/2026' }, { date: 'soon' }, { date: '' }],
+        fields,
+        'en-US'
+      );
+      expect(rows.map((row) => row.date)).toEqual(['2026-03-11', '13/45/2026', 'soon', '']);
+    });
+  });
+
+  describe('DateTime conversion', () => {
+    it('should convert en-US datetimes to ISO without timezone', () => {
+      const [row] = policy.apply('table', [{ created: '03/11/2026 21:51:24' }], fields, 'en-US');
+      expect(row.created).toBe('2026-03-11T21:51:24');
+    });
+
+    it('should convert de-DE datetimes and add missing seconds', () => {
+      const [row] = policy.apply('table', [{ created: '11.03.2026 9:05' }], fields, 'de-DE');
+      expect(row.created).toBe('2026-03-11T09:05:00');
+    });
+
+    it('should convert ChangeTimestamp like DateTime', () => {
+      const [row] = policy.apply('table', [{ modified: '03/11/2026 08:00:00' }], fields, 'en-US');
+      expect(row.modified).toBe('2026-03-11T08:00:00');
+    });
+
+    it('should pass through ISO datetimes unchanged', () => {
+      const [row] = policy.apply('table', [{ created: '2026-03-11T21:51:24Z' }], fields, 'en-US');
+      expect(row.created).toBe('2026-03-11T21:51:24Z');
+    });
+
+    it('should round-trip with LocaleWriteConversionPolicy', () => {
+      const read = policy.apply('table', [{ created: '11.03.2026 21:51:24' }], fields, 'de-DE');
+      const written = new LocaleWriteConversionPolicy().apply('table', read, fields, 'de-DE');
+      expect(written[0].created).toBe('11.03.2026 21:51:24');
+    });
+  });
+
+  describe('Number conversion', () => {
+    it('should convert Number, Decimal and Price values', () => {
+      const [row] = policy.apply(
+        'table',
+        [{ hours: '8', rate: '1,234.5', price: '$19.99' }],
+        fields,
+        'en-US'
+      );
+      expect(row).toEqual({ hours: 8, rate: 1234.5, price: 19.99 });
+    });
+
+    it('should convert ChangeCounter values', () => {
+      const [row] = policy.apply('table', [{ version: '1,204' }], fields, 'en-US');
+      expect(row.version).toBe(1204);
+    });
+
+    it('should use the decimal comma of the locale', () => {
+      const [row] = policy.apply('table', [{ rate: '1.234,5', price: '19,99 €' }], fields, 'de-DE');
+      expect(row).toEqual({ rate: 1234.5, price: 19.99 });
+    });
+
+    it('should read a dot as decimal point if a comma locale value has no comma', () => {
+      const [row] = policy.apply('table', [{ rate: '7.5' }], fields, 'de-DE');
+      expect(row.rate).toBe(7.5);
+    });
+
+    it('should convert Percent values with percent sign to fractions', () => {
+      const rows = policy.apply('table', [{ share: '25%' }, { share: '0.25' }], fields, 'en-US');
+      expect(rows.map((row) => row.share)).toEqual([0.25, 0.25]);
+    });
+
+    it('should pass through empty and non-numeric values unchanged', () => {
+      const rows = policy.apply('table', [{ hours: '' }, { hours: 'n/a' }], fields, 'en-US');
+      expect(rows.map((row) => row.hours)).toEqual(['', 'n/a']);
+    });
+  });
+
+  describe('YesNo conversion', () => {
+    it('should convert Y/N, Yes/No and TRUE/FALSE to booleans', () => {
+      const values = ['Y', 'N', 'Yes', 'no', 'TRUE', 'false'];
+      const rows = policy.apply(
+        'table',
+        values.map((billable) => ({ billable })),
+        fields,
+        'en-US'
+      );
+      expect(rows.map((row) => row.billable)).toEqual([true, false, true, false, true, false]);
+    });
+
+    it('should pass through unknown values unchanged', () => {
+      const [row] = policy.apply('table', [{ billable: 'maybe' }], fields, 'en-US');
+      expect(row.billable).toBe('maybe');
+    });
+  });
+
+  describe('List conversion', () => {
+    it('should split EnumList and RefList values', () => {
+      const [row] = policy.apply(
+        'table',
+        [{ tags: 'Urgent , Internal', projects: 'p1,p2' }],
+        fields,
+        'en-US'
+      );
+      expect(row).toEqual({ tags: ['Urgent', 'Internal'], projects: ['p1', 'p2'] });
+    });
+
+    it('should convert empty lists to empty arrays', () => {
+      const [row] = policy.apply('table', [{ tags: '' }], fields, 'en-US');
+      expect(row.tags).toEqual([]);
+    });
+  });
+
+  describe('edge cases', () => {
+    it('should pass through empty strings except for list fields', () => {
+      const input = { date: '', created: '', hours: '', billable: '', tags: '', projects: '' };
+
+      const [row] = policy.apply('table', [input], fields, 'en-US');
+
+      expect(row).toEqual({ ...input, tags: [], projects: [] });
+    });
+
+    it('should not touch already converted values and other field types', () => {
+      const input = { id: '007', name: 'Y', hours: 8, billable: true, tags: ['A'], extra: 'Y' };
+      const rows = [input];
+
+      const [row] = policy.apply('table', rows, fields, 'en-US');
+
+      expect(row).toBe(input);
+    });
+
+    it('should not mutate original rows', () => {
+      const input = { date: '03/11/2026', hours: '8' };
+
+      policy.apply('table', [input], fields, 'en-US');
+
+      expect(input).toEqual({ date: '03/11/2026', hours: '8' });
+    });
+  });
+});
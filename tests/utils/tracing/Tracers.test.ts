@@ -0,0 +1,133 @@
+/**
+ * Test Suite: Tracers and span helpers
+ *
+ * Tests for:
+ * - InMemoryTracer span recording and parent linking
+ * - traceOperation status, exception and error code handling
+ * - hashSelector
+ * - NoOpTracer
+ *
+ * @module tests/utils/tracing
+ */
+
+import { AppSheetError } from '../../../src/types';
+import {
+  InMemoryTracer,
+  NoOpTracer,
+  SpanAttributeNames,
+  hashSelector,
+  traceOperation,
+} from '../../../src/utils/tracing';
+
+describe('InMemoryTracer', () => {
+  it('should record spans with attributes, omitting undefined values', async () => {
+    const tracer = new InMemoryTracer();
+
+    await tracer.startActiveSpan('op', { a: 'x', b: undefined }, async (span) => {
+      span.setAttribute('c', 3);
+      span.end();
+    });
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.name).toBe('op');
+    expect(span.attributes).toEqual({ a: 'x', c: 3 });
+    expect(span.parentSpanId).toBeUndefined();
+    expect(span.endTime).toBeDefined();
+  });
+
+  it('should link nested spans to the active parent', async () => {
+    const tracer = new InMemoryTracer();
+
+    await tracer.startActiveSpan('outer', {}, async (outer) => {
+      await Promise.all([
+        tracer.startActiveSpan('inner-1', {}, async (span) => span.end()),
+        tracer.startActiveSpan('inner-2', {}, async (span) => span.end()),
+      ]);
+      outer.end();
+    });
+
+    const [outer, inner1, inner2] = tracer.getFinishedSpans();
+    expect(inner1.parentSpanId).toBe(outer.spanId);
+    expect(inner2.parentSpanId).toBe(outer.spanId);
+  });
+
+  it('should distinguish running and finished spans and reset', async () => {
+    const tracer = new InMemoryTracer();
+    await tracer.startActiveSpan('running', {}, async () => undefined);
+
+    expect(tracer.getSpans()).toHaveLength(1);
+    expect(tracer.getFinishedSpans()).toHaveLength(0);
+
+    tracer.reset();
+    expect(tracer.getSpans()).toHaveLength(0);
+  });
+});
+
+describe('traceOperation', () => {
+  it('should set status ok and end the span on success', async () => {
+    const tracer = new InMemoryTracer();
+
+    const result = await traceOperation(tracer, 'op', {}, async () => 42);
+
+    expect(result).toBe(42);
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('ok');
+    expect(span.exceptions).toEqual([]);
+  });
+
+  it('should record exception, status and error code on failure', async () => {
+    const tracer = new InMemoryTracer();
+    const error = new AppSheetError('API error', 'API_ERROR', 500);
+
+    await expect(
+      traceOperation(tracer, 'op', {}, async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('error');
+    expect(span.statusMessage).toBe('API error');
+    expect(span.exceptions).toEqual([error]);
+    expect(span.attributes[SpanAttributeNames.ERROR_CODE]).toBe('API_ERROR');
+  });
+
+  it('should not set an error code for other errors', async () => {
+    const tracer = new InMemoryTracer();
+
+    await expect(
+      traceOperation(tracer, 'op', {}, async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    const [span] = tracer.getFinishedSpans();
+    expect(span.status).toBe('error');
+    expect(span.attributes[SpanAttributeNames.ERROR_CODE]).toBeUndefined();
+  });
+});
+
+describe('hashSelector', () => {
+  it('should return a stable 16 character hash without the selector content', () => {
+    const hash = hashSelector('[email] = "john@example.com"');
+
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hashSelector('[email] = "john@example.com"')).toBe(hash);
+    expect(hashSelector('[email] = "jane@example.com"')).not.toBe(hash);
+  });
+});
+
+describe('NoOpTracer', () => {
+  it('should run the callback and return its result', async () => {
+    const tracer = new NoOpTracer();
+
+    const result = await tracer.startActiveSpan('op', {}, async (span) => {
+      span.setAttribute('a', 1);
+      span.setStatus('ok');
+      span.end();
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for AppSheetTypeValidator row validation
+ *
+ * Covers:
+ * - Collecting all issues across rows and fields
+ * - Rule classification (required, type, format, range, enum)
+ * - Aggregated ValidationError with all issues
+ * - Creating the ValidationError without throwing
+ */
+
+import { AppSheetTypeValidator } from '../../../src/utils/validators/AppSheetTypeValidator';
+import { TableDefinition, ValidationError } from '../../../src/types';
+
+const tableDef: TableDefinition = {
+  tableName: 'extract_contact',
+  keyField: 'id',
+  fields: {
+    id: { type: 'Text', required: true },
+    email: { type: 'Email', required: true },
+    score: { type: 'Percent' },
+    hours: { type: 'Number' },
+    status: { type: 'Enum', allowedValues: ['Active', 'Inactive'] },
+  },
+};
+
+describe('AppSheetTypeValidator', () => {
+  describe('collectIssues', () => {
+    it('should return no issues for valid rows', () => {
+      expect(
+        AppSheetTypeValidator.collectIssues(
+          [{ id: '1', email: 'a@example.com', score: 0.5, hours: 2, status: 'Active' }],
+          tableDef
+        )
+      ).toEqual([]);
+    });
+
+    it('should collect every problem across rows and fields', () => {
+      const issues = AppSheetTypeValidator.collectIssues(
+        [
+          { id: '1', email: 'not-an-email', hours: 'two' },
+          { email: 'b@example.com', score: 1.5, status: 'Deleted' },
+        ],
+        tableDef
+      );
+
+      expect(issues.map(({ rowIndex, field, rule }) => ({ rowIndex, field, rule }))).toEqual([
+        { rowIndex: 0, field: 'email', rule: 'format' },
+        { rowIndex: 0, field: 'hours', rule: 'type' },
+        { rowIndex: 1, field: 'id', rule: 'required' },
+        { rowIndex: 1, field: 'score', rule: 'range' },
+        { rowIndex: 1, field: 'status', rule: 'enum' },
+      ]);
+    });
+
+    it('should describe the offending field, type and value', () => {
+      const [issue] = AppSheetTypeValidator.collectIssues(
+        [{ id: '1', email: 'a@example.com', status: 'Deleted' }],
+        tableDef
+      );
+
+      expect(issue).toEqual({
+        rowIndex: 0,
+        field: 'status',
+        type: 'Enum',
+        value: 'Deleted',
+        rule: 'enum',
+        message: 'Row 0: Field "status" must be one of: Active, Inactive. Got: Deleted',
+      });
+    });
+
+    it('should skip required checks for partial rows and apply the row offset', () => {
+      const issues = AppSheetTypeValidator.collectIssues([{ hours: 'x' }], tableDef, false, 7);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ rowIndex: 7, field: 'hours', rule: 'type' });
+      expect(issues[0].message).toContain('Row 7');
+    });
+  });
+
+  describe('validateRows', () => {
+    it('should throw a single issue with its own message', () => {
+      expect(() =>
+        AppSheetTypeValidator.validateRows([{ email: 'a@example.com' }], tableDef)
+      ).toThrow('Row 0: Field "id" is required in table "extract_contact"');
+    });
+
+    it('should throw all issues in one ValidationError', () => {
+      try {
+        AppSheetTypeValidator.validateRows([{ id: '1' }, { id: '2', email: 'bad' }], tableDef);
+        fail('Should have thrown ValidationError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toMatch(
+          /^2 validation errors in table "extract_contact": Row 0: .*; Row 1: /
+        );
+        expect(error.details.tableName).toBe('extract_contact');
+        expect(error.details.issues).toHaveLength(2);
+      }
+    });
+  });
+
+  describe('createValidationError', () => {
+    it('should return the error for the issues without throwing', () => {
+      const issues = AppSheetTypeValidator.collectIssues([{ id: '1', hours: 'x' }], tableDef);
+
+      const error = AppSheetTypeValidator.createValidationError(issues, tableDef);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error.message).toMatch(/^2 validation errors in table "extract_contact": /);
+      expect(error.details).toEqual({ tableName: 'extract_contact', issues });
+    });
+  });
+});
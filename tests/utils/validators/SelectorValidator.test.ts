@@ -0,0 +1,147 @@
+/**
+ * Unit tests for SelectorValidator
+ *
+ * Covers:
+ * - Unknown field references (including virtual columns and Select() column lists)
+ * - Literal type checks per AppSheet field type
+ * - Enum allowedValues checks
+ * - Aggregated ValidationError with all issues
+ */
+
+import { SelectorValidator } from '../../../src/utils/validators/SelectorValidator';
+import { ExpressionSyntaxError, TableDefinition, ValidationError } from '../../../src/types';
+
+const tableDef: TableDefinition = {
+  tableName: 'extract_task',
+  keyField: 'id',
+  fields: {
+    id: { type: 'Text', required: true },
+    status: { type: 'Enum', allowedValues: ['Active', 'Pending', 'Done'] },
+    category: {
+      type: 'Enum',
+      allowedValues: ['A', 'B'],
+      appSheetConfig: { allowOtherValues: true },
+    },
+    hours: { type: 'Number' },
+    due: { type: 'Date' },
+    done: { type: 'YesNo' },
+    tags: { type: 'EnumList', allowedValues: ['x', 'y'] },
+    owner: { type: 'Ref', referencedTable: 'extract_user' },
+  },
+};
+
+const issues = (selector: string) => SelectorValidator.collectIssues(selector, tableDef);
+
+describe('SelectorValidator', () => {
+  describe('field references', () => {
+    it('should accept known fields and virtual columns', () => {
+      expect(issues('Filter(extract_task, AND([id] = "1", [_RowNumber] > 10))')).toEqual([]);
+    });
+
+    it('should report each unknown field once', () => {
+      expect(issues('OR([stauts] = "Active", ISBLANK([stauts]), [hourz] > 1)')).toEqual([
+        expect.objectContaining({ type: 'unknownField', field: 'stauts' }),
+        expect.objectContaining({ type: 'unknownField', field: 'hourz' }),
+      ]);
+    });
+
+    it('should check column lists of the same table and skip other tables', () => {
+      expect(issues('Select(extract_task[key], TRUE)')).toEqual([
+        expect.objectContaining({ type: 'unknownField', field: 'key' }),
+      ]);
+      expect(issues('IN([owner], extract_user[id])')).toEqual([]);
+    });
+  });
+
+  describe('literal types', () => {
+    it('should flag text compared to a Number field', () => {
+      expect(issues('[hours] > "8"')).toEqual([
+        {
+          type: 'typeMismatch',
+          field: 'hours',
+          value: '8',
+          message: 'Field "hours" (Number) compared with text "8"',
+        },
+      ]);
+    });
+
+    it('should flag numbers and booleans compared to text fields', () => {
+      expect(issues('[id] = 1')).toHaveLength(1);
+      expect(issues('TRUE = [id]')).toHaveLength(1);
+    });
+
+    it('should accept matching literals on either side', () => {
+      expect(issues('[hours] >= 1.5')).toEqual([]);
+      expect(issues('8 < [hours]')).toEqual([]);
+      expect(issues('[done] = TRUE')).toEqual([]);
+      expect(issues('[done] = "Y"')).toEqual([]);
+      expect(issues('[due] < DATE("2026-03-12")')).toEqual([]);
+      expect(issues('[due] < "2026-03-12"')).toEqual([]);
+    });
+
+    it('should flag invalid Yes/No and date literals', () => {
+      expect(issues('[done] = "maybe"')).toHaveLength(1);
+      expect(issues('[due] > 5')).toHaveLength(1);
+    });
+
+    it('should accept blank checks for all types', () => {
+      expect(issues('AND([hours] = "", [done] <> "", [status] = "")')).toEqual([]);
+    });
+
+    it('should skip comparisons against expressions and list fields', () => {
+      expect(issues('[due] >= TODAY() - 7')).toEqual([]);
+      expect(issues('[hours] > [hours] * 2')).toEqual([]);
+      expect(issues('[owner] = 42')).toEqual([]);
+    });
+  });
+
+  describe('enum values', () => {
+    it('should flag values not in allowedValues (case-insensitive)', () => {
+      expect(issues('[status] = "active"')).toEqual([]);
+      expect(issues('[status] = "Archived"')).toEqual([
+        expect.objectContaining({ type: 'invalidEnumValue', field: 'status', value: 'Archived' }),
+      ]);
+    });
+
+    it('should check every item of IN lists', () => {
+      expect(issues('IN([status], LIST("Done", "Closed", 1))').map((i) => i.type)).toEqual([
+        'invalidEnumValue',
+        'typeMismatch',
+      ]);
+      expect(issues('[status] IN ("Done", "Closed")')).toHaveLength(1);
+    });
+
+    it('should accept any value when allowOtherValues is set', () => {
+      expect(issues('[category] = "Z"')).toEqual([]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should throw a ValidationError listing all problems', () => {
+      const selector = 'Filter(extract_task, AND([hours] > "8", [stauts] = "Active"))';
+
+      try {
+        SelectorValidator.validate(selector, tableDef);
+        fail('Should have thrown ValidationError');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.message).toMatch(/^Invalid selector for table "extract_task": /);
+        expect(error.message).toContain('Field "hours" (Number) compared with text "8"');
+        expect(error.message).toContain('Unknown field "stauts"');
+        expect(error.details.tableName).toBe('extract_task');
+        expect(error.details.selector).toBe(selector);
+        expect(error.details.issues).toHaveLength(2);
+      }
+    });
+
+    it('should not throw for valid selectors', () => {
+      expect(() => SelectorValidator.validate('[status] = "Done"', tableDef)).not.toThrow();
+    });
+
+    it('should propagate syntax errors', () => {
+      expect(() => SelectorValidator.validate('[status] = ', tableDef)).toThrow(
+        ExpressionSyntaxError
+      );
+    });
+  });
+});